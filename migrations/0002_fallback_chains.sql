@@ -0,0 +1,5 @@
+-- Ordered list of model_ids to try when a model's provider fails (JSON array)
+ALTER TABLE ai_models ADD COLUMN fallback_models TEXT;
+
+-- Every upstream attempt made while serving a request (JSON array)
+ALTER TABLE request_logs ADD COLUMN attempts TEXT;
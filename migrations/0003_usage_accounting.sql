@@ -0,0 +1,12 @@
+-- Separate input/output pricing (per 1K tokens); cost_per_1k_tokens remains the fallback
+ALTER TABLE ai_models ADD COLUMN input_cost_per_1k REAL;
+ALTER TABLE ai_models ADD COLUMN output_cost_per_1k REAL;
+
+-- Token usage and cost per request
+ALTER TABLE request_logs ADD COLUMN prompt_tokens INTEGER DEFAULT 0;
+ALTER TABLE request_logs ADD COLUMN completion_tokens INTEGER DEFAULT 0;
+ALTER TABLE request_logs ADD COLUMN total_tokens INTEGER DEFAULT 0;
+ALTER TABLE request_logs ADD COLUMN cost REAL DEFAULT 0;
+
+-- One usage_stats row per user per period, so rollups can upsert
+CREATE UNIQUE INDEX IF NOT EXISTS idx_usage_stats_user_period_start ON usage_stats(user_id, period_start);
@@ -0,0 +1,20 @@
+-- Spending budgets per user, or per API key when api_key_id is set
+CREATE TABLE IF NOT EXISTS budgets (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  api_key_id INTEGER,
+  period TEXT NOT NULL CHECK(period IN ('daily', 'monthly')),
+  limit_type TEXT NOT NULL CHECK(limit_type IN ('cost', 'tokens')),
+  soft_limit REAL,
+  hard_limit REAL,
+  webhook_url TEXT,
+  reset_at DATETIME,
+  soft_notified_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (api_key_id) REFERENCES api_keys(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_budgets_user_id ON budgets(user_id);
+CREATE INDEX IF NOT EXISTS idx_request_logs_api_key_id ON request_logs(api_key_id);
@@ -0,0 +1,15 @@
+-- API keys are stored as a salted SHA-256 hash plus a short public prefix for
+-- lookup and display. Once key_hash is set, api_key holds the same hash (it keeps
+-- its UNIQUE/NOT NULL constraints but never the plaintext key). Rows with a NULL
+-- key_hash are legacy plaintext keys; they are hashed on first use or by
+-- POST /api/keys/migrate-legacy.
+ALTER TABLE users ADD COLUMN key_prefix TEXT;
+ALTER TABLE users ADD COLUMN key_hash TEXT;
+ALTER TABLE users ADD COLUMN key_salt TEXT;
+
+ALTER TABLE api_keys ADD COLUMN key_prefix TEXT;
+ALTER TABLE api_keys ADD COLUMN key_hash TEXT;
+ALTER TABLE api_keys ADD COLUMN key_salt TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_users_key_prefix ON users(key_prefix);
+CREATE INDEX IF NOT EXISTS idx_api_keys_key_prefix ON api_keys(key_prefix);
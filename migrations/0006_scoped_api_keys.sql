@@ -0,0 +1,7 @@
+-- Per-key scopes for named API keys. NULL means unrestricted; list columns
+-- hold JSON arrays.
+ALTER TABLE api_keys ADD COLUMN allowed_endpoints TEXT;
+ALTER TABLE api_keys ADD COLUMN allowed_models TEXT;
+ALTER TABLE api_keys ADD COLUMN allowed_providers TEXT;
+ALTER TABLE api_keys ADD COLUMN max_tokens_per_request INTEGER;
+ALTER TABLE api_keys ADD COLUMN allowed_cidrs TEXT;
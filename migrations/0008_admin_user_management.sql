@@ -0,0 +1,8 @@
+-- Admin user management: JWTs issued at or before sessions_revoked_at are
+-- rejected, and password_reset_required forces a password change after an
+-- admin reset.
+ALTER TABLE users ADD COLUMN sessions_revoked_at DATETIME;
+ALTER TABLE users ADD COLUMN password_reset_required INTEGER DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_action ON audit_logs(action);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_actor ON audit_logs(actor_user_id);
@@ -0,0 +1,17 @@
+-- Model catalog management. max_tokens holds the model's context window;
+-- max_output_tokens caps a single completion. upstream_model_id is sent to the
+-- provider when it differs from the public model_id.
+ALTER TABLE ai_models ADD COLUMN upstream_model_id TEXT;
+ALTER TABLE ai_models ADD COLUMN max_output_tokens INTEGER;
+ALTER TABLE ai_models ADD COLUMN supports_vision INTEGER DEFAULT 0;
+ALTER TABLE ai_models ADD COLUMN supports_tools INTEGER DEFAULT 0;
+ALTER TABLE ai_models ADD COLUMN supports_json_mode INTEGER DEFAULT 0;
+ALTER TABLE ai_models ADD COLUMN supports_streaming INTEGER DEFAULT 1;
+
+-- After deprecated_at the model is retired: requests are redirected to
+-- replacement_model_id or rejected, depending on RETIRED_MODEL_POLICY
+ALTER TABLE ai_models ADD COLUMN deprecated_at DATETIME;
+ALTER TABLE ai_models ADD COLUMN replacement_model_id TEXT;
+ALTER TABLE ai_models ADD COLUMN updated_at DATETIME;
+
+CREATE INDEX IF NOT EXISTS idx_ai_models_model_id ON ai_models(model_id);
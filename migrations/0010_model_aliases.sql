@@ -0,0 +1,17 @@
+-- Admin-defined model aliases (e.g. default-fast, team-x/summarizer) resolving
+-- to a catalog model, with optional default parameters
+CREATE TABLE IF NOT EXISTS model_aliases (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  alias TEXT UNIQUE NOT NULL,
+  model_id TEXT NOT NULL,
+  description TEXT,
+  system_prompt TEXT,
+  temperature REAL,
+  max_tokens INTEGER,
+  is_active INTEGER DEFAULT 1,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Alias the client asked for; model_name holds the model that served the request
+ALTER TABLE request_logs ADD COLUMN model_alias TEXT;
@@ -0,0 +1,11 @@
+-- Weighted A/B variants: an alias may split traffic across several catalog
+-- models, e.g. [{"model": "gpt-4", "weight": 80}, {"model": "claude-3-opus-20240229", "weight": 20}].
+-- model_id stays the first variant so older readers still resolve the alias.
+ALTER TABLE model_aliases ADD COLUMN variants TEXT;
+
+-- Assignment is sticky per 'user' or per 'api_key'
+ALTER TABLE model_aliases ADD COLUMN sticky_by TEXT DEFAULT 'user';
+
+-- Variant (catalog model) chosen for a request to a split alias
+ALTER TABLE request_logs ADD COLUMN model_variant TEXT;
+CREATE INDEX IF NOT EXISTS idx_request_logs_variant ON request_logs(model_alias, model_variant);
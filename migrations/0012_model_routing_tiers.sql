@@ -0,0 +1,6 @@
+-- Smart routing tiers: `auto` only picks among models sharing the requested
+-- tier (e.g. "fast" or "frontier"), which the admin marks as interchangeable.
+-- Models without a tier are never picked by `auto`.
+ALTER TABLE ai_models ADD COLUMN routing_tier TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_ai_models_routing_tier ON ai_models(routing_tier);
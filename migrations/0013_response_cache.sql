@@ -0,0 +1,22 @@
+-- Exact-match response cache for opted-in chat/completion requests, scoped per user
+CREATE TABLE IF NOT EXISTS response_cache (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  cache_key TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  response TEXT NOT NULL,
+  cost REAL DEFAULT 0,
+  hits INTEGER DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  expires_at DATETIME NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  UNIQUE (user_id, cache_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_response_cache_expires ON response_cache(expires_at);
+
+-- 'hit' or 'miss' for cacheable requests; hits are logged with zero cost and
+-- the upstream cost they avoided in saved_cost
+ALTER TABLE request_logs ADD COLUMN cache_status TEXT;
+ALTER TABLE request_logs ADD COLUMN saved_cost REAL DEFAULT 0;
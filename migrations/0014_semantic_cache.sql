@@ -0,0 +1,31 @@
+-- Semantic response cache: a request whose last user message embeds within a
+-- cosine-similarity threshold of a cached one (same API key and model, same
+-- preceding context and parameters) is served the cached answer. Vectors from
+-- different embedding models aren't comparable, so lookups also match on
+-- embedding_model.
+CREATE TABLE IF NOT EXISTS semantic_cache (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  api_key_id INTEGER NOT NULL,
+  model TEXT NOT NULL,
+  context_key TEXT NOT NULL,
+  prompt TEXT NOT NULL,
+  embedding_model TEXT NOT NULL,
+  embedding TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  served_model TEXT NOT NULL,
+  response TEXT NOT NULL,
+  cost REAL DEFAULT 0,
+  hits INTEGER DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  expires_at DATETIME NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (api_key_id) REFERENCES api_keys(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_semantic_cache_lookup ON semantic_cache(api_key_id, model, context_key, embedding_model);
+CREATE INDEX IF NOT EXISTS idx_semantic_cache_expires ON semantic_cache(expires_at);
+
+-- Per-key semantic cache settings: JSON map of route to similarity threshold,
+-- e.g. {"chat": 0.92}. NULL disables the semantic cache for the key.
+ALTER TABLE api_keys ADD COLUMN semantic_cache TEXT;
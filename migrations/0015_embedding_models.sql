@@ -0,0 +1,6 @@
+-- Embedding models live in the same catalog as chat models; model_type keeps
+-- them apart. embedding_dimensions is the model's native vector size.
+ALTER TABLE ai_models ADD COLUMN model_type TEXT DEFAULT 'chat';
+ALTER TABLE ai_models ADD COLUMN embedding_dimensions INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_ai_models_type ON ai_models(model_type);
@@ -0,0 +1,52 @@
+-- Asynchronous batch jobs: a JSONL file of chat requests processed in the
+-- background, one batch_items row per line
+CREATE TABLE IF NOT EXISTS batches (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  api_key_id INTEGER,
+  -- validating, queued, in_progress, completed or cancelled
+  status TEXT NOT NULL DEFAULT 'validating',
+  total_requests INTEGER NOT NULL DEFAULT 0,
+  completed_requests INTEGER DEFAULT 0,
+  failed_requests INTEGER DEFAULT 0,
+  prompt_tokens INTEGER DEFAULT 0,
+  completion_tokens INTEGER DEFAULT 0,
+  cost REAL DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  started_at DATETIME,
+  completed_at DATETIME,
+  cancelled_at DATETIME,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (api_key_id) REFERENCES api_keys(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_batches_user ON batches(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_batches_status ON batches(status);
+
+-- One row per input line; result holds the line's output JSONL record
+CREATE TABLE IF NOT EXISTS batch_items (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  batch_id INTEGER NOT NULL,
+  line INTEGER NOT NULL,
+  custom_id TEXT NOT NULL,
+  request TEXT NOT NULL,
+  -- pending, running, succeeded, failed or cancelled
+  status TEXT NOT NULL DEFAULT 'pending',
+  result TEXT,
+  error_message TEXT,
+  provider TEXT,
+  model TEXT,
+  prompt_tokens INTEGER DEFAULT 0,
+  completion_tokens INTEGER DEFAULT 0,
+  cost REAL DEFAULT 0,
+  started_at DATETIME,
+  completed_at DATETIME,
+  FOREIGN KEY (batch_id) REFERENCES batches(id) ON DELETE CASCADE,
+  UNIQUE (batch_id, line)
+);
+
+CREATE INDEX IF NOT EXISTS idx_batch_items_status ON batch_items(batch_id, status);
+
+-- Batch lines are logged like requests, tagged with their batch
+ALTER TABLE request_logs ADD COLUMN batch_id INTEGER;
+CREATE INDEX IF NOT EXISTS idx_request_logs_batch ON request_logs(batch_id);
@@ -114,11 +114,10 @@ async function handleLogin(e) {
     });
     
     authToken = response.data.token;
-    apiKey = response.data.user.apiKey;
     currentUser = response.data.user;
     
+    // API keys are stored hashed, so login only returns the key prefix
     localStorage.setItem('authToken', authToken);
-    localStorage.setItem('apiKey', apiKey);
     
     document.querySelector('.fixed').remove();
     updateUIForAuthenticatedUser();
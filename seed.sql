@@ -11,6 +11,11 @@ INSERT OR IGNORE INTO ai_models (provider, model_name, model_id, description, ma
   ('cohere', 'Command', 'command', 'Cohere flagship model', 4096, 0.015, 1),
   ('cohere', 'Command Light', 'command-light', 'Lightweight model', 4096, 0.005, 1);
 
+-- OpenAI-compatible providers (activate once MISTRAL_API_KEY / GROQ_API_KEY are set)
+INSERT OR IGNORE INTO ai_models (provider, model_name, model_id, description, max_tokens, cost_per_1k_tokens, is_active) VALUES
+  ('mistral', 'Mistral Large', 'mistral-large-latest', 'Mistral flagship model', 128000, 0.008, 0),
+  ('groq', 'Llama 3 70B (Groq)', 'llama3-70b-8192', 'Llama 3 70B on Groq LPUs', 8192, 0.0008, 0);
+
 -- Insert demo admin user (password: admin123)
 -- Password hash generated with bcrypt, salt rounds: 10
 INSERT OR IGNORE INTO users (email, username, password_hash, api_key, role, is_active) VALUES
@@ -25,3 +30,53 @@ INSERT OR IGNORE INTO api_keys (user_id, key_name, api_key, is_active) VALUES
   (1, 'Production Key', 'apk_prod_admin_abc123xyz', 1),
   (1, 'Development Key', 'apk_dev_admin_def456uvw', 1),
   (2, 'Personal Key', 'apk_personal_user_ghi789rst', 1);
+
+-- Fallback chains
+UPDATE ai_models SET fallback_models = '["claude-3-sonnet-20240229","gemini-pro"]' WHERE model_id = 'gpt-4';
+UPDATE ai_models SET fallback_models = '["claude-3-haiku-20240307","command-light"]' WHERE model_id = 'gpt-3.5-turbo';
+
+-- Input/output pricing per 1K tokens
+UPDATE ai_models SET input_cost_per_1k = 0.01, output_cost_per_1k = 0.03 WHERE model_id = 'gpt-4-turbo-preview';
+UPDATE ai_models SET input_cost_per_1k = 0.03, output_cost_per_1k = 0.06 WHERE model_id = 'gpt-4';
+UPDATE ai_models SET input_cost_per_1k = 0.0005, output_cost_per_1k = 0.0015 WHERE model_id = 'gpt-3.5-turbo';
+UPDATE ai_models SET input_cost_per_1k = 0.015, output_cost_per_1k = 0.075 WHERE model_id = 'claude-3-opus-20240229';
+UPDATE ai_models SET input_cost_per_1k = 0.003, output_cost_per_1k = 0.015 WHERE model_id = 'claude-3-sonnet-20240229';
+UPDATE ai_models SET input_cost_per_1k = 0.00025, output_cost_per_1k = 0.00125 WHERE model_id = 'claude-3-haiku-20240307';
+UPDATE ai_models SET input_cost_per_1k = 0.0005, output_cost_per_1k = 0.0015 WHERE model_id = 'gemini-pro';
+UPDATE ai_models SET input_cost_per_1k = 0.0005, output_cost_per_1k = 0.0015 WHERE model_id = 'gemini-pro-vision';
+UPDATE ai_models SET input_cost_per_1k = 0.001, output_cost_per_1k = 0.002 WHERE model_id = 'command';
+UPDATE ai_models SET input_cost_per_1k = 0.0003, output_cost_per_1k = 0.0006 WHERE model_id = 'command-light';
+UPDATE ai_models SET input_cost_per_1k = 0.004, output_cost_per_1k = 0.012 WHERE model_id = 'mistral-large-latest';
+UPDATE ai_models SET input_cost_per_1k = 0.00059, output_cost_per_1k = 0.00079 WHERE model_id = 'llama3-70b-8192';
+
+-- Capabilities and output limits
+UPDATE ai_models SET supports_vision = 1, supports_tools = 1, supports_json_mode = 1, max_output_tokens = 4096 WHERE model_id = 'gpt-4-turbo-preview';
+UPDATE ai_models SET supports_tools = 1, max_output_tokens = 8192 WHERE model_id = 'gpt-4';
+UPDATE ai_models SET supports_tools = 1, supports_json_mode = 1, max_output_tokens = 4096 WHERE model_id = 'gpt-3.5-turbo';
+UPDATE ai_models SET supports_vision = 1, supports_tools = 1, max_output_tokens = 4096 WHERE provider = 'anthropic';
+UPDATE ai_models SET supports_tools = 1, supports_json_mode = 1, max_output_tokens = 8192 WHERE model_id = 'gemini-pro';
+UPDATE ai_models SET supports_vision = 1, max_output_tokens = 2048 WHERE model_id = 'gemini-pro-vision';
+UPDATE ai_models SET supports_tools = 1, max_output_tokens = 4000 WHERE provider = 'cohere';
+UPDATE ai_models SET supports_tools = 1, supports_json_mode = 1, max_output_tokens = 8192 WHERE provider IN ('mistral', 'groq');
+
+-- Model aliases
+INSERT OR IGNORE INTO model_aliases (alias, model_id, description) VALUES
+  ('default-fast', 'gpt-3.5-turbo', 'Fast, inexpensive general-purpose model'),
+  ('default-smart', 'claude-3-sonnet-20240229', 'Stronger reasoning at moderate cost');
+
+-- A/B alias splitting traffic 80/20 between two models
+INSERT OR IGNORE INTO model_aliases (alias, model_id, description, variants, sticky_by) VALUES
+  ('smart-ab', 'claude-3-sonnet-20240229', 'Claude 3 Sonnet vs GPT-4 experiment',
+   '[{"model": "claude-3-sonnet-20240229", "weight": 80}, {"model": "gpt-4", "weight": 20}]', 'user');
+
+-- Embedding models (priced per 1K input tokens)
+INSERT OR IGNORE INTO ai_models (provider, model_name, model_id, description, max_tokens, cost_per_1k_tokens, is_active) VALUES
+  ('openai', 'Text Embedding 3 Small', 'text-embedding-3-small', 'Fast, inexpensive OpenAI embeddings', 8191, 0.00002, 1),
+  ('openai', 'Text Embedding 3 Large', 'text-embedding-3-large', 'Highest quality OpenAI embeddings', 8191, 0.00013, 1),
+  ('cohere', 'Embed English v3', 'embed-english-v3.0', 'Cohere English embeddings', 512, 0.0001, 1),
+  ('google', 'Gemini Text Embedding 004', 'text-embedding-004', 'Google text embeddings', 2048, 0.00001, 1);
+
+UPDATE ai_models SET model_type = 'embedding', supports_streaming = 0, output_cost_per_1k = 0, embedding_dimensions = 1536 WHERE model_id = 'text-embedding-3-small';
+UPDATE ai_models SET model_type = 'embedding', supports_streaming = 0, output_cost_per_1k = 0, embedding_dimensions = 3072 WHERE model_id = 'text-embedding-3-large';
+UPDATE ai_models SET model_type = 'embedding', supports_streaming = 0, output_cost_per_1k = 0, embedding_dimensions = 1024 WHERE model_id = 'embed-english-v3.0';
+UPDATE ai_models SET model_type = 'embedding', supports_streaming = 0, output_cost_per_1k = 0, embedding_dimensions = 768 WHERE model_id = 'text-embedding-004';
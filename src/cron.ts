@@ -0,0 +1,49 @@
+// Scheduled jobs Worker. Cloudflare Pages only serves `fetch`, so the Cron
+// Triggers run from this separate Worker (wrangler.cron.jsonc), bound to the
+// same D1 database as the Pages project.
+
+import type { ScheduledController, ExecutionContext } from '@cloudflare/workers-types';
+import type { Bindings } from './types';
+import { runKeyExpiryJob } from './utils/keyExpiry';
+import { drainBatchJobs } from './utils/batches';
+import { deleteExpiredCacheEntries } from './utils/database';
+
+// Schedule (in wrangler.cron.jsonc) of the hourly key expiry and cache purge;
+// every other trigger processes batch jobs
+const MAINTENANCE_CRON = '0 * * * *';
+
+// Time a batch trigger keeps claiming lines; it fires every minute, so this
+// stays under the interval to keep runs from piling up
+const BATCH_BUDGET_MS = 50 * 1000;
+
+/**
+ * Cron Trigger handler: deactivate expired API keys, send expiry warnings and
+ * purge expired response cache entries on the hourly trigger, and process
+ * queued batch lines on the others
+ */
+async function scheduled(controller: ScheduledController, env: Bindings, ctx: ExecutionContext) {
+  if (controller.cron !== MAINTENANCE_CRON) {
+    ctx.waitUntil(
+      drainBatchJobs(env, BATCH_BUDGET_MS)
+        .then(result => console.log('Batch jobs:', result))
+        .catch(error => console.error('Batch jobs error:', error))
+    );
+    return;
+  }
+
+  ctx.waitUntil(
+    runKeyExpiryJob(env)
+      .then(result => console.log('Key expiry job:', result))
+      .catch(error => console.error('Key expiry job error:', error))
+  );
+
+  ctx.waitUntil(
+    deleteExpiredCacheEntries(env.DB)
+      .then(purged => console.log('Response cache purge:', { purged }))
+      .catch(error => console.error('Response cache purge error:', error))
+  );
+}
+
+export default {
+  scheduled
+};
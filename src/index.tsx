@@ -1,12 +1,18 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
-import { serveStatic } from 'hono/cloudflare-workers';
+import { serveStatic } from 'hono/cloudflare-pages';
 import { swaggerUI } from '@hono/swagger-ui';
 import type { Bindings, Variables } from './types';
 import { requestLogger, consoleLogger } from './middleware/logger';
 import authRoutes from './routes/auth';
 import aiRoutes from './routes/ai';
+import openaiRoutes from './routes/openai';
+import anthropicRoutes from './routes/anthropic';
 import analyticsRoutes from './routes/analytics';
+import budgetRoutes from './routes/budgets';
+import keyRoutes from './routes/keys';
+import adminRoutes from './routes/admin';
+import { openAIError } from './utils/openaiCompat';
 
 const app = new Hono<{ Bindings: Bindings; Variables: Variables }>();
 
@@ -14,20 +20,29 @@ const app = new Hono<{ Bindings: Bindings; Variables: Variables }>();
 app.use('*', cors({
   origin: '*',
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
-  exposeHeaders: ['X-RateLimit-Limit', 'X-RateLimit-Remaining', 'X-RateLimit-Reset']
+  allowHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'anthropic-version'],
+  exposeHeaders: ['X-RateLimit-Limit', 'X-RateLimit-Remaining', 'X-RateLimit-Reset', 'X-Provider', 'X-Model', 'X-Model-Alias', 'X-Model-Variant', 'X-Model-Selection', 'X-Cache', 'X-Cache-Similarity', 'X-Model-Deprecation', 'X-Budget-Warning']
 }));
 
 app.use('*', consoleLogger);
 app.use('/api/*', requestLogger);
+app.use('/v1/*', requestLogger);
 
 // Serve static files from public/static directory
-app.use('/static/*', serveStatic({ root: './public' }));
+app.use('/static/*', serveStatic());
 
 // API Routes
 app.route('/api/auth', authRoutes);
 app.route('/api/ai', aiRoutes);
 app.route('/api/analytics', analyticsRoutes);
+app.route('/api/budgets', budgetRoutes);
+app.route('/api/keys', keyRoutes);
+app.route('/api/admin', adminRoutes);
+app.route('/v1', openaiRoutes);
+app.route('/v1', anthropicRoutes);
+
+// Unknown /v1 paths get an OpenAI-style error instead of the plain 404
+app.all('/v1/*', (c) => c.json(openAIError(404, `Invalid URL (${c.req.method} ${c.req.path})`), 404));
 
 // Swagger documentation
 app.get('/api/docs', swaggerUI({
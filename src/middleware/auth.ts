@@ -1,12 +1,26 @@
 // Authentication middleware
 
 import { Context, Next } from 'hono';
-import type { Bindings, Variables, User, ApiKey } from '../types';
+import type { Bindings, Variables, User } from '../types';
 import { verifyJWT } from '../utils/auth';
-import { getUserByApiKey, getApiKeyDetails, updateApiKeyLastUsed } from '../utils/database';
+import { getUserByApiKey, getApiKeyDetails, updateApiKeyLastUsed, fromSqlTimestamp } from '../utils/database';
 
 const JWT_SECRET = 'your-secret-key-change-in-production'; // Should be in environment variables
 
+// Routes still reachable while an admin-forced password change is pending
+const PASSWORD_RESET_ALLOWED_PATHS = ['/api/auth/me', '/api/auth/password'];
+
+/**
+ * Check whether a token was issued before the user's sessions were revoked
+ */
+function isSessionRevoked(user: User, payload: any): boolean {
+  if (!user.sessions_revoked_at) {
+    return false;
+  }
+
+  return payload.iat * 1000 <= fromSqlTimestamp(user.sessions_revoked_at).getTime();
+}
+
 /**
  * JWT Authentication middleware
  * Verifies JWT token from Authorization header
@@ -35,6 +49,14 @@ export async function authMiddleware(
       return c.json({ error: 'Unauthorized - Invalid user' }, 401);
     }
 
+    if (isSessionRevoked(user, payload)) {
+      return c.json({ error: 'Unauthorized - Session revoked' }, 401);
+    }
+
+    if (user.password_reset_required && !PASSWORD_RESET_ALLOWED_PATHS.includes(c.req.path)) {
+      return c.json({ error: 'Forbidden - Password reset required' }, 403);
+    }
+
     // Store user in context
     c.set('user', user);
     await next();
@@ -45,13 +67,16 @@ export async function authMiddleware(
 
 /**
  * API Key Authentication middleware
- * Verifies API key from X-API-Key header
+ * Verifies API key from X-API-Key header, or from an `Authorization: Bearer`
+ * header as sent by OpenAI SDKs
  */
 export async function apiKeyMiddleware(
   c: Context<{ Bindings: Bindings; Variables: Variables }>,
   next: Next
 ) {
-  const apiKey = c.req.header('X-API-Key');
+  const authHeader = c.req.header('Authorization');
+  const apiKey = c.req.header('X-API-Key') ||
+    (authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : undefined);
 
   if (!apiKey) {
     return c.json({ error: 'Unauthorized - No API key provided' }, 401);
@@ -74,6 +99,18 @@ export async function apiKeyMiddleware(
       return c.json({ error: 'Unauthorized - Invalid API key' }, 401);
     }
 
+    // Checked before is_active, since the expiry job deactivates expired keys
+    if (apiKeyDetails.expires_at && fromSqlTimestamp(apiKeyDetails.expires_at) <= new Date()) {
+      return c.json({
+        error: 'Unauthorized - API key expired',
+        expiredAt: fromSqlTimestamp(apiKeyDetails.expires_at).toISOString()
+      }, 401);
+    }
+
+    if (!apiKeyDetails.is_active) {
+      return c.json({ error: 'Unauthorized - Invalid API key' }, 401);
+    }
+
     // Get user associated with API key
     const keyUser = await c.env.DB.prepare('SELECT * FROM users WHERE id = ?')
       .bind(apiKeyDetails.user_id)
@@ -116,7 +153,7 @@ export async function optionalAuthMiddleware(
         .bind(payload.userId)
         .first() as User | null;
 
-      if (user && user.is_active) {
+      if (user && user.is_active && !isSessionRevoked(user, payload)) {
         c.set('user', user);
       }
     } catch (error) {
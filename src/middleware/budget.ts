@@ -0,0 +1,76 @@
+// Spending budget enforcement middleware
+
+import { Context, Next } from 'hono';
+import type { Bindings, Variables } from '../types';
+import { getApplicableBudgets, markBudgetNotified, fromSqlTimestamp } from '../utils/database';
+import { getBudgetStatus, formatBudgetAmount, serializeBudgetStatus } from '../utils/budgets';
+import { sendWebhook } from '../utils/webhooks';
+
+/**
+ * Budget enforcement middleware
+ * Rejects requests once a hard limit is reached and warns (header + webhook)
+ * once a soft limit is reached. Should be used after auth middleware.
+ */
+export async function budgetGuard(
+  c: Context<{ Bindings: Bindings; Variables: Variables }>,
+  next: Next
+) {
+  const user = c.get('user');
+  const apiKey = c.get('apiKey');
+
+  if (!user) {
+    await next();
+    return;
+  }
+
+  try {
+    const budgets = await getApplicableBudgets(c.env.DB, user.id, apiKey?.id);
+    const warnings: string[] = [];
+
+    for (const budget of budgets) {
+      const status = await getBudgetStatus(c.env.DB, budget);
+      const scope = budget.api_key_id !== null ? 'this API key' : 'this account';
+
+      if (status.hardExceeded) {
+        return c.json({
+          error: 'Budget exceeded',
+          message: `The ${budget.period} ${budget.limit_type} budget of ${formatBudgetAmount(budget, budget.hard_limit!)} for ${scope} has been reached. It resets at ${status.periodEnd.toISOString()}.`,
+          budget: serializeBudgetStatus(status)
+        }, 402);
+      }
+
+      if (status.softExceeded) {
+        warnings.push(
+          `${budget.period} ${budget.limit_type} budget: ${formatBudgetAmount(budget, status.spent)} of ${formatBudgetAmount(budget, budget.soft_limit!)} soft limit used`
+        );
+
+        // Notify once per period
+        const notifiedAt = budget.soft_notified_at ? fromSqlTimestamp(budget.soft_notified_at) : null;
+        const webhookUrl = budget.webhook_url || c.env.BUDGET_WEBHOOK_URL;
+
+        if (webhookUrl && (!notifiedAt || notifiedAt < status.periodStart)) {
+          await markBudgetNotified(c.env.DB, budget.id);
+          const delivery = sendWebhook(webhookUrl, 'budget.soft_limit_reached', {
+            ...serializeBudgetStatus(status),
+            email: user.email
+          }, c.env.WEBHOOK_SECRET);
+
+          try {
+            c.executionCtx.waitUntil(delivery);
+          } catch {
+            await delivery;
+          }
+        }
+      }
+    }
+
+    if (warnings.length > 0) {
+      c.header('X-Budget-Warning', warnings.join('; '));
+    }
+  } catch (error) {
+    console.error('Budget check error:', error);
+    // Continue without budget enforcement on error
+  }
+
+  await next();
+}
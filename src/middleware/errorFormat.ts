@@ -0,0 +1,48 @@
+// Error format middleware for the provider-compatible APIs
+
+import { Context, Next } from 'hono';
+import type { Bindings, Variables } from '../types';
+import { openAIError } from '../utils/openaiCompat';
+import { anthropicError } from '../utils/anthropicCompat';
+
+/**
+ * Build middleware that rewrites the platform's `{ error, message }` error
+ * bodies (from auth, scope, rate limit and budget middleware) into another
+ * API's schema. Bodies that already nest an error object are left alone.
+ */
+function errorFormat(format: (status: number, message: string) => unknown) {
+  return async (
+    c: Context<{ Bindings: Bindings; Variables: Variables }>,
+    next: Next
+  ) => {
+    await next();
+
+    const status = c.res.status;
+    if (status < 400 || !(c.res.headers.get('Content-Type') || '').includes('application/json')) {
+      return;
+    }
+
+    const body = await c.res.clone().json().catch(() => null) as any;
+    if (!body || (body.error && typeof body.error === 'object')) {
+      return;
+    }
+
+    const message = typeof body.message === 'string' ? body.message : body.error || 'Request failed';
+    c.res = new Response(JSON.stringify(format(status, message)), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  };
+}
+
+/**
+ * OpenAI error format middleware
+ * `{ error: { message, type, param, code } }`
+ */
+export const openAIErrorFormat = errorFormat(openAIError);
+
+/**
+ * Anthropic error format middleware
+ * `{ type: 'error', error: { type, message } }`
+ */
+export const anthropicErrorFormat = errorFormat(anthropicError);
@@ -2,7 +2,7 @@
 
 import { Context, Next } from 'hono';
 import type { Bindings, Variables } from '../types';
-import { logRequest } from '../utils/database';
+import { logRequest, updateUsageStats } from '../utils/database';
 
 /**
  * Request logging middleware
@@ -13,8 +13,6 @@ export async function requestLogger(
   next: Next
 ) {
   const startTime = Date.now();
-  const user = c.get('user');
-  const apiKey = c.get('apiKey');
 
   // Get request details
   const endpoint = c.req.path;
@@ -34,8 +32,95 @@ export async function requestLogger(
   // Execute the request
   await next();
 
-  // Calculate latency
-  const latencyMs = Date.now() - startTime;
+  // User and API key are set by the route's auth middleware, which runs after this one
+  const user = c.get('user');
+  const apiKey = c.get('apiKey');
+
+  // Extract model info from context if available
+  const routing = c.get('routing');
+  const attempts = routing?.attempts;
+  const modelProvider = c.get('modelProvider') || attempts?.[attempts.length - 1]?.provider;
+  const modelName = c.get('modelName');
+
+  // Usage is read at write time: for streams it arrives with the final chunk
+  const writeLog = async (responseSize: number, errorMessage?: string) => {
+    const statusCode = c.res.status;
+    const usage = routing?.usage;
+    const cost = routing?.cost || 0;
+
+    try {
+      await logRequest(c.env.DB, {
+        userId: user?.id,
+        apiKeyId: apiKey?.id,
+        endpoint,
+        method,
+        modelProvider,
+        modelName,
+        statusCode,
+        requestSize,
+        responseSize,
+        latencyMs: Date.now() - startTime,
+        errorMessage,
+        ipAddress,
+        userAgent,
+        attempts,
+        promptTokens: usage?.prompt_tokens,
+        completionTokens: usage?.completion_tokens,
+        totalTokens: usage?.total_tokens,
+        cost,
+        modelAlias: routing?.alias,
+        modelVariant: routing?.variant,
+        cacheStatus: routing?.cache,
+        savedCost: routing?.savedCost
+      });
+
+      if (user) {
+        await updateUsageStats(c.env.DB, user.id, {
+          success: statusCode < 400,
+          tokens: usage?.total_tokens || 0,
+          cost
+        });
+      }
+    } catch (error) {
+      console.error('Failed to log request:', error);
+      // Don't fail the request if logging fails
+    }
+  };
+
+  // Streamed responses are logged once the body has been fully sent (or the
+  // client has gone), counting bytes as they pass instead of buffering the stream
+  const contentType = c.res.headers.get('Content-Type') || '';
+  if (contentType.startsWith('text/event-stream') && c.res.body) {
+    const reader = c.res.body.getReader();
+    let responseSize = 0;
+
+    const counted = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            controller.close();
+            await writeLog(responseSize);
+            return;
+          }
+          responseSize += value.byteLength;
+          controller.enqueue(value);
+        } catch (error) {
+          await writeLog(responseSize, error instanceof Error ? error.message : 'Stream failed');
+          controller.error(error);
+        }
+      },
+      // A client that disconnects mid-stream is still logged, and billed for
+      // what was generated before the upstream stream was stopped
+      async cancel(reason) {
+        await reader.cancel(reason);
+        await writeLog(responseSize, 'Client closed the stream before it finished');
+      }
+    });
+
+    c.res = new Response(counted, c.res);
+    return;
+  }
 
   // Get response details
   const statusCode = c.res.status;
@@ -48,31 +133,11 @@ export async function requestLogger(
     // Unable to get response size
   }
 
-  // Extract model info from context if available
-  const modelProvider = c.get('modelProvider' as any);
-  const modelName = c.get('modelName' as any);
-
   // Log to database
-  try {
-    await logRequest(c.env.DB, {
-      userId: user?.id,
-      apiKeyId: apiKey?.id,
-      endpoint,
-      method,
-      modelProvider,
-      modelName,
-      statusCode,
-      requestSize,
-      responseSize,
-      latencyMs,
-      errorMessage: statusCode >= 400 ? await getErrorMessage(c.res.clone()) : undefined,
-      ipAddress,
-      userAgent
-    });
-  } catch (error) {
-    console.error('Failed to log request:', error);
-    // Don't fail the request if logging fails
-  }
+  await writeLog(
+    responseSize,
+    statusCode >= 400 ? await getErrorMessage(c.res.clone()) : undefined
+  );
 }
 
 /**
@@ -80,8 +145,9 @@ export async function requestLogger(
  */
 async function getErrorMessage(response: Response): Promise<string | undefined> {
   try {
-    const json = await response.json();
-    return json.error || json.message;
+    const json = await response.json() as { error?: string | { message?: string } | null; message?: string };
+    // OpenAI-style bodies nest the message under error
+    return typeof json.error === 'object' ? json.error?.message : json.error || json.message;
   } catch {
     return undefined;
   }
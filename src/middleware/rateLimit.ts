@@ -4,7 +4,7 @@ import { Context, Next } from 'hono';
 import type { Bindings, Variables } from '../types';
 import { checkRateLimit } from '../utils/database';
 
-interface RateLimitConfig {
+export interface RateLimitConfig {
   maxRequests: number;
   windowMinutes: number;
   message?: string;
@@ -14,11 +14,43 @@ interface RateLimitConfig {
 const DEFAULT_LIMITS: Record<string, RateLimitConfig> = {
   '/api/ai/chat': { maxRequests: 100, windowMinutes: 60 },
   '/api/ai/completion': { maxRequests: 100, windowMinutes: 60 },
+  // Batch lines, claimed by the batch worker, plus the batch API itself
+  '/api/ai/batches': { maxRequests: 5000, windowMinutes: 60 },
   '/api/auth/login': { maxRequests: 10, windowMinutes: 15 },
   '/api/auth/register': { maxRequests: 5, windowMinutes: 60 },
   default: { maxRequests: 200, windowMinutes: 60 }
 };
 
+// Compatible /v1 routes share the quota of the routes they mirror
+const ENDPOINT_ALIASES: Record<string, string> = {
+  '/v1/chat/completions': '/api/ai/chat',
+  '/v1/completions': '/api/ai/completion',
+  '/v1/embeddings': '/api/ai/embeddings',
+  '/v1/models': '/api/ai/models',
+  '/v1/messages': '/api/ai/chat'
+};
+
+/**
+ * Logged paths counted against an endpoint's quota: requests are logged under
+ * the path they were made to, so a shared quota counts every path that uses it
+ */
+function getQuotaEndpoints(endpoint: string): string[] {
+  return [endpoint, ...Object.keys(ENDPOINT_ALIASES).filter(path => ENDPOINT_ALIASES[path] === endpoint)];
+}
+
+/**
+ * Default rate limit for an endpoint (the first matching prefix)
+ */
+export function getRateLimitConfig(endpoint: string): RateLimitConfig {
+  for (const [key, value] of Object.entries(DEFAULT_LIMITS)) {
+    if (endpoint.startsWith(key)) {
+      return value;
+    }
+  }
+
+  return DEFAULT_LIMITS.default;
+}
+
 /**
  * Rate limiting middleware
  * Limits requests per user based on endpoint
@@ -37,29 +69,16 @@ export function rateLimiter(config?: RateLimitConfig) {
     }
 
     const path = c.req.path;
-    const endpoint = path.split('?')[0]; // Remove query params
+    const endpoint = ENDPOINT_ALIASES[path] ?? path.split('?')[0]; // Remove query params
     
     // Get rate limit config for this endpoint
-    let limitConfig = config;
-    if (!limitConfig) {
-      // Try to match specific endpoint
-      for (const [key, value] of Object.entries(DEFAULT_LIMITS)) {
-        if (endpoint.startsWith(key)) {
-          limitConfig = value;
-          break;
-        }
-      }
-      // Use default if no match
-      if (!limitConfig) {
-        limitConfig = DEFAULT_LIMITS.default;
-      }
-    }
+    const limitConfig = config ?? getRateLimitConfig(endpoint);
 
     try {
       const { allowed, remaining, resetAt } = await checkRateLimit(
         c.env.DB,
         user.id,
-        endpoint,
+        getQuotaEndpoints(endpoint),
         limitConfig.maxRequests,
         limitConfig.windowMinutes
       );
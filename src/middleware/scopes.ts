@@ -0,0 +1,100 @@
+// API key scope enforcement middleware
+
+import { Context, Next } from 'hono';
+import type { D1Database } from '@cloudflare/workers-types';
+import type { Bindings, Variables, ApiKeyEndpoint, ApiKeyScopes } from '../types';
+import { resolveModelTargets } from '../utils/modelAliases';
+import { getApiKeyScopes, getScopeEndpoint, isIpAllowed, SCOPE_ENDPOINTS } from '../utils/scopes';
+import { AUTO_MODEL } from '../utils/smartRouting';
+
+type ScopeViolation = 'ip' | 'endpoint' | 'model' | 'provider' | 'max_tokens';
+
+function forbidden(
+  c: Context<{ Bindings: Bindings; Variables: Variables }>,
+  scope: ScopeViolation,
+  message: string
+) {
+  return c.json({ error: 'Forbidden - API key scope', scope, message }, 403);
+}
+
+/**
+ * Check a request body's model, provider and max_tokens against a key's
+ * scopes, returning the first violation
+ */
+export async function checkRequestScopes(
+  db: D1Database,
+  scopes: ApiKeyScopes,
+  body: any
+): Promise<{ scope: ScopeViolation; message: string } | null> {
+  if (body && typeof body.model === 'string') {
+    // `auto` only picks among the models the key may use
+    if (scopes.models && body.model !== AUTO_MODEL && !scopes.models.includes(body.model)) {
+      return { scope: 'model', message: `Model ${body.model} is not allowed for this API key` };
+    }
+
+    // An A/B alias only routes to variants on allowed providers, so it needs one
+    if (scopes.providers) {
+      const { models } = await resolveModelTargets(db, body.model);
+      if (models.length > 0 && !models.some(model => scopes.providers!.includes(model.provider))) {
+        return { scope: 'provider', message: `Provider ${models[0].provider} is not allowed for this API key` };
+      }
+    }
+  }
+
+  if (scopes.maxTokens && typeof body?.max_tokens === 'number' && body.max_tokens > scopes.maxTokens) {
+    return {
+      scope: 'max_tokens',
+      message: `max_tokens ${body.max_tokens} exceeds this API key's limit of ${scopes.maxTokens}`
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Key scope middleware
+ * Restricts named API keys to their allowed client IPs, endpoints, models,
+ * providers and max_tokens. Account keys and JWT users are unrestricted.
+ * Should be used after apiKeyMiddleware.
+ */
+export async function keyScopeGuard(
+  c: Context<{ Bindings: Bindings; Variables: Variables }>,
+  next: Next
+) {
+  const apiKey = c.get('apiKey');
+
+  if (!apiKey) {
+    await next();
+    return;
+  }
+
+  const scopes = getApiKeyScopes(apiKey);
+  c.set('keyScopes', scopes);
+
+  if (scopes.ipAllowList) {
+    const ip = c.req.header('CF-Connecting-IP');
+
+    if (!ip) {
+      return forbidden(c, 'ip', 'Client IP could not be determined and this API key has an IP allow-list');
+    }
+
+    if (!isIpAllowed(ip, scopes.ipAllowList)) {
+      return forbidden(c, 'ip', `Requests from ${ip} are not allowed for this API key`);
+    }
+  }
+
+  const endpoint = getScopeEndpoint(c.req.path) as ApiKeyEndpoint;
+  if (scopes.endpoints && SCOPE_ENDPOINTS.includes(endpoint) && !scopes.endpoints.includes(endpoint)) {
+    return forbidden(c, 'endpoint', `This API key is not allowed to use the ${endpoint} endpoint`);
+  }
+
+  if (c.req.method === 'POST' && (scopes.models || scopes.providers || scopes.maxTokens)) {
+    // Hono caches the parsed body, so the route handler can read it again
+    const violation = await checkRequestScopes(c.env.DB, scopes, await c.req.json().catch(() => null));
+    if (violation) {
+      return forbidden(c, violation.scope, violation.message);
+    }
+  }
+
+  await next();
+}
@@ -0,0 +1,228 @@
+// Anthropic Claude provider adapter
+
+import type { AIRequest, AIResponse, AIStreamChunk, Bindings, ChatMessage, ToolCall, ToolChoice } from '../types';
+import type { ProviderAdapter, ProviderConfig } from './base';
+import { ProviderError, requireEnv, normalizeFinishReason, parseToolArguments } from './base';
+import { parseSSE, createChunk, createUsageChunk } from '../utils/streaming';
+import { getMessageText, parseDataUrl } from '../utils/multimodal';
+
+/**
+ * Convert message content to Anthropic text, image and document blocks
+ */
+function toAnthropicContent(content: ChatMessage['content']): string | any[] {
+  if (!Array.isArray(content)) {
+    return content ?? '';
+  }
+
+  return content.map(part => {
+    switch (part.type) {
+      case 'text':
+        return { type: 'text', text: part.text };
+      case 'image_url': {
+        const image = parseDataUrl(part.image_url.url);
+        return {
+          type: 'image',
+          source: image
+            ? { type: 'base64', media_type: image.mimeType, data: image.data }
+            : { type: 'url', url: part.image_url.url }
+        };
+      }
+      case 'file': {
+        const document = parseDataUrl(part.file.file_data)!;
+        return {
+          type: 'document',
+          source: { type: 'base64', media_type: document.mimeType, data: document.data },
+          ...(part.file.filename ? { title: part.file.filename } : {})
+        };
+      }
+    }
+  });
+}
+
+/**
+ * Convert chat messages to Anthropic's format: assistant tool calls become
+ * tool_use blocks and tool results become tool_result blocks in a user turn
+ * (consecutive results share one turn)
+ */
+function toAnthropicMessages(messages: ChatMessage[]): any[] {
+  const converted: any[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') {
+      continue;
+    }
+
+    if (message.role === 'tool') {
+      const block = { type: 'tool_result', tool_use_id: message.tool_call_id, content: getMessageText(message.content) };
+      const previous = converted[converted.length - 1];
+
+      if (previous?.role === 'user' && Array.isArray(previous.content) && previous.content[0]?.type === 'tool_result') {
+        previous.content.push(block);
+      } else {
+        converted.push({ role: 'user', content: [block] });
+      }
+      continue;
+    }
+
+    if (message.role === 'assistant' && message.tool_calls?.length) {
+      const text = getMessageText(message.content);
+      converted.push({
+        role: 'assistant',
+        content: [
+          ...(text ? [{ type: 'text', text }] : []),
+          ...message.tool_calls.map(call => ({
+            type: 'tool_use',
+            id: call.id,
+            name: call.function.name,
+            input: parseToolArguments(call)
+          }))
+        ]
+      });
+      continue;
+    }
+
+    converted.push({ role: message.role, content: toAnthropicContent(message.content) });
+  }
+
+  return converted;
+}
+
+/**
+ * Map an OpenAI tool_choice to Anthropic's
+ */
+function toAnthropicToolChoice(choice: ToolChoice): Record<string, string> {
+  if (typeof choice === 'object') {
+    return { type: 'tool', name: choice.function.name };
+  }
+
+  return { type: choice === 'required' ? 'any' : choice };
+}
+
+/**
+ * Anthropic Claude API integration
+ */
+export const anthropicAdapter: ProviderAdapter = {
+  name: 'anthropic',
+  capabilities: { streaming: true, tools: true, vision: true, jsonMode: false },
+  maxTemperature: 1,
+
+  resolveConfig(env: Bindings): ProviderConfig {
+    return {
+      apiKey: requireEnv(env, 'ANTHROPIC_API_KEY', 'Anthropic'),
+      baseUrl: 'https://api.anthropic.com/v1'
+    };
+  },
+
+  buildRequest(request: AIRequest, config: ProviderConfig, stream: boolean) {
+    return {
+      url: `${config.baseUrl}/messages`,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: {
+        model: request.model,
+        messages: toAnthropicMessages(request.messages),
+        system: getMessageText(request.messages.find(m => m.role === 'system')?.content ?? null) || undefined,
+        max_tokens: request.max_tokens ?? 1000,
+        temperature: request.temperature ?? 0.7,
+        ...(request.tools
+          ? {
+              tools: request.tools.map(tool => ({
+                name: tool.function.name,
+                description: tool.function.description,
+                input_schema: tool.function.parameters || { type: 'object', properties: {} }
+              }))
+            }
+          : {}),
+        ...(request.tools && request.tool_choice ? { tool_choice: toAnthropicToolChoice(request.tool_choice) } : {}),
+        ...(stream ? { stream: true } : {})
+      }
+    };
+  },
+
+  // Convert Anthropic response to OpenAI format (tool_use blocks become tool_calls)
+  parseResponse(data: any): AIResponse {
+    const blocks: any[] = data.content || [];
+    const toolCalls: ToolCall[] = blocks
+      .filter(block => block.type === 'tool_use')
+      .map(block => ({
+        id: block.id,
+        type: 'function',
+        function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) }
+      }));
+    const text = blocks.filter(block => block.type === 'text').map(block => block.text).join('');
+
+    return {
+      id: data.id,
+      model: data.model,
+      choices: [{
+        message: {
+          role: 'assistant',
+          content: toolCalls.length > 0 && !text ? null : text,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+        },
+        finish_reason: normalizeFinishReason(data.stop_reason) || 'stop'
+      }],
+      usage: {
+        prompt_tokens: data.usage.input_tokens,
+        completion_tokens: data.usage.output_tokens,
+        total_tokens: data.usage.input_tokens + data.usage.output_tokens
+      }
+    };
+  },
+
+  // Translate message events to chunks
+  async *parseStream(body: ReadableStream<Uint8Array>, request: AIRequest): AsyncGenerator<AIStreamChunk> {
+    const created = Math.floor(Date.now() / 1000);
+    let id = `anthropic-${Date.now()}`;
+    let model = request.model;
+    let promptTokens = 0;
+    let completionTokens = 0;
+
+    for await (const event of parseSSE(body)) {
+      const data = JSON.parse(event.data);
+
+      switch (data.type) {
+        case 'message_start':
+          id = data.message.id;
+          model = data.message.model;
+          promptTokens = data.message.usage?.input_tokens || 0;
+          yield createChunk(id, model, created, { role: 'assistant', content: '' });
+          break;
+        case 'content_block_delta':
+          if (data.delta?.type === 'text_delta') {
+            yield createChunk(id, model, created, { content: data.delta.text });
+          }
+          break;
+        case 'message_delta':
+          completionTokens = data.usage?.output_tokens || 0;
+          yield createChunk(id, model, created, {}, normalizeFinishReason(data.delta?.stop_reason));
+          break;
+        case 'error':
+          throw new ProviderError(
+            `Anthropic API error: ${JSON.stringify(data.error)}`,
+            'anthropic',
+            data.error?.type === 'overloaded_error' ? 529 : 500,
+            data.error?.type
+          );
+      }
+    }
+
+    yield createUsageChunk(id, model, created, {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens
+    });
+  },
+
+  mapError(status: number, body: any): ProviderError {
+    return new ProviderError(
+      `Anthropic API error: ${JSON.stringify(body)}`,
+      'anthropic',
+      status,
+      body?.error?.type
+    );
+  }
+};
@@ -0,0 +1,247 @@
+// Provider adapter contract and shared helpers
+
+import type { AIRequest, AIResponse, AIStreamChunk, Bindings, ChatMessage, EmbeddingRequest, ToolCall } from '../types';
+
+/**
+ * Features a provider's API supports natively
+ */
+export type ProviderCapabilities = {
+  streaming: boolean;
+  tools: boolean;
+  vision: boolean;
+  jsonMode: boolean;
+};
+
+/**
+ * Credentials and endpoint resolved from the environment
+ */
+export type ProviderConfig = {
+  apiKey: string;
+  baseUrl: string;
+};
+
+/**
+ * Upstream HTTP call produced by an adapter
+ */
+export type ProviderHttpRequest = {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+};
+
+/**
+ * Raw vectors and input token count parsed from an embeddings response
+ */
+export type ProviderEmbeddings = {
+  embeddings: number[][];
+  promptTokens: number;
+};
+
+/**
+ * Adapter translating between the platform's OpenAI-style format and
+ * a provider's native API. Registered by the `provider` column of ai_models.
+ */
+export interface ProviderAdapter {
+  name: string;
+  capabilities: ProviderCapabilities;
+  // Upper bound of the provider's temperature range (the lower bound is 0)
+  maxTemperature: number;
+  // Whether image URLs must be downloaded and sent as inline base64 data
+  inlineImages?: boolean;
+  resolveConfig(env: Bindings): ProviderConfig;
+  buildRequest(request: AIRequest, config: ProviderConfig, stream: boolean): ProviderHttpRequest;
+  parseResponse(data: any, request: AIRequest): AIResponse;
+  parseStream(body: ReadableStream<Uint8Array>, request: AIRequest): AsyncGenerator<AIStreamChunk>;
+  // Embeddings, for providers that offer them
+  buildEmbeddingRequest?(request: EmbeddingRequest, config: ProviderConfig): ProviderHttpRequest;
+  parseEmbeddingResponse?(data: any, request: EmbeddingRequest): ProviderEmbeddings;
+  mapError(status: number, body: any): ProviderError;
+}
+
+/**
+ * Error codes raised by the gateway itself rather than by an upstream response
+ */
+export const LOCAL_ERROR_CODES = new Set([
+  'not_configured',
+  'provider_not_registered',
+  'streaming_unsupported',
+  'embeddings_unsupported',
+  'unsupported_parameter',
+  'tools_unsupported',
+  'vision_unsupported',
+  'invalid_image',
+  'invalid_structured_output',
+  'content_blocked',
+  'circuit_open',
+  'model_not_allowed'
+]);
+
+/**
+ * Local error codes for a target that cannot serve the request (missing
+ * capability), where another target in the fallback chain still may
+ */
+export const UNSUPPORTED_ERROR_CODES = new Set([
+  'streaming_unsupported',
+  'embeddings_unsupported',
+  'unsupported_parameter',
+  'tools_unsupported',
+  'vision_unsupported'
+]);
+
+/**
+ * Error raised by an upstream provider call
+ */
+export class ProviderError extends Error {
+  /** Delay requested by the provider's Retry-After header, in milliseconds */
+  retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    public provider: string,
+    public status: number,
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+
+  /**
+   * Whether the failure is on the provider's side (rate limit, timeout,
+   * outage, bad credentials or configuration), so another provider may succeed
+   */
+  get isProviderFailure(): boolean {
+    return this.status === 401 || this.status === 403 || this.status === 404 ||
+      this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+
+  /**
+   * Whether the provider doesn't know the upstream model id (a catalog entry
+   * that is misconfigured or was withdrawn upstream). The provider is up, so
+   * this doesn't count against its circuit, but another target may succeed.
+   */
+  get isModelNotFound(): boolean {
+    return this.status === 404;
+  }
+
+  /**
+   * Whether retrying the same provider may succeed
+   */
+  get isRetryable(): boolean {
+    return this.isProviderFailure &&
+      this.status !== 401 &&
+      this.status !== 403 &&
+      !this.isModelNotFound &&
+      !this.isLocal;
+  }
+
+  /**
+   * Whether the error was raised by the gateway before reaching the provider
+   */
+  get isLocal(): boolean {
+    return this.code !== undefined && LOCAL_ERROR_CODES.has(this.code);
+  }
+
+  /**
+   * Whether the target lacks a capability the request needs
+   */
+  get isUnsupported(): boolean {
+    return this.code !== undefined && UNSUPPORTED_ERROR_CODES.has(this.code);
+  }
+}
+
+/**
+ * Read an error body as JSON, falling back to raw text
+ */
+export async function readErrorBody(response: Response): Promise<any> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve a required secret from the environment
+ */
+export function requireEnv(env: Bindings, key: string, provider: string): string {
+  const value = (env as Record<string, any>)[key];
+  if (!value) {
+    throw new ProviderError(`${provider} is not configured (missing ${key})`, provider, 500, 'not_configured');
+  }
+  return value;
+}
+
+/**
+ * Normalize provider stop reasons to OpenAI finish_reason values
+ */
+export function normalizeFinishReason(reason: string | null | undefined): string | null {
+  if (!reason) return null;
+
+  switch (reason) {
+    case 'end_turn':
+    case 'stop_sequence':
+    case 'STOP':
+    case 'COMPLETE':
+      return 'stop';
+    case 'max_tokens':
+    case 'MAX_TOKENS':
+      return 'length';
+    case 'tool_use':
+      return 'tool_calls';
+    default:
+      return reason.toLowerCase();
+  }
+}
+
+/**
+ * Generate an OpenAI-style id for a tool call from a provider that doesn't assign one
+ */
+export function createToolCallId(): string {
+  return `call_${crypto.randomUUID().replace(/-/g, '').slice(0, 24)}`;
+}
+
+/**
+ * Decode a tool call's JSON arguments (an empty object if malformed)
+ */
+export function parseToolArguments(call: ToolCall): Record<string, unknown> {
+  try {
+    const args = JSON.parse(call.function.arguments || '{}');
+    return args && typeof args === 'object' && !Array.isArray(args) ? args : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Find the function name of the call a `tool` message answers, for providers
+ * that match results by name rather than id
+ */
+export function findToolCall(messages: ChatMessage[], toolCallId: string | undefined): ToolCall | undefined {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const call = messages[i].tool_calls?.find(c => c.id === toolCallId);
+    if (call) {
+      return call;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,254 @@
+// Cohere provider adapter
+
+import type { AIRequest, AIResponse, AIStreamChunk, Bindings, ChatMessage, EmbeddingRequest, ToolCall, ToolDefinition } from '../types';
+import type { ProviderAdapter, ProviderConfig, ProviderEmbeddings } from './base';
+import { ProviderError, requireEnv, normalizeFinishReason, createToolCallId, parseToolArguments, findToolCall } from './base';
+import { parseNDJSON, createChunk, createUsageChunk } from '../utils/streaming';
+import { getMessageText } from '../utils/multimodal';
+
+// JSON Schema types -> Cohere parameter types
+const PARAMETER_TYPES: Record<string, string> = {
+  string: 'str',
+  integer: 'int',
+  number: 'float',
+  boolean: 'bool',
+  array: 'List',
+  object: 'Dict'
+};
+
+/**
+ * Convert a tool to Cohere's format, flattening the top-level JSON Schema
+ * properties into parameter_definitions
+ */
+function toCohereTool(tool: ToolDefinition): Record<string, unknown> {
+  const schema = (tool.function.parameters || {}) as { properties?: Record<string, any>; required?: string[] };
+  const definitions: Record<string, unknown> = {};
+
+  for (const [name, property] of Object.entries(schema.properties || {})) {
+    definitions[name] = {
+      description: property?.description,
+      type: PARAMETER_TYPES[property?.type] || 'str',
+      required: (schema.required || []).includes(name)
+    };
+  }
+
+  return {
+    name: tool.function.name,
+    description: tool.function.description || '',
+    parameter_definitions: definitions
+  };
+}
+
+/**
+ * Convert a `tool` message to a Cohere tool result (outputs must be objects)
+ */
+function toCohereToolResult(message: ChatMessage, messages: ChatMessage[]): Record<string, unknown> {
+  const call = findToolCall(messages, message.tool_call_id);
+  let output: unknown;
+
+  try {
+    output = JSON.parse(getMessageText(message.content));
+  } catch {
+    output = null;
+  }
+
+  return {
+    call: { name: call?.function.name ?? message.tool_call_id, parameters: call ? parseToolArguments(call) : {} },
+    outputs: [output && typeof output === 'object' && !Array.isArray(output) ? output : { result: getMessageText(message.content) }]
+  };
+}
+
+/**
+ * Split messages into Cohere's chat_history, current message and tool
+ * results. When the conversation ends with tool results they are sent as
+ * tool_results with an empty message.
+ */
+function toCohereChat(messages: ChatMessage[]): { message: string; chat_history: any[]; tool_results?: any[] } {
+  let end = messages.length;
+  while (end > 0 && messages[end - 1].role === 'tool') {
+    end--;
+  }
+
+  const trailingResults = messages.slice(end).map(m => toCohereToolResult(m, messages));
+  const history = trailingResults.length > 0 ? messages.slice(0, end) : messages.slice(0, -1);
+  const chatHistory: any[] = [];
+
+  for (const m of history) {
+    if (m.role === 'tool') {
+      const previous = chatHistory[chatHistory.length - 1];
+      if (previous?.role === 'TOOL') {
+        previous.tool_results.push(toCohereToolResult(m, messages));
+      } else {
+        chatHistory.push({ role: 'TOOL', tool_results: [toCohereToolResult(m, messages)] });
+      }
+      continue;
+    }
+
+    chatHistory.push({
+      role: m.role === 'assistant' ? 'CHATBOT' : 'USER',
+      message: getMessageText(m.content),
+      ...(m.tool_calls?.length
+        ? { tool_calls: m.tool_calls.map(call => ({ name: call.function.name, parameters: parseToolArguments(call) })) }
+        : {})
+    });
+  }
+
+  return trailingResults.length > 0
+    ? { message: '', chat_history: chatHistory, tool_results: trailingResults }
+    : { message: getMessageText(messages[messages.length - 1].content), chat_history: chatHistory };
+}
+
+/**
+ * Tools offered to the model. Cohere has no tool_choice: 'none' sends no
+ * tools and a named function sends only that one; 'required' can't be enforced.
+ */
+function getCohereTools(request: AIRequest): Record<string, unknown>[] | undefined {
+  const choice = request.tool_choice;
+  if (!request.tools || choice === 'none') {
+    return undefined;
+  }
+
+  const tools = typeof choice === 'object'
+    ? request.tools.filter(tool => tool.function.name === choice.function.name)
+    : request.tools;
+
+  return tools.map(toCohereTool);
+}
+
+/**
+ * Cohere API integration
+ */
+export const cohereAdapter: ProviderAdapter = {
+  name: 'cohere',
+  capabilities: { streaming: true, tools: true, vision: false, jsonMode: true },
+  maxTemperature: 5,
+
+  resolveConfig(env: Bindings): ProviderConfig {
+    return {
+      apiKey: requireEnv(env, 'COHERE_API_KEY', 'Cohere'),
+      baseUrl: 'https://api.cohere.ai/v1'
+    };
+  },
+
+  buildRequest(request: AIRequest, config: ProviderConfig, stream: boolean) {
+    const tools = getCohereTools(request);
+
+    return {
+      url: `${config.baseUrl}/chat`,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.apiKey}`
+      },
+      body: {
+        model: request.model,
+        ...toCohereChat(request.messages),
+        temperature: request.temperature ?? 0.7,
+        max_tokens: request.max_tokens ?? 1000,
+        ...(tools ? { tools } : {}),
+        ...(request.response_format
+          ? {
+              response_format: {
+                type: 'json_object',
+                ...(request.response_format.type === 'json_schema' ? { schema: request.response_format.json_schema.schema } : {})
+              }
+            }
+          : {}),
+        ...(stream ? { stream: true } : {})
+      }
+    };
+  },
+
+  // Convert Cohere response to OpenAI format
+  parseResponse(data: any, request: AIRequest): AIResponse {
+    const toolCalls: ToolCall[] = (data.tool_calls || []).map((call: any) => ({
+      id: createToolCallId(),
+      type: 'function',
+      function: { name: call.name, arguments: JSON.stringify(call.parameters ?? {}) }
+    }));
+
+    return {
+      id: data.generation_id,
+      model: request.model,
+      choices: [{
+        message: {
+          role: 'assistant',
+          content: toolCalls.length > 0 && !data.text ? null : data.text,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+        },
+        // Cohere reports COMPLETE for tool calls too
+        finish_reason: toolCalls.length > 0 ? 'tool_calls' : normalizeFinishReason(data.finish_reason) || 'stop'
+      }],
+      usage: {
+        prompt_tokens: data.meta?.tokens?.input_tokens || 0,
+        completion_tokens: data.meta?.tokens?.output_tokens || 0,
+        total_tokens: (data.meta?.tokens?.input_tokens || 0) + (data.meta?.tokens?.output_tokens || 0)
+      }
+    };
+  },
+
+  // Translate newline-delimited stream events to chunks
+  async *parseStream(body: ReadableStream<Uint8Array>, request: AIRequest): AsyncGenerator<AIStreamChunk> {
+    const created = Math.floor(Date.now() / 1000);
+    let id = `cohere-${Date.now()}`;
+    let usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+    for await (const data of parseNDJSON(body)) {
+      switch (data.event_type) {
+        case 'stream-start':
+          id = data.generation_id || id;
+          yield createChunk(id, request.model, created, { role: 'assistant', content: '' });
+          break;
+        case 'text-generation':
+          yield createChunk(id, request.model, created, { content: data.text });
+          break;
+        case 'stream-end': {
+          const tokens = data.response?.meta?.tokens;
+          usage = {
+            prompt_tokens: tokens?.input_tokens || 0,
+            completion_tokens: tokens?.output_tokens || 0,
+            total_tokens: (tokens?.input_tokens || 0) + (tokens?.output_tokens || 0)
+          };
+          yield createChunk(id, request.model, created, {}, normalizeFinishReason(data.finish_reason));
+          break;
+        }
+      }
+    }
+
+    yield createUsageChunk(id, request.model, created, usage);
+  },
+
+  buildEmbeddingRequest(request: EmbeddingRequest, config: ProviderConfig) {
+    if (request.dimensions) {
+      throw new ProviderError('Cohere embeddings do not support dimensions', 'cohere', 400, 'unsupported_parameter');
+    }
+
+    return {
+      url: `${config.baseUrl}/embed`,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.apiKey}`
+      },
+      body: {
+        model: request.model,
+        texts: Array.isArray(request.input) ? request.input : [request.input],
+        input_type: 'search_document',
+        embedding_types: ['float']
+      }
+    };
+  },
+
+  parseEmbeddingResponse(data: any): ProviderEmbeddings {
+    return {
+      embeddings: data.embeddings?.float ?? data.embeddings,
+      promptTokens: data.meta?.billed_units?.input_tokens || 0
+    };
+  },
+
+  mapError(status: number, body: any): ProviderError {
+    return new ProviderError(
+      `Cohere API error: ${JSON.stringify(body)}`,
+      'cohere',
+      status
+    );
+  }
+};
@@ -0,0 +1,246 @@
+// Google Gemini provider adapter
+
+import type { AIRequest, AIResponse, AIStreamChunk, Bindings, ChatMessage, EmbeddingRequest, ToolCall, ToolChoice } from '../types';
+import type { ProviderAdapter, ProviderConfig, ProviderEmbeddings } from './base';
+import { ProviderError, requireEnv, normalizeFinishReason, createToolCallId, parseToolArguments, findToolCall } from './base';
+import { parseSSE, createChunk, createUsageChunk } from '../utils/streaming';
+import { getMessageText, parseDataUrl } from '../utils/multimodal';
+
+/**
+ * Convert message content to Gemini parts: images and documents become
+ * inlineData (remote images are downloaded beforehand, see inlineImages)
+ */
+function toGeminiParts(content: ChatMessage['content']): any[] {
+  if (!Array.isArray(content)) {
+    return content === null ? [] : [{ text: content }];
+  }
+
+  return content.map(part => {
+    if (part.type === 'text') {
+      return { text: part.text };
+    }
+
+    const media = parseDataUrl(part.type === 'image_url' ? part.image_url.url : part.file.file_data)!;
+    return { inlineData: { mimeType: media.mimeType, data: media.data } };
+  });
+}
+
+/**
+ * Convert chat messages to Gemini contents: assistant tool calls become
+ * functionCall parts and tool results functionResponse parts (matched to
+ * their call by function name, consecutive results sharing one turn)
+ */
+function toGeminiContents(messages: ChatMessage[]): any[] {
+  const contents: any[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'tool') {
+      const call = findToolCall(messages, message.tool_call_id);
+      const part = {
+        functionResponse: {
+          name: call?.function.name ?? message.tool_call_id,
+          response: { content: getMessageText(message.content) }
+        }
+      };
+      const previous = contents[contents.length - 1];
+
+      if (previous?.role === 'user' && previous.parts[0]?.functionResponse) {
+        previous.parts.push(part);
+      } else {
+        contents.push({ role: 'user', parts: [part] });
+      }
+      continue;
+    }
+
+    contents.push({
+      role: message.role === 'assistant' ? 'model' : 'user',
+      parts: [
+        ...toGeminiParts(message.content),
+        ...(message.tool_calls || []).map(call => ({
+          functionCall: { name: call.function.name, args: parseToolArguments(call) }
+        }))
+      ]
+    });
+  }
+
+  return contents;
+}
+
+/**
+ * Map an OpenAI tool_choice to Gemini's function calling config
+ */
+function toGeminiToolConfig(choice: ToolChoice): Record<string, unknown> {
+  if (typeof choice === 'object') {
+    return { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [choice.function.name] } };
+  }
+
+  return { functionCallingConfig: { mode: choice === 'required' ? 'ANY' : choice.toUpperCase() } };
+}
+
+/**
+ * Google Gemini API integration
+ */
+export const geminiAdapter: ProviderAdapter = {
+  name: 'google',
+  capabilities: { streaming: true, tools: true, vision: true, jsonMode: true },
+  maxTemperature: 2,
+  inlineImages: true,
+
+  resolveConfig(env: Bindings): ProviderConfig {
+    return {
+      apiKey: requireEnv(env, 'GOOGLE_API_KEY', 'Gemini'),
+      baseUrl: 'https://generativelanguage.googleapis.com/v1beta'
+    };
+  },
+
+  buildRequest(request: AIRequest, config: ProviderConfig, stream: boolean) {
+    const method = stream ? 'streamGenerateContent?alt=sse&' : 'generateContent?';
+
+    return {
+      url: `${config.baseUrl}/models/${request.model}:${method}key=${config.apiKey}`,
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: {
+        contents: toGeminiContents(request.messages),
+        generationConfig: {
+          temperature: request.temperature ?? 0.7,
+          maxOutputTokens: request.max_tokens ?? 1000,
+          ...(request.response_format ? { responseMimeType: 'application/json' } : {}),
+          ...(request.response_format?.type === 'json_schema'
+            ? { responseJsonSchema: request.response_format.json_schema.schema }
+            : {})
+        },
+        ...(request.tools
+          ? {
+              tools: [{
+                functionDeclarations: request.tools.map(tool => ({
+                  name: tool.function.name,
+                  description: tool.function.description,
+                  parameters: tool.function.parameters
+                }))
+              }]
+            }
+          : {}),
+        ...(request.tools && request.tool_choice ? { toolConfig: toGeminiToolConfig(request.tool_choice) } : {})
+      }
+    };
+  },
+
+  // Convert Gemini response to OpenAI format (functionCall parts become tool_calls)
+  parseResponse(data: any, request: AIRequest): AIResponse {
+    // Safety-blocked prompts come back without candidates
+    const candidate = data.candidates?.[0];
+    if (!candidate) {
+      const reason = data.promptFeedback?.blockReason;
+      throw new ProviderError(
+        reason ? `Gemini blocked the prompt (${reason})` : 'Gemini returned no candidates',
+        'google',
+        400,
+        'content_blocked'
+      );
+    }
+
+    const parts: any[] = candidate.content?.parts || [];
+    const toolCalls: ToolCall[] = parts
+      .filter(part => part.functionCall)
+      .map(part => ({
+        id: createToolCallId(),
+        type: 'function',
+        function: { name: part.functionCall.name, arguments: JSON.stringify(part.functionCall.args ?? {}) }
+      }));
+    const text = parts.map(part => part.text || '').join('');
+
+    return {
+      id: `gemini-${Date.now()}`,
+      model: request.model,
+      choices: [{
+        message: {
+          role: 'assistant',
+          content: toolCalls.length > 0 && !text ? null : text,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+        },
+        // Gemini reports STOP for function calls too
+        finish_reason: toolCalls.length > 0
+          ? 'tool_calls'
+          : normalizeFinishReason(candidate.finishReason) || 'stop'
+      }],
+      usage: {
+        prompt_tokens: data.usageMetadata?.promptTokenCount || 0,
+        completion_tokens: data.usageMetadata?.candidatesTokenCount || 0,
+        total_tokens: data.usageMetadata?.totalTokenCount || 0
+      }
+    };
+  },
+
+  // Translate streamed GenerateContentResponse objects to chunks
+  async *parseStream(body: ReadableStream<Uint8Array>, request: AIRequest): AsyncGenerator<AIStreamChunk> {
+    const created = Math.floor(Date.now() / 1000);
+    const id = `gemini-${Date.now()}`;
+    let usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+    yield createChunk(id, request.model, created, { role: 'assistant', content: '' });
+
+    for await (const event of parseSSE(body)) {
+      const data = JSON.parse(event.data);
+      const candidate = data.candidates?.[0];
+      const text = (candidate?.content?.parts || []).map((p: any) => p.text || '').join('');
+
+      if (text) {
+        yield createChunk(id, request.model, created, { content: text });
+      }
+
+      if (candidate?.finishReason) {
+        yield createChunk(id, request.model, created, {}, normalizeFinishReason(candidate.finishReason));
+      }
+
+      // usageMetadata is cumulative, so the last one wins
+      if (data.usageMetadata) {
+        usage = {
+          prompt_tokens: data.usageMetadata.promptTokenCount || 0,
+          completion_tokens: data.usageMetadata.candidatesTokenCount || 0,
+          total_tokens: data.usageMetadata.totalTokenCount || 0
+        };
+      }
+    }
+
+    yield createUsageChunk(id, request.model, created, usage);
+  },
+
+  buildEmbeddingRequest(request: EmbeddingRequest, config: ProviderConfig) {
+    const inputs = Array.isArray(request.input) ? request.input : [request.input];
+
+    return {
+      url: `${config.baseUrl}/models/${request.model}:batchEmbedContents?key=${config.apiKey}`,
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: {
+        requests: inputs.map(text => ({
+          model: `models/${request.model}`,
+          content: { parts: [{ text }] },
+          ...(request.dimensions ? { outputDimensionality: request.dimensions } : {})
+        }))
+      }
+    };
+  },
+
+  // The embeddings API doesn't report token usage, so estimate ~4 characters per token
+  parseEmbeddingResponse(data: any, request: EmbeddingRequest): ProviderEmbeddings {
+    const inputs = Array.isArray(request.input) ? request.input : [request.input];
+
+    return {
+      embeddings: data.embeddings.map((embedding: any) => embedding.values),
+      promptTokens: inputs.reduce((sum, text) => sum + Math.ceil(text.length / 4), 0)
+    };
+  },
+
+  mapError(status: number, body: any): ProviderError {
+    return new ProviderError(
+      `Gemini API error: ${JSON.stringify(body)}`,
+      'google',
+      status,
+      body?.error?.status
+    );
+  }
+};
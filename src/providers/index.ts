@@ -0,0 +1,67 @@
+// Provider adapter registry
+
+import type { ProviderAdapter } from './base';
+import { openaiAdapter, createOpenAICompatibleAdapter } from './openai';
+import { anthropicAdapter } from './anthropic';
+import { geminiAdapter } from './gemini';
+import { cohereAdapter } from './cohere';
+
+export type { ProviderAdapter, ProviderCapabilities, ProviderConfig, ProviderEmbeddings } from './base';
+export { ProviderError } from './base';
+export { createOpenAICompatibleAdapter } from './openai';
+
+const registry = new Map<string, ProviderAdapter>();
+
+/**
+ * Register an adapter under its provider name (the ai_models.provider value)
+ */
+export function registerProvider(adapter: ProviderAdapter): void {
+  registry.set(adapter.name, adapter);
+}
+
+/**
+ * Get the adapter for a provider
+ */
+export function getProvider(name: string): ProviderAdapter | undefined {
+  return registry.get(name);
+}
+
+/**
+ * List all registered adapters
+ */
+export function listProviders(): ProviderAdapter[] {
+  return Array.from(registry.values());
+}
+
+// Built-in providers
+registerProvider(openaiAdapter);
+registerProvider(anthropicAdapter);
+registerProvider(geminiAdapter);
+registerProvider(cohereAdapter);
+
+registerProvider(createOpenAICompatibleAdapter({
+  name: 'mistral',
+  label: 'Mistral',
+  baseUrl: 'https://api.mistral.ai/v1',
+  apiKeyEnv: 'MISTRAL_API_KEY',
+  capabilities: { streaming: true, tools: true, vision: false, jsonMode: true },
+  maxTemperature: 1.5
+}));
+
+registerProvider(createOpenAICompatibleAdapter({
+  name: 'groq',
+  label: 'Groq',
+  baseUrl: 'https://api.groq.com/openai/v1',
+  apiKeyEnv: 'GROQ_API_KEY',
+  capabilities: { streaming: true, tools: true, vision: false, jsonMode: true }
+}));
+
+// Self-hosted endpoint (vLLM, Ollama, LocalAI, ...) configured via environment
+registerProvider(createOpenAICompatibleAdapter({
+  name: 'openai-compatible',
+  label: 'OpenAI-compatible endpoint',
+  apiKeyEnv: 'OPENAI_COMPATIBLE_API_KEY',
+  apiKeyOptional: true,
+  baseUrlEnv: 'OPENAI_COMPATIBLE_BASE_URL',
+  capabilities: { streaming: true, tools: false, vision: false, jsonMode: false }
+}));
@@ -0,0 +1,129 @@
+// OpenAI and OpenAI-compatible provider adapters
+
+import type { AIRequest, AIResponse, AIStreamChunk, Bindings, EmbeddingRequest } from '../types';
+import type { ProviderAdapter, ProviderCapabilities, ProviderConfig, ProviderEmbeddings } from './base';
+import { ProviderError, requireEnv } from './base';
+import { parseSSE } from '../utils/streaming';
+
+type OpenAICompatibleOptions = {
+  name: string;
+  label: string;
+  baseUrl?: string;
+  apiKeyEnv: string;
+  apiKeyOptional?: boolean;
+  baseUrlEnv?: string;
+  capabilities: ProviderCapabilities;
+  maxTemperature?: number;
+};
+
+/**
+ * Create an adapter for any API speaking the OpenAI chat completions
+ * protocol (OpenAI itself, Mistral, Groq, self-hosted vLLM/Ollama, ...)
+ */
+export function createOpenAICompatibleAdapter(options: OpenAICompatibleOptions): ProviderAdapter {
+  return {
+    name: options.name,
+    capabilities: options.capabilities,
+    maxTemperature: options.maxTemperature ?? 2,
+
+    resolveConfig(env: Bindings): ProviderConfig {
+      const baseUrl = options.baseUrlEnv
+        ? (env as Record<string, any>)[options.baseUrlEnv] || options.baseUrl
+        : options.baseUrl;
+
+      if (!baseUrl) {
+        throw new ProviderError(
+          `${options.label} is not configured (missing ${options.baseUrlEnv})`,
+          options.name,
+          500,
+          'not_configured'
+        );
+      }
+
+      return {
+        apiKey: options.apiKeyOptional
+          ? (env as Record<string, any>)[options.apiKeyEnv] || ''
+          : requireEnv(env, options.apiKeyEnv, options.label),
+        baseUrl: baseUrl.replace(/\/$/, '')
+      };
+    },
+
+    buildRequest(request: AIRequest, config: ProviderConfig, stream: boolean) {
+      return {
+        url: `${config.baseUrl}/chat/completions`,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {})
+        },
+        body: {
+          model: request.model,
+          messages: request.messages,
+          temperature: request.temperature ?? 0.7,
+          max_tokens: request.max_tokens ?? 1000,
+          ...(request.tools ? { tools: request.tools } : {}),
+          ...(request.tool_choice ? { tool_choice: request.tool_choice } : {}),
+          ...(request.response_format ? { response_format: request.response_format } : {}),
+          stream,
+          ...(stream ? { stream_options: { include_usage: true } } : {})
+        }
+      };
+    },
+
+    parseResponse(data: any): AIResponse {
+      return data as AIResponse;
+    },
+
+    // Chunks are already in the target format
+    async *parseStream(body: ReadableStream<Uint8Array>): AsyncGenerator<AIStreamChunk> {
+      for await (const event of parseSSE(body)) {
+        if (event.data === '[DONE]') return;
+        yield JSON.parse(event.data) as AIStreamChunk;
+      }
+    },
+
+    buildEmbeddingRequest(request: EmbeddingRequest, config: ProviderConfig) {
+      return {
+        url: `${config.baseUrl}/embeddings`,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {})
+        },
+        body: {
+          model: request.model,
+          input: request.input,
+          encoding_format: 'float',
+          ...(request.dimensions ? { dimensions: request.dimensions } : {}),
+          ...(request.user ? { user: request.user } : {})
+        }
+      };
+    },
+
+    parseEmbeddingResponse(data: any): ProviderEmbeddings {
+      const items = [...data.data].sort((a: any, b: any) => a.index - b.index);
+      return {
+        embeddings: items.map((item: any) => item.embedding),
+        promptTokens: data.usage?.prompt_tokens || 0
+      };
+    },
+
+    mapError(status: number, body: any): ProviderError {
+      return new ProviderError(
+        `${options.label} API error: ${JSON.stringify(body)}`,
+        options.name,
+        status,
+        body?.error?.type || body?.error?.code
+      );
+    }
+  };
+}
+
+/**
+ * OpenAI API integration
+ */
+export const openaiAdapter = createOpenAICompatibleAdapter({
+  name: 'openai',
+  label: 'OpenAI',
+  baseUrl: 'https://api.openai.com/v1',
+  apiKeyEnv: 'OPENAI_API_KEY',
+  capabilities: { streaming: true, tools: true, vision: true, jsonMode: true }
+});
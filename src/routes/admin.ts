@@ -0,0 +1,703 @@
+// Admin routes for user management, the model catalog and the audit trail
+
+import { Hono, Context } from 'hono';
+import type { Bindings, Variables, User, AuditLog, ModelAlias } from '../types';
+import { authMiddleware, adminMiddleware } from '../middleware/auth';
+import {
+  hashPassword,
+  generateApiKey,
+  generateRandomString,
+  prepareApiKeyForStorage,
+  displayApiKey
+} from '../utils/auth';
+import {
+  getUserById,
+  getUserStats,
+  searchUsers,
+  updateUserRole,
+  setUserActive,
+  setUserPassword,
+  revokeUserSessions,
+  revokeAllApiKeys,
+  storeUserApiKey,
+  getAuditLogs,
+  logAudit,
+  getAllModels,
+  getModelById,
+  findModelByModelId,
+  createModel,
+  updateModel,
+  getModelAliases,
+  getModelAliasById,
+  findModelAlias,
+  saveModelAlias,
+  deleteModelAlias
+} from '../utils/database';
+import { parseModelInput, serializeModelForAdmin } from '../utils/modelCatalog';
+import { parseAliasInput, serializeAlias, getAliasVariants, checkAliasDefaults } from '../utils/modelAliases';
+import { AUTO_MODEL } from '../utils/smartRouting';
+
+const admin = new Hono<{ Bindings: Bindings; Variables: Variables }>();
+
+// All admin routes require an authenticated admin
+admin.use('/*', authMiddleware);
+admin.use('/*', adminMiddleware);
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+type AdminContext = Context<{ Bindings: Bindings; Variables: Variables }>;
+
+/**
+ * Read page/limit query parameters
+ */
+function getPagination(c: AdminContext) {
+  const page = Math.max(1, parseInt(c.req.query('page') || '1') || 1);
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(c.req.query('limit') || '') || DEFAULT_PAGE_SIZE));
+
+  return { page, limit, offset: (page - 1) * limit };
+}
+
+function paginationInfo(page: number, limit: number, total: number) {
+  return { page, limit, total, totalPages: Math.ceil(total / limit) };
+}
+
+/**
+ * Serialize a user for admin responses (no password or key material)
+ */
+function serializeUser(user: User) {
+  return {
+    id: user.id,
+    email: user.email,
+    username: user.username,
+    role: user.role,
+    isActive: !!user.is_active,
+    apiKeyPrefix: displayApiKey(user),
+    passwordResetRequired: !!user.password_reset_required,
+    sessionsRevokedAt: user.sessions_revoked_at,
+    createdAt: user.created_at,
+    updatedAt: user.updated_at
+  };
+}
+
+function serializeAuditLog(log: AuditLog) {
+  return {
+    id: log.id,
+    actorUserId: log.actor_user_id,
+    action: log.action,
+    targetType: log.target_type,
+    targetId: log.target_id,
+    details: log.details ? JSON.parse(log.details) : null,
+    createdAt: log.created_at
+  };
+}
+
+/**
+ * Resolve the :id user, or null when it doesn't exist
+ */
+async function getTargetUser(c: AdminContext): Promise<User | null> {
+  const id = parseInt(c.req.param('id') || '');
+  return Number.isNaN(id) ? null : getUserById(c.env.DB, id);
+}
+
+/**
+ * GET /api/admin/users
+ * List users (search by email/username, filter by role and isActive, paginated)
+ */
+admin.get('/users', async (c) => {
+  try {
+    const { page, limit, offset } = getPagination(c);
+    const role = c.req.query('role');
+    const isActive = c.req.query('isActive');
+
+    if (role && role !== 'user' && role !== 'admin') {
+      return c.json({ error: "role must be 'user' or 'admin'" }, 400);
+    }
+
+    const { users, total } = await searchUsers(c.env.DB, {
+      search: c.req.query('search')?.trim() || undefined,
+      role,
+      isActive: isActive === undefined ? undefined : isActive === 'true' || isActive === '1'
+    }, limit, offset);
+
+    return c.json({
+      users: users.map(serializeUser),
+      pagination: paginationInfo(page, limit, total)
+    });
+  } catch (error) {
+    console.error('Admin list users error:', error);
+    return c.json({ error: 'Failed to fetch users' }, 500);
+  }
+});
+
+/**
+ * GET /api/admin/users/:id
+ * Get a user with their request statistics
+ */
+admin.get('/users/:id', async (c) => {
+  try {
+    const user = await getTargetUser(c);
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const stats = await getUserStats(c.env.DB, user.id);
+
+    return c.json({
+      user: serializeUser(user),
+      stats: {
+        totalRequests: stats.total_requests || 0,
+        successfulRequests: stats.successful_requests || 0,
+        failedRequests: stats.failed_requests || 0,
+        averageLatency: Math.round(stats.avg_latency || 0),
+        lastRequest: stats.last_request
+      }
+    });
+  } catch (error) {
+    console.error('Admin get user error:', error);
+    return c.json({ error: 'Failed to fetch user' }, 500);
+  }
+});
+
+/**
+ * PUT /api/admin/users/:id/role
+ * Change a user's role
+ */
+admin.put('/users/:id/role', async (c) => {
+  try {
+    const actor = c.get('user')!;
+    const user = await getTargetUser(c);
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const { role } = await c.req.json();
+    if (role !== 'user' && role !== 'admin') {
+      return c.json({ error: "role must be 'user' or 'admin'" }, 400);
+    }
+
+    if (user.id === actor.id) {
+      return c.json({ error: 'You cannot change your own role' }, 400);
+    }
+
+    const updated = await updateUserRole(c.env.DB, user.id, role);
+    await logAudit(c.env.DB, {
+      actorUserId: actor.id,
+      action: 'user.role_changed',
+      targetType: 'user',
+      targetId: user.id,
+      details: { from: user.role, to: role }
+    });
+
+    return c.json({
+      message: 'Role updated successfully',
+      user: serializeUser(updated!)
+    });
+  } catch (error) {
+    console.error('Admin change role error:', error);
+    return c.json({ error: 'Failed to update role' }, 500);
+  }
+});
+
+/**
+ * PUT /api/admin/users/:id/status
+ * Enable or disable a user account
+ */
+admin.put('/users/:id/status', async (c) => {
+  try {
+    const actor = c.get('user')!;
+    const user = await getTargetUser(c);
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const { isActive } = await c.req.json();
+    if (typeof isActive !== 'boolean') {
+      return c.json({ error: 'isActive must be a boolean' }, 400);
+    }
+
+    if (user.id === actor.id) {
+      return c.json({ error: 'You cannot change your own status' }, 400);
+    }
+
+    const updated = await setUserActive(c.env.DB, user.id, isActive);
+    await logAudit(c.env.DB, {
+      actorUserId: actor.id,
+      action: isActive ? 'user.activated' : 'user.deactivated',
+      targetType: 'user',
+      targetId: user.id
+    });
+
+    return c.json({
+      message: isActive ? 'User activated successfully' : 'User deactivated successfully',
+      user: serializeUser(updated!)
+    });
+  } catch (error) {
+    console.error('Admin change status error:', error);
+    return c.json({ error: 'Failed to update user status' }, 500);
+  }
+});
+
+/**
+ * POST /api/admin/users/:id/reset-password
+ * Set a temporary password (given or generated), sign the user out and
+ * require them to choose a new password before using the dashboard again
+ */
+admin.post('/users/:id/reset-password', async (c) => {
+  try {
+    const actor = c.get('user')!;
+    const user = await getTargetUser(c);
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const body = await c.req.json().catch(() => ({}));
+    const temporaryPassword = body?.temporaryPassword ?? generateRandomString(8);
+
+    if (typeof temporaryPassword !== 'string' || temporaryPassword.length < 8) {
+      return c.json({ error: 'temporaryPassword must be at least 8 characters' }, 400);
+    }
+
+    await setUserPassword(c.env.DB, user.id, await hashPassword(temporaryPassword), true);
+    await revokeUserSessions(c.env.DB, user.id);
+    await logAudit(c.env.DB, {
+      actorUserId: actor.id,
+      action: 'user.password_reset',
+      targetType: 'user',
+      targetId: user.id
+    });
+
+    return c.json({
+      message: 'Password reset successfully. The user must change it at next login.',
+      temporaryPassword
+    });
+  } catch (error) {
+    console.error('Admin reset password error:', error);
+    return c.json({ error: 'Failed to reset password' }, 500);
+  }
+});
+
+/**
+ * POST /api/admin/users/:id/revoke-access
+ * Revoke all of a user's API keys (including the account key) and sessions
+ */
+admin.post('/users/:id/revoke-access', async (c) => {
+  try {
+    const actor = c.get('user')!;
+    const user = await getTargetUser(c);
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const revokedKeys = await revokeAllApiKeys(c.env.DB, user.id);
+
+    // Replace the account key with one nobody knows; the user can issue a new one
+    await storeUserApiKey(c.env.DB, user.id, await prepareApiKeyForStorage(generateApiKey()));
+    await revokeUserSessions(c.env.DB, user.id);
+
+    await logAudit(c.env.DB, {
+      actorUserId: actor.id,
+      action: 'user.access_revoked',
+      targetType: 'user',
+      targetId: user.id,
+      details: { revokedKeys }
+    });
+
+    return c.json({
+      message: 'All API keys and sessions revoked successfully',
+      revokedKeys
+    });
+  } catch (error) {
+    console.error('Admin revoke access error:', error);
+    return c.json({ error: 'Failed to revoke access' }, 500);
+  }
+});
+
+/**
+ * GET /api/admin/models
+ * List every catalog model, including inactive and retired ones
+ */
+admin.get('/models', async (c) => {
+  try {
+    const models = await getAllModels(c.env.DB);
+    return c.json({ models: models.map(serializeModelForAdmin) });
+  } catch (error) {
+    console.error('Admin list models error:', error);
+    return c.json({ error: 'Failed to fetch models' }, 500);
+  }
+});
+
+/**
+ * POST /api/admin/models
+ * Add a model to the catalog
+ */
+admin.post('/models', async (c) => {
+  try {
+    const actor = c.get('user')!;
+    const input = parseModelInput(await c.req.json(), false);
+    if ('error' in input) {
+      return c.json({ error: input.error }, 400);
+    }
+
+    if (input.fields.model_id === AUTO_MODEL) {
+      return c.json({ error: `${AUTO_MODEL} is reserved for smart routing` }, 400);
+    }
+
+    if (await findModelByModelId(c.env.DB, input.fields.model_id!)) {
+      return c.json({ error: `Model ${input.fields.model_id} already exists` }, 409);
+    }
+
+    const model = await createModel(c.env.DB, input.fields);
+    await logAudit(c.env.DB, {
+      actorUserId: actor.id,
+      action: 'model.created',
+      targetType: 'model',
+      targetId: model.id,
+      details: { modelId: model.model_id, provider: model.provider }
+    });
+
+    return c.json({
+      message: 'Model created successfully',
+      model: serializeModelForAdmin(model)
+    }, 201);
+  } catch (error) {
+    console.error('Admin create model error:', error);
+    return c.json({ error: 'Failed to create model' }, 500);
+  }
+});
+
+/**
+ * PUT /api/admin/models/:id
+ * Update a catalog model (only the given fields change)
+ */
+admin.put('/models/:id', async (c) => {
+  try {
+    const actor = c.get('user')!;
+    const model = await getModelById(c.env.DB, parseInt(c.req.param('id')));
+    if (!model) {
+      return c.json({ error: 'Model not found' }, 404);
+    }
+
+    const input = parseModelInput(await c.req.json(), true);
+    if ('error' in input) {
+      return c.json({ error: input.error }, 400);
+    }
+
+    if (Object.keys(input.fields).length === 0) {
+      return c.json({ error: 'No fields to update' }, 400);
+    }
+
+    const newModelId = input.fields.model_id;
+    if (newModelId === AUTO_MODEL) {
+      return c.json({ error: `${AUTO_MODEL} is reserved for smart routing` }, 400);
+    }
+
+    if (newModelId && newModelId !== model.model_id && await findModelByModelId(c.env.DB, newModelId)) {
+      return c.json({ error: `Model ${newModelId} already exists` }, 409);
+    }
+
+    if (input.fields.replacement_model_id && input.fields.replacement_model_id === (newModelId || model.model_id)) {
+      return c.json({ error: 'A model cannot be its own replacement' }, 400);
+    }
+
+    const updated = await updateModel(c.env.DB, model.id, input.fields);
+    await logAudit(c.env.DB, {
+      actorUserId: actor.id,
+      action: 'model.updated',
+      targetType: 'model',
+      targetId: model.id,
+      details: { modelId: updated!.model_id, changes: input.fields }
+    });
+
+    return c.json({
+      message: 'Model updated successfully',
+      model: serializeModelForAdmin(updated!)
+    });
+  } catch (error) {
+    console.error('Admin update model error:', error);
+    return c.json({ error: 'Failed to update model' }, 500);
+  }
+});
+
+/**
+ * POST /api/admin/models/:id/deprecate
+ * Set a deprecation date (default now) and optional replacement model
+ */
+admin.post('/models/:id/deprecate', async (c) => {
+  try {
+    const actor = c.get('user')!;
+    const model = await getModelById(c.env.DB, parseInt(c.req.param('id')));
+    if (!model) {
+      return c.json({ error: 'Model not found' }, 404);
+    }
+
+    const body = await c.req.json().catch(() => ({}));
+    const input = parseModelInput({
+      deprecatedAt: body?.deprecatedAt ?? new Date().toISOString(),
+      replacementModel: body?.replacementModel ?? null
+    }, true);
+    if ('error' in input) {
+      return c.json({ error: input.error }, 400);
+    }
+
+    const replacementId = input.fields.replacement_model_id;
+    if (replacementId) {
+      if (replacementId === model.model_id) {
+        return c.json({ error: 'A model cannot be its own replacement' }, 400);
+      }
+
+      const replacement = await findModelByModelId(c.env.DB, replacementId);
+      if (!replacement || !replacement.is_active) {
+        return c.json({ error: `Replacement model ${replacementId} not found or inactive` }, 400);
+      }
+    }
+
+    const updated = await updateModel(c.env.DB, model.id, input.fields);
+    await logAudit(c.env.DB, {
+      actorUserId: actor.id,
+      action: 'model.deprecated',
+      targetType: 'model',
+      targetId: model.id,
+      details: { modelId: model.model_id, deprecatedAt: updated!.deprecated_at, replacementModel: replacementId }
+    });
+
+    return c.json({
+      message: 'Model deprecated successfully',
+      model: serializeModelForAdmin(updated!)
+    });
+  } catch (error) {
+    console.error('Admin deprecate model error:', error);
+    return c.json({ error: 'Failed to deprecate model' }, 500);
+  }
+});
+
+/**
+ * DELETE /api/admin/models/:id
+ * Deactivate a model (it stays in the catalog and can be reactivated)
+ */
+admin.delete('/models/:id', async (c) => {
+  try {
+    const actor = c.get('user')!;
+    const model = await getModelById(c.env.DB, parseInt(c.req.param('id')));
+    if (!model) {
+      return c.json({ error: 'Model not found' }, 404);
+    }
+
+    await updateModel(c.env.DB, model.id, { is_active: 0 });
+    await logAudit(c.env.DB, {
+      actorUserId: actor.id,
+      action: 'model.deactivated',
+      targetType: 'model',
+      targetId: model.id,
+      details: { modelId: model.model_id }
+    });
+
+    return c.json({ message: 'Model deactivated successfully' });
+  } catch (error) {
+    console.error('Admin deactivate model error:', error);
+    return c.json({ error: 'Failed to deactivate model' }, 500);
+  }
+});
+
+/**
+ * Check that an alias name is free, its targets (every variant of an A/B
+ * alias) are active catalog models and its defaults fit each of them
+ */
+async function checkAlias(
+  c: AdminContext,
+  fields: Omit<ModelAlias, 'id' | 'created_at' | 'updated_at'>,
+  currentId: number | null
+): Promise<string | null> {
+  if (fields.alias === AUTO_MODEL) {
+    return `${AUTO_MODEL} is reserved for smart routing`;
+  }
+
+  if (await findModelByModelId(c.env.DB, fields.alias)) {
+    return `${fields.alias} is already a model ID`;
+  }
+
+  const existing = await findModelAlias(c.env.DB, fields.alias);
+  if (existing && existing.id !== currentId) {
+    return `Alias ${fields.alias} already exists`;
+  }
+
+  const variants = getAliasVariants(fields);
+  const modelIds = variants.length > 0 ? variants.map(variant => variant.model) : [fields.model_id];
+
+  for (const modelId of modelIds) {
+    const target = await findModelByModelId(c.env.DB, modelId);
+    if (!target || !target.is_active) {
+      return `Model ${modelId} not found or inactive`;
+    }
+
+    const problem = checkAliasDefaults(fields, target);
+    if (problem) {
+      return problem;
+    }
+  }
+
+  return null;
+}
+
+function serializeAliasForAdmin(alias: ModelAlias) {
+  return {
+    aliasId: alias.id,
+    ...serializeAlias(alias),
+    isActive: !!alias.is_active,
+    createdAt: alias.created_at,
+    updatedAt: alias.updated_at
+  };
+}
+
+/**
+ * GET /api/admin/aliases
+ * List all model aliases
+ */
+admin.get('/aliases', async (c) => {
+  try {
+    const aliases = await getModelAliases(c.env.DB, false);
+    return c.json({ aliases: aliases.map(serializeAliasForAdmin) });
+  } catch (error) {
+    console.error('Admin list aliases error:', error);
+    return c.json({ error: 'Failed to fetch aliases' }, 500);
+  }
+});
+
+/**
+ * POST /api/admin/aliases
+ * Create a model alias with optional default parameters
+ */
+admin.post('/aliases', async (c) => {
+  try {
+    const actor = c.get('user')!;
+    const input = parseAliasInput(await c.req.json(), null);
+    if ('error' in input) {
+      return c.json({ error: input.error }, 400);
+    }
+
+    const conflict = await checkAlias(c, input.fields, null);
+    if (conflict) {
+      return c.json({ error: conflict }, 400);
+    }
+
+    const alias = await saveModelAlias(c.env.DB, null, input.fields);
+    await logAudit(c.env.DB, {
+      actorUserId: actor.id,
+      action: 'alias.created',
+      targetType: 'alias',
+      targetId: alias.id,
+      details: { alias: alias.alias, model: alias.model_id, variants: getAliasVariants(alias) }
+    });
+
+    return c.json({
+      message: 'Alias created successfully',
+      alias: serializeAliasForAdmin(alias)
+    }, 201);
+  } catch (error) {
+    console.error('Admin create alias error:', error);
+    return c.json({ error: 'Failed to create alias' }, 500);
+  }
+});
+
+/**
+ * PUT /api/admin/aliases/:id
+ * Update an alias (e.g. point it at a newer model)
+ */
+admin.put('/aliases/:id', async (c) => {
+  try {
+    const actor = c.get('user')!;
+    const existing = await getModelAliasById(c.env.DB, parseInt(c.req.param('id')));
+    if (!existing) {
+      return c.json({ error: 'Alias not found' }, 404);
+    }
+
+    const input = parseAliasInput(await c.req.json(), existing);
+    if ('error' in input) {
+      return c.json({ error: input.error }, 400);
+    }
+
+    const conflict = await checkAlias(c, input.fields, existing.id);
+    if (conflict) {
+      return c.json({ error: conflict }, 400);
+    }
+
+    const alias = await saveModelAlias(c.env.DB, existing.id, input.fields);
+    await logAudit(c.env.DB, {
+      actorUserId: actor.id,
+      action: 'alias.updated',
+      targetType: 'alias',
+      targetId: alias.id,
+      details: {
+        alias: alias.alias,
+        from: existing.model_id,
+        to: alias.model_id,
+        variants: getAliasVariants(alias)
+      }
+    });
+
+    return c.json({
+      message: 'Alias updated successfully',
+      alias: serializeAliasForAdmin(alias)
+    });
+  } catch (error) {
+    console.error('Admin update alias error:', error);
+    return c.json({ error: 'Failed to update alias' }, 500);
+  }
+});
+
+/**
+ * DELETE /api/admin/aliases/:id
+ * Delete an alias
+ */
+admin.delete('/aliases/:id', async (c) => {
+  try {
+    const actor = c.get('user')!;
+    const alias = await getModelAliasById(c.env.DB, parseInt(c.req.param('id')));
+    if (!alias) {
+      return c.json({ error: 'Alias not found' }, 404);
+    }
+
+    await deleteModelAlias(c.env.DB, alias.id);
+    await logAudit(c.env.DB, {
+      actorUserId: actor.id,
+      action: 'alias.deleted',
+      targetType: 'alias',
+      targetId: alias.id,
+      details: { alias: alias.alias, model: alias.model_id }
+    });
+
+    return c.json({ message: 'Alias deleted successfully' });
+  } catch (error) {
+    console.error('Admin delete alias error:', error);
+    return c.json({ error: 'Failed to delete alias' }, 500);
+  }
+});
+
+/**
+ * GET /api/admin/audit
+ * List audit log entries (filter by action, targetType, targetId, actorUserId; paginated)
+ */
+admin.get('/audit', async (c) => {
+  try {
+    const { page, limit, offset } = getPagination(c);
+    const targetId = c.req.query('targetId');
+    const actorUserId = c.req.query('actorUserId');
+
+    const { logs, total } = await getAuditLogs(c.env.DB, {
+      action: c.req.query('action') || undefined,
+      targetType: c.req.query('targetType') || undefined,
+      targetId: targetId ? parseInt(targetId) : undefined,
+      actorUserId: actorUserId ? parseInt(actorUserId) : undefined
+    }, limit, offset);
+
+    return c.json({
+      logs: logs.map(serializeAuditLog),
+      pagination: paginationInfo(page, limit, total)
+    });
+  } catch (error) {
+    console.error('Admin audit log error:', error);
+    return c.json({ error: 'Failed to fetch audit log' }, 500);
+  }
+});
+
+export default admin;
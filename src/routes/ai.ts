@@ -1,35 +1,50 @@
 // AI API routes
 
 import { Hono } from 'hono';
-import type { Bindings, Variables, AIRequest } from '../types';
+import type { Bindings, Variables, RoutingTrace } from '../types';
 import { apiKeyMiddleware } from '../middleware/auth';
 import { rateLimiter } from '../middleware/rateLimit';
-import { routeAIRequest } from '../utils/aiProviders';
-import { getActiveModels } from '../utils/database';
+import { budgetGuard } from '../middleware/budget';
+import { keyScopeGuard } from '../middleware/scopes';
+import { streamAIRequest, routeEmbeddingRequest, getErrorStatus } from '../utils/aiProviders';
+import { toSSEStream } from '../utils/streaming';
+import { getProviderHealth } from '../utils/circuitBreaker';
+import { listProviders } from '../providers';
+import { getActiveModels, getModelAliases } from '../utils/database';
+import { isModelAllowed } from '../utils/scopes';
+import { serializeModel } from '../utils/modelCatalog';
+import { serializeAlias } from '../utils/modelAliases';
+import { validateChatRequest, validateCompletionRequest, validateEmbeddingRequest, invalidRequest } from '../utils/validation';
+import { recordServedBy, getRouteOptions, routeWithCache } from '../utils/routeContext';
+import batchRoutes from './batches';
 
 const ai = new Hono<{ Bindings: Bindings; Variables: Variables }>();
 
-// Apply authentication and rate limiting to all AI routes
+// Apply authentication, key scopes and rate limiting to all AI routes
 ai.use('/*', apiKeyMiddleware);
+ai.use('/*', keyScopeGuard);
 ai.use('/*', rateLimiter());
 
+// Enforce spending budgets on endpoints that call providers
+ai.use('/chat', budgetGuard);
+ai.use('/completion', budgetGuard);
+ai.use('/stream', budgetGuard);
+ai.use('/embeddings', budgetGuard);
+
 /**
  * GET /api/ai/models
- * Get list of available AI models
+ * Get list of available AI models and aliases (limited to the API key's
+ * scopes), with deprecation warnings
  */
 ai.get('/models', async (c) => {
   try {
-    const models = await getActiveModels(c.env.DB);
+    const scopes = c.get('keyScopes');
+    const models = (await getActiveModels(c.env.DB)).filter(m => isModelAllowed(scopes, m));
+    const aliases = (await getModelAliases(c.env.DB)).filter(a => !scopes?.models || scopes.models.includes(a.alias));
     
     return c.json({
-      models: models.map(m => ({
-        provider: m.provider,
-        name: m.model_name,
-        id: m.model_id,
-        description: m.description,
-        maxTokens: m.max_tokens,
-        costPer1kTokens: m.cost_per_1k_tokens
-      }))
+      models: models.map(serializeModel),
+      aliases: aliases.map(serializeAlias)
     });
   } catch (error) {
     console.error('Get models error:', error);
@@ -39,27 +54,26 @@ ai.get('/models', async (c) => {
 
 /**
  * POST /api/ai/chat
- * Chat completion endpoint (OpenAI-compatible)
+ * Chat completion endpoint (OpenAI-compatible, including tool calling), with
+ * opt-in response caching
  */
 ai.post('/chat', async (c) => {
   try {
-    const request = await c.req.json() as AIRequest;
-
-    // Validate request
-    if (!request.model || !request.messages || !Array.isArray(request.messages)) {
-      return c.json({ error: 'Invalid request format' }, 400);
-    }
-
-    if (request.messages.length === 0) {
-      return c.json({ error: 'Messages array cannot be empty' }, 400);
+    // Validate request against the model catalog
+    const validation = await validateChatRequest(c.env.DB, await c.req.json().catch(() => null));
+    if ('error' in validation) {
+      return c.json(validation.error, 400);
     }
+    const request = validation.value;
 
     // Store model info in context for logging
-    c.set('modelProvider' as any, request.model.split('-')[0]);
-    c.set('modelName' as any, request.model);
+    const trace: RoutingTrace = { attempts: [] };
+    c.set('modelName', request.model);
+    c.set('routing', trace);
 
-    // Route to appropriate AI provider
-    const response = await routeAIRequest(request, c.env);
+    // Route to appropriate AI provider (with fallbacks)
+    const response = await routeWithCache(c, request, trace, 'chat');
+    recordServedBy(c, trace);
 
     return c.json(response);
   } catch (error) {
@@ -67,7 +81,7 @@ ai.post('/chat', async (c) => {
     return c.json({ 
       error: 'Chat completion failed',
       message: error instanceof Error ? error.message : 'Unknown error'
-    }, 500);
+    }, getErrorStatus(error));
   }
 });
 
@@ -77,30 +91,29 @@ ai.post('/chat', async (c) => {
  */
 ai.post('/completion', async (c) => {
   try {
-    const { model, prompt, temperature, max_tokens } = await c.req.json();
-
-    if (!model || !prompt) {
-      return c.json({ error: 'Missing model or prompt' }, 400);
+    // Validate and convert to chat format
+    const validation = await validateCompletionRequest(c.env.DB, await c.req.json().catch(() => null));
+    if ('error' in validation) {
+      return c.json(validation.error, 400);
     }
-
-    // Convert to chat format
-    const request: AIRequest = {
-      model,
-      messages: [{ role: 'user', content: prompt }],
-      temperature,
-      max_tokens
-    };
+    const request = validation.value;
 
     // Store model info in context for logging
-    c.set('modelProvider' as any, model.split('-')[0]);
-    c.set('modelName' as any, model);
+    const trace: RoutingTrace = { attempts: [] };
+    c.set('modelName', request.model);
+    c.set('routing', trace);
 
-    // Route to appropriate AI provider
-    const response = await routeAIRequest(request, c.env);
+    // Route to appropriate AI provider (with fallbacks)
+    const response = await routeWithCache(c, request, trace, 'completion');
+    recordServedBy(c, trace);
 
     return c.json({
       id: response.id,
       model: response.model,
+      provider: response.provider,
+      alias: response.alias,
+      variant: response.variant,
+      selection: response.selection,
       text: response.choices[0].message.content,
       usage: response.usage
     });
@@ -109,49 +122,102 @@ ai.post('/completion', async (c) => {
     return c.json({ 
       error: 'Text completion failed',
       message: error instanceof Error ? error.message : 'Unknown error'
-    }, 500);
+    }, getErrorStatus(error));
   }
 });
 
 /**
  * POST /api/ai/stream
- * Streaming chat completion (basic implementation)
+ * Streaming chat completion (server-sent events, OpenAI chunk format)
  */
 ai.post('/stream', async (c) => {
   try {
-    const request = await c.req.json() as AIRequest;
+    const validation = await validateChatRequest(c.env.DB, await c.req.json().catch(() => null));
+    if ('error' in validation) {
+      return c.json(validation.error, 400);
+    }
+    const request = validation.value;
 
-    if (!request.model || !request.messages) {
-      return c.json({ error: 'Invalid request format' }, 400);
+    // Streamed tool call deltas aren't normalized across providers yet
+    if (request.tools) {
+      return c.json(invalidRequest('Tool calling is not supported when streaming; use /api/ai/chat', 'tools'), 400);
     }
 
-    // For now, return non-streaming response with a note
-    // Streaming would require SSE implementation
-    const response = await routeAIRequest(request, c.env);
+    // Structured output can only be validated once the whole response is in
+    if (request.response_format) {
+      return c.json(invalidRequest('response_format is not supported when streaming; use /api/ai/chat', 'response_format'), 400);
+    }
 
-    return c.json({
-      ...response,
-      note: 'Streaming not yet implemented, returning complete response'
+    // Store model info in context for logging
+    const trace: RoutingTrace = { attempts: [] };
+    c.set('modelName', request.model);
+    c.set('routing', trace);
+
+    // Open the upstream stream (with fallbacks) before committing to a 200
+    const chunks = await streamAIRequest(request, c.env, trace, getRouteOptions(c));
+    recordServedBy(c, trace);
+
+    return c.body(toSSEStream(chunks), 200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
     });
   } catch (error) {
     console.error('Stream error:', error);
     return c.json({ 
       error: 'Streaming failed',
       message: error instanceof Error ? error.message : 'Unknown error'
-    }, 500);
+    }, getErrorStatus(error));
+  }
+});
+
+/**
+ * POST /api/ai/embeddings
+ * Embeddings endpoint (OpenAI-compatible) for OpenAI, Cohere and Gemini models
+ */
+ai.post('/embeddings', async (c) => {
+  try {
+    const validation = await validateEmbeddingRequest(c.env.DB, await c.req.json().catch(() => null));
+    if ('error' in validation) {
+      return c.json(validation.error, 400);
+    }
+    const request = validation.value;
+
+    // Store model info in context for logging
+    const trace: RoutingTrace = { attempts: [] };
+    c.set('modelName', request.model);
+    c.set('routing', trace);
+
+    const response = await routeEmbeddingRequest(request, c.env, trace);
+    recordServedBy(c, trace);
+
+    return c.json(response);
+  } catch (error) {
+    console.error('Embeddings error:', error);
+    return c.json({ 
+      error: 'Embeddings failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, getErrorStatus(error));
   }
 });
 
 /**
  * GET /api/ai/health
- * Health check endpoint
+ * Health check endpoint with per-provider circuit breaker state
  */
 ai.get('/health', async (c) => {
+  const providers = listProviders().map(adapter => getProviderHealth(adapter.name, c.env));
+  const degraded = providers.some(p => p.state !== 'closed');
+
   return c.json({
-    status: 'ok',
+    status: degraded ? 'degraded' : 'ok',
     timestamp: new Date().toISOString(),
-    service: 'AI Platform API'
+    service: 'AI Platform API',
+    providers
   });
 });
 
+// Asynchronous batch jobs
+ai.route('/batches', batchRoutes);
+
 export default ai;
@@ -5,6 +5,21 @@ import type { Bindings, Variables } from '../types';
 import { authMiddleware } from '../middleware/auth';
 import { getUserStats, getRecentLogs } from '../utils/database';
 
+/**
+ * Per-model usage row of GET /api/analytics/usage
+ */
+type ModelUsage = {
+  provider: string;
+  model: string;
+  requests: number;
+  averageLatency: number;
+  successRate: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+};
+
 const analytics = new Hono<{ Bindings: Bindings; Variables: Variables }>();
 
 // All analytics routes require authentication
@@ -59,6 +74,8 @@ analytics.get('/logs', async (c) => {
         method: log.method,
         modelProvider: log.model_provider,
         modelName: log.model_name,
+        modelAlias: log.model_alias,
+        modelVariant: log.model_variant,
         statusCode: log.status_code,
         latency: log.latency_ms,
         timestamp: log.created_at,
@@ -73,7 +90,7 @@ analytics.get('/logs', async (c) => {
 
 /**
  * GET /api/analytics/usage
- * Get usage breakdown by model
+ * Get usage breakdown by model, and by variant for A/B aliases
  */
 analytics.get('/usage', async (c) => {
   try {
@@ -92,21 +109,64 @@ analytics.get('/usage', async (c) => {
         model_name,
         COUNT(*) as request_count,
         AVG(latency_ms) as avg_latency,
-        SUM(CASE WHEN status_code < 400 THEN 1 ELSE 0 END) as successful_requests
+        SUM(CASE WHEN status_code < 400 THEN 1 ELSE 0 END) as successful_requests,
+        SUM(prompt_tokens) as prompt_tokens,
+        SUM(completion_tokens) as completion_tokens,
+        SUM(total_tokens) as total_tokens,
+        SUM(cost) as total_cost
       FROM request_logs
       WHERE user_id = ? AND created_at > ?
       GROUP BY model_provider, model_name
       ORDER BY request_count DESC
     `).bind(user.id, startDate.toISOString()).all();
 
+    const usage: ModelUsage[] = result.results.map((row: any) => ({
+      provider: row.model_provider,
+      model: row.model_name,
+      requests: row.request_count,
+      averageLatency: Math.round(row.avg_latency || 0),
+      successRate: ((row.successful_requests / row.request_count) * 100).toFixed(2) + '%',
+      promptTokens: row.prompt_tokens || 0,
+      completionTokens: row.completion_tokens || 0,
+      totalTokens: row.total_tokens || 0,
+      cost: Math.round((row.total_cost || 0) * 1e6) / 1e6
+    }));
+
+    // A/B aliases: compare the variants each alias split traffic across
+    const variantResult = await c.env.DB.prepare(`
+      SELECT 
+        model_alias,
+        model_variant,
+        COUNT(*) as request_count,
+        AVG(latency_ms) as avg_latency,
+        SUM(CASE WHEN status_code >= 400 THEN 1 ELSE 0 END) as failed_requests,
+        SUM(total_tokens) as total_tokens,
+        SUM(cost) as total_cost
+      FROM request_logs
+      WHERE user_id = ? AND created_at > ? AND model_variant IS NOT NULL
+      GROUP BY model_alias, model_variant
+      ORDER BY model_alias, request_count DESC
+    `).bind(user.id, startDate.toISOString()).all();
+
+    const variants = variantResult.results.map((row: any) => ({
+      alias: row.model_alias,
+      variant: row.model_variant,
+      requests: row.request_count,
+      averageLatency: Math.round(row.avg_latency || 0),
+      errorRate: ((row.failed_requests / row.request_count) * 100).toFixed(2) + '%',
+      totalTokens: row.total_tokens || 0,
+      cost: Math.round((row.total_cost || 0) * 1e6) / 1e6,
+      costPerRequest: Math.round(((row.total_cost || 0) / row.request_count) * 1e6) / 1e6
+    }));
+
     return c.json({
-      usage: result.results.map((row: any) => ({
-        provider: row.model_provider,
-        model: row.model_name,
-        requests: row.request_count,
-        averageLatency: Math.round(row.avg_latency || 0),
-        successRate: ((row.successful_requests / row.request_count) * 100).toFixed(2) + '%'
-      })),
+      usage,
+      variants,
+      totals: {
+        requests: usage.reduce((sum, u) => sum + u.requests, 0),
+        totalTokens: usage.reduce((sum, u) => sum + u.totalTokens, 0),
+        cost: Math.round(usage.reduce((sum, u) => sum + u.cost, 0) * 1e6) / 1e6
+      },
       period: {
         days,
         startDate: startDate.toISOString(),
@@ -119,6 +179,158 @@ analytics.get('/usage', async (c) => {
   }
 });
 
+/**
+ * GET /api/analytics/cache
+ * Exact and semantic response cache hit rates (overall and per route) and
+ * the upstream cost saved by hits
+ */
+analytics.get('/cache', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const days = parseInt(c.req.query('days') || '7');
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+
+    const result = await c.env.DB.prepare(`
+      SELECT 
+        endpoint,
+        SUM(CASE WHEN cache_status = 'hit' THEN 1 ELSE 0 END) as hits,
+        SUM(CASE WHEN cache_status = 'semantic_hit' THEN 1 ELSE 0 END) as semantic_hits,
+        SUM(CASE WHEN cache_status = 'miss' THEN 1 ELSE 0 END) as misses,
+        SUM(saved_cost) as saved_cost
+      FROM request_logs
+      WHERE user_id = ? AND created_at > ? AND cache_status IS NOT NULL
+      GROUP BY endpoint
+      ORDER BY endpoint
+    `).bind(user.id, startDate.toISOString()).all();
+
+    const summarize = (hits: number, semanticHits: number, misses: number, savedCost: number) => {
+      const lookups = hits + semanticHits + misses;
+      const rate = (count: number) => (lookups > 0 ? ((count / lookups) * 100).toFixed(2) : '0.00') + '%';
+
+      return {
+        lookups,
+        exactHits: hits,
+        semanticHits,
+        misses,
+        hitRate: rate(hits + semanticHits),
+        exactHitRate: rate(hits),
+        semanticHitRate: rate(semanticHits),
+        savedCost: Math.round(savedCost * 1e6) / 1e6
+      };
+    };
+
+    const rows = result.results as any[];
+    const byRoute = rows.map(row => ({
+      endpoint: row.endpoint,
+      ...summarize(row.hits || 0, row.semantic_hits || 0, row.misses || 0, row.saved_cost || 0)
+    }));
+
+    return c.json({
+      cache: summarize(
+        rows.reduce((sum, row) => sum + (row.hits || 0), 0),
+        rows.reduce((sum, row) => sum + (row.semantic_hits || 0), 0),
+        rows.reduce((sum, row) => sum + (row.misses || 0), 0),
+        rows.reduce((sum, row) => sum + (row.saved_cost || 0), 0)
+      ),
+      byRoute,
+      period: {
+        days,
+        startDate: startDate.toISOString(),
+        endDate: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('Cache analytics error:', error);
+    return c.json({ error: 'Failed to fetch cache analytics' }, 500);
+  }
+});
+
+/**
+ * GET /api/analytics/batches
+ * Batch job spend, per batch and against interactive requests
+ */
+analytics.get('/batches', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const days = parseInt(c.req.query('days') || '7');
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+
+    const result = await c.env.DB.prepare(`
+      SELECT 
+        l.batch_id,
+        b.status,
+        COUNT(*) as request_count,
+        SUM(CASE WHEN l.status_code >= 400 THEN 1 ELSE 0 END) as failed_requests,
+        SUM(l.prompt_tokens) as prompt_tokens,
+        SUM(l.completion_tokens) as completion_tokens,
+        SUM(l.total_tokens) as total_tokens,
+        SUM(l.cost) as total_cost
+      FROM request_logs l
+      LEFT JOIN batches b ON b.id = l.batch_id
+      WHERE l.user_id = ? AND l.created_at > ? AND l.batch_id IS NOT NULL
+      GROUP BY l.batch_id
+      ORDER BY l.batch_id DESC
+    `).bind(user.id, startDate.toISOString()).all();
+
+    const batches = result.results.map((row: any) => ({
+      batchId: row.batch_id,
+      status: row.status,
+      requests: row.request_count,
+      failedRequests: row.failed_requests || 0,
+      promptTokens: row.prompt_tokens || 0,
+      completionTokens: row.completion_tokens || 0,
+      totalTokens: row.total_tokens || 0,
+      cost: Math.round((row.total_cost || 0) * 1e6) / 1e6
+    }));
+
+    const totalsResult = await c.env.DB.prepare(`
+      SELECT 
+        batch_id IS NOT NULL as is_batch,
+        COUNT(*) as request_count,
+        SUM(total_tokens) as total_tokens,
+        SUM(cost) as total_cost
+      FROM request_logs
+      WHERE user_id = ? AND created_at > ?
+      GROUP BY is_batch
+    `).bind(user.id, startDate.toISOString()).all();
+
+    const summarize = (isBatch: boolean) => {
+      const row = (totalsResult.results as any[]).find(r => !!r.is_batch === isBatch);
+      return {
+        requests: row?.request_count || 0,
+        totalTokens: row?.total_tokens || 0,
+        cost: Math.round((row?.total_cost || 0) * 1e6) / 1e6
+      };
+    };
+
+    return c.json({
+      batches,
+      totals: {
+        batch: summarize(true),
+        interactive: summarize(false)
+      },
+      period: {
+        days,
+        startDate: startDate.toISOString(),
+        endDate: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('Batch analytics error:', error);
+    return c.json({ error: 'Failed to fetch batch analytics' }, 500);
+  }
+});
+
 /**
  * GET /api/analytics/timeline
  * Get request timeline data
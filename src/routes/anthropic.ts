@@ -0,0 +1,83 @@
+// Anthropic Messages-compatible API route (/v1/messages), so Anthropic SDKs
+// can reach every provider with a baseURL change
+
+import { Hono } from 'hono';
+import type { Bindings, Variables, RoutingTrace } from '../types';
+import { apiKeyMiddleware } from '../middleware/auth';
+import { rateLimiter } from '../middleware/rateLimit';
+import { budgetGuard } from '../middleware/budget';
+import { keyScopeGuard } from '../middleware/scopes';
+import { anthropicErrorFormat } from '../middleware/errorFormat';
+import { streamAIRequest, getErrorStatus } from '../utils/aiProviders';
+import { validateChatRequest } from '../utils/validation';
+import { recordServedBy, getRouteOptions, routeWithCache } from '../utils/routeContext';
+import {
+  anthropicError,
+  fromAnthropicRequest,
+  toAnthropicMessage,
+  toAnthropicEvents,
+  toAnthropicSSEStream
+} from '../utils/anthropicCompat';
+
+const anthropic = new Hono<{ Bindings: Bindings; Variables: Variables }>();
+
+// Authentication (x-api-key), key scopes, rate limiting and budgets, with
+// errors in Anthropic's format
+anthropic.use('/messages', anthropicErrorFormat, apiKeyMiddleware, keyScopeGuard, rateLimiter(), budgetGuard);
+
+/**
+ * POST /v1/messages
+ * Anthropic Messages, routed to any provider and streamed when `stream` is true
+ */
+anthropic.post('/messages', async (c) => {
+  try {
+    const translated = fromAnthropicRequest(await c.req.json().catch(() => null));
+    if ('error' in translated) {
+      return c.json(anthropicError(400, translated.error), 400);
+    }
+
+    const validation = await validateChatRequest(c.env.DB, translated.value);
+    if ('error' in validation) {
+      return c.json(anthropicError(400, validation.error.error.message), 400);
+    }
+    const request = validation.value;
+
+    if (request.stream && request.tools) {
+      return c.json(anthropicError(400, 'Tool use is not supported when streaming'), 400);
+    }
+
+    // Streaming counts against the key's stream scope, as on /api/ai/stream
+    const scopes = c.get('keyScopes');
+    if (request.stream && scopes?.endpoints && !scopes.endpoints.includes('stream')) {
+      return c.json(anthropicError(403, 'This API key is not allowed to use the stream endpoint'), 403);
+    }
+
+    // Store model info in context for logging
+    const trace: RoutingTrace = { attempts: [] };
+    c.set('modelName', request.model);
+    c.set('routing', trace);
+
+    if (request.stream) {
+      // Open the upstream stream (with fallbacks) before committing to a 200
+      const chunks = await streamAIRequest(request, c.env, trace, getRouteOptions(c));
+      recordServedBy(c, trace);
+
+      return c.body(toAnthropicSSEStream(toAnthropicEvents(chunks, request.model)), 200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      });
+    }
+
+    const response = await routeWithCache(c, request, trace, 'chat');
+    recordServedBy(c, trace);
+
+    return c.json(toAnthropicMessage(response));
+  } catch (error) {
+    console.error('Messages error:', error);
+    const status = getErrorStatus(error);
+    return c.json(anthropicError(status, error instanceof Error ? error.message : 'Unknown error'), status);
+  }
+});
+
+export default anthropic;
@@ -2,8 +2,15 @@
 
 import { Hono } from 'hono';
 import type { Bindings, Variables } from '../types';
-import { hashPassword, verifyPassword, generateApiKey, generateJWT } from '../utils/auth';
-import { getUserByEmail, createUser, getUserById } from '../utils/database';
+import {
+  hashPassword,
+  verifyPassword,
+  generateApiKey,
+  prepareApiKeyForStorage,
+  displayApiKey,
+  generateJWT
+} from '../utils/auth';
+import { getUserByEmail, createUser, storeUserApiKey, setUserPassword } from '../utils/database';
 import { authMiddleware } from '../middleware/auth';
 import { JWT_SECRET } from '../middleware/auth';
 
@@ -38,8 +45,8 @@ auth.post('/register', async (c) => {
     // Generate API key
     const apiKey = generateApiKey();
 
-    // Create user
-    const user = await createUser(c.env.DB, email, username, passwordHash, apiKey);
+    // Create user (only the hashed key is stored)
+    const user = await createUser(c.env.DB, email, username, passwordHash, await prepareApiKeyForStorage(apiKey));
 
     // Generate JWT
     const token = await generateJWT({
@@ -55,7 +62,7 @@ auth.post('/register', async (c) => {
         email: user.email,
         username: user.username,
         role: user.role,
-        apiKey: user.api_key
+        apiKey
       },
       token
     }, 201);
@@ -108,7 +115,8 @@ auth.post('/login', async (c) => {
         email: user.email,
         username: user.username,
         role: user.role,
-        apiKey: user.api_key
+        apiKeyPrefix: displayApiKey(user),
+        passwordResetRequired: !!user.password_reset_required
       },
       token
     });
@@ -135,7 +143,8 @@ auth.get('/me', authMiddleware, async (c) => {
       email: user.email,
       username: user.username,
       role: user.role,
-      apiKey: user.api_key,
+      apiKeyPrefix: displayApiKey(user),
+      passwordResetRequired: !!user.password_reset_required,
       createdAt: user.created_at
     }
   });
@@ -157,9 +166,7 @@ auth.post('/refresh-api-key', authMiddleware, async (c) => {
     const newApiKey = generateApiKey();
 
     // Update user's API key
-    await c.env.DB.prepare('UPDATE users SET api_key = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?')
-      .bind(newApiKey, user.id)
-      .run();
+    await storeUserApiKey(c.env.DB, user.id, await prepareApiKeyForStorage(newApiKey));
 
     return c.json({
       message: 'API key refreshed successfully',
@@ -197,10 +204,8 @@ auth.put('/password', authMiddleware, async (c) => {
     // Hash new password
     const newPasswordHash = await hashPassword(newPassword);
 
-    // Update password
-    await c.env.DB.prepare('UPDATE users SET password_hash = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?')
-      .bind(newPasswordHash, user!.id)
-      .run();
+    // Update password (clears any admin-forced reset)
+    await setUserPassword(c.env.DB, user!.id, newPasswordHash, false);
 
     return c.json({ message: 'Password updated successfully' });
   } catch (error) {
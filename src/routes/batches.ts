@@ -0,0 +1,234 @@
+// Batch job routes (/api/ai/batches): JSONL uploads processed in the background.
+// Mounted under the AI routes, which apply authentication, key scopes and rate limiting.
+
+import { Hono, Context } from 'hono';
+import type { Bindings, Variables } from '../types';
+import { budgetGuard } from '../middleware/budget';
+import {
+  createBatch,
+  addBatchItems,
+  queueBatch,
+  deleteBatch,
+  getBatchById,
+  getBatchesByUser,
+  getBatchResults,
+  cancelBatch
+} from '../utils/database';
+import { parseBatchFile, serializeBatch, drainBatchJobs } from '../utils/batches';
+import { invalidRequest } from '../utils/validation';
+
+// Output records read from D1 per page while streaming a results download
+const RESULTS_PAGE_SIZE = 500;
+
+// Time the upload's background run keeps claiming lines; waitUntil work is cut
+// off about 30 seconds after the response, and the batch Cron Trigger carries on
+const UPLOAD_BUDGET_MS = 20 * 1000;
+
+const batches = new Hono<{ Bindings: Bindings; Variables: Variables }>();
+
+/**
+ * Read the JSONL file from a raw body or a multipart `file` field. The body is
+ * read as text first because key scope checks may already have consumed it.
+ */
+async function readBatchFile(c: Context<{ Bindings: Bindings; Variables: Variables }>): Promise<string | null> {
+  const contentType = c.req.header('Content-Type') || '';
+  const text = await c.req.text();
+
+  if (!contentType.startsWith('multipart/form-data')) {
+    return text;
+  }
+
+  const form = await new Response(text, { headers: { 'Content-Type': contentType } }).formData();
+  const file = form.get('file');
+  if (file === null) {
+    return null;
+  }
+
+  return typeof file === 'string' ? file : file.text();
+}
+
+/**
+ * Start processing in the background instead of waiting for the next batch
+ * Cron Trigger run (src/cron.ts)
+ */
+function startBatchJobs(c: Context<{ Bindings: Bindings; Variables: Variables }>) {
+  const run = drainBatchJobs(c.env, UPLOAD_BUDGET_MS)
+    .then(result => console.log('Batch jobs:', result))
+    .catch(error => console.error('Batch jobs error:', error));
+
+  try {
+    c.executionCtx.waitUntil(run);
+  } catch {
+    // No execution context (e.g. in tests); the run continues on its own
+  }
+}
+
+/**
+ * GET /api/ai/batches
+ * List the current user's most recent batches
+ */
+batches.get('/', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const limit = Math.min(100, Math.max(1, parseInt(c.req.query('limit') || '') || 20));
+    const list = await getBatchesByUser(c.env.DB, user.id, limit);
+
+    return c.json({ batches: list.map(serializeBatch) });
+  } catch (error) {
+    console.error('List batches error:', error);
+    return c.json({ error: 'Failed to fetch batches' }, 500);
+  }
+});
+
+/**
+ * POST /api/ai/batches
+ * Queue a JSONL file of chat requests (raw body or multipart `file` field)
+ */
+batches.post('/', budgetGuard, async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const text = await readBatchFile(c);
+    if (text === null) {
+      return c.json(invalidRequest("Multipart uploads must include the JSONL file as a 'file' field", 'file'), 400);
+    }
+
+    const parsed = parseBatchFile(text);
+    if ('error' in parsed) {
+      return c.json(invalidRequest(parsed.error, 'file'), 400);
+    }
+
+    const created = await createBatch(c.env.DB, user.id, c.get('apiKey')?.id ?? null);
+    try {
+      await addBatchItems(c.env.DB, created.id, parsed.lines);
+    } catch (error) {
+      await deleteBatch(c.env.DB, created.id);
+      throw error;
+    }
+
+    const batch = await queueBatch(c.env.DB, created.id, parsed.lines.length);
+    startBatchJobs(c);
+
+    return c.json({ batch: serializeBatch(batch) }, 201);
+  } catch (error) {
+    console.error('Create batch error:', error);
+    return c.json({
+      error: 'Failed to create batch',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/ai/batches/:id
+ * Get a batch's status, progress, usage and cost
+ */
+batches.get('/:id', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const batch = await getBatchById(c.env.DB, parseInt(c.req.param('id')), user.id);
+    if (!batch) {
+      return c.json({ error: 'Batch not found' }, 404);
+    }
+
+    return c.json({ batch: serializeBatch(batch) });
+  } catch (error) {
+    console.error('Get batch error:', error);
+    return c.json({ error: 'Failed to fetch batch' }, 500);
+  }
+});
+
+/**
+ * POST /api/ai/batches/:id/cancel
+ * Cancel a batch; lines already running still finish and are recorded
+ */
+batches.post('/:id/cancel', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const batch = await getBatchById(c.env.DB, parseInt(c.req.param('id')), user.id);
+    if (!batch) {
+      return c.json({ error: 'Batch not found' }, 404);
+    }
+
+    if (batch.status === 'completed' || batch.status === 'cancelled') {
+      return c.json({ error: `Batch is already ${batch.status}` }, 409);
+    }
+
+    const cancelled = await cancelBatch(c.env.DB, batch.id);
+
+    return c.json({ batch: serializeBatch(cancelled) });
+  } catch (error) {
+    console.error('Cancel batch error:', error);
+    return c.json({ error: 'Failed to cancel batch' }, 500);
+  }
+});
+
+/**
+ * GET /api/ai/batches/:id/results
+ * Download the output records processed so far as JSONL, in input order.
+ * `?status=succeeded|failed` limits the download to one outcome.
+ */
+batches.get('/:id/results', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const status = c.req.query('status');
+    if (status !== undefined && status !== 'succeeded' && status !== 'failed') {
+      return c.json({ error: "status must be 'succeeded' or 'failed'" }, 400);
+    }
+
+    const batch = await getBatchById(c.env.DB, parseInt(c.req.param('id')), user.id);
+    if (!batch) {
+      return c.json({ error: 'Batch not found' }, 404);
+    }
+
+    // Page through the records while streaming, instead of loading the whole batch
+    const encoder = new TextEncoder();
+    let afterLine = 0;
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const page = await getBatchResults(c.env.DB, batch.id, afterLine, RESULTS_PAGE_SIZE, status);
+          if (page.length > 0) {
+            afterLine = page[page.length - 1].line;
+            controller.enqueue(encoder.encode(page.map(row => `${row.result}\n`).join('')));
+          }
+          if (page.length < RESULTS_PAGE_SIZE) {
+            controller.close();
+          }
+        } catch (error) {
+          console.error('Batch results error:', error);
+          controller.error(error);
+        }
+      }
+    });
+
+    return c.body(body, 200, {
+      'Content-Type': 'application/x-ndjson',
+      'Content-Disposition': `attachment; filename="batch-${batch.id}-results.jsonl"`
+    });
+  } catch (error) {
+    console.error('Batch results error:', error);
+    return c.json({ error: 'Failed to fetch batch results' }, 500);
+  }
+});
+
+export default batches;
@@ -0,0 +1,223 @@
+// Spending budget routes
+
+import { Hono } from 'hono';
+import type { Bindings, Variables, Budget } from '../types';
+import { authMiddleware, adminMiddleware } from '../middleware/auth';
+import {
+  getUserById,
+  getBudgetsByUser,
+  getBudgetById,
+  upsertBudget,
+  resetBudget,
+  deleteBudget
+} from '../utils/database';
+import { getBudgetStatus, serializeBudgetStatus } from '../utils/budgets';
+
+const budgets = new Hono<{ Bindings: Bindings; Variables: Variables }>();
+
+// All budget routes require authentication
+budgets.use('/*', authMiddleware);
+
+/**
+ * Validate a budget definition from a request body
+ */
+function parseBudgetInput(body: any): { error: string } | {
+  period: Budget['period'];
+  limitType: Budget['limit_type'];
+  softLimit: number | null;
+  hardLimit: number | null;
+  webhookUrl: string | null;
+} {
+  const { period, limitType, softLimit, hardLimit, webhookUrl } = body || {};
+
+  if (period !== 'daily' && period !== 'monthly') {
+    return { error: "period must be 'daily' or 'monthly'" };
+  }
+
+  if (limitType !== 'cost' && limitType !== 'tokens') {
+    return { error: "limitType must be 'cost' or 'tokens'" };
+  }
+
+  const isLimit = (v: unknown) => v === undefined || v === null || (typeof v === 'number' && v >= 0);
+  if (!isLimit(softLimit) || !isLimit(hardLimit)) {
+    return { error: 'softLimit and hardLimit must be non-negative numbers' };
+  }
+
+  if (softLimit == null && hardLimit == null) {
+    return { error: 'At least one of softLimit or hardLimit is required' };
+  }
+
+  if (softLimit != null && hardLimit != null && softLimit > hardLimit) {
+    return { error: 'softLimit cannot exceed hardLimit' };
+  }
+
+  if (webhookUrl != null && !/^https?:\/\//.test(webhookUrl)) {
+    return { error: 'webhookUrl must be an http(s) URL' };
+  }
+
+  return {
+    period,
+    limitType,
+    softLimit: softLimit ?? null,
+    hardLimit: hardLimit ?? null,
+    webhookUrl: webhookUrl ?? null
+  };
+}
+
+/**
+ * GET /api/budgets
+ * Get the current user's budgets with spend and remaining amounts
+ */
+budgets.get('/', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const userBudgets = await getBudgetsByUser(c.env.DB, user.id);
+    const statuses = await Promise.all(userBudgets.map(b => getBudgetStatus(c.env.DB, b)));
+
+    return c.json({
+      budgets: statuses.map(serializeBudgetStatus)
+    });
+  } catch (error) {
+    console.error('Get budgets error:', error);
+    return c.json({ error: 'Failed to fetch budgets' }, 500);
+  }
+});
+
+/**
+ * GET /api/budgets/users/:userId
+ * Get a user's budgets (admin)
+ */
+budgets.get('/users/:userId', adminMiddleware, async (c) => {
+  try {
+    const userId = parseInt(c.req.param('userId'));
+    const target = await getUserById(c.env.DB, userId);
+    if (!target) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const userBudgets = await getBudgetsByUser(c.env.DB, userId);
+    const statuses = await Promise.all(userBudgets.map(b => getBudgetStatus(c.env.DB, b)));
+
+    return c.json({
+      budgets: statuses.map(serializeBudgetStatus)
+    });
+  } catch (error) {
+    console.error('Get user budgets error:', error);
+    return c.json({ error: 'Failed to fetch budgets' }, 500);
+  }
+});
+
+/**
+ * PUT /api/budgets/users/:userId
+ * Set a budget covering all of a user's traffic (admin)
+ */
+budgets.put('/users/:userId', adminMiddleware, async (c) => {
+  try {
+    const userId = parseInt(c.req.param('userId'));
+    const input = parseBudgetInput(await c.req.json());
+    if ('error' in input) {
+      return c.json({ error: input.error }, 400);
+    }
+
+    const target = await getUserById(c.env.DB, userId);
+    if (!target) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const budget = await upsertBudget(c.env.DB, { userId, apiKeyId: null, ...input });
+    const status = await getBudgetStatus(c.env.DB, budget);
+
+    return c.json({
+      message: 'Budget saved successfully',
+      budget: serializeBudgetStatus(status)
+    });
+  } catch (error) {
+    console.error('Set user budget error:', error);
+    return c.json({ error: 'Failed to save budget' }, 500);
+  }
+});
+
+/**
+ * PUT /api/budgets/keys/:keyId
+ * Set a budget on a single API key (admin)
+ */
+budgets.put('/keys/:keyId', adminMiddleware, async (c) => {
+  try {
+    const keyId = parseInt(c.req.param('keyId'));
+    const input = parseBudgetInput(await c.req.json());
+    if ('error' in input) {
+      return c.json({ error: input.error }, 400);
+    }
+
+    const key = await c.env.DB.prepare('SELECT id, user_id FROM api_keys WHERE id = ?')
+      .bind(keyId)
+      .first() as { id: number; user_id: number } | null;
+
+    if (!key) {
+      return c.json({ error: 'API key not found' }, 404);
+    }
+
+    const budget = await upsertBudget(c.env.DB, { userId: key.user_id, apiKeyId: key.id, ...input });
+    const status = await getBudgetStatus(c.env.DB, budget);
+
+    return c.json({
+      message: 'Budget saved successfully',
+      budget: serializeBudgetStatus(status)
+    });
+  } catch (error) {
+    console.error('Set key budget error:', error);
+    return c.json({ error: 'Failed to save budget' }, 500);
+  }
+});
+
+/**
+ * POST /api/budgets/:id/reset
+ * Reset spend for the current period (admin)
+ */
+budgets.post('/:id/reset', adminMiddleware, async (c) => {
+  try {
+    const id = parseInt(c.req.param('id'));
+    const budget = await getBudgetById(c.env.DB, id);
+    if (!budget) {
+      return c.json({ error: 'Budget not found' }, 404);
+    }
+
+    await resetBudget(c.env.DB, id);
+    const status = await getBudgetStatus(c.env.DB, (await getBudgetById(c.env.DB, id))!);
+
+    return c.json({
+      message: 'Budget reset successfully',
+      budget: serializeBudgetStatus(status)
+    });
+  } catch (error) {
+    console.error('Reset budget error:', error);
+    return c.json({ error: 'Failed to reset budget' }, 500);
+  }
+});
+
+/**
+ * DELETE /api/budgets/:id
+ * Remove a budget (admin)
+ */
+budgets.delete('/:id', adminMiddleware, async (c) => {
+  try {
+    const id = parseInt(c.req.param('id'));
+    const budget = await getBudgetById(c.env.DB, id);
+    if (!budget) {
+      return c.json({ error: 'Budget not found' }, 404);
+    }
+
+    await deleteBudget(c.env.DB, id);
+
+    return c.json({ message: 'Budget deleted successfully' });
+  } catch (error) {
+    console.error('Delete budget error:', error);
+    return c.json({ error: 'Failed to delete budget' }, 500);
+  }
+});
+
+export default budgets;
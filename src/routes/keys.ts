@@ -0,0 +1,423 @@
+// API key management routes
+
+import { Hono, Context } from 'hono';
+import type { Bindings, Variables, ApiKey } from '../types';
+import { authMiddleware, adminMiddleware } from '../middleware/auth';
+import { generateApiKey, prepareApiKeyForStorage, displayApiKey } from '../utils/auth';
+import { getApiKeyScopes, parseScopeInput } from '../utils/scopes';
+import { getSemanticCacheSettings, parseSemanticCacheInput } from '../utils/semanticCache';
+import { getMaxKeyLifetimeDays } from '../utils/keyExpiry';
+import {
+  createApiKey,
+  getApiKeysByUser,
+  getApiKeyById,
+  revokeApiKey,
+  setApiKeyExpiry,
+  updateApiKeyScopes,
+  updateApiKeySemanticCache,
+  migrateLegacyApiKeys,
+  logAudit,
+  toSqlTimestamp,
+  fromSqlTimestamp
+} from '../utils/database';
+
+const keys = new Hono<{ Bindings: Bindings; Variables: Variables }>();
+
+// Key management requires a logged-in user (JWT)
+keys.use('/*', authMiddleware);
+
+const MAX_KEY_NAME_LENGTH = 100;
+const DEFAULT_GRACE_PERIOD_HOURS = 24;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Serialize an API key for responses, never including the full key
+ */
+function serializeApiKey(key: ApiKey) {
+  const expired = key.expires_at !== null && fromSqlTimestamp(key.expires_at) <= new Date();
+
+  return {
+    id: key.id,
+    name: key.key_name,
+    maskedKey: displayApiKey(key),
+    isActive: !!key.is_active && !expired,
+    createdAt: key.created_at,
+    expiresAt: key.expires_at,
+    lastUsedAt: key.last_used_at,
+    scopes: getApiKeyScopes(key),
+    semanticCache: getSemanticCacheSettings(key)
+  };
+}
+
+/**
+ * Read a JSON object body, or null when it is malformed or missing (an empty
+ * body reads as {} where the body is optional)
+ */
+async function readJsonObject(
+  c: Context<{ Bindings: Bindings; Variables: Variables }>,
+  optional = false
+): Promise<Record<string, any> | null> {
+  const text = await c.req.text();
+  if (optional && !text.trim()) {
+    return {};
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  return body && typeof body === 'object' && !Array.isArray(body) ? body as Record<string, any> : null;
+}
+
+/**
+ * Resolve an expiry from either expiresAt (ISO date) or expiresInDays.
+ * With a maximum lifetime policy, keys default to (and may not exceed) it.
+ */
+function parseExpiry(body: any, maxLifetimeDays: number | null): { expiresAt: string | null } | { error: string } {
+  const latest = maxLifetimeDays ? new Date(Date.now() + maxLifetimeDays * DAY_MS) : null;
+  let date: Date | null = null;
+
+  if (body?.expiresAt != null) {
+    date = new Date(body.expiresAt);
+    if (Number.isNaN(date.getTime())) {
+      return { error: 'expiresAt must be a valid date' };
+    }
+    if (date <= new Date()) {
+      return { error: 'expiresAt must be in the future' };
+    }
+  } else if (body?.expiresInDays != null) {
+    const days = Number(body.expiresInDays);
+    if (!Number.isFinite(days) || days <= 0) {
+      return { error: 'expiresInDays must be a positive number' };
+    }
+    date = new Date(Date.now() + days * DAY_MS);
+  }
+
+  if (latest && date && date > latest) {
+    return { error: `API keys may not be valid for more than ${maxLifetimeDays} days` };
+  }
+
+  const expiresAt = date || latest;
+  return { expiresAt: expiresAt ? toSqlTimestamp(expiresAt) : null };
+}
+
+/**
+ * GET /api/keys
+ * List the current user's API keys (masked)
+ */
+keys.get('/', async (c) => {
+  try {
+    const user = c.get('user')!;
+    const apiKeys = await getApiKeysByUser(c.env.DB, user.id);
+
+    return c.json({
+      keys: apiKeys.map(serializeApiKey)
+    });
+  } catch (error) {
+    console.error('List API keys error:', error);
+    return c.json({ error: 'Failed to fetch API keys' }, 500);
+  }
+});
+
+/**
+ * POST /api/keys
+ * Create a named API key, optionally restricted by scopes.
+ * The full key is only returned in this response.
+ */
+keys.post('/', async (c) => {
+  try {
+    const user = c.get('user')!;
+    const body = await readJsonObject(c);
+    if (!body) {
+      return c.json({ error: 'Request body must be a JSON object' }, 400);
+    }
+
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+    if (!name) {
+      return c.json({ error: 'Missing key name' }, 400);
+    }
+
+    if (name.length > MAX_KEY_NAME_LENGTH) {
+      return c.json({ error: `Key name must be at most ${MAX_KEY_NAME_LENGTH} characters` }, 400);
+    }
+
+    const expiry = parseExpiry(body, getMaxKeyLifetimeDays(c.env));
+    if ('error' in expiry) {
+      return c.json({ error: expiry.error }, 400);
+    }
+
+    const scopes = parseScopeInput(body.scopes);
+    if ('error' in scopes) {
+      return c.json({ error: scopes.error }, 400);
+    }
+
+    const apiKey = generateApiKey();
+    const created = await createApiKey(
+      c.env.DB,
+      user.id,
+      name,
+      await prepareApiKeyForStorage(apiKey),
+      expiry.expiresAt,
+      scopes.scopes
+    );
+
+    await logAudit(c.env.DB, {
+      actorUserId: user.id,
+      action: 'api_key.created',
+      targetType: 'api_key',
+      targetId: created.id,
+      details: { keyName: name, expiresAt: created.expires_at }
+    });
+
+    return c.json({
+      message: 'API key created successfully. Store it now, it will not be shown again.',
+      key: serializeApiKey(created),
+      apiKey
+    }, 201);
+  } catch (error) {
+    console.error('Create API key error:', error);
+    return c.json({ error: 'Failed to create API key' }, 500);
+  }
+});
+
+/**
+ * POST /api/keys/migrate-legacy
+ * Hash all remaining plaintext API keys (admin only)
+ */
+keys.post('/migrate-legacy', adminMiddleware, async (c) => {
+  try {
+    const migrated = await migrateLegacyApiKeys(c.env.DB);
+
+    return c.json({
+      message: 'Legacy API keys migrated successfully',
+      migrated
+    });
+  } catch (error) {
+    console.error('Migrate legacy API keys error:', error);
+    return c.json({ error: 'Failed to migrate legacy API keys' }, 500);
+  }
+});
+
+/**
+ * GET /api/keys/:id
+ * Get a single API key (masked)
+ */
+keys.get('/:id', async (c) => {
+  try {
+    const user = c.get('user')!;
+    const key = await getApiKeyById(c.env.DB, parseInt(c.req.param('id')), user.id);
+
+    if (!key) {
+      return c.json({ error: 'API key not found' }, 404);
+    }
+
+    return c.json({ key: serializeApiKey(key) });
+  } catch (error) {
+    console.error('Get API key error:', error);
+    return c.json({ error: 'Failed to fetch API key' }, 500);
+  }
+});
+
+/**
+ * POST /api/keys/:id/rotate
+ * Issue a replacement key with the same scopes and cache settings. The old key keeps working
+ * for a grace period (gracePeriodHours, default 24; 0 revokes it immediately).
+ */
+keys.post('/:id/rotate', async (c) => {
+  try {
+    const user = c.get('user')!;
+    const key = await getApiKeyById(c.env.DB, parseInt(c.req.param('id')), user.id);
+
+    if (!key || !key.is_active) {
+      return c.json({ error: 'API key not found' }, 404);
+    }
+
+    // An expired key no longer authenticates, so it can't be renewed by rotating it
+    if (key.expires_at !== null && fromSqlTimestamp(key.expires_at) <= new Date()) {
+      return c.json({ error: 'API key has expired and cannot be rotated' }, 409);
+    }
+
+    const body = await readJsonObject(c, true);
+    if (!body) {
+      return c.json({ error: 'Request body must be a JSON object' }, 400);
+    }
+
+    const graceHours = body.gracePeriodHours ?? DEFAULT_GRACE_PERIOD_HOURS;
+    if (typeof graceHours !== 'number' || graceHours < 0) {
+      return c.json({ error: 'gracePeriodHours must be a non-negative number' }, 400);
+    }
+
+    const expiry = parseExpiry(body, getMaxKeyLifetimeDays(c.env));
+    if ('error' in expiry) {
+      return c.json({ error: expiry.error }, 400);
+    }
+
+    const apiKey = generateApiKey();
+    let created = await createApiKey(
+      c.env.DB,
+      user.id,
+      key.key_name,
+      await prepareApiKeyForStorage(apiKey),
+      expiry.expiresAt,
+      getApiKeyScopes(key)
+    );
+
+    const semanticCache = getSemanticCacheSettings(key);
+    if (semanticCache) {
+      created = (await updateApiKeySemanticCache(c.env.DB, created.id, semanticCache))!;
+    }
+
+    if (graceHours === 0) {
+      await revokeApiKey(c.env.DB, key.id);
+    } else {
+      // Never extend a key that was due to expire sooner
+      const graceEnd = new Date(Date.now() + graceHours * 60 * 60 * 1000);
+      if (!key.expires_at || fromSqlTimestamp(key.expires_at) > graceEnd) {
+        await setApiKeyExpiry(c.env.DB, key.id, toSqlTimestamp(graceEnd));
+      }
+    }
+
+    const previous = await getApiKeyById(c.env.DB, key.id, user.id);
+
+    await logAudit(c.env.DB, {
+      actorUserId: user.id,
+      action: 'api_key.rotated',
+      targetType: 'api_key',
+      targetId: key.id,
+      details: { keyName: key.key_name, replacementKeyId: created.id, previousExpiresAt: previous!.expires_at }
+    });
+
+    return c.json({
+      message: 'API key rotated successfully. Store the new key now, it will not be shown again.',
+      key: serializeApiKey(created),
+      apiKey,
+      previousKey: serializeApiKey(previous!)
+    }, 201);
+  } catch (error) {
+    console.error('Rotate API key error:', error);
+    return c.json({ error: 'Failed to rotate API key' }, 500);
+  }
+});
+
+/**
+ * PUT /api/keys/:id/scopes
+ * Replace a key's scopes (omitted fields become unrestricted)
+ */
+keys.put('/:id/scopes', async (c) => {
+  try {
+    const user = c.get('user')!;
+    const key = await getApiKeyById(c.env.DB, parseInt(c.req.param('id')), user.id);
+
+    if (!key || !key.is_active) {
+      return c.json({ error: 'API key not found' }, 404);
+    }
+
+    const body = await readJsonObject(c);
+    if (!body) {
+      return c.json({ error: 'Request body must be a JSON object' }, 400);
+    }
+
+    const scopes = parseScopeInput(body);
+    if ('error' in scopes) {
+      return c.json({ error: scopes.error }, 400);
+    }
+
+    const updated = await updateApiKeyScopes(c.env.DB, key.id, scopes.scopes);
+
+    await logAudit(c.env.DB, {
+      actorUserId: user.id,
+      action: 'api_key.scopes_updated',
+      targetType: 'api_key',
+      targetId: key.id,
+      details: { from: getApiKeyScopes(key), to: scopes.scopes }
+    });
+
+    return c.json({
+      message: 'API key scopes updated successfully',
+      key: serializeApiKey(updated!)
+    });
+  } catch (error) {
+    console.error('Update API key scopes error:', error);
+    return c.json({ error: 'Failed to update API key scopes' }, 500);
+  }
+});
+
+/**
+ * PUT /api/keys/:id/semantic-cache
+ * Enable the semantic cache per route with a similarity threshold, e.g.
+ * { routes: { chat: 0.92 } }, or disable it with { routes: null }
+ */
+keys.put('/:id/semantic-cache', async (c) => {
+  try {
+    const user = c.get('user')!;
+    const key = await getApiKeyById(c.env.DB, parseInt(c.req.param('id')), user.id);
+
+    if (!key || !key.is_active) {
+      return c.json({ error: 'API key not found' }, 404);
+    }
+
+    const body = await readJsonObject(c);
+    if (!body) {
+      return c.json({ error: 'Request body must be a JSON object' }, 400);
+    }
+
+    const input = parseSemanticCacheInput(body);
+    if ('error' in input) {
+      return c.json({ error: input.error }, 400);
+    }
+
+    const updated = await updateApiKeySemanticCache(c.env.DB, key.id, input.settings);
+
+    await logAudit(c.env.DB, {
+      actorUserId: user.id,
+      action: 'api_key.semantic_cache_updated',
+      targetType: 'api_key',
+      targetId: key.id,
+      details: { from: getSemanticCacheSettings(key), to: input.settings }
+    });
+
+    return c.json({
+      message: 'API key semantic cache settings updated successfully',
+      key: serializeApiKey(updated!)
+    });
+  } catch (error) {
+    console.error('Update API key semantic cache error:', error);
+    return c.json({ error: 'Failed to update API key semantic cache settings' }, 500);
+  }
+});
+
+/**
+ * DELETE /api/keys/:id
+ * Revoke an API key immediately
+ */
+keys.delete('/:id', async (c) => {
+  try {
+    const user = c.get('user')!;
+    const key = await getApiKeyById(c.env.DB, parseInt(c.req.param('id')), user.id);
+
+    if (!key) {
+      return c.json({ error: 'API key not found' }, 404);
+    }
+
+    await revokeApiKey(c.env.DB, key.id);
+
+    await logAudit(c.env.DB, {
+      actorUserId: user.id,
+      action: 'api_key.revoked',
+      targetType: 'api_key',
+      targetId: key.id,
+      details: { keyName: key.key_name }
+    });
+
+    return c.json({ message: 'API key revoked successfully' });
+  } catch (error) {
+    console.error('Revoke API key error:', error);
+    return c.json({ error: 'Failed to revoke API key' }, 500);
+  }
+});
+
+export default keys;
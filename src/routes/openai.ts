@@ -0,0 +1,253 @@
+// OpenAI-compatible API routes (/v1), so OpenAI SDKs work with a baseURL change
+
+import { Hono, Context } from 'hono';
+import type { Bindings, Variables, AIRequest, RoutingTrace } from '../types';
+import { apiKeyMiddleware } from '../middleware/auth';
+import { rateLimiter } from '../middleware/rateLimit';
+import { budgetGuard } from '../middleware/budget';
+import { keyScopeGuard } from '../middleware/scopes';
+import { openAIErrorFormat } from '../middleware/errorFormat';
+import { streamAIRequest, routeEmbeddingRequest, getErrorStatus } from '../utils/aiProviders';
+import { ProviderError } from '../providers';
+import { toSSEStream } from '../utils/streaming';
+import { getActiveModels, getModelAliases, getModelAlias, getModelByModelId } from '../utils/database';
+import { isModelAllowed } from '../utils/scopes';
+import { validateChatRequest, validateCompletionRequest, validateEmbeddingRequest, invalidRequest } from '../utils/validation';
+import { recordServedBy, getRouteOptions, routeWithCache } from '../utils/routeContext';
+import {
+  openAIError,
+  toChatCompletion,
+  toTextCompletion,
+  toChatCompletionChunks,
+  toTextCompletionChunks,
+  toOpenAIModel,
+  toOpenAIAlias
+} from '../utils/openaiCompat';
+
+const openai = new Hono<{ Bindings: Bindings; Variables: Variables }>();
+
+// Authentication (Bearer API key), key scopes and rate limiting, with errors
+// in OpenAI's format. Registered per path so other APIs can share the /v1 prefix.
+for (const path of ['/chat/completions', '/completions', '/embeddings', '/models', '/models/*']) {
+  openai.use(path, openAIErrorFormat, apiKeyMiddleware, keyScopeGuard, rateLimiter());
+}
+
+// Enforce spending budgets on endpoints that call providers
+openai.use('/chat/completions', budgetGuard);
+openai.use('/completions', budgetGuard);
+openai.use('/embeddings', budgetGuard);
+
+/**
+ * Report a failed request as an OpenAI error body
+ */
+function errorResponse(c: Context<{ Bindings: Bindings; Variables: Variables }>, error: unknown) {
+  const status = getErrorStatus(error);
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  const code = error instanceof ProviderError ? error.code ?? null : null;
+
+  return c.json(openAIError(status, message, code), status);
+}
+
+/**
+ * Check options the gateway can't honour on the OpenAI surface
+ */
+function checkUnsupported(body: any, request: AIRequest, scopes: Variables['keyScopes']) {
+  if (body?.n !== undefined && body.n !== null && body.n !== 1) {
+    return invalidRequest("Only 'n': 1 is supported", 'n');
+  }
+
+  if (request.stream && request.tools) {
+    return invalidRequest('Tool calling is not supported when streaming', 'tools');
+  }
+
+  if (request.stream && request.response_format) {
+    return invalidRequest('response_format is not supported when streaming', 'response_format');
+  }
+
+  // Streaming counts against the key's stream scope, as on /api/ai/stream
+  if (request.stream && scopes?.endpoints && !scopes.endpoints.includes('stream')) {
+    return openAIError(403, 'This API key is not allowed to use the stream endpoint', 'permission_denied');
+  }
+
+  return null;
+}
+
+/**
+ * Open a stream for the request and send it as server-sent events
+ */
+async function streamResponse(
+  c: Context<{ Bindings: Bindings; Variables: Variables }>,
+  request: AIRequest,
+  trace: RoutingTrace,
+  format: typeof toChatCompletionChunks,
+  includeUsage: boolean
+) {
+  // Open the upstream stream (with fallbacks) before committing to a 200
+  const chunks = await streamAIRequest(request, c.env, trace, getRouteOptions(c));
+  recordServedBy(c, trace);
+
+  return c.body(toSSEStream(format(chunks, trace.provider, includeUsage)), 200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+}
+
+/**
+ * POST /v1/chat/completions
+ * OpenAI chat completions, streamed when `stream` is true
+ */
+openai.post('/chat/completions', async (c) => {
+  try {
+    const body = await c.req.json().catch(() => null);
+    const validation = await validateChatRequest(c.env.DB, body);
+    if ('error' in validation) {
+      return c.json(validation.error, 400);
+    }
+    const request = validation.value;
+
+    const unsupported = checkUnsupported(body, request, c.get('keyScopes'));
+    if (unsupported) {
+      return c.json(unsupported, unsupported.error.code === 'permission_denied' ? 403 : 400);
+    }
+
+    // Store model info in context for logging
+    const trace: RoutingTrace = { attempts: [] };
+    c.set('modelName', request.model);
+    c.set('routing', trace);
+
+    if (request.stream) {
+      return await streamResponse(c, request, trace, toChatCompletionChunks, !!body.stream_options?.include_usage);
+    }
+
+    const response = await routeWithCache(c, request, trace, 'chat');
+    recordServedBy(c, trace);
+
+    return c.json(toChatCompletion(response, trace.provider));
+  } catch (error) {
+    console.error('Chat completion error:', error);
+    return errorResponse(c, error);
+  }
+});
+
+/**
+ * POST /v1/completions
+ * OpenAI (legacy) text completions, served as a single-message chat
+ */
+openai.post('/completions', async (c) => {
+  try {
+    const body = await c.req.json().catch(() => null);
+
+    // The SDK may send the prompt as a one-element array
+    if (Array.isArray(body?.prompt)) {
+      if (body.prompt.length !== 1) {
+        return c.json(invalidRequest("'prompt' must be a string or an array with exactly one string", 'prompt'), 400);
+      }
+      body.prompt = body.prompt[0];
+    }
+
+    const validation = await validateCompletionRequest(c.env.DB, body);
+    if ('error' in validation) {
+      return c.json(validation.error, 400);
+    }
+    const request: AIRequest = { ...validation.value, stream: !!body.stream };
+
+    const unsupported = checkUnsupported(body, request, c.get('keyScopes'));
+    if (unsupported) {
+      return c.json(unsupported, unsupported.error.code === 'permission_denied' ? 403 : 400);
+    }
+
+    // Store model info in context for logging
+    const trace: RoutingTrace = { attempts: [] };
+    c.set('modelName', request.model);
+    c.set('routing', trace);
+
+    if (request.stream) {
+      return await streamResponse(c, request, trace, toTextCompletionChunks, !!body.stream_options?.include_usage);
+    }
+
+    const response = await routeWithCache(c, request, trace, 'completion');
+    recordServedBy(c, trace);
+
+    return c.json(toTextCompletion(response, trace.provider));
+  } catch (error) {
+    console.error('Text completion error:', error);
+    return errorResponse(c, error);
+  }
+});
+
+/**
+ * POST /v1/embeddings
+ * OpenAI embeddings
+ */
+openai.post('/embeddings', async (c) => {
+  try {
+    const validation = await validateEmbeddingRequest(c.env.DB, await c.req.json().catch(() => null));
+    if ('error' in validation) {
+      return c.json(validation.error, 400);
+    }
+    const request = validation.value;
+
+    // Store model info in context for logging
+    const trace: RoutingTrace = { attempts: [] };
+    c.set('modelName', request.model);
+    c.set('routing', trace);
+
+    const { provider, ...response } = await routeEmbeddingRequest(request, c.env, trace);
+    recordServedBy(c, trace);
+
+    return c.json(response);
+  } catch (error) {
+    console.error('Embeddings error:', error);
+    return errorResponse(c, error);
+  }
+});
+
+/**
+ * GET /v1/models
+ * List the models and aliases the API key may use
+ */
+openai.get('/models', async (c) => {
+  try {
+    const scopes = c.get('keyScopes');
+    const models = (await getActiveModels(c.env.DB)).filter(m => isModelAllowed(scopes, m));
+    const aliases = (await getModelAliases(c.env.DB)).filter(a => !scopes?.models || scopes.models.includes(a.alias));
+
+    return c.json({
+      object: 'list',
+      data: [...models.map(toOpenAIModel), ...aliases.map(toOpenAIAlias)]
+    });
+  } catch (error) {
+    console.error('Get models error:', error);
+    return errorResponse(c, error);
+  }
+});
+
+/**
+ * GET /v1/models/:model
+ * Retrieve a model or alias
+ */
+openai.get('/models/:model', async (c) => {
+  try {
+    const id = c.req.param('model');
+    const scopes = c.get('keyScopes');
+    const notFound = () => c.json(openAIError(404, `The model '${id}' does not exist`, 'model_not_found', 'model'), 404);
+
+    const model = await getModelByModelId(c.env.DB, id);
+    if (model) {
+      return isModelAllowed(scopes, model) ? c.json(toOpenAIModel(model)) : notFound();
+    }
+
+    const alias = await getModelAlias(c.env.DB, id);
+    if (alias && (!scopes?.models || scopes.models.includes(alias.alias))) {
+      return c.json(toOpenAIAlias(alias));
+    }
+
+    return notFound();
+  } catch (error) {
+    console.error('Get model error:', error);
+    return errorResponse(c, error);
+  }
+});
+
+export default openai;
@@ -2,6 +2,38 @@
 
 export type Bindings = {
   DB: D1Database;
+  OPENAI_API_KEY?: string;
+  ANTHROPIC_API_KEY?: string;
+  GOOGLE_API_KEY?: string;
+  COHERE_API_KEY?: string;
+  MISTRAL_API_KEY?: string;
+  GROQ_API_KEY?: string;
+  OPENAI_COMPATIBLE_BASE_URL?: string;
+  OPENAI_COMPATIBLE_API_KEY?: string;
+  PROVIDER_TIMEOUT_MS?: string;
+  PROVIDER_MAX_RETRIES?: string;
+  RETRY_BASE_DELAY_MS?: string;
+  RETRY_MAX_DELAY_MS?: string;
+  CIRCUIT_FAILURE_THRESHOLD?: string;
+  CIRCUIT_ERROR_RATE_THRESHOLD?: string;
+  CIRCUIT_MIN_REQUESTS?: string;
+  CIRCUIT_COOLDOWN_MS?: string;
+  CIRCUIT_WINDOW_MS?: string;
+  BUDGET_WEBHOOK_URL?: string;
+  WEBHOOK_SECRET?: string;
+  KEY_EXPIRY_WEBHOOK_URL?: string;
+  KEY_EXPIRY_WARNING_DAYS?: string;
+  API_KEY_MAX_LIFETIME_DAYS?: string;
+  RETIRED_MODEL_POLICY?: 'redirect' | 'reject';
+  AUTO_ROUTING_WINDOW_MINUTES?: string;
+  AUTO_ROUTING_DEFAULT_TIER?: string;
+  RESPONSE_CACHE_TTL_SECONDS?: string;
+  RESPONSE_CACHE_MAX_TTL_SECONDS?: string;
+  SEMANTIC_CACHE_MAX_CANDIDATES?: string;
+  SEMANTIC_CACHE_EMBEDDING_MODEL?: string;
+  STRUCTURED_OUTPUT_MAX_REPAIRS?: string;
+  BATCH_PROVIDER_CONCURRENCY?: string;
+  BATCH_ITEMS_PER_RUN?: string;
 };
 
 export type User = {
@@ -10,8 +42,13 @@ export type User = {
   username: string;
   password_hash: string;
   api_key: string;
+  key_prefix: string | null;
+  key_hash: string | null;
+  key_salt: string | null;
   role: 'user' | 'admin';
   is_active: number;
+  sessions_revoked_at: string | null;
+  password_reset_required: number;
   created_at: string;
   updated_at: string;
 };
@@ -21,10 +58,41 @@ export type ApiKey = {
   user_id: number;
   key_name: string;
   api_key: string;
+  key_prefix: string | null;
+  key_hash: string | null;
+  key_salt: string | null;
   is_active: number;
   created_at: string;
   expires_at: string | null;
   last_used_at: string | null;
+  allowed_endpoints: string | null;
+  allowed_models: string | null;
+  allowed_providers: string | null;
+  max_tokens_per_request: number | null;
+  allowed_cidrs: string | null;
+  expiry_warned_at: string | null;
+  semantic_cache: string | null; // JSON SemanticCacheSettings
+};
+
+export type ApiKeyEndpoint = 'chat' | 'completion' | 'stream' | 'embeddings' | 'models';
+
+// Restrictions on a named API key; omitted fields are unrestricted
+export type ApiKeyScopes = {
+  endpoints?: ApiKeyEndpoint[];
+  models?: string[];
+  providers?: string[];
+  maxTokens?: number;
+  ipAllowList?: string[];
+};
+
+export type AuditLog = {
+  id: number;
+  actor_user_id: number | null;
+  action: string;
+  target_type: string;
+  target_id: number | null;
+  details: string | null;
+  created_at: string;
 };
 
 export type RequestLog = {
@@ -42,6 +110,16 @@ export type RequestLog = {
   error_message: string | null;
   ip_address: string | null;
   user_agent: string | null;
+  attempts: string | null;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost: number;
+  model_alias: string | null;
+  model_variant: string | null;
+  cache_status: CacheStatus | null;
+  saved_cost: number;
+  batch_id: number | null;
   created_at: string;
 };
 
@@ -53,8 +131,117 @@ export type AIModel = {
   description: string | null;
   max_tokens: number | null;
   cost_per_1k_tokens: number | null;
+  input_cost_per_1k: number | null;
+  output_cost_per_1k: number | null;
+  fallback_models: string | null;
+  upstream_model_id: string | null;
+  max_output_tokens: number | null;
+  supports_vision: number;
+  supports_tools: number;
+  supports_json_mode: number;
+  supports_streaming: number;
+  deprecated_at: string | null;
+  replacement_model_id: string | null;
+  routing_tier: string | null;
+  model_type: ModelType;
+  embedding_dimensions: number | null;
+  is_active: number;
+  created_at: string;
+  updated_at: string | null;
+};
+
+export type ModelType = 'chat' | 'embedding';
+
+export type ModelAlias = {
+  id: number;
+  alias: string;
+  model_id: string;
+  description: string | null;
+  system_prompt: string | null;
+  temperature: number | null;
+  max_tokens: number | null;
+  variants: string | null; // JSON array of ModelVariant
+  sticky_by: 'user' | 'api_key';
   is_active: number;
   created_at: string;
+  updated_at: string;
+};
+
+// One arm of a weighted A/B alias
+export type ModelVariant = {
+  model: string;
+  weight: number;
+};
+
+// Writable catalog columns, used by admin create/update
+export type AIModelFields = Partial<Omit<AIModel, 'id' | 'created_at' | 'updated_at'>>;
+
+export type UsageStats = {
+  id: number;
+  user_id: number;
+  total_requests: number;
+  successful_requests: number;
+  failed_requests: number;
+  total_tokens: number;
+  total_cost: number;
+  period_start: string;
+  period_end: string;
+};
+
+export type Budget = {
+  id: number;
+  user_id: number;
+  api_key_id: number | null;
+  period: 'daily' | 'monthly';
+  limit_type: 'cost' | 'tokens';
+  soft_limit: number | null;
+  hard_limit: number | null;
+  webhook_url: string | null;
+  reset_at: string | null;
+  soft_notified_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type BatchStatus = 'validating' | 'queued' | 'in_progress' | 'completed' | 'cancelled';
+
+export type Batch = {
+  id: number;
+  user_id: number;
+  api_key_id: number | null;
+  status: BatchStatus;
+  total_requests: number;
+  completed_requests: number;
+  failed_requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost: number;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  cancelled_at: string | null;
+};
+
+export type BatchItemStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type BatchItem = {
+  id: number;
+  batch_id: number;
+  line: number;
+  custom_id: string;
+  // JSON chat request body
+  request: string;
+  status: BatchItemStatus;
+  // Output JSONL record
+  result: string | null;
+  error_message: string | null;
+  provider: string | null;
+  model: string | null;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost: number;
+  started_at: string | null;
+  completed_at: string | null;
 };
 
 export type RateLimit = {
@@ -74,35 +261,273 @@ export type JWTPayload = {
   exp: number;
 };
 
+// Function the model may call (OpenAI tools format)
+export type ToolDefinition = {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    // JSON Schema of the arguments object
+    parameters?: Record<string, unknown>;
+  };
+};
+
+export type ToolChoice = 'none' | 'auto' | 'required' | { type: 'function'; function: { name: string } };
+
+// Function call made by the model; arguments is a JSON-encoded object
+export type ToolCall = {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+};
+
+// Part of a multimodal message (OpenAI content part format). Images are an
+// http(s) URL or a base64 data URL; documents a base64 data URL.
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'auto' | 'low' | 'high' } }
+  | { type: 'file'; file: { file_data: string; filename?: string } };
+
+export type ChatMessage = {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  // null on assistant messages that only carry tool calls
+  content: string | ContentPart[] | null;
+  tool_calls?: ToolCall[];
+  // The call a `tool` message answers
+  tool_call_id?: string;
+};
+
+// Structured output requested by the caller (OpenAI response_format)
+export type ResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | { type: 'json_schema'; json_schema: { name: string; schema: Record<string, unknown>; strict?: boolean } };
+
 export type AIRequest = {
   model: string;
-  messages: Array<{
-    role: 'system' | 'user' | 'assistant';
-    content: string;
-  }>;
+  messages: ChatMessage[];
   temperature?: number;
   max_tokens?: number;
   stream?: boolean;
+  tools?: ToolDefinition[];
+  tool_choice?: ToolChoice;
+  response_format?: ResponseFormat;
+  routing?: AutoRoutingOptions;
+  cache?: boolean | { ttl?: number };
+};
+
+export type AutoPreference = 'cheapest' | 'fastest' | 'balanced';
+
+export type ModelCapability = 'vision' | 'tools' | 'jsonMode' | 'streaming';
+
+// Preference and constraints for requests to the `auto` model
+export type AutoRoutingOptions = {
+  preference?: AutoPreference;
+  tier?: string;
+  minContextWindow?: number;
+  capabilities?: ModelCapability[];
+  providers?: string[];
+};
+
+// Which model `auto` picked and why
+export type AutoSelection = {
+  model: string;
+  provider: string;
+  preference: AutoPreference;
+  tier: string;
+  reason: string;
+  candidates: number;
+};
+
+export type CacheStatus = 'hit' | 'semantic_hit' | 'miss';
+
+// Semantic cache route -> minimum cosine similarity for a hit
+export type SemanticCacheSettings = Partial<Record<'chat' | 'completion', number>>;
+
+// Semantic cache entry (semantic_cache table)
+export type SemanticCacheEntry = {
+  id: number;
+  user_id: number;
+  api_key_id: number;
+  model: string;
+  context_key: string;
+  prompt: string;
+  embedding_model: string;
+  embedding: string; // JSON number[]
+  provider: string;
+  served_model: string;
+  response: string; // JSON AIResponse
+  cost: number;
+  hits: number;
+  created_at: string;
+  expires_at: string;
+};
+
+// Cached upstream response (response_cache table)
+export type CachedResponse = {
+  id: number;
+  user_id: number;
+  cache_key: string;
+  provider: string;
+  model: string;
+  response: string; // JSON AIResponse
+  cost: number;
+  hits: number;
+  created_at: string;
+  expires_at: string;
+};
+
+// OpenAI-style embeddings request
+export type EmbeddingRequest = {
+  model: string;
+  input: string | string[];
+  encoding_format?: 'float' | 'base64';
+  dimensions?: number;
+  user?: string;
+};
+
+// OpenAI-style embeddings response
+export type EmbeddingResponse = {
+  object: 'list';
+  data: Array<{
+    object: 'embedding';
+    index: number;
+    embedding: number[] | string;
+  }>;
+  model: string;
+  provider?: string;
+  usage: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+};
+
+// OpenAI-style error response body
+export type OpenAIErrorBody = {
+  error: {
+    message: string;
+    type: string;
+    param: string | null;
+    code: string | null;
+  };
+};
+
+export type AnthropicErrorBody = {
+  type: 'error';
+  error: {
+    type: string;
+    message: string;
+  };
+};
+
+export type AIUsage = {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
 };
 
 export type AIResponse = {
   id: string;
   model: string;
+  // Set by OpenAI-compatible providers
+  created?: number;
+  system_fingerprint?: string | null;
+  provider?: string;
+  alias?: string;
+  variant?: string;
+  selection?: AutoSelection;
   choices: Array<{
     message: {
       role: string;
-      content: string;
+      content: string | null;
+      tool_calls?: ToolCall[];
     };
     finish_reason: string;
   }>;
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  usage: AIUsage;
+};
+
+export type AIStreamChunk = {
+  id: string;
+  object: 'chat.completion.chunk';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: string;
+      content?: string;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: AIUsage | null;
+};
+
+/**
+ * A single upstream call made while serving a request
+ */
+export type ProviderAttempt = {
+  provider: string;
+  model: string;
+  attempt: number;
+  status: number;
+  latencyMs: number;
+  error?: string;
+};
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker snapshot for a provider, reported on /api/ai/health
+ */
+export type ProviderHealth = {
+  provider: string;
+  state: CircuitState;
+  errorRate: number;
+  p95LatencyMs: number | null;
+  requests: number;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryAt: string | null;
+};
+
+/**
+ * Routing details collected by routeAIRequest for logging and headers
+ */
+export type RoutingTrace = {
+  provider?: string;
+  model?: string;
+  attempts: ProviderAttempt[];
+  usage?: AIUsage;
+  cost?: number;
+  alias?: string;
+  variant?: string;
+  selection?: AutoSelection;
+  cache?: CacheStatus;
+  cacheSimilarity?: number;
+  savedCost?: number;
+  redirectedFrom?: string;
+  deprecationWarning?: string;
+};
+
+/**
+ * Per-request options for routeAIRequest/streamAIRequest: the key's scopes
+ * and the caller identity used for sticky A/B variant assignment
+ */
+export type RouteOptions = {
+  scopes?: ApiKeyScopes;
+  userId?: number;
+  apiKeyId?: number;
 };
 
 export type Variables = {
   user?: User;
   apiKey?: ApiKey;
+  keyScopes?: ApiKeyScopes;
+  modelProvider?: string;
+  modelName?: string;
+  routing?: RoutingTrace;
 };
@@ -1,199 +1,536 @@
-// AI service integrations for multiple providers
-
-import type { AIRequest, AIResponse } from '../types';
-
-/**
- * OpenAI API integration
- */
-export async function callOpenAI(request: AIRequest, apiKey: string): Promise<AIResponse> {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model: request.model,
-      messages: request.messages,
-      temperature: request.temperature || 0.7,
-      max_tokens: request.max_tokens || 1000,
-      stream: request.stream || false
-    })
-  });
+// AI request routing across provider adapters
 
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(`OpenAI API error: ${JSON.stringify(error)}`);
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import type {
+  AIRequest,
+  AIResponse,
+  AIStreamChunk,
+  AIModel,
+  AIUsage,
+  Bindings,
+  RoutingTrace,
+  ApiKeyScopes,
+  RouteOptions,
+  EmbeddingRequest,
+  EmbeddingResponse
+} from '../types';
+import type { ProviderAdapter } from '../providers';
+import { getProvider, ProviderError } from '../providers';
+import type { ProviderHttpRequest } from '../providers/base';
+import { readErrorBody, parseRetryAfter } from '../providers/base';
+import { getModelByModelId } from './database';
+import { allowRequest, recordSuccess, recordFailure } from './circuitBreaker';
+import { calculateCost } from './pricing';
+import { isModelAllowed } from './scopes';
+import { isModelRetired, getDeprecationWarning } from './modelCatalog';
+import { resolveAlias } from './modelAliases';
+import { AUTO_MODEL, selectAutoModel } from './smartRouting';
+import { normalizeVector, encodeEmbedding } from './embeddings';
+import { getMessageText, hasMediaContent, inlineRemoteImages } from './multimodal';
+import { applyResponseFormat, enforceResponseFormat, hasNativeJsonMode } from './structuredOutput';
+
+type RetryPolicy = {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number;
+};
+
+type RouteTarget = {
+  model: AIModel;
+  adapter: ProviderAdapter;
+};
+
+/**
+ * Read retry settings from the environment
+ */
+function getRetryPolicy(env: Bindings): RetryPolicy {
+  return {
+    maxRetries: parseInt(env.PROVIDER_MAX_RETRIES || '2'),
+    baseDelayMs: parseInt(env.RETRY_BASE_DELAY_MS || '250'),
+    maxDelayMs: parseInt(env.RETRY_MAX_DELAY_MS || '8000'),
+    timeoutMs: parseInt(env.PROVIDER_TIMEOUT_MS || '30000')
+  };
+}
+
+/**
+ * Exponential backoff with full jitter, honouring Retry-After when given.
+ * Returns null when the provider asks us to wait longer than we are willing to.
+ */
+function getBackoffDelay(error: ProviderError, retry: number, policy: RetryPolicy): number | null {
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= policy.maxDelayMs ? error.retryAfterMs : null;
   }
 
-  return await response.json();
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  return Math.random() * ceiling;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
 }
 
 /**
- * Anthropic Claude API integration
+ * Convert any failure into a ProviderError
  */
-export async function callAnthropic(request: AIRequest, apiKey: string): Promise<AIResponse> {
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01'
-    },
-    body: JSON.stringify({
-      model: request.model,
-      messages: request.messages.filter(m => m.role !== 'system'),
-      system: request.messages.find(m => m.role === 'system')?.content,
-      max_tokens: request.max_tokens || 1000,
-      temperature: request.temperature || 0.7
-    })
-  });
+function toProviderError(error: unknown, provider: string): ProviderError {
+  if (error instanceof ProviderError) {
+    return error;
+  }
 
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(`Anthropic API error: ${JSON.stringify(error)}`);
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new ProviderError(`${provider} request timed out`, provider, 504, 'timeout');
   }
 
-  const data = await response.json();
-  
-  // Convert Anthropic response to OpenAI format
-  return {
-    id: data.id,
-    model: data.model,
-    choices: [{
-      message: {
-        role: 'assistant',
-        content: data.content[0].text
-      },
-      finish_reason: data.stop_reason
-    }],
-    usage: {
-      prompt_tokens: data.usage.input_tokens,
-      completion_tokens: data.usage.output_tokens,
-      total_tokens: data.usage.input_tokens + data.usage.output_tokens
-    }
-  };
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return new ProviderError(`${provider} request failed: ${message}`, provider, 502, 'network_error');
 }
 
 /**
- * Google Gemini API integration
+ * Look up the catalog entry and adapter serving a model
  */
-export async function callGemini(request: AIRequest, apiKey: string): Promise<AIResponse> {
-  const model = request.model.replace('gemini-', '');
-  
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        contents: request.messages.map(m => ({
-          role: m.role === 'assistant' ? 'model' : 'user',
-          parts: [{ text: m.content }]
-        })),
-        generationConfig: {
-          temperature: request.temperature || 0.7,
-          maxOutputTokens: request.max_tokens || 1000
-        }
-      })
+async function resolveTarget(modelId: string, env: Bindings): Promise<RouteTarget> {
+  const model = await getModelByModelId(env.DB, modelId);
+  if (!model) {
+    throw new ProviderError(`Unsupported model: ${modelId}`, 'gateway', 400, 'model_not_found');
+  }
+
+  const adapter = getProvider(model.provider);
+  if (!adapter) {
+    throw new ProviderError(
+      `No adapter registered for provider: ${model.provider}`,
+      model.provider,
+      500,
+      'provider_not_registered'
+    );
+  }
+
+  return { model, adapter };
+}
+
+/**
+ * Resolve the requested model, following replacements of retired models
+ * unless RETIRED_MODEL_POLICY is 'reject'
+ */
+async function resolvePrimary(modelId: string, env: Bindings, trace: RoutingTrace): Promise<RouteTarget> {
+  let target = await resolveTarget(modelId, env);
+  const seen = new Set([modelId]);
+
+  while (isModelRetired(target.model)) {
+    const replacement = target.model.replacement_model_id;
+
+    if (env.RETIRED_MODEL_POLICY === 'reject' || !replacement || seen.has(replacement)) {
+      throw new ProviderError(getDeprecationWarning(target.model)!, 'gateway', 410, 'model_retired');
     }
-  );
 
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(`Gemini API error: ${JSON.stringify(error)}`);
+    seen.add(replacement);
+    trace.redirectedFrom ??= modelId;
+    target = await resolveTarget(replacement, env);
   }
 
-  const data = await response.json();
-  
-  // Convert Gemini response to OpenAI format
-  return {
-    id: `gemini-${Date.now()}`,
-    model: request.model,
-    choices: [{
-      message: {
-        role: 'assistant',
-        content: data.candidates[0].content.parts[0].text
-      },
-      finish_reason: data.candidates[0].finishReason
-    }],
-    usage: {
-      prompt_tokens: data.usageMetadata?.promptTokenCount || 0,
-      completion_tokens: data.usageMetadata?.candidatesTokenCount || 0,
-      total_tokens: data.usageMetadata?.totalTokenCount || 0
+  trace.deprecationWarning = trace.redirectedFrom
+    ? `${trace.redirectedFrom} has been retired and was redirected to ${target.model.model_id}`
+    : getDeprecationWarning(target.model) ?? undefined;
+
+  return target;
+}
+
+/**
+ * Resolve the primary model followed by its configured fallback chain.
+ * Fallback entries that are missing, inactive, retired or outside the key's scopes are skipped.
+ */
+async function resolveChain(
+  modelId: string,
+  env: Bindings,
+  trace: RoutingTrace,
+  scopes?: ApiKeyScopes
+): Promise<RouteTarget[]> {
+  const primary = await resolvePrimary(modelId, env, trace);
+  const chain = [primary];
+
+  let fallbacks: string[] = [];
+  try {
+    fallbacks = primary.model.fallback_models ? JSON.parse(primary.model.fallback_models) : [];
+  } catch {
+    console.error(`Invalid fallback_models for ${primary.model.model_id}`);
+  }
+
+  for (const modelId of fallbacks) {
+    try {
+      const target = await resolveTarget(modelId, env);
+      if (isModelAllowed(scopes, target.model) && !isModelRetired(target.model)) {
+        chain.push(target);
+      }
+    } catch (error) {
+      console.error(`Skipping fallback ${modelId}:`, error);
     }
-  };
+  }
+
+  return chain;
 }
 
 /**
- * Cohere API integration
+ * Send an adapter-built request upstream and return the raw response
  */
-export async function callCohere(request: AIRequest, apiKey: string): Promise<AIResponse> {
-  const response = await fetch('https://api.cohere.ai/v1/chat', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model: request.model,
-      message: request.messages[request.messages.length - 1].content,
-      chat_history: request.messages.slice(0, -1).map(m => ({
-        role: m.role === 'assistant' ? 'CHATBOT' : 'USER',
-        message: m.content
-      })),
-      temperature: request.temperature || 0.7,
-      max_tokens: request.max_tokens || 1000
-    })
-  });
+async function sendProviderRequest(
+  adapter: ProviderAdapter,
+  upstream: ProviderHttpRequest,
+  timeoutMs: number
+): Promise<Response> {
+  // The timeout only covers waiting for response headers so long streams aren't cut off
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  let response: Response;
+  try {
+    response = await fetch(upstream.url, {
+      method: 'POST',
+      headers: upstream.headers,
+      body: JSON.stringify(upstream.body),
+      signal: controller.signal
+    });
+  } finally {
+    clearTimeout(timer);
+  }
 
   if (!response.ok) {
-    const error = await response.json();
-    throw new Error(`Cohere API error: ${JSON.stringify(error)}`);
+    const error = adapter.mapError(response.status, await readErrorBody(response));
+    error.retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+    throw error;
   }
 
-  const data = await response.json();
-  
-  // Convert Cohere response to OpenAI format
-  return {
-    id: data.generation_id,
-    model: request.model,
-    choices: [{
-      message: {
-        role: 'assistant',
-        content: data.text
-      },
-      finish_reason: data.finish_reason
-    }],
-    usage: {
-      prompt_tokens: data.meta?.tokens?.input_tokens || 0,
-      completion_tokens: data.meta?.tokens?.output_tokens || 0,
-      total_tokens: (data.meta?.tokens?.input_tokens || 0) + (data.meta?.tokens?.output_tokens || 0)
+  return response;
+}
+
+/**
+ * Run a call against each target in the chain, retrying provider-side
+ * failures with backoff before falling through to the next target.
+ * Request validation errors from the provider fail immediately.
+ */
+async function executeWithFallback<R extends { model: string }, T>(
+  request: R,
+  env: Bindings,
+  trace: RoutingTrace,
+  chain: RouteTarget[],
+  call: (target: RouteTarget, upstreamRequest: R, timeoutMs: number) => Promise<T>
+): Promise<T> {
+  const policy = getRetryPolicy(env);
+  let lastError: ProviderError | undefined;
+  let unsupportedError: ProviderError | undefined;
+
+  for (const target of chain) {
+    const upstreamRequest = {
+      ...request,
+      model: target.model.upstream_model_id || target.model.model_id
+    };
+    const provider = target.adapter.name;
+
+    for (let retry = 0; retry <= policy.maxRetries; retry++) {
+      if (!allowRequest(provider, env)) {
+        lastError = new ProviderError(
+          `${provider} is temporarily unavailable (circuit open)`,
+          provider,
+          503,
+          'circuit_open'
+        );
+
+        trace.attempts.push({
+          provider,
+          model: target.model.model_id,
+          attempt: trace.attempts.length + 1,
+          status: 503,
+          latencyMs: 0,
+          error: lastError.message
+        });
+        break;
+      }
+
+      const startTime = Date.now();
+
+      try {
+        const result = await call(target, upstreamRequest, policy.timeoutMs);
+        recordSuccess(provider, Date.now() - startTime, env);
+
+        trace.attempts.push({
+          provider,
+          model: target.model.model_id,
+          attempt: trace.attempts.length + 1,
+          status: 200,
+          latencyMs: Date.now() - startTime
+        });
+        trace.provider = provider;
+        trace.model = target.model.model_id;
+
+        return result;
+      } catch (caught) {
+        const error = toProviderError(caught, provider);
+
+        // Only upstream outages count against the circuit; a validation
+        // error or an unknown model id still proves the provider is up
+        if (error.isProviderFailure && !error.isLocal && !error.isModelNotFound) {
+          recordFailure(provider, Date.now() - startTime, env);
+        } else if (!error.isLocal) {
+          recordSuccess(provider, Date.now() - startTime, env);
+        }
+
+        trace.attempts.push({
+          provider,
+          model: target.model.model_id,
+          attempt: trace.attempts.length + 1,
+          status: error.status,
+          latencyMs: Date.now() - startTime,
+          error: error.message
+        });
+
+        // A target without the capability the request needs is skipped
+        if (error.isUnsupported) {
+          unsupportedError = error;
+          break;
+        }
+
+        lastError = error;
+
+        if (!error.isProviderFailure) {
+          throw error;
+        }
+
+        if (!error.isRetryable || retry === policy.maxRetries) {
+          break;
+        }
+
+        const delay = getBackoffDelay(error, retry, policy);
+        if (delay === null) {
+          break;
+        }
+
+        await sleep(delay);
+      }
     }
+  }
+
+  // An upstream failure says more than a fallback's missing capability
+  throw lastError ?? unsupportedError;
+}
+
+/**
+ * Map a routing failure to the HTTP status returned to the client
+ */
+export function getErrorStatus(error: unknown): ContentfulStatusCode {
+  if (!(error instanceof ProviderError)) {
+    return 500;
+  }
+
+  // Request errors and failures raised by the gateway itself (no candidate
+  // supports the request, open circuit, ...) keep their own status
+  if (!error.isProviderFailure || error.isLocal) {
+    return error.status as ContentfulStatusCode;
+  }
+
+  return error.status === 408 || error.status === 504 ? 504 : 502;
+}
+
+/**
+ * Add an upstream call's usage and cost to the trace. Every call is billed,
+ * including structured output repairs and attempts on targets that then fail.
+ */
+function addUsage(trace: RoutingTrace, model: AIModel, usage: AIUsage) {
+  trace.usage = {
+    prompt_tokens: (trace.usage?.prompt_tokens || 0) + usage.prompt_tokens,
+    completion_tokens: (trace.usage?.completion_tokens || 0) + usage.completion_tokens,
+    total_tokens: (trace.usage?.total_tokens || 0) + usage.total_tokens
   };
+  trace.cost = (trace.cost || 0) + calculateCost(model, usage);
 }
 
 /**
- * Route request to appropriate AI provider
+ * Estimate usage for a stream that ended before its usage chunk (the client
+ * disconnected), at ~4 characters per token
  */
-export async function routeAIRequest(request: AIRequest, env: any): Promise<AIResponse> {
-  const model = request.model.toLowerCase();
-  
-  if (model.includes('gpt')) {
-    const apiKey = env.OPENAI_API_KEY || 'your-openai-api-key';
-    return await callOpenAI(request, apiKey);
-  } else if (model.includes('claude')) {
-    const apiKey = env.ANTHROPIC_API_KEY || 'your-anthropic-api-key';
-    return await callAnthropic(request, apiKey);
-  } else if (model.includes('gemini')) {
-    const apiKey = env.GOOGLE_API_KEY || 'your-google-api-key';
-    return await callGemini(request, apiKey);
-  } else if (model.includes('command')) {
-    const apiKey = env.COHERE_API_KEY || 'your-cohere-api-key';
-    return await callCohere(request, apiKey);
-  } else {
-    throw new Error(`Unsupported model: ${request.model}`);
+function estimateStreamUsage(request: AIRequest, completionText: string): AIUsage {
+  const promptText = request.messages.map(message => getMessageText(message.content)).join('');
+  const prompt_tokens = Math.ceil(promptText.length / 4);
+  const completion_tokens = Math.ceil(completionText.length / 4);
+
+  return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens };
+}
+
+/**
+ * Pass chunks through, recording the trailing usage chunk and its cost. A
+ * stream cut short is billed for the text generated so far.
+ */
+async function* meterStream(
+  chunks: AsyncGenerator<AIStreamChunk>,
+  model: AIModel,
+  request: AIRequest,
+  trace: RoutingTrace
+): AsyncGenerator<AIStreamChunk> {
+  let completionText = '';
+  let metered = false;
+
+  try {
+    for await (const chunk of chunks) {
+      if (chunk.usage) {
+        trace.usage = chunk.usage;
+        trace.cost = calculateCost(model, chunk.usage);
+        metered = true;
+      }
+      completionText += chunk.choices[0]?.delta?.content ?? '';
+      yield chunk;
+    }
+  } finally {
+    if (!metered) {
+      trace.usage = estimateStreamUsage(request, completionText);
+      trace.cost = calculateCost(model, trace.usage);
+    }
+  }
+}
+
+/**
+ * A key's token cap also applies when the caller leaves max_tokens unset
+ */
+function applyTokenCap(request: AIRequest, options: RouteOptions): AIRequest {
+  return { ...request, max_tokens: request.max_tokens ?? options.scopes?.maxTokens };
+}
+
+/**
+ * Check that a chain target can take the request's tools and images (so
+ * fallbacks without them are skipped), then adapt response_format to the
+ * target and download remote images for providers that only accept inline data
+ */
+async function prepareUpstreamRequest(request: AIRequest, { model, adapter }: RouteTarget): Promise<AIRequest> {
+  if (request.tools && (!adapter.capabilities.tools || !model.supports_tools)) {
+    throw new ProviderError(`Tool calling is not supported by ${model.model_id}`, adapter.name, 400, 'tools_unsupported');
   }
+
+  if (hasMediaContent(request) && (!adapter.capabilities.vision || !model.supports_vision)) {
+    throw new ProviderError(`Image and document input is not supported by ${model.model_id}`, adapter.name, 400, 'vision_unsupported');
+  }
+
+  const formatted = applyResponseFormat(request, hasNativeJsonMode(adapter, model));
+  return adapter.inlineImages ? inlineRemoteImages(formatted) : formatted;
+}
+
+/**
+ * Turn the requested name into a catalog model: pick one for `auto`
+ * requests, otherwise resolve aliases and A/B variants
+ */
+async function resolveRequestedModel(
+  request: AIRequest,
+  env: Bindings,
+  trace: RoutingTrace,
+  options: RouteOptions,
+  stream: boolean
+): Promise<AIRequest> {
+  if (request.model !== AUTO_MODEL) {
+    return resolveAlias(env.DB, request, trace, options);
+  }
+
+  const selection = await selectAutoModel(request, env, options, stream);
+  trace.alias = AUTO_MODEL;
+  trace.selection = selection;
+
+  return { ...request, model: selection.model };
+}
+
+/**
+ * Route request to the provider serving the model in the catalog (resolving
+ * `auto`, model aliases and A/B variants first), falling back along the model's fallback chain on
+ * provider failures. Structured output is validated (and repaired) before it is returned.
+ */
+export async function routeAIRequest(
+  request: AIRequest,
+  env: Bindings,
+  trace: RoutingTrace = { attempts: [] },
+  options: RouteOptions = {}
+): Promise<AIResponse> {
+  const resolved = applyTokenCap(await resolveRequestedModel(request, env, trace, options, false), options);
+  const chain = await resolveChain(resolved.model, env, trace, options.scopes);
+
+  return executeWithFallback(resolved, env, trace, chain, async ({ model, adapter }, upstreamRequest, timeoutMs) => {
+    const prepared = await prepareUpstreamRequest(upstreamRequest, { model, adapter });
+    const config = adapter.resolveConfig(env);
+    const send = async (body: AIRequest) => {
+      const response = await sendProviderRequest(adapter, adapter.buildRequest(body, config, false), timeoutMs);
+      const result = adapter.parseResponse(await response.json(), body);
+      addUsage(trace, model, result.usage);
+      return result;
+    };
+
+    let result = await send(prepared);
+    const format = upstreamRequest.response_format;
+    if (format && format.type !== 'text') {
+      const maxRepairs = parseInt(env.STRUCTURED_OUTPUT_MAX_REPAIRS || '1');
+      result = await enforceResponseFormat(prepared, format, result, send, maxRepairs, adapter.name);
+    }
+
+    return { ...result, provider: adapter.name, alias: trace.alias, variant: trace.variant, selection: trace.selection };
+  });
+}
+
+/**
+ * Route streaming request to the provider serving the model in the catalog.
+ * Resolves once an upstream has accepted the request, so provider errors
+ * (and fallbacks) happen before any bytes are sent to the client.
+ */
+export async function streamAIRequest(
+  request: AIRequest,
+  env: Bindings,
+  trace: RoutingTrace = { attempts: [] },
+  options: RouteOptions = {}
+): Promise<AsyncGenerator<AIStreamChunk>> {
+  const resolved = applyTokenCap(await resolveRequestedModel(request, env, trace, options, true), options);
+  const chain = await resolveChain(resolved.model, env, trace, options.scopes);
+
+  return executeWithFallback(resolved, env, trace, chain, async ({ model, adapter }, upstreamRequest, timeoutMs) => {
+    if (!adapter.capabilities.streaming || !model.supports_streaming) {
+      throw new ProviderError(`Streaming is not supported by ${model.model_id}`, adapter.name, 400, 'streaming_unsupported');
+    }
+
+    const prepared = await prepareUpstreamRequest(upstreamRequest, { model, adapter });
+    const config = adapter.resolveConfig(env);
+    const response = await sendProviderRequest(adapter, adapter.buildRequest(prepared, config, true), timeoutMs);
+    if (!response.body) {
+      throw new ProviderError(`Empty stream from ${adapter.name}`, adapter.name, 502);
+    }
+
+    return meterStream(adapter.parseStream(response.body, prepared), model, prepared, trace);
+  });
+}
+
+/**
+ * Route an embeddings request to the provider serving the model. Vectors from
+ * different models aren't interchangeable, so there is no fallback chain;
+ * provider failures are still retried. Vectors are returned L2-normalized.
+ */
+export async function routeEmbeddingRequest(
+  request: EmbeddingRequest,
+  env: Bindings,
+  trace: RoutingTrace = { attempts: [] }
+): Promise<EmbeddingResponse> {
+  const chain = [await resolvePrimary(request.model, env, trace)];
+
+  return executeWithFallback(request, env, trace, chain, async ({ model, adapter }, upstreamRequest, timeoutMs) => {
+    if (!adapter.buildEmbeddingRequest || !adapter.parseEmbeddingResponse) {
+      throw new ProviderError(`Embeddings are not supported by ${adapter.name}`, adapter.name, 400, 'embeddings_unsupported');
+    }
+
+    const config = adapter.resolveConfig(env);
+    const response = await sendProviderRequest(adapter, adapter.buildEmbeddingRequest(upstreamRequest, config), timeoutMs);
+    const { embeddings, promptTokens } = adapter.parseEmbeddingResponse(await response.json(), upstreamRequest);
+
+    trace.usage = { prompt_tokens: promptTokens, completion_tokens: 0, total_tokens: promptTokens };
+    trace.cost = calculateCost(model, trace.usage);
+
+    return {
+      object: 'list',
+      data: embeddings.map((vector, index) => ({
+        object: 'embedding',
+        index,
+        embedding: encodeEmbedding(normalizeVector(vector), request.encoding_format)
+      })),
+      model: model.model_id,
+      provider: adapter.name,
+      usage: { prompt_tokens: promptTokens, total_tokens: promptTokens }
+    };
+  });
 }
@@ -0,0 +1,473 @@
+// Anthropic Messages wire format for the /v1/messages compatibility route.
+// The reverse of the translation the Anthropic adapter does: Messages
+// requests become chat requests, and routed responses become messages.
+
+import type {
+  AIResponse,
+  AIStreamChunk,
+  AnthropicErrorBody,
+  ChatMessage,
+  ContentPart,
+  ToolCall,
+  ToolChoice,
+  ToolDefinition
+} from '../types';
+import { parseToolArguments } from '../providers/base';
+
+const ERROR_TYPES: Record<number, string> = {
+  400: 'invalid_request_error',
+  401: 'authentication_error',
+  402: 'billing_error',
+  403: 'permission_error',
+  404: 'not_found_error',
+  413: 'request_too_large',
+  429: 'rate_limit_error',
+  529: 'overloaded_error'
+};
+
+const STOP_REASONS: Record<string, string> = {
+  stop: 'end_turn',
+  length: 'max_tokens',
+  tool_calls: 'tool_use',
+  content_filter: 'refusal'
+};
+
+const encoder = new TextEncoder();
+
+/**
+ * Named server-sent event of a Messages stream
+ */
+export type AnthropicEvent = {
+  event: string;
+  data: Record<string, unknown>;
+};
+
+/**
+ * Build an Anthropic error body, with the error type Anthropic uses for the status
+ */
+export function anthropicError(status: number, message: string): AnthropicErrorBody {
+  const type = ERROR_TYPES[status] ?? (status >= 500 ? 'api_error' : 'invalid_request_error');
+  return { type: 'error', error: { type, message } };
+}
+
+/**
+ * Text of a system prompt or tool result: a string or a list of text blocks
+ */
+function getBlocksText(value: unknown, param: string): string | { error: string } {
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  if (!Array.isArray(value) || value.some(block => block?.type !== 'text' || typeof block.text !== 'string')) {
+    return { error: `${param} must be a string or an array of text blocks` };
+  }
+
+  return value.map(block => block.text).join('\n');
+}
+
+/**
+ * Convert an image or document block to a content part
+ */
+function toContentPart(block: any, param: string): ContentPart | { error: string } {
+  const source = block.source;
+
+  if (block.type === 'image') {
+    if (source?.type === 'base64') {
+      return { type: 'image_url', image_url: { url: `data:${source.media_type};base64,${source.data}` } };
+    }
+    if (source?.type === 'url' && typeof source.url === 'string') {
+      return { type: 'image_url', image_url: { url: source.url } };
+    }
+    return { error: `${param}.source must be a base64 or url image source` };
+  }
+
+  if (source?.type === 'base64') {
+    return {
+      type: 'file',
+      file: {
+        file_data: `data:${source.media_type};base64,${source.data}`,
+        ...(typeof block.title === 'string' ? { filename: block.title } : {})
+      }
+    };
+  }
+  if (source?.type === 'text' && typeof source.data === 'string') {
+    return { type: 'text', text: source.data };
+  }
+  return { error: `${param}.source must be a base64 or text document source` };
+}
+
+/**
+ * Convert a user turn. tool_result blocks become tool messages, which must
+ * directly follow the assistant's tool calls, so they come first.
+ */
+function fromUserBlocks(blocks: any[], param: string): ChatMessage[] | { error: string } {
+  const results: ChatMessage[] = [];
+  const parts: ContentPart[] = [];
+
+  for (let j = 0; j < blocks.length; j++) {
+    const block = blocks[j];
+    const blockParam = `${param}[${j}]`;
+
+    switch (block?.type) {
+      case 'text':
+        if (typeof block.text !== 'string') {
+          return { error: `${blockParam}.text must be a string` };
+        }
+        parts.push({ type: 'text', text: block.text });
+        break;
+      case 'image':
+      case 'document': {
+        const part = toContentPart(block, blockParam);
+        if ('error' in part) {
+          return part;
+        }
+        parts.push(part);
+        break;
+      }
+      case 'tool_result': {
+        const text = getBlocksText(block.content ?? '', `${blockParam}.content`);
+        if (typeof text !== 'string') {
+          return text;
+        }
+        results.push({
+          role: 'tool',
+          tool_call_id: block.tool_use_id,
+          content: block.is_error ? `Error: ${text}` : text
+        });
+        break;
+      }
+      default:
+        return { error: `${blockParam}.type '${block?.type}' is not supported in user messages` };
+    }
+  }
+
+  if (parts.length === 0) {
+    return results;
+  }
+
+  // Text-only turns are sent as plain strings
+  const content = parts.every(part => part.type === 'text')
+    ? parts.map(part => (part.type === 'text' ? part.text : '')).join('')
+    : parts;
+
+  return [...results, { role: 'user', content }];
+}
+
+/**
+ * Convert an assistant turn: text blocks are joined and tool_use blocks
+ * become tool calls. Thinking blocks are dropped.
+ */
+function fromAssistantBlocks(blocks: any[], param: string): ChatMessage | { error: string } {
+  let text = '';
+  const toolCalls: ToolCall[] = [];
+
+  for (let j = 0; j < blocks.length; j++) {
+    const block = blocks[j];
+
+    switch (block?.type) {
+      case 'text':
+        if (typeof block.text !== 'string') {
+          return { error: `${param}[${j}].text must be a string` };
+        }
+        text += block.text;
+        break;
+      case 'tool_use':
+        toolCalls.push({
+          id: block.id,
+          type: 'function',
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) }
+        });
+        break;
+      case 'thinking':
+      case 'redacted_thinking':
+        break;
+      default:
+        return { error: `${param}[${j}].type '${block?.type}' is not supported in assistant messages` };
+    }
+  }
+
+  return toolCalls.length > 0
+    ? { role: 'assistant', content: text || null, tool_calls: toolCalls }
+    : { role: 'assistant', content: text };
+}
+
+/**
+ * Convert Anthropic tool definitions (custom tools only)
+ */
+function fromAnthropicTools(tools: unknown): ToolDefinition[] | { error: string } {
+  if (!Array.isArray(tools)) {
+    return { error: "'tools' must be an array" };
+  }
+
+  const converted: ToolDefinition[] = [];
+  for (let i = 0; i < tools.length; i++) {
+    const tool = tools[i];
+    if (!tool || typeof tool !== 'object' || (tool.type !== undefined && tool.type !== 'custom')) {
+      return { error: `tools[${i}]: only custom tools ({ name, description?, input_schema }) are supported` };
+    }
+
+    converted.push({
+      type: 'function',
+      function: {
+        name: tool.name,
+        ...(tool.description !== undefined ? { description: tool.description } : {}),
+        parameters: tool.input_schema
+      }
+    });
+  }
+
+  return converted;
+}
+
+/**
+ * Map an Anthropic tool_choice to OpenAI's
+ */
+function fromAnthropicToolChoice(choice: any): ToolChoice | { error: string } {
+  switch (choice?.type) {
+    case 'auto':
+    case 'none':
+      return choice.type;
+    case 'any':
+      return 'required';
+    case 'tool':
+      return { type: 'function', function: { name: choice.name } };
+    default:
+      return { error: "'tool_choice.type' must be one of: auto, any, tool, none" };
+  }
+}
+
+/**
+ * Convert a Messages request body to a chat request body, checking the
+ * Anthropic-specific structure. The result still goes through chat request
+ * validation (models, parameters, media and tools).
+ */
+export function fromAnthropicRequest(body: any): { value: Record<string, unknown> } | { error: string } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Request body must be a JSON object' };
+  }
+
+  if (body.max_tokens === undefined || body.max_tokens === null) {
+    return { error: "'max_tokens' is required" };
+  }
+
+  if (body.stop_sequences !== undefined && body.stop_sequences !== null) {
+    return { error: "'stop_sequences' is not supported" };
+  }
+
+  if (!Array.isArray(body.messages) || body.messages.length === 0) {
+    return { error: "'messages' must be a non-empty array" };
+  }
+
+  const messages: ChatMessage[] = [];
+
+  if (body.system !== undefined && body.system !== null) {
+    const system = getBlocksText(body.system, "'system'");
+    if (typeof system !== 'string') {
+      return system;
+    }
+    messages.push({ role: 'system', content: system });
+  }
+
+  for (let i = 0; i < body.messages.length; i++) {
+    const message = body.messages[i];
+    const param = `messages[${i}].content`;
+
+    if (message?.role !== 'user' && message?.role !== 'assistant') {
+      return { error: `messages[${i}].role must be 'user' or 'assistant'` };
+    }
+
+    if (typeof message.content === 'string') {
+      messages.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    if (!Array.isArray(message.content)) {
+      return { error: `${param} must be a string or an array of content blocks` };
+    }
+
+    const converted = message.role === 'user'
+      ? fromUserBlocks(message.content, param)
+      : fromAssistantBlocks(message.content, param);
+    if ('error' in converted) {
+      return converted;
+    }
+    messages.push(...(Array.isArray(converted) ? converted : [converted]));
+  }
+
+  const request: Record<string, unknown> = {
+    model: body.model,
+    messages,
+    max_tokens: body.max_tokens,
+    temperature: body.temperature,
+    stream: !!body.stream,
+    routing: body.routing,
+    cache: body.cache
+  };
+
+  if (body.tools !== undefined && body.tools !== null) {
+    const tools = fromAnthropicTools(body.tools);
+    if ('error' in tools) {
+      return tools;
+    }
+    request.tools = tools;
+  }
+
+  if (body.tool_choice !== undefined && body.tool_choice !== null) {
+    const choice = fromAnthropicToolChoice(body.tool_choice);
+    if (typeof choice === 'object' && 'error' in choice) {
+      return choice;
+    }
+    request.tool_choice = choice;
+  }
+
+  return { value: request };
+}
+
+/**
+ * Anthropic stop_reason for a finish_reason
+ */
+function toStopReason(finishReason: string | null | undefined): string {
+  return (finishReason && STOP_REASONS[finishReason]) || 'end_turn';
+}
+
+/**
+ * Convert a routed response to an Anthropic message object
+ */
+export function toAnthropicMessage(response: AIResponse) {
+  const choice = response.choices[0];
+  const text = choice?.message.content ?? '';
+  const toolCalls = choice?.message.tool_calls ?? [];
+
+  return {
+    id: response.id,
+    type: 'message',
+    role: 'assistant',
+    model: response.model,
+    content: [
+      ...(text || toolCalls.length === 0 ? [{ type: 'text', text }] : []),
+      ...toolCalls.map(call => ({
+        type: 'tool_use',
+        id: call.id,
+        name: call.function.name,
+        input: parseToolArguments(call)
+      }))
+    ],
+    stop_reason: toStopReason(choice?.finish_reason),
+    stop_sequence: null,
+    usage: {
+      input_tokens: response.usage.prompt_tokens,
+      output_tokens: response.usage.completion_tokens
+    }
+  };
+}
+
+/**
+ * Convert streamed chunks to Messages stream events: message_start, one text
+ * content block, then message_delta (stop reason and usage) and message_stop.
+ * Usage arrives in the trailing chunk, so the stop reason is held until then.
+ */
+export async function* toAnthropicEvents(
+  chunks: AsyncGenerator<AIStreamChunk>,
+  model: string
+): AsyncGenerator<AnthropicEvent> {
+  let started = false;
+  let blockOpen = false;
+  let finishReason: string | null = null;
+  let usage = { input_tokens: 0, output_tokens: 0 };
+
+  const messageStart = (id: string, model: string): AnthropicEvent => ({
+    event: 'message_start',
+    data: {
+      type: 'message_start',
+      message: {
+        id,
+        type: 'message',
+        role: 'assistant',
+        model,
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { input_tokens: 0, output_tokens: 0 }
+      }
+    }
+  });
+
+  for await (const chunk of chunks) {
+    if (!started) {
+      started = true;
+      yield messageStart(chunk.id, chunk.model);
+    }
+
+    if (chunk.usage) {
+      usage = { input_tokens: chunk.usage.prompt_tokens, output_tokens: chunk.usage.completion_tokens };
+    }
+
+    const choice = chunk.choices[0];
+    if (!choice) {
+      continue;
+    }
+
+    if (choice.delta.content) {
+      if (!blockOpen) {
+        blockOpen = true;
+        yield {
+          event: 'content_block_start',
+          data: { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } }
+        };
+      }
+
+      yield {
+        event: 'content_block_delta',
+        data: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: choice.delta.content } }
+      };
+    }
+
+    finishReason = choice.finish_reason ?? finishReason;
+  }
+
+  if (!started) {
+    yield messageStart(`msg_${crypto.randomUUID().replace(/-/g, '')}`, model);
+  }
+
+  if (blockOpen) {
+    yield { event: 'content_block_stop', data: { type: 'content_block_stop', index: 0 } };
+  }
+
+  yield {
+    event: 'message_delta',
+    data: { type: 'message_delta', delta: { stop_reason: toStopReason(finishReason), stop_sequence: null }, usage }
+  };
+  yield { event: 'message_stop', data: { type: 'message_stop' } };
+}
+
+/**
+ * Encode Messages events as an SSE byte stream (an `event:` line per frame,
+ * no [DONE] terminator). Errors raised mid-stream are sent as a final error
+ * event since the status code has already been committed.
+ */
+export function toAnthropicSSEStream(events: AsyncGenerator<AnthropicEvent>): ReadableStream<Uint8Array> {
+  const frame = (event: string, data: unknown) => encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await events.next();
+
+        if (done) {
+          controller.close();
+          return;
+        }
+
+        controller.enqueue(frame(value.event, value.data));
+      } catch (error) {
+        console.error('Stream error:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        controller.enqueue(frame('error', anthropicError(500, message)));
+        controller.close();
+      }
+    },
+    async cancel() {
+      await events.return(undefined);
+    }
+  });
+}
@@ -1,7 +1,6 @@
 // Authentication utilities using Web Crypto API
 
 const encoder = new TextEncoder();
-const decoder = new TextDecoder();
 
 /**
  * Hash password using Web Crypto API (SHA-256)
@@ -24,15 +23,93 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
 }
 
 /**
- * Generate API key
+ * Length of the public part of an API key used for lookup and display
+ * ("apk_" plus an 8 character key ID)
+ */
+export const API_KEY_PREFIX_LENGTH = 12;
+
+/**
+ * API key as persisted: public prefix plus salted hash, never the key itself
+ */
+export type StoredApiKey = {
+  prefix: string;
+  hash: string;
+  salt: string;
+};
+
+/**
+ * Generate API key in the form apk_<key id>_<secret>
  */
 export function generateApiKey(prefix: string = 'apk'): string {
-  const randomBytes = new Uint8Array(32);
-  crypto.getRandomValues(randomBytes);
-  const randomString = Array.from(randomBytes)
+  return `${prefix}_${generateRandomString(4)}_${generateRandomString(32)}`;
+}
+
+/**
+ * Public lookup prefix of an API key
+ */
+export function getApiKeyPrefix(apiKey: string): string {
+  return apiKey.slice(0, API_KEY_PREFIX_LENGTH);
+}
+
+/**
+ * Hash an API key with its salt (SHA-256)
+ */
+export async function hashApiKey(apiKey: string, salt: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', encoder.encode(`${salt}:${apiKey}`));
+  return Array.from(new Uint8Array(hashBuffer))
     .map(b => b.toString(16).padStart(2, '0'))
     .join('');
-  return `${prefix}_${randomString}`;
+}
+
+/**
+ * Derive the stored form of a new API key
+ */
+export async function prepareApiKeyForStorage(apiKey: string): Promise<StoredApiKey> {
+  const salt = generateRandomString(16);
+  return {
+    prefix: getApiKeyPrefix(apiKey),
+    hash: await hashApiKey(apiKey, salt),
+    salt
+  };
+}
+
+/**
+ * Verify an API key against its stored hash in constant time
+ */
+export async function verifyApiKey(apiKey: string, salt: string, hash: string): Promise<boolean> {
+  return timingSafeEqual(await hashApiKey(apiKey, salt), hash);
+}
+
+/**
+ * Compare two strings without short-circuiting on the first difference
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const length = Math.max(a.length, b.length);
+  let diff = a.length ^ b.length;
+
+  for (let i = 0; i < length; i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+
+  return diff === 0;
+}
+
+/**
+ * Mask an API key for display, keeping the prefix and last 4 characters
+ */
+export function maskApiKey(apiKey: string): string {
+  if (apiKey.length <= 12) {
+    return `${apiKey.slice(0, 4)}...`;
+  }
+  return `${apiKey.slice(0, 8)}...${apiKey.slice(-4)}`;
+}
+
+/**
+ * Display form of a stored key: its public prefix, or a masked legacy
+ * plaintext key that has not been hashed yet
+ */
+export function displayApiKey(row: { api_key: string; key_prefix: string | null }): string {
+  return row.key_prefix ? `${row.key_prefix}...` : maskApiKey(row.api_key);
 }
 
 /**
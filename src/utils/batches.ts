@@ -0,0 +1,398 @@
+// Asynchronous batch jobs: JSONL input parsing, the background worker that
+// processes queued lines, and the JSONL output records
+
+import type { ApiKeyScopes, Batch, BatchItem, Bindings, OpenAIErrorBody, RoutingTrace } from '../types';
+import { ProviderError } from '../providers';
+import { routeAIRequest, getErrorStatus } from './aiProviders';
+import { validateChatRequest } from './validation';
+import { resolveModelTargets } from './modelAliases';
+import { getBudgetStatus } from './budgets';
+import { openAIError, toChatCompletion } from './openaiCompat';
+import { checkRequestScopes } from '../middleware/scopes';
+import { getRateLimitConfig } from '../middleware/rateLimit';
+import { getApiKeyScopes } from './scopes';
+import {
+  getActiveBatches,
+  getApiKeyById,
+  getApplicableBudgets,
+  checkRateLimit,
+  claimBatchItems,
+  markBatchStarted,
+  completeBatchItem,
+  finishBatchIfDone,
+  releaseStaleBatchItems,
+  cancelBatch,
+  logRequest,
+  updateUsageStats,
+  toSqlTimestamp
+} from './database';
+
+// Endpoint batch lines are logged and rate limited under
+export const BATCH_ENDPOINT = '/api/ai/batches';
+
+export const MAX_BATCH_REQUESTS = 50000;
+
+// Request paths a line's optional `url` may name (OpenAI batch files carry one)
+const BATCH_URLS = ['/v1/chat/completions', '/api/ai/chat'];
+
+// Lines claimed this long ago without finishing belonged to a run that died
+const STALE_ITEM_MS = 15 * 60 * 1000;
+
+/**
+ * A validated input line, ready to store
+ */
+export type BatchLine = {
+  customId: string;
+  request: string;
+};
+
+/**
+ * Parse a JSONL batch file. Each non-blank line is
+ * `{ "custom_id", "body": <chat request>, "method"?, "url"? }`; any malformed
+ * line rejects the whole file. Request bodies are fully validated when the
+ * line is processed, so model and parameter errors are reported per line.
+ */
+export function parseBatchFile(text: string): { lines: BatchLine[] } | { error: string } {
+  const lines: BatchLine[] = [];
+  const customIds = new Set<string>();
+  const rows = text.split(/\r?\n/);
+
+  for (let i = 0; i < rows.length; i++) {
+    if (!rows[i].trim()) {
+      continue;
+    }
+
+    const at = `Line ${i + 1}`;
+    let entry: any;
+    try {
+      entry = JSON.parse(rows[i]);
+    } catch {
+      return { error: `${at}: invalid JSON` };
+    }
+
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      return { error: `${at}: must be a JSON object` };
+    }
+
+    if (typeof entry.custom_id !== 'string' || !entry.custom_id) {
+      return { error: `${at}: 'custom_id' must be a non-empty string` };
+    }
+
+    if (customIds.has(entry.custom_id)) {
+      return { error: `${at}: duplicate custom_id '${entry.custom_id}'` };
+    }
+    customIds.add(entry.custom_id);
+
+    if (entry.method !== undefined && entry.method !== 'POST') {
+      return { error: `${at}: 'method' must be POST` };
+    }
+
+    if (entry.url !== undefined && !BATCH_URLS.includes(entry.url)) {
+      return { error: `${at}: 'url' must be one of: ${BATCH_URLS.join(', ')}` };
+    }
+
+    const body = entry.body;
+    if (!body || typeof body !== 'object' || Array.isArray(body) || typeof body.model !== 'string' || !body.model) {
+      return { error: `${at}: 'body' must be a chat request object with a 'model'` };
+    }
+
+    if (lines.length >= MAX_BATCH_REQUESTS) {
+      return { error: `A batch can contain at most ${MAX_BATCH_REQUESTS} requests` };
+    }
+
+    lines.push({ customId: entry.custom_id, request: JSON.stringify(body) });
+  }
+
+  if (lines.length === 0) {
+    return { error: 'The batch file contains no requests' };
+  }
+
+  return { lines };
+}
+
+/**
+ * Serialize a batch for API responses
+ */
+export function serializeBatch(batch: Batch) {
+  const finished = batch.completed_requests + batch.failed_requests;
+
+  return {
+    id: batch.id,
+    apiKeyId: batch.api_key_id,
+    status: batch.status,
+    requestCounts: {
+      total: batch.total_requests,
+      completed: batch.completed_requests,
+      failed: batch.failed_requests
+    },
+    progress: batch.total_requests > 0 ? Math.round((finished / batch.total_requests) * 10000) / 100 : 0,
+    usage: {
+      promptTokens: batch.prompt_tokens,
+      completionTokens: batch.completion_tokens,
+      totalTokens: batch.prompt_tokens + batch.completion_tokens
+    },
+    cost: Math.round(batch.cost * 1e6) / 1e6,
+    createdAt: batch.created_at,
+    startedAt: batch.started_at,
+    completedAt: batch.completed_at,
+    cancelledAt: batch.cancelled_at
+  };
+}
+
+/**
+ * Output record of a line: the OpenAI batch output format, with the chat
+ * completion (or error body) and its status code
+ */
+function toResultRecord(item: BatchItem, statusCode: number, body: unknown, error: OpenAIErrorBody | null): string {
+  return JSON.stringify({
+    id: `batch_req_${item.id}`,
+    custom_id: item.custom_id,
+    response: { status_code: statusCode, body },
+    error: error ? { code: error.error.code ?? error.error.type, message: error.error.message } : null
+  });
+}
+
+/**
+ * Scopes of the API key a batch was created with: undefined for account
+ * keys and JWT users, null once the key has been revoked or deleted
+ */
+async function getBatchScopes(env: Bindings, batch: Batch): Promise<ApiKeyScopes | undefined | null> {
+  if (batch.api_key_id === null) {
+    return undefined;
+  }
+
+  const key = await getApiKeyById(env.DB, batch.api_key_id, batch.user_id);
+  return key && key.is_active ? getApiKeyScopes(key) : null;
+}
+
+/**
+ * Whether a hard budget applying to the batch's user or key has been reached
+ */
+async function isBudgetExhausted(env: Bindings, batch: Batch): Promise<boolean> {
+  const budgets = await getApplicableBudgets(env.DB, batch.user_id, batch.api_key_id ?? undefined);
+
+  for (const budget of budgets) {
+    if ((await getBudgetStatus(env.DB, budget)).hardExceeded) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Route one line and record its result, usage and cost on the batch and in
+ * the request log
+ */
+async function processBatchItem(
+  env: Bindings,
+  batch: Batch,
+  item: BatchItem,
+  scopes: ApiKeyScopes | undefined
+): Promise<void> {
+  const startTime = Date.now();
+  const trace: RoutingTrace = { attempts: [] };
+  const body = JSON.parse(item.request);
+  let statusCode = 200;
+  let completion: unknown = null;
+  let error: OpenAIErrorBody | null = null;
+
+  try {
+    const validation = await validateChatRequest(env.DB, body);
+    const violation = scopes ? await checkRequestScopes(env.DB, scopes, body) : null;
+
+    if ('error' in validation) {
+      statusCode = 400;
+      error = validation.error;
+    } else if (violation) {
+      statusCode = 403;
+      error = openAIError(403, violation.message, 'permission_denied');
+    } else {
+      // Lines are never streamed
+      const response = await routeAIRequest({ ...validation.value, stream: false }, env, trace, {
+        scopes,
+        userId: batch.user_id,
+        apiKeyId: batch.api_key_id ?? undefined
+      });
+      completion = toChatCompletion(response, response.provider);
+    }
+  } catch (routeError) {
+    statusCode = getErrorStatus(routeError);
+    error = openAIError(
+      statusCode,
+      routeError instanceof Error ? routeError.message : 'Unknown error',
+      routeError instanceof ProviderError ? routeError.code ?? null : null
+    );
+  }
+
+  const result = toResultRecord(item, statusCode, error ?? completion, error);
+  const usage = trace.usage;
+  const cost = trace.cost || 0;
+  const provider = trace.provider ?? trace.attempts[trace.attempts.length - 1]?.provider ?? null;
+  const model = trace.model ?? body.model;
+
+  await completeBatchItem(env.DB, item, {
+    status: error ? 'failed' : 'succeeded',
+    result,
+    errorMessage: error?.error.message ?? null,
+    provider,
+    model,
+    promptTokens: usage?.prompt_tokens || 0,
+    completionTokens: usage?.completion_tokens || 0,
+    cost
+  });
+
+  try {
+    await logRequest(env.DB, {
+      userId: batch.user_id,
+      apiKeyId: batch.api_key_id ?? undefined,
+      endpoint: BATCH_ENDPOINT,
+      method: 'POST',
+      modelProvider: provider ?? undefined,
+      modelName: model,
+      statusCode,
+      requestSize: item.request.length,
+      responseSize: result.length,
+      latencyMs: Date.now() - startTime,
+      errorMessage: error?.error.message,
+      attempts: trace.attempts,
+      promptTokens: usage?.prompt_tokens,
+      completionTokens: usage?.completion_tokens,
+      totalTokens: usage?.total_tokens,
+      cost,
+      modelAlias: trace.alias,
+      modelVariant: trace.variant,
+      batchId: batch.id
+    });
+
+    await updateUsageStats(env.DB, batch.user_id, {
+      success: !error,
+      tokens: usage?.total_tokens || 0,
+      cost
+    });
+  } catch (logError) {
+    console.error('Failed to log batch request:', logError);
+  }
+}
+
+/**
+ * Run jobs with at most `concurrency` in flight
+ */
+async function runWithConcurrency<T>(jobs: T[], concurrency: number, run: (job: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(concurrency, jobs.length) }, async () => {
+    while (next < jobs.length) {
+      await run(jobs[next++]);
+    }
+  });
+
+  await Promise.all(workers);
+}
+
+/**
+ * Process queued batch lines. Each run claims up to BATCH_ITEMS_PER_RUN
+ * (default 100) lines, oldest batches first, within each user's remaining
+ * batch rate limit quota; users over a hard budget are skipped until it
+ * resets. Lines run with at most BATCH_PROVIDER_CONCURRENCY (default 4) in
+ * flight per provider. See drainBatchJobs for the callers.
+ */
+export async function runBatchJobs(env: Bindings): Promise<{ processed: number; completed: number }> {
+  const itemsPerRun = parseInt(env.BATCH_ITEMS_PER_RUN || '100');
+  const concurrency = parseInt(env.BATCH_PROVIDER_CONCURRENCY || '4');
+  const quota = getRateLimitConfig(BATCH_ENDPOINT);
+
+  await releaseStaleBatchItems(env.DB, toSqlTimestamp(new Date(Date.now() - STALE_ITEM_MS)));
+
+  const jobs: Array<{ batch: Batch; item: BatchItem; scopes: ApiKeyScopes | undefined }> = [];
+  const claimedByUser = new Map<number, number>();
+  let completed = 0;
+
+  for (const batch of await getActiveBatches(env.DB)) {
+    if (jobs.length >= itemsPerRun) {
+      break;
+    }
+
+    const scopes = await getBatchScopes(env, batch);
+    if (scopes === null) {
+      console.log('Batch cancelled, API key revoked:', { batchId: batch.id });
+      await cancelBatch(env.DB, batch.id);
+      continue;
+    }
+
+    const claimed = claimedByUser.get(batch.user_id) || 0;
+    const { remaining } = await checkRateLimit(env.DB, batch.user_id, [BATCH_ENDPOINT], quota.maxRequests, quota.windowMinutes);
+    const limit = Math.min(itemsPerRun - jobs.length, remaining - claimed);
+    if (limit <= 0 || await isBudgetExhausted(env, batch)) {
+      continue;
+    }
+
+    // Nothing left to claim: finish batches whose last lines ended in an earlier run
+    const items = await claimBatchItems(env.DB, batch.id, limit);
+    if (items.length === 0) {
+      completed += (await finishBatchIfDone(env.DB, batch.id)) ? 1 : 0;
+      continue;
+    }
+
+    await markBatchStarted(env.DB, batch.id);
+    claimedByUser.set(batch.user_id, claimed + items.length);
+    jobs.push(...items.map(item => ({ batch, item, scopes })));
+  }
+
+  // Group lines by the provider their model routes to (`auto` forms its own group)
+  const providers = new Map<string, Promise<string>>();
+  const groups = new Map<string, typeof jobs>();
+  for (const job of jobs) {
+    const model: string = JSON.parse(job.item.request).model;
+    if (!providers.has(model)) {
+      providers.set(model, resolveModelTargets(env.DB, model).then(({ models }) => models[0]?.provider ?? model));
+    }
+
+    const provider = await providers.get(model)!;
+    groups.set(provider, [...(groups.get(provider) || []), job]);
+  }
+
+  await Promise.all([...groups.values()].map(group =>
+    runWithConcurrency(group, concurrency, async ({ batch, item, scopes }) => {
+      try {
+        await processBatchItem(env, batch, item, scopes);
+      } catch (error) {
+        // Left running; a later run retries the line once it is stale
+        console.error('Batch item error:', { batchId: batch.id, line: item.line, error });
+      }
+    })
+  ));
+
+  for (const batchId of new Set(jobs.map(job => job.batch.id))) {
+    if (await finishBatchIfDone(env.DB, batchId)) {
+      completed++;
+    }
+  }
+
+  return { processed: jobs.length, completed };
+}
+
+/**
+ * Run batch jobs until no line is left to claim or `budgetMs` has passed, so
+ * one invocation works through batches larger than a single run. Lines still
+ * in flight when the invocation is cut off are released once stale and picked
+ * up by a later invocation. Run from the batch Cron Trigger and after a batch
+ * is created.
+ */
+export async function drainBatchJobs(
+  env: Bindings,
+  budgetMs: number
+): Promise<{ runs: number; processed: number; completed: number }> {
+  const deadline = Date.now() + budgetMs;
+  const total = { runs: 0, processed: 0, completed: 0 };
+
+  while (true) {
+    const { processed, completed } = await runBatchJobs(env);
+    total.runs++;
+    total.processed += processed;
+    total.completed += completed;
+
+    if (processed === 0 || Date.now() >= deadline) {
+      return total;
+    }
+  }
+}
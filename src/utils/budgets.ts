@@ -0,0 +1,82 @@
+// Budget period and spend evaluation
+
+import type { D1Database } from '@cloudflare/workers-types';
+import type { Budget } from '../types';
+import { getBudgetSpend, fromSqlTimestamp } from './database';
+
+export type BudgetStatus = {
+  budget: Budget;
+  spent: number;
+  remaining: number | null;
+  periodStart: Date;
+  periodEnd: Date;
+  softExceeded: boolean;
+  hardExceeded: boolean;
+};
+
+/**
+ * Current period boundaries (UTC) for a budget period
+ */
+export function getBudgetPeriod(period: Budget['period'], now: Date = new Date()): { start: Date; end: Date } {
+  if (period === 'daily') {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+  }
+
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  return { start, end };
+}
+
+/**
+ * Evaluate spend against a budget's soft and hard limits for the current period.
+ * A manual reset inside the period moves the start of counting forward.
+ */
+export async function getBudgetStatus(db: D1Database, budget: Budget): Promise<BudgetStatus> {
+  const { start, end } = getBudgetPeriod(budget.period);
+  const resetAt = budget.reset_at ? fromSqlTimestamp(budget.reset_at) : null;
+  const countFrom = resetAt && resetAt > start ? resetAt : start;
+
+  const spent = await getBudgetSpend(db, budget, countFrom);
+
+  return {
+    budget,
+    spent,
+    remaining: budget.hard_limit !== null ? Math.max(0, budget.hard_limit - spent) : null,
+    periodStart: start,
+    periodEnd: end,
+    softExceeded: budget.soft_limit !== null && spent >= budget.soft_limit,
+    hardExceeded: budget.hard_limit !== null && spent >= budget.hard_limit
+  };
+}
+
+/**
+ * Human-readable amount for a budget's limit type
+ */
+export function formatBudgetAmount(budget: Budget, amount: number): string {
+  return budget.limit_type === 'cost' ? `$${amount.toFixed(2)}` : `${Math.round(amount)} tokens`;
+}
+
+/**
+ * Serialize a budget status for API responses
+ */
+export function serializeBudgetStatus(status: BudgetStatus) {
+  const { budget } = status;
+
+  return {
+    id: budget.id,
+    userId: budget.user_id,
+    apiKeyId: budget.api_key_id,
+    period: budget.period,
+    limitType: budget.limit_type,
+    softLimit: budget.soft_limit,
+    hardLimit: budget.hard_limit,
+    webhookUrl: budget.webhook_url,
+    spent: budget.limit_type === 'cost' ? Math.round(status.spent * 1e6) / 1e6 : status.spent,
+    remaining: status.remaining,
+    softLimitReached: status.softExceeded,
+    hardLimitReached: status.hardExceeded,
+    periodStart: status.periodStart.toISOString(),
+    resetsAt: status.periodEnd.toISOString()
+  };
+}
@@ -0,0 +1,180 @@
+// Per-provider circuit breaker
+
+import type { Bindings, CircuitState, ProviderHealth } from '../types';
+
+type BreakerConfig = {
+  failureThreshold: number;
+  errorRateThreshold: number;
+  minRequests: number;
+  cooldownMs: number;
+  windowMs: number;
+};
+
+type Sample = {
+  ok: boolean;
+  latencyMs: number;
+  at: number;
+};
+
+type Breaker = {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  probeStartedAt: number | null;
+  samples: Sample[];
+};
+
+const MAX_SAMPLES = 200;
+
+/**
+ * Breaker state lives in isolate memory, like ipRateLimiter.
+ * Each Worker isolate trips independently, which is enough to shed load
+ * from a failing upstream without a round trip to shared storage.
+ */
+const breakers = new Map<string, Breaker>();
+
+/**
+ * Read breaker settings from the environment
+ */
+function getBreakerConfig(env: Bindings): BreakerConfig {
+  return {
+    failureThreshold: parseInt(env.CIRCUIT_FAILURE_THRESHOLD || '5'),
+    errorRateThreshold: parseFloat(env.CIRCUIT_ERROR_RATE_THRESHOLD || '0.5'),
+    minRequests: parseInt(env.CIRCUIT_MIN_REQUESTS || '10'),
+    cooldownMs: parseInt(env.CIRCUIT_COOLDOWN_MS || '30000'),
+    windowMs: parseInt(env.CIRCUIT_WINDOW_MS || '300000')
+  };
+}
+
+function getBreaker(provider: string): Breaker {
+  let breaker = breakers.get(provider);
+  if (!breaker) {
+    breaker = { state: 'closed', consecutiveFailures: 0, openedAt: null, probeStartedAt: null, samples: [] };
+    breakers.set(provider, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Drop samples that have aged out of the window
+ */
+function pruneSamples(breaker: Breaker, config: BreakerConfig): void {
+  const cutoff = Date.now() - config.windowMs;
+  breaker.samples = breaker.samples.filter(s => s.at >= cutoff).slice(-MAX_SAMPLES);
+}
+
+function getErrorRate(samples: Sample[]): number {
+  if (samples.length === 0) return 0;
+  return samples.filter(s => !s.ok).length / samples.length;
+}
+
+function getP95Latency(samples: Sample[]): number | null {
+  const latencies = samples.filter(s => s.ok).map(s => s.latencyMs).sort((a, b) => a - b);
+  if (latencies.length === 0) return null;
+  return latencies[Math.min(latencies.length - 1, Math.ceil(latencies.length * 0.95) - 1)];
+}
+
+function open(breaker: Breaker): void {
+  breaker.state = 'open';
+  breaker.openedAt = Date.now();
+  breaker.probeStartedAt = null;
+}
+
+/**
+ * Whether a call to the provider may proceed. An open circuit lets a single
+ * probe request through (half-open) once the cooldown has elapsed; a probe
+ * that never reports back is replaced after another cooldown.
+ */
+export function allowRequest(provider: string, env: Bindings): boolean {
+  const config = getBreakerConfig(env);
+  const breaker = getBreaker(provider);
+
+  if (breaker.state === 'closed') {
+    return true;
+  }
+
+  if (breaker.state === 'open' && Date.now() - (breaker.openedAt || 0) >= config.cooldownMs) {
+    breaker.state = 'half-open';
+  }
+
+  const now = Date.now();
+  if (breaker.state === 'half-open' &&
+      (breaker.probeStartedAt === null || now - breaker.probeStartedAt >= config.cooldownMs)) {
+    breaker.probeStartedAt = now;
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Record a successful upstream call
+ */
+export function recordSuccess(provider: string, latencyMs: number, env: Bindings): void {
+  const config = getBreakerConfig(env);
+  const breaker = getBreaker(provider);
+
+  breaker.samples.push({ ok: true, latencyMs, at: Date.now() });
+  pruneSamples(breaker, config);
+  breaker.consecutiveFailures = 0;
+
+  if (breaker.state === 'half-open') {
+    // Start the closed circuit with a clean error rate
+    breaker.state = 'closed';
+    breaker.openedAt = null;
+    breaker.probeStartedAt = null;
+    breaker.samples = breaker.samples.slice(-1);
+  }
+}
+
+/**
+ * Record a failed upstream call, opening the circuit when the consecutive
+ * failure count or the windowed error rate passes its threshold
+ */
+export function recordFailure(provider: string, latencyMs: number, env: Bindings): void {
+  const config = getBreakerConfig(env);
+  const breaker = getBreaker(provider);
+
+  breaker.samples.push({ ok: false, latencyMs, at: Date.now() });
+  pruneSamples(breaker, config);
+  breaker.consecutiveFailures++;
+
+  if (breaker.state === 'half-open') {
+    open(breaker);
+    return;
+  }
+
+  const errorRateTripped = breaker.samples.length >= config.minRequests &&
+    getErrorRate(breaker.samples) >= config.errorRateThreshold;
+
+  if (breaker.state === 'closed' && (breaker.consecutiveFailures >= config.failureThreshold || errorRateTripped)) {
+    open(breaker);
+  }
+}
+
+/**
+ * Current health of a provider's circuit
+ */
+export function getProviderHealth(provider: string, env: Bindings): ProviderHealth {
+  const config = getBreakerConfig(env);
+  const breaker = getBreaker(provider);
+  pruneSamples(breaker, config);
+
+  // Report an open circuit whose cooldown has elapsed as ready for a probe
+  const state = breaker.state === 'open' && Date.now() - (breaker.openedAt || 0) >= config.cooldownMs
+    ? 'half-open'
+    : breaker.state;
+
+  return {
+    provider,
+    state,
+    errorRate: Math.round(getErrorRate(breaker.samples) * 1000) / 1000,
+    p95LatencyMs: getP95Latency(breaker.samples),
+    requests: breaker.samples.length,
+    consecutiveFailures: breaker.consecutiveFailures,
+    openedAt: breaker.openedAt ? new Date(breaker.openedAt).toISOString() : null,
+    retryAt: breaker.state === 'open' && breaker.openedAt
+      ? new Date(breaker.openedAt + config.cooldownMs).toISOString()
+      : null
+  };
+}
@@ -1,7 +1,24 @@
 // Database utility functions
 
 import type { D1Database } from '@cloudflare/workers-types';
-import type { User, ApiKey, RequestLog, AIModel } from '../types';
+import type { User, ApiKey, ApiKeyScopes, AuditLog, RequestLog, AIModel, AIModelFields, ModelAlias, CachedResponse, CacheStatus, SemanticCacheEntry, SemanticCacheSettings, ProviderAttempt, Budget, Batch, BatchItem, BatchItemStatus } from '../types';
+import type { StoredApiKey } from './auth';
+import { getApiKeyPrefix, verifyApiKey, prepareApiKeyForStorage } from './auth';
+
+/**
+ * Format a date like SQLite's CURRENT_TIMESTAMP so it compares correctly
+ * against DATETIME columns
+ */
+export function toSqlTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+/**
+ * Parse a SQLite DATETIME value (stored in UTC)
+ */
+export function fromSqlTimestamp(value: string): Date {
+  return new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+}
 
 /**
  * Get user by email
@@ -12,11 +29,40 @@ export async function getUserByEmail(db: D1Database, email: string): Promise<Use
 }
 
 /**
- * Get user by API key
+ * Get user by API key (prefix lookup, then constant-time hash comparison).
+ * Legacy plaintext keys are hashed in place on first use.
  */
 export async function getUserByApiKey(db: D1Database, apiKey: string): Promise<User | null> {
-  const result = await db.prepare('SELECT * FROM users WHERE api_key = ?').bind(apiKey).first();
-  return result as User | null;
+  const candidates = await db.prepare(`
+    SELECT * FROM users WHERE key_prefix = ? AND key_hash IS NOT NULL
+  `).bind(getApiKeyPrefix(apiKey)).all();
+
+  for (const user of candidates.results as User[]) {
+    if (await verifyApiKey(apiKey, user.key_salt!, user.key_hash!)) {
+      return user;
+    }
+  }
+
+  const legacy = await db.prepare(`
+    SELECT * FROM users WHERE api_key = ? AND key_hash IS NULL
+  `).bind(apiKey).first() as User | null;
+
+  if (legacy) {
+    await storeUserApiKey(db, legacy.id, await prepareApiKeyForStorage(apiKey));
+  }
+
+  return legacy;
+}
+
+/**
+ * Replace a user's account API key with a hashed key
+ */
+export async function storeUserApiKey(db: D1Database, userId: number, storedKey: StoredApiKey): Promise<void> {
+  await db.prepare(`
+    UPDATE users
+    SET api_key = ?, key_prefix = ?, key_hash = ?, key_salt = ?, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `).bind(storedKey.hash, storedKey.prefix, storedKey.hash, storedKey.salt, userId).run();
 }
 
 /**
@@ -27,6 +73,107 @@ export async function getUserById(db: D1Database, id: number): Promise<User | nu
   return result as User | null;
 }
 
+/**
+ * Search users by email/username with optional role and status filters
+ */
+export async function searchUsers(
+  db: D1Database,
+  filters: { search?: string; role?: string; isActive?: boolean },
+  limit: number,
+  offset: number
+): Promise<{ users: User[]; total: number }> {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filters.search) {
+    const pattern = `%${filters.search.replace(/[\\%_]/g, '\\$&')}%`;
+    conditions.push("(email LIKE ? ESCAPE '\\' OR username LIKE ? ESCAPE '\\')");
+    params.push(pattern, pattern);
+  }
+
+  if (filters.role) {
+    conditions.push('role = ?');
+    params.push(filters.role);
+  }
+
+  if (filters.isActive !== undefined) {
+    conditions.push('is_active = ?');
+    params.push(filters.isActive ? 1 : 0);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const count = await db.prepare(`SELECT COUNT(*) as total FROM users ${where}`)
+    .bind(...params)
+    .first() as { total: number } | null;
+
+  const result = await db.prepare(`
+    SELECT * FROM users ${where}
+    ORDER BY created_at DESC, id DESC
+    LIMIT ? OFFSET ?
+  `).bind(...params, limit, offset).all();
+
+  return { users: result.results as User[], total: count?.total || 0 };
+}
+
+/**
+ * Change a user's role
+ */
+export async function updateUserRole(db: D1Database, userId: number, role: User['role']): Promise<User | null> {
+  const result = await db.prepare(`
+    UPDATE users SET role = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? RETURNING *
+  `).bind(role, userId).first();
+
+  return result as User | null;
+}
+
+/**
+ * Enable or disable a user account
+ */
+export async function setUserActive(db: D1Database, userId: number, isActive: boolean): Promise<User | null> {
+  const result = await db.prepare(`
+    UPDATE users SET is_active = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? RETURNING *
+  `).bind(isActive ? 1 : 0, userId).first();
+
+  return result as User | null;
+}
+
+/**
+ * Set a user's password, optionally requiring them to change it on next use
+ */
+export async function setUserPassword(
+  db: D1Database,
+  userId: number,
+  passwordHash: string,
+  resetRequired: boolean
+): Promise<void> {
+  await db.prepare(`
+    UPDATE users
+    SET password_hash = ?, password_reset_required = ?, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `).bind(passwordHash, resetRequired ? 1 : 0, userId).run();
+}
+
+/**
+ * Invalidate every JWT issued to a user so far
+ */
+export async function revokeUserSessions(db: D1Database, userId: number): Promise<void> {
+  await db.prepare(`
+    UPDATE users SET sessions_revoked_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+  `).bind(userId).run();
+}
+
+/**
+ * Deactivate all of a user's named API keys, returning how many were active
+ */
+export async function revokeAllApiKeys(db: D1Database, userId: number): Promise<number> {
+  const result = await db.prepare(`
+    UPDATE api_keys SET is_active = 0 WHERE user_id = ? AND is_active = 1
+  `).bind(userId).run();
+
+  return result.meta.changes;
+}
+
 /**
  * Create new user
  */
@@ -35,29 +182,300 @@ export async function createUser(
   email: string,
   username: string,
   passwordHash: string,
-  apiKey: string,
+  storedKey: StoredApiKey,
   role: string = 'user'
 ): Promise<User> {
   const result = await db.prepare(`
-    INSERT INTO users (email, username, password_hash, api_key, role)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT INTO users (email, username, password_hash, api_key, key_prefix, key_hash, key_salt, role)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     RETURNING *
-  `).bind(email, username, passwordHash, apiKey, role).first();
+  `).bind(
+    email,
+    username,
+    passwordHash,
+    storedKey.hash,
+    storedKey.prefix,
+    storedKey.hash,
+    storedKey.salt,
+    role
+  ).first();
   
   return result as User;
 }
 
 /**
- * Get API key details
+ * Get API key details (prefix lookup, then constant-time hash comparison).
+ * Inactive and expired keys are returned too so callers can say why they fail.
+ * Legacy plaintext keys are hashed in place on first use.
  */
 export async function getApiKeyDetails(db: D1Database, apiKey: string): Promise<ApiKey | null> {
+  const candidates = await db.prepare(`
+    SELECT * FROM api_keys WHERE key_prefix = ? AND key_hash IS NOT NULL
+  `).bind(getApiKeyPrefix(apiKey)).all();
+
+  for (const key of candidates.results as ApiKey[]) {
+    if (await verifyApiKey(apiKey, key.key_salt!, key.key_hash!)) {
+      return key;
+    }
+  }
+
+  const legacy = await db.prepare(`
+    SELECT * FROM api_keys WHERE api_key = ? AND key_hash IS NULL
+  `).bind(apiKey).first() as ApiKey | null;
+
+  if (legacy) {
+    await storeApiKeyHash(db, legacy.id, await prepareApiKeyForStorage(apiKey));
+  }
+
+  return legacy;
+}
+
+/**
+ * Replace a legacy plaintext key row with its hashed form
+ */
+async function storeApiKeyHash(db: D1Database, id: number, storedKey: StoredApiKey): Promise<void> {
+  await db.prepare(`
+    UPDATE api_keys SET api_key = ?, key_prefix = ?, key_hash = ?, key_salt = ? WHERE id = ?
+  `).bind(storedKey.hash, storedKey.prefix, storedKey.hash, storedKey.salt, id).run();
+}
+
+/**
+ * Hash every remaining legacy plaintext key. Safe to run repeatedly;
+ * clients keep using the same keys.
+ */
+export async function migrateLegacyApiKeys(db: D1Database): Promise<{ users: number; apiKeys: number }> {
+  const users = await db.prepare(`
+    SELECT id, api_key FROM users WHERE key_hash IS NULL
+  `).all();
+
+  for (const row of users.results as Array<{ id: number; api_key: string }>) {
+    await storeUserApiKey(db, row.id, await prepareApiKeyForStorage(row.api_key));
+  }
+
+  const apiKeys = await db.prepare(`
+    SELECT id, api_key FROM api_keys WHERE key_hash IS NULL
+  `).all();
+
+  for (const row of apiKeys.results as Array<{ id: number; api_key: string }>) {
+    await storeApiKeyHash(db, row.id, await prepareApiKeyForStorage(row.api_key));
+  }
+
+  return { users: users.results.length, apiKeys: apiKeys.results.length };
+}
+
+/**
+ * Create a named API key for a user
+ */
+export async function createApiKey(
+  db: D1Database,
+  userId: number,
+  keyName: string,
+  storedKey: StoredApiKey,
+  expiresAt: string | null,
+  scopes: ApiKeyScopes = {}
+): Promise<ApiKey> {
   const result = await db.prepare(`
-    SELECT * FROM api_keys WHERE api_key = ? AND is_active = 1
-  `).bind(apiKey).first();
-  
+    INSERT INTO api_keys (
+      user_id, key_name, api_key, key_prefix, key_hash, key_salt, expires_at,
+      allowed_endpoints, allowed_models, allowed_providers, max_tokens_per_request, allowed_cidrs
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    RETURNING *
+  `).bind(
+    userId,
+    keyName,
+    storedKey.hash,
+    storedKey.prefix,
+    storedKey.hash,
+    storedKey.salt,
+    expiresAt,
+    ...scopeColumns(scopes)
+  ).first();
+
+  return result as ApiKey;
+}
+
+/**
+ * Replace the scopes of an API key
+ */
+export async function updateApiKeyScopes(db: D1Database, id: number, scopes: ApiKeyScopes): Promise<ApiKey | null> {
+  const result = await db.prepare(`
+    UPDATE api_keys
+    SET allowed_endpoints = ?, allowed_models = ?, allowed_providers = ?,
+        max_tokens_per_request = ?, allowed_cidrs = ?
+    WHERE id = ?
+    RETURNING *
+  `).bind(...scopeColumns(scopes), id).first();
+
   return result as ApiKey | null;
 }
 
+function scopeColumns(scopes: ApiKeyScopes) {
+  const list = (values?: string[]) => (values ? JSON.stringify(values) : null);
+
+  return [
+    list(scopes.endpoints),
+    list(scopes.models),
+    list(scopes.providers),
+    scopes.maxTokens ?? null,
+    list(scopes.ipAllowList)
+  ];
+}
+
+/**
+ * Get all API keys belonging to a user
+ */
+export async function getApiKeysByUser(db: D1Database, userId: number): Promise<ApiKey[]> {
+  const result = await db.prepare(`
+    SELECT * FROM api_keys WHERE user_id = ? ORDER BY created_at DESC, id DESC
+  `).bind(userId).all();
+
+  return result.results as ApiKey[];
+}
+
+/**
+ * Get an API key by ID, scoped to its owner
+ */
+export async function getApiKeyById(db: D1Database, id: number, userId: number): Promise<ApiKey | null> {
+  const result = await db.prepare(`
+    SELECT * FROM api_keys WHERE id = ? AND user_id = ?
+  `).bind(id, userId).first();
+
+  return result as ApiKey | null;
+}
+
+/**
+ * Deactivate an API key
+ */
+export async function revokeApiKey(db: D1Database, id: number): Promise<void> {
+  await db.prepare(`
+    UPDATE api_keys SET is_active = 0 WHERE id = ?
+  `).bind(id).run();
+}
+
+/**
+ * Set when an API key stops working
+ */
+export async function setApiKeyExpiry(db: D1Database, id: number, expiresAt: string): Promise<void> {
+  await db.prepare(`
+    UPDATE api_keys SET expires_at = ?, expiry_warned_at = NULL WHERE id = ?
+  `).bind(expiresAt, id).run();
+}
+
+/**
+ * Deactivate every active key whose expiry has passed
+ */
+export async function deactivateExpiredApiKeys(db: D1Database): Promise<ApiKey[]> {
+  const result = await db.prepare(`
+    UPDATE api_keys SET is_active = 0
+    WHERE is_active = 1 AND expires_at IS NOT NULL AND expires_at <= CURRENT_TIMESTAMP
+    RETURNING *
+  `).all();
+
+  return result.results as ApiKey[];
+}
+
+/**
+ * Get active keys expiring before a timestamp whose owners have not been warned yet
+ */
+export async function getApiKeysExpiringBefore(
+  db: D1Database,
+  before: string
+): Promise<Array<ApiKey & { email: string }>> {
+  const result = await db.prepare(`
+    SELECT k.*, u.email FROM api_keys k
+    JOIN users u ON u.id = k.user_id
+    WHERE k.is_active = 1 AND k.expiry_warned_at IS NULL
+      AND k.expires_at > CURRENT_TIMESTAMP AND k.expires_at <= ?
+  `).bind(before).all();
+
+  return result.results as Array<ApiKey & { email: string }>;
+}
+
+/**
+ * Record that an API key's owner was warned about its expiry
+ */
+export async function markApiKeyExpiryWarned(db: D1Database, id: number): Promise<void> {
+  await db.prepare(`
+    UPDATE api_keys SET expiry_warned_at = CURRENT_TIMESTAMP WHERE id = ?
+  `).bind(id).run();
+}
+
+/**
+ * Get audit log entries, newest first, with optional filters
+ */
+export async function getAuditLogs(
+  db: D1Database,
+  filters: { action?: string; targetType?: string; targetId?: number; actorUserId?: number },
+  limit: number,
+  offset: number
+): Promise<{ logs: AuditLog[]; total: number }> {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filters.action) {
+    conditions.push('action = ?');
+    params.push(filters.action);
+  }
+
+  if (filters.targetType) {
+    conditions.push('target_type = ?');
+    params.push(filters.targetType);
+  }
+
+  if (filters.targetId !== undefined) {
+    conditions.push('target_id = ?');
+    params.push(filters.targetId);
+  }
+
+  if (filters.actorUserId !== undefined) {
+    conditions.push('actor_user_id = ?');
+    params.push(filters.actorUserId);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const count = await db.prepare(`SELECT COUNT(*) as total FROM audit_logs ${where}`)
+    .bind(...params)
+    .first() as { total: number } | null;
+
+  const result = await db.prepare(`
+    SELECT * FROM audit_logs ${where}
+    ORDER BY created_at DESC, id DESC
+    LIMIT ? OFFSET ?
+  `).bind(...params, limit, offset).all();
+
+  return { logs: result.results as AuditLog[], total: count?.total || 0 };
+}
+
+/**
+ * Append an entry to the audit trail (actorUserId is omitted for system jobs)
+ */
+export async function logAudit(
+  db: D1Database,
+  entry: {
+    actorUserId?: number;
+    action: string;
+    targetType: string;
+    targetId?: number;
+    details?: Record<string, any>;
+  }
+): Promise<AuditLog> {
+  const result = await db.prepare(`
+    INSERT INTO audit_logs (actor_user_id, action, target_type, target_id, details)
+    VALUES (?, ?, ?, ?, ?)
+    RETURNING *
+  `).bind(
+    entry.actorUserId || null,
+    entry.action,
+    entry.targetType,
+    entry.targetId ?? null,
+    entry.details ? JSON.stringify(entry.details) : null
+  ).first();
+
+  return result as AuditLog;
+}
+
 /**
  * Update API key last used timestamp
  */
@@ -86,14 +504,26 @@ export async function logRequest(
     errorMessage?: string;
     ipAddress?: string;
     userAgent?: string;
+    attempts?: ProviderAttempt[];
+    promptTokens?: number;
+    completionTokens?: number;
+    totalTokens?: number;
+    cost?: number;
+    modelAlias?: string;
+    modelVariant?: string;
+    cacheStatus?: CacheStatus;
+    savedCost?: number;
+    batchId?: number;
   }
 ): Promise<void> {
   await db.prepare(`
     INSERT INTO request_logs (
       user_id, api_key_id, endpoint, method, model_provider, model_name,
       status_code, request_size, response_size, latency_ms, error_message,
-      ip_address, user_agent
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ip_address, user_agent, attempts, prompt_tokens, completion_tokens,
+      total_tokens, cost, model_alias, model_variant, cache_status, saved_cost,
+      batch_id
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).bind(
     data.userId || null,
     data.apiKeyId || null,
@@ -107,7 +537,51 @@ export async function logRequest(
     data.latencyMs,
     data.errorMessage || null,
     data.ipAddress || null,
-    data.userAgent || null
+    data.userAgent || null,
+    data.attempts?.length ? JSON.stringify(data.attempts) : null,
+    data.promptTokens || 0,
+    data.completionTokens || 0,
+    data.totalTokens || 0,
+    data.cost || 0,
+    data.modelAlias || null,
+    data.modelVariant || null,
+    data.cacheStatus || null,
+    data.savedCost || 0,
+    data.batchId || null
+  ).run();
+}
+
+/**
+ * Add a request to the user's daily usage_stats rollup
+ */
+export async function updateUsageStats(
+  db: D1Database,
+  userId: number,
+  data: { success: boolean; tokens: number; cost: number }
+): Promise<void> {
+  const periodStart = new Date();
+  periodStart.setUTCHours(0, 0, 0, 0);
+  const periodEnd = new Date(periodStart.getTime() + 24 * 60 * 60 * 1000);
+
+  await db.prepare(`
+    INSERT INTO usage_stats (
+      user_id, total_requests, successful_requests, failed_requests,
+      total_tokens, total_cost, period_start, period_end
+    ) VALUES (?, 1, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(user_id, period_start) DO UPDATE SET
+      total_requests = total_requests + 1,
+      successful_requests = successful_requests + excluded.successful_requests,
+      failed_requests = failed_requests + excluded.failed_requests,
+      total_tokens = total_tokens + excluded.total_tokens,
+      total_cost = total_cost + excluded.total_cost
+  `).bind(
+    userId,
+    data.success ? 1 : 0,
+    data.success ? 0 : 1,
+    data.tokens,
+    data.cost,
+    periodStart.toISOString(),
+    periodEnd.toISOString()
   ).run();
 }
 
@@ -119,6 +593,300 @@ export async function getActiveModels(db: D1Database): Promise<AIModel[]> {
   return result.results as AIModel[];
 }
 
+/**
+ * Recent request volume, upstream failures (5xx) and successful-request
+ * latency per served model. Client errors (4xx) and cache hits say nothing
+ * about the model, so they are left out.
+ */
+export async function getModelPerformance(
+  db: D1Database,
+  since: string
+): Promise<Array<{ model_name: string; requests: number; failed: number; avg_latency: number | null }>> {
+  const result = await db.prepare(`
+    SELECT
+      model_name,
+      COUNT(*) as requests,
+      SUM(CASE WHEN status_code >= 500 THEN 1 ELSE 0 END) as failed,
+      AVG(CASE WHEN status_code < 400 THEN latency_ms END) as avg_latency
+    FROM request_logs
+    WHERE model_name IS NOT NULL AND created_at > ?
+      AND (status_code < 400 OR status_code >= 500)
+      AND (cache_status IS NULL OR cache_status = 'miss')
+    GROUP BY model_name
+  `).bind(since).all();
+
+  return result.results as Array<{ model_name: string; requests: number; failed: number; avg_latency: number | null }>;
+}
+
+/**
+ * Get active model by its public model ID
+ */
+export async function getModelByModelId(db: D1Database, modelId: string): Promise<AIModel | null> {
+  const result = await db.prepare(`
+    SELECT * FROM ai_models WHERE model_id = ? AND is_active = 1
+  `).bind(modelId).first();
+
+  return result as AIModel | null;
+}
+
+/**
+ * Get every catalog model, including inactive ones
+ */
+export async function getAllModels(db: D1Database): Promise<AIModel[]> {
+  const result = await db.prepare('SELECT * FROM ai_models ORDER BY provider, model_id').all();
+  return result.results as AIModel[];
+}
+
+/**
+ * Get catalog model by row ID (active or not)
+ */
+export async function getModelById(db: D1Database, id: number): Promise<AIModel | null> {
+  const result = await db.prepare('SELECT * FROM ai_models WHERE id = ?').bind(id).first();
+  return result as AIModel | null;
+}
+
+/**
+ * Find any catalog entry (active or not) using a public model ID
+ */
+export async function findModelByModelId(db: D1Database, modelId: string): Promise<AIModel | null> {
+  const result = await db.prepare('SELECT * FROM ai_models WHERE model_id = ?').bind(modelId).first();
+  return result as AIModel | null;
+}
+
+/**
+ * Add a model to the catalog
+ */
+export async function createModel(db: D1Database, fields: AIModelFields): Promise<AIModel> {
+  const columns = Object.keys(fields);
+  const result = await db.prepare(`
+    INSERT INTO ai_models (${columns.join(', ')}, updated_at)
+    VALUES (${columns.map(() => '?').join(', ')}, CURRENT_TIMESTAMP)
+    RETURNING *
+  `).bind(...Object.values(fields)).first();
+
+  return result as AIModel;
+}
+
+/**
+ * Update catalog columns of a model
+ */
+export async function updateModel(db: D1Database, id: number, fields: AIModelFields): Promise<AIModel | null> {
+  const columns = Object.keys(fields);
+  const result = await db.prepare(`
+    UPDATE ai_models
+    SET ${columns.map(column => `${column} = ?`).join(', ')}, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+    RETURNING *
+  `).bind(...Object.values(fields), id).first();
+
+  return result as AIModel | null;
+}
+
+/**
+ * Get an active model alias by name
+ */
+export async function getModelAlias(db: D1Database, alias: string): Promise<ModelAlias | null> {
+  const result = await db.prepare(`
+    SELECT * FROM model_aliases WHERE alias = ? AND is_active = 1
+  `).bind(alias).first();
+
+  return result as ModelAlias | null;
+}
+
+/**
+ * Get model aliases (optionally only active ones)
+ */
+export async function getModelAliases(db: D1Database, activeOnly: boolean = true): Promise<ModelAlias[]> {
+  const result = await db.prepare(`
+    SELECT * FROM model_aliases ${activeOnly ? 'WHERE is_active = 1' : ''} ORDER BY alias
+  `).all();
+
+  return result.results as ModelAlias[];
+}
+
+/**
+ * Get a model alias by row ID (active or not)
+ */
+export async function getModelAliasById(db: D1Database, id: number): Promise<ModelAlias | null> {
+  const result = await db.prepare('SELECT * FROM model_aliases WHERE id = ?').bind(id).first();
+  return result as ModelAlias | null;
+}
+
+/**
+ * Find any alias (active or not) by name
+ */
+export async function findModelAlias(db: D1Database, alias: string): Promise<ModelAlias | null> {
+  const result = await db.prepare('SELECT * FROM model_aliases WHERE alias = ?').bind(alias).first();
+  return result as ModelAlias | null;
+}
+
+/**
+ * Create or update a model alias
+ */
+export async function saveModelAlias(
+  db: D1Database,
+  id: number | null,
+  fields: Omit<ModelAlias, 'id' | 'created_at' | 'updated_at'>
+): Promise<ModelAlias> {
+  const values = [
+    fields.alias,
+    fields.model_id,
+    fields.description,
+    fields.system_prompt,
+    fields.temperature,
+    fields.max_tokens,
+    fields.variants,
+    fields.sticky_by,
+    fields.is_active
+  ];
+
+  const result = id === null
+    ? await db.prepare(`
+        INSERT INTO model_aliases (
+          alias, model_id, description, system_prompt, temperature, max_tokens, variants, sticky_by, is_active
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        RETURNING *
+      `).bind(...values).first()
+    : await db.prepare(`
+        UPDATE model_aliases
+        SET alias = ?, model_id = ?, description = ?, system_prompt = ?, temperature = ?,
+            max_tokens = ?, variants = ?, sticky_by = ?, is_active = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+        RETURNING *
+      `).bind(...values, id).first();
+
+  return result as ModelAlias;
+}
+
+/**
+ * Delete a model alias
+ */
+export async function deleteModelAlias(db: D1Database, id: number): Promise<void> {
+  await db.prepare('DELETE FROM model_aliases WHERE id = ?').bind(id).run();
+}
+
+/**
+ * Get an unexpired cached response for a user, counting the hit
+ */
+export async function getCachedResponse(db: D1Database, userId: number, cacheKey: string): Promise<CachedResponse | null> {
+  const result = await db.prepare(`
+    UPDATE response_cache SET hits = hits + 1
+    WHERE user_id = ? AND cache_key = ? AND expires_at > ?
+    RETURNING *
+  `).bind(userId, cacheKey, toSqlTimestamp(new Date())).first();
+
+  return result as CachedResponse | null;
+}
+
+/**
+ * Store (or replace) a cached response
+ */
+export async function storeCachedResponse(
+  db: D1Database,
+  userId: number,
+  cacheKey: string,
+  entry: { provider: string; model: string; response: string; cost: number; expiresAt: string }
+): Promise<void> {
+  await db.prepare(`
+    INSERT INTO response_cache (user_id, cache_key, provider, model, response, cost, expires_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (user_id, cache_key) DO UPDATE SET
+      provider = excluded.provider, model = excluded.model, response = excluded.response,
+      cost = excluded.cost, hits = 0, created_at = CURRENT_TIMESTAMP, expires_at = excluded.expires_at
+  `).bind(userId, cacheKey, entry.provider, entry.model, entry.response, entry.cost, entry.expiresAt).run();
+}
+
+/**
+ * Most recent unexpired semantic cache entries of an API key sharing a model,
+ * context and embedding model
+ */
+export async function getSemanticCacheCandidates(
+  db: D1Database,
+  apiKeyId: number,
+  model: string,
+  contextKey: string,
+  embeddingModel: string,
+  limit: number
+): Promise<SemanticCacheEntry[]> {
+  const result = await db.prepare(`
+    SELECT * FROM semantic_cache
+    WHERE api_key_id = ? AND model = ? AND context_key = ? AND embedding_model = ? AND expires_at > ?
+    ORDER BY created_at DESC
+    LIMIT ?
+  `).bind(apiKeyId, model, contextKey, embeddingModel, toSqlTimestamp(new Date()), limit).all();
+
+  return result.results as SemanticCacheEntry[];
+}
+
+/**
+ * Count a hit on a semantic cache entry
+ */
+export async function recordSemanticCacheHit(db: D1Database, id: number): Promise<void> {
+  await db.prepare('UPDATE semantic_cache SET hits = hits + 1 WHERE id = ?').bind(id).run();
+}
+
+/**
+ * Store a semantic cache entry
+ */
+export async function storeSemanticCacheEntry(
+  db: D1Database,
+  entry: Omit<SemanticCacheEntry, 'id' | 'hits' | 'created_at'>
+): Promise<void> {
+  await db.prepare(`
+    INSERT INTO semantic_cache (
+      user_id, api_key_id, model, context_key, prompt, embedding_model, embedding, provider, served_model, response,
+      cost, expires_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    entry.user_id,
+    entry.api_key_id,
+    entry.model,
+    entry.context_key,
+    entry.prompt,
+    entry.embedding_model,
+    entry.embedding,
+    entry.provider,
+    entry.served_model,
+    entry.response,
+    entry.cost,
+    entry.expires_at
+  ).run();
+}
+
+/**
+ * Replace an API key's semantic cache settings (null disables it)
+ */
+export async function updateApiKeySemanticCache(
+  db: D1Database,
+  id: number,
+  settings: SemanticCacheSettings | null
+): Promise<ApiKey | null> {
+  const result = await db.prepare(`
+    UPDATE api_keys SET semantic_cache = ? WHERE id = ? RETURNING *
+  `).bind(settings ? JSON.stringify(settings) : null, id).first();
+
+  return result as ApiKey | null;
+}
+
+/**
+ * Delete expired exact-match and semantic cache entries (all users', or one
+ * user's), returning how many were removed
+ */
+export async function deleteExpiredCacheEntries(db: D1Database, userId?: number): Promise<number> {
+  const now = toSqlTimestamp(new Date());
+  const filter = userId === undefined ? '' : ' AND user_id = ?';
+  const params = userId === undefined ? [now] : [now, userId];
+
+  const [exact, semantic] = await db.batch([
+    db.prepare(`DELETE FROM response_cache WHERE expires_at <= ?${filter}`).bind(...params),
+    db.prepare(`DELETE FROM semantic_cache WHERE expires_at <= ?${filter}`).bind(...params)
+  ]);
+
+  return exact.meta.changes + semantic.meta.changes;
+}
+
 /**
  * Get model by provider and name
  */
@@ -140,18 +908,18 @@ export async function getModelByProviderAndName(
 export async function checkRateLimit(
   db: D1Database,
   userId: number,
-  endpoint: string,
+  endpoints: string[],
   maxRequests: number = 100,
   windowMinutes: number = 60
 ): Promise<{ allowed: boolean; remaining: number; resetAt: Date }> {
   const now = new Date();
   const windowStart = new Date(now.getTime() - windowMinutes * 60 * 1000);
 
-  // Get current count in window
+  // Get current count in window, across every path sharing the quota
   const result = await db.prepare(`
     SELECT COUNT(*) as count FROM request_logs
-    WHERE user_id = ? AND endpoint = ? AND created_at > ?
-  `).bind(userId, endpoint, windowStart.toISOString()).first();
+    WHERE user_id = ? AND endpoint IN (${endpoints.map(() => '?').join(', ')}) AND created_at > ?
+  `).bind(userId, ...endpoints, toSqlTimestamp(windowStart)).first();
 
   const count = (result as any)?.count || 0;
   const remaining = Math.max(0, maxRequests - count);
@@ -195,3 +963,373 @@ export async function getRecentLogs(db: D1Database, userId: number, limit: numbe
 
   return result.results as RequestLog[];
 }
+
+/**
+ * Get budgets that apply to a request: the user's own budgets plus
+ * those attached to the API key in use
+ */
+export async function getApplicableBudgets(
+  db: D1Database,
+  userId: number,
+  apiKeyId?: number
+): Promise<Budget[]> {
+  const result = await db.prepare(`
+    SELECT * FROM budgets
+    WHERE user_id = ? AND (api_key_id IS NULL OR api_key_id = ?)
+  `).bind(userId, apiKeyId ?? null).all();
+
+  return result.results as Budget[];
+}
+
+/**
+ * Get all budgets belonging to a user (including per-key budgets)
+ */
+export async function getBudgetsByUser(db: D1Database, userId: number): Promise<Budget[]> {
+  const result = await db.prepare(`
+    SELECT * FROM budgets WHERE user_id = ? ORDER BY api_key_id IS NOT NULL, api_key_id, period
+  `).bind(userId).all();
+
+  return result.results as Budget[];
+}
+
+/**
+ * Get budget by ID
+ */
+export async function getBudgetById(db: D1Database, id: number): Promise<Budget | null> {
+  const result = await db.prepare('SELECT * FROM budgets WHERE id = ?').bind(id).first();
+  return result as Budget | null;
+}
+
+/**
+ * Create or update the budget for a user/key, period and limit type
+ */
+export async function upsertBudget(
+  db: D1Database,
+  data: {
+    userId: number;
+    apiKeyId: number | null;
+    period: Budget['period'];
+    limitType: Budget['limit_type'];
+    softLimit: number | null;
+    hardLimit: number | null;
+    webhookUrl: string | null;
+  }
+): Promise<Budget> {
+  const existing = await db.prepare(`
+    SELECT id FROM budgets
+    WHERE user_id = ? AND api_key_id IS ? AND period = ? AND limit_type = ?
+  `).bind(data.userId, data.apiKeyId, data.period, data.limitType).first() as { id: number } | null;
+
+  if (existing) {
+    const result = await db.prepare(`
+      UPDATE budgets
+      SET soft_limit = ?, hard_limit = ?, webhook_url = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+      RETURNING *
+    `).bind(data.softLimit, data.hardLimit, data.webhookUrl, existing.id).first();
+
+    return result as Budget;
+  }
+
+  const result = await db.prepare(`
+    INSERT INTO budgets (user_id, api_key_id, period, limit_type, soft_limit, hard_limit, webhook_url)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    RETURNING *
+  `).bind(
+    data.userId,
+    data.apiKeyId,
+    data.period,
+    data.limitType,
+    data.softLimit,
+    data.hardLimit,
+    data.webhookUrl
+  ).first();
+
+  return result as Budget;
+}
+
+/**
+ * Reset a budget so spend before now no longer counts for the current period
+ */
+export async function resetBudget(db: D1Database, id: number): Promise<void> {
+  await db.prepare(`
+    UPDATE budgets
+    SET reset_at = CURRENT_TIMESTAMP, soft_notified_at = NULL, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `).bind(id).run();
+}
+
+/**
+ * Delete a budget
+ */
+export async function deleteBudget(db: D1Database, id: number): Promise<void> {
+  await db.prepare('DELETE FROM budgets WHERE id = ?').bind(id).run();
+}
+
+/**
+ * Mark a budget's soft limit warning as sent
+ */
+export async function markBudgetNotified(db: D1Database, id: number): Promise<void> {
+  await db.prepare(`
+    UPDATE budgets SET soft_notified_at = CURRENT_TIMESTAMP WHERE id = ?
+  `).bind(id).run();
+}
+
+/**
+ * Sum cost or tokens spent against a budget since a point in time
+ */
+export async function getBudgetSpend(db: D1Database, budget: Budget, since: Date): Promise<number> {
+  const column = budget.limit_type === 'cost' ? 'cost' : 'total_tokens';
+  const keyFilter = budget.api_key_id !== null ? 'AND api_key_id = ?' : '';
+  const params: unknown[] = [budget.user_id, toSqlTimestamp(since)];
+  if (budget.api_key_id !== null) {
+    params.push(budget.api_key_id);
+  }
+
+  const result = await db.prepare(`
+    SELECT COALESCE(SUM(${column}), 0) as spent FROM request_logs
+    WHERE user_id = ? AND created_at >= ? ${keyFilter}
+  `).bind(...params).first() as { spent: number } | null;
+
+  return result?.spent || 0;
+}
+
+// Rows per multi-row INSERT, keeping under D1's limit of 100 bound parameters
+const BATCH_ITEM_INSERT_ROWS = 25;
+
+/**
+ * Create a batch in the validating state, before its lines are stored
+ */
+export async function createBatch(db: D1Database, userId: number, apiKeyId: number | null): Promise<Batch> {
+  const result = await db.prepare(`
+    INSERT INTO batches (user_id, api_key_id) VALUES (?, ?) RETURNING *
+  `).bind(userId, apiKeyId).first();
+
+  return result as Batch;
+}
+
+/**
+ * Store a batch's input lines as pending items
+ */
+export async function addBatchItems(
+  db: D1Database,
+  batchId: number,
+  lines: Array<{ customId: string; request: string }>
+): Promise<void> {
+  const statements = [];
+
+  for (let start = 0; start < lines.length; start += BATCH_ITEM_INSERT_ROWS) {
+    const rows = lines.slice(start, start + BATCH_ITEM_INSERT_ROWS);
+    statements.push(db.prepare(`
+      INSERT INTO batch_items (batch_id, line, custom_id, request)
+      VALUES ${rows.map(() => '(?, ?, ?, ?)').join(', ')}
+    `).bind(...rows.flatMap((row, i) => [batchId, start + i + 1, row.customId, row.request])));
+  }
+
+  for (let start = 0; start < statements.length; start += 50) {
+    await db.batch(statements.slice(start, start + 50));
+  }
+}
+
+/**
+ * Queue a batch once all of its lines are stored
+ */
+export async function queueBatch(db: D1Database, id: number, totalRequests: number): Promise<Batch> {
+  const result = await db.prepare(`
+    UPDATE batches SET status = 'queued', total_requests = ? WHERE id = ? RETURNING *
+  `).bind(totalRequests, id).first();
+
+  return result as Batch;
+}
+
+/**
+ * Delete a batch and its items
+ */
+export async function deleteBatch(db: D1Database, id: number): Promise<void> {
+  await db.batch([
+    db.prepare('DELETE FROM batch_items WHERE batch_id = ?').bind(id),
+    db.prepare('DELETE FROM batches WHERE id = ?').bind(id)
+  ]);
+}
+
+/**
+ * Get a batch by ID, scoped to its owner
+ */
+export async function getBatchById(db: D1Database, id: number, userId: number): Promise<Batch | null> {
+  const result = await db.prepare(`
+    SELECT * FROM batches WHERE id = ? AND user_id = ?
+  `).bind(id, userId).first();
+
+  return result as Batch | null;
+}
+
+/**
+ * Get a user's most recent batches
+ */
+export async function getBatchesByUser(db: D1Database, userId: number, limit: number = 20): Promise<Batch[]> {
+  const result = await db.prepare(`
+    SELECT * FROM batches WHERE user_id = ? ORDER BY created_at DESC, id DESC LIMIT ?
+  `).bind(userId, limit).all();
+
+  return result.results as Batch[];
+}
+
+/**
+ * Batches with lines left to process, oldest first
+ */
+export async function getActiveBatches(db: D1Database): Promise<Batch[]> {
+  const result = await db.prepare(`
+    SELECT * FROM batches WHERE status IN ('queued', 'in_progress') ORDER BY created_at, id
+  `).all();
+
+  return result.results as Batch[];
+}
+
+/**
+ * Mark a queued batch as started
+ */
+export async function markBatchStarted(db: D1Database, id: number): Promise<void> {
+  await db.prepare(`
+    UPDATE batches SET status = 'in_progress', started_at = CURRENT_TIMESTAMP
+    WHERE id = ? AND status = 'queued'
+  `).bind(id).run();
+}
+
+/**
+ * Claim up to `limit` pending lines of a batch for processing, in line order
+ */
+export async function claimBatchItems(db: D1Database, batchId: number, limit: number): Promise<BatchItem[]> {
+  const result = await db.prepare(`
+    UPDATE batch_items SET status = 'running', started_at = CURRENT_TIMESTAMP
+    WHERE id IN (
+      SELECT id FROM batch_items WHERE batch_id = ? AND status = 'pending' ORDER BY line LIMIT ?
+    )
+    RETURNING *
+  `).bind(batchId, limit).all();
+
+  return (result.results as BatchItem[]).sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Return lines claimed before a point in time (by a run that died) to pending,
+ * or drop them if their batch has been cancelled since. Returns how many
+ * lines were returned to pending.
+ */
+export async function releaseStaleBatchItems(db: D1Database, claimedBefore: string): Promise<number> {
+  const [, released] = await db.batch([
+    db.prepare(`
+      UPDATE batch_items SET status = 'cancelled'
+      WHERE status = 'running' AND started_at <= ?
+        AND batch_id IN (SELECT id FROM batches WHERE status = 'cancelled')
+    `).bind(claimedBefore),
+    db.prepare(`
+      UPDATE batch_items SET status = 'pending', started_at = NULL
+      WHERE status = 'running' AND started_at <= ?
+        AND batch_id IN (SELECT id FROM batches WHERE status IN ('queued', 'in_progress'))
+    `).bind(claimedBefore)
+  ]);
+
+  return released.meta.changes;
+}
+
+/**
+ * Record a processed line and add it to its batch's counts, tokens and cost
+ */
+export async function completeBatchItem(
+  db: D1Database,
+  item: BatchItem,
+  data: {
+    status: Extract<BatchItemStatus, 'succeeded' | 'failed'>;
+    result: string;
+    errorMessage: string | null;
+    provider: string | null;
+    model: string | null;
+    promptTokens: number;
+    completionTokens: number;
+    cost: number;
+  }
+): Promise<void> {
+  const succeeded = data.status === 'succeeded';
+
+  await db.batch([
+    db.prepare(`
+      UPDATE batch_items
+      SET status = ?, result = ?, error_message = ?, provider = ?, model = ?,
+        prompt_tokens = ?, completion_tokens = ?, cost = ?, completed_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).bind(
+      data.status,
+      data.result,
+      data.errorMessage,
+      data.provider,
+      data.model,
+      data.promptTokens,
+      data.completionTokens,
+      data.cost,
+      item.id
+    ),
+    db.prepare(`
+      UPDATE batches
+      SET completed_requests = completed_requests + ?, failed_requests = failed_requests + ?,
+        prompt_tokens = prompt_tokens + ?, completion_tokens = completion_tokens + ?, cost = cost + ?
+      WHERE id = ?
+    `).bind(
+      succeeded ? 1 : 0,
+      succeeded ? 0 : 1,
+      data.promptTokens,
+      data.completionTokens,
+      data.cost,
+      item.batch_id
+    )
+  ]);
+}
+
+/**
+ * Mark a started batch completed once none of its lines are pending or running
+ */
+export async function finishBatchIfDone(db: D1Database, id: number): Promise<boolean> {
+  const result = await db.prepare(`
+    UPDATE batches SET status = 'completed', completed_at = CURRENT_TIMESTAMP
+    WHERE id = ? AND status = 'in_progress' AND NOT EXISTS (
+      SELECT 1 FROM batch_items WHERE batch_id = ? AND status IN ('pending', 'running')
+    )
+  `).bind(id, id).run();
+
+  return result.meta.changes > 0;
+}
+
+/**
+ * Cancel a batch: pending lines are dropped, lines already running still finish
+ */
+export async function cancelBatch(db: D1Database, id: number): Promise<Batch> {
+  const [, result] = await db.batch([
+    db.prepare(`
+      UPDATE batch_items SET status = 'cancelled' WHERE batch_id = ? AND status = 'pending'
+    `).bind(id),
+    db.prepare(`
+      UPDATE batches SET status = 'cancelled', cancelled_at = CURRENT_TIMESTAMP WHERE id = ? RETURNING *
+    `).bind(id)
+  ]);
+
+  return result.results[0] as Batch;
+}
+
+/**
+ * A page of a batch's output records after a line number, in line order
+ */
+export async function getBatchResults(
+  db: D1Database,
+  batchId: number,
+  afterLine: number,
+  limit: number,
+  status?: Extract<BatchItemStatus, 'succeeded' | 'failed'>
+): Promise<Array<{ line: number; result: string }>> {
+  const result = await db.prepare(`
+    SELECT line, result FROM batch_items
+    WHERE batch_id = ? AND line > ? AND result IS NOT NULL ${status ? 'AND status = ?' : ''}
+    ORDER BY line
+    LIMIT ?
+  `).bind(...[batchId, afterLine, ...(status ? [status] : []), limit]).all();
+
+  return result.results as Array<{ line: number; result: string }>;
+}
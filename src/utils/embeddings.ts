@@ -0,0 +1,29 @@
+// Embedding vector helpers
+
+/**
+ * Scale a vector to unit length (zero vectors are returned unchanged)
+ */
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+/**
+ * Encode a vector as requested: a float array, or base64 of little-endian
+ * float32 values like the OpenAI API
+ */
+export function encodeEmbedding(vector: number[], format: 'float' | 'base64' = 'float'): number[] | string {
+  if (format === 'float') {
+    return vector;
+  }
+
+  const bytes = new Uint8Array(vector.length * 4);
+  const view = new DataView(bytes.buffer);
+  vector.forEach((value, i) => view.setFloat32(i * 4, value, true));
+
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
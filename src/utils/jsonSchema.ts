@@ -0,0 +1,233 @@
+// Minimal JSON Schema validator for structured model output. Covers the
+// keywords used by OpenAI-style response schemas: type, enum, const, string,
+// number, array and object constraints, allOf/anyOf/oneOf/not and local $refs.
+
+export type JsonSchema = Record<string, any> | boolean;
+
+// Stop collecting after this many errors; the first few are enough for a repair prompt
+const MAX_ERRORS = 10;
+
+/**
+ * Whether a value matches a JSON Schema primitive type
+ */
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return !!value && typeof value === 'object' && !Array.isArray(value);
+    default:
+      return false;
+  }
+}
+
+/**
+ * JSON type name of a value, for error messages
+ */
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+/**
+ * Structural equality of two JSON values
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length &&
+    keysA.every(key => isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+/**
+ * Resolve a local reference such as `#/$defs/address` against the root schema
+ */
+function resolveRef(ref: string, root: JsonSchema): JsonSchema | undefined {
+  if (!ref.startsWith('#')) {
+    return undefined;
+  }
+
+  let target: any = root;
+  for (const segment of ref.slice(1).split('/').filter(Boolean)) {
+    target = target?.[segment.replace(/~1/g, '/').replace(/~0/g, '~')];
+  }
+
+  return target;
+}
+
+/**
+ * Check one value against one (sub)schema, appending errors
+ */
+function validateNode(value: unknown, schema: JsonSchema, path: string, root: JsonSchema, errors: string[]): void {
+  if (errors.length >= MAX_ERRORS || schema === true) {
+    return;
+  }
+
+  if (schema === false || !schema || typeof schema !== 'object') {
+    errors.push(`${path}: no value is allowed here`);
+    return;
+  }
+
+  if (typeof schema.$ref === 'string') {
+    const target = resolveRef(schema.$ref, root);
+    if (target === undefined) {
+      errors.push(`${path}: cannot resolve $ref ${schema.$ref}`);
+    } else {
+      validateNode(value, target, path, root, errors);
+    }
+  }
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${path}: expected ${types.join(' or ')}, got ${describeType(value)}`);
+      return;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => isEqual(option, value))) {
+    errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`);
+  }
+
+  if ('const' in schema && !isEqual(schema.const, value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    const length = [...value].length;
+    if (typeof schema.minLength === 'number' && length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern, 'u').test(value)) {
+          errors.push(`${path}: must match pattern ${schema.pattern}`);
+        }
+      } catch {
+        // An invalid pattern in the caller's schema can't be enforced
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      errors.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      errors.push(`${path}: must be < ${schema.exclusiveMaximum}`);
+    }
+    if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0 &&
+        Math.abs(value / schema.multipleOf - Math.round(value / schema.multipleOf)) > 1e-9) {
+      errors.push(`${path}: must be a multiple of ${schema.multipleOf}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.uniqueItems === true && value.some((item, i) => value.findIndex(other => isEqual(other, item)) !== i)) {
+      errors.push(`${path}: items must be unique`);
+    }
+
+    const prefixItems: JsonSchema[] = Array.isArray(schema.prefixItems) ? schema.prefixItems : [];
+    value.forEach((item, i) => {
+      const itemSchema = i < prefixItems.length ? prefixItems[i] : schema.items;
+      if (itemSchema !== undefined) {
+        validateNode(item, itemSchema, `${path}[${i}]`, root, errors);
+      }
+    });
+  }
+
+  if (matchesType(value, 'object')) {
+    const object = value as Record<string, unknown>;
+    const properties: Record<string, JsonSchema> = schema.properties && typeof schema.properties === 'object'
+      ? schema.properties
+      : {};
+
+    for (const key of Array.isArray(schema.required) ? schema.required : []) {
+      if (!(key in object)) {
+        errors.push(`${path}: missing required property '${key}'`);
+      }
+    }
+
+    const count = Object.keys(object).length;
+    if (typeof schema.minProperties === 'number' && count < schema.minProperties) {
+      errors.push(`${path}: must have at least ${schema.minProperties} properties`);
+    }
+    if (typeof schema.maxProperties === 'number' && count > schema.maxProperties) {
+      errors.push(`${path}: must have at most ${schema.maxProperties} properties`);
+    }
+
+    for (const [key, item] of Object.entries(object)) {
+      if (key in properties) {
+        validateNode(item, properties[key], `${path}.${key}`, root, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property '${key}'`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        validateNode(item, schema.additionalProperties, `${path}.${key}`, root, errors);
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const subschema of schema.allOf) {
+      validateNode(value, subschema, path, root, errors);
+    }
+  }
+
+  if (Array.isArray(schema.anyOf) &&
+      !schema.anyOf.some((subschema: JsonSchema) => validateJsonSchema(value, subschema, root).length === 0)) {
+    errors.push(`${path}: must match at least one of the allowed schemas (anyOf)`);
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter((subschema: JsonSchema) => validateJsonSchema(value, subschema, root).length === 0).length;
+    if (matches !== 1) {
+      errors.push(`${path}: must match exactly one of the allowed schemas (oneOf matched ${matches})`);
+    }
+  }
+
+  if (schema.not !== undefined && validateJsonSchema(value, schema.not, root).length === 0) {
+    errors.push(`${path}: must not match the excluded schema (not)`);
+  }
+}
+
+/**
+ * Validate a value against a JSON Schema, returning up to 10 error messages
+ * (empty when valid). Paths are reported as `$.field[0].name`.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, root: JsonSchema = schema): string[] {
+  const errors: string[] = [];
+  validateNode(value, schema, '$', root, errors);
+  return errors;
+}
@@ -0,0 +1,79 @@
+// Scheduled API key expiry: deactivation and advance warnings
+
+import type { Bindings } from '../types';
+import {
+  deactivateExpiredApiKeys,
+  getApiKeysExpiringBefore,
+  markApiKeyExpiryWarned,
+  logAudit,
+  toSqlTimestamp,
+  fromSqlTimestamp
+} from './database';
+import { sendWebhook } from './webhooks';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Longest lifetime allowed for a new named key, if the policy is set
+ */
+export function getMaxKeyLifetimeDays(env: Bindings): number | null {
+  const days = parseInt(env.API_KEY_MAX_LIFETIME_DAYS || '');
+  return days > 0 ? days : null;
+}
+
+/**
+ * Deactivate expired keys and warn owners of keys expiring within
+ * KEY_EXPIRY_WARNING_DAYS (default 7). Run from the Cron Trigger.
+ */
+export async function runKeyExpiryJob(env: Bindings): Promise<{ expired: number; warned: number }> {
+  const expired = await deactivateExpiredApiKeys(env.DB);
+
+  for (const key of expired) {
+    await logAudit(env.DB, {
+      action: 'api_key.expired',
+      targetType: 'api_key',
+      targetId: key.id,
+      details: { userId: key.user_id, keyName: key.key_name, expiresAt: key.expires_at }
+    });
+  }
+
+  // Without a webhook there is nobody to warn; keys stay unmarked until one is configured
+  const webhookUrl = env.KEY_EXPIRY_WEBHOOK_URL;
+  if (!webhookUrl) {
+    return { expired: expired.length, warned: 0 };
+  }
+
+  const warningDays = parseInt(env.KEY_EXPIRY_WARNING_DAYS || '7');
+  const expiring = await getApiKeysExpiringBefore(
+    env.DB,
+    toSqlTimestamp(new Date(Date.now() + warningDays * DAY_MS))
+  );
+
+  let warned = 0;
+  for (const key of expiring) {
+    const expiresAt = fromSqlTimestamp(key.expires_at!);
+    const delivered = await sendWebhook(webhookUrl, 'api_key.expiring', {
+      keyId: key.id,
+      keyName: key.key_name,
+      userId: key.user_id,
+      email: key.email,
+      expiresAt: expiresAt.toISOString(),
+      daysRemaining: Math.ceil((expiresAt.getTime() - Date.now()) / DAY_MS)
+    }, env.WEBHOOK_SECRET);
+
+    if (!delivered) {
+      continue;
+    }
+
+    warned++;
+    await markApiKeyExpiryWarned(env.DB, key.id);
+    await logAudit(env.DB, {
+      action: 'api_key.expiry_warning',
+      targetType: 'api_key',
+      targetId: key.id,
+      details: { userId: key.user_id, expiresAt: key.expires_at }
+    });
+  }
+
+  return { expired: expired.length, warned };
+}
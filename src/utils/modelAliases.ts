@@ -0,0 +1,323 @@
+// Model aliases: virtual model names resolved to catalog models
+
+import type { D1Database } from '@cloudflare/workers-types';
+import type { AIModel, AIRequest, ApiKeyScopes, ModelAlias, ModelVariant, RouteOptions, RoutingTrace } from '../types';
+import { getModelAlias, getModelByModelId } from './database';
+import { isModelAllowed } from './scopes';
+import { getProvider, ProviderError } from '../providers';
+
+const ALIAS_NAME_PATTERN = /^[a-z0-9][a-z0-9._/-]{0,99}$/i;
+const STICKY_BY = ['user', 'api_key'];
+
+/**
+ * Weighted variants of an A/B alias (empty for a plain alias)
+ */
+export function getAliasVariants(alias: Pick<ModelAlias, 'alias' | 'variants'>): ModelVariant[] {
+  if (!alias.variants) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(alias.variants);
+  } catch {
+    console.error(`Invalid variants for alias ${alias.alias}`);
+    return [];
+  }
+}
+
+/**
+ * FNV-1a hash of a string, scaled to [0, 1)
+ */
+function hashToUnit(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Pick a variant by weight. The same user (or API key, per the alias's
+ * sticky_by) always lands on the same variant while the weights are unchanged.
+ */
+export function pickVariant(alias: ModelAlias, variants: ModelVariant[], options: RouteOptions): ModelVariant {
+  const stickyId = alias.sticky_by === 'api_key' && options.apiKeyId
+    ? `key:${options.apiKeyId}`
+    : options.userId ? `user:${options.userId}` : null;
+
+  const total = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let point = (stickyId ? hashToUnit(`${alias.alias}:${stickyId}`) : Math.random()) * total;
+
+  for (const variant of variants) {
+    point -= variant.weight;
+    if (point < 0) {
+      return variant;
+    }
+  }
+
+  return variants[variants.length - 1];
+}
+
+/**
+ * Variants a request may be assigned to: those whose model is active and
+ * allowed by the key's scopes. A key allowed the alias by name may use any of
+ * its models, subject to its provider scope.
+ */
+export async function getEligibleVariants(
+  db: D1Database,
+  alias: ModelAlias,
+  variants: ModelVariant[],
+  scopes?: ApiKeyScopes
+): Promise<ModelVariant[]> {
+  const variantScopes = scopes?.models?.includes(alias.alias) ? { ...scopes, models: undefined } : scopes;
+  const eligible: ModelVariant[] = [];
+
+  for (const variant of variants) {
+    const model = await getModelByModelId(db, variant.model);
+    if (model && isModelAllowed(variantScopes, model)) {
+      eligible.push(variant);
+    }
+  }
+
+  return eligible;
+}
+
+/**
+ * Catalog models a requested name can be served by: the model itself,
+ * the target of an alias, or every variant of an A/B alias
+ */
+export async function resolveModelTargets(
+  db: D1Database,
+  name: string
+): Promise<{ alias: ModelAlias | null; models: AIModel[] }> {
+  const model = await getModelByModelId(db, name);
+  if (model) {
+    return { alias: null, models: [model] };
+  }
+
+  const alias = await getModelAlias(db, name);
+  if (!alias) {
+    return { alias: null, models: [] };
+  }
+
+  const variants = getAliasVariants(alias);
+  const modelIds = variants.length > 0 ? variants.map(variant => variant.model) : [alias.model_id];
+
+  const models: AIModel[] = [];
+  for (const modelId of modelIds) {
+    const target = await getModelByModelId(db, modelId);
+    if (target) {
+      models.push(target);
+    }
+  }
+
+  return { alias, models };
+}
+
+/**
+ * Point a request at the alias target (or the chosen variant), filling in
+ * the alias's default parameters where the caller didn't set them
+ */
+export function applyAlias(alias: ModelAlias, request: AIRequest, model: string = alias.model_id): AIRequest {
+  const hasSystemMessage = request.messages.some(message => message.role === 'system');
+
+  return {
+    ...request,
+    model,
+    messages: alias.system_prompt && !hasSystemMessage
+      ? [{ role: 'system', content: alias.system_prompt }, ...request.messages]
+      : request.messages,
+    temperature: request.temperature ?? alias.temperature ?? undefined,
+    max_tokens: request.max_tokens ?? alias.max_tokens ?? undefined
+  };
+}
+
+/**
+ * Check an alias's default temperature and max_tokens against the limits of
+ * a model it routes to, returning the problem if they exceed them
+ */
+export function checkAliasDefaults(
+  defaults: Pick<ModelAlias, 'temperature' | 'max_tokens'>,
+  model: AIModel
+): string | null {
+  const maxTemperature = getProvider(model.provider)?.maxTemperature ?? 2;
+  if (defaults.temperature !== null && defaults.temperature > maxTemperature) {
+    return `defaults.temperature must be at most ${maxTemperature} for ${model.model_id}`;
+  }
+
+  const limit = model.max_output_tokens ?? model.max_tokens;
+  if (defaults.max_tokens !== null && limit && defaults.max_tokens > limit) {
+    return `defaults.maxTokens is too large: ${model.model_id} supports at most ${limit} completion tokens`;
+  }
+
+  return null;
+}
+
+/**
+ * Resolve an alias in the request's model field, recording it (and the
+ * assigned A/B variant) on the trace. Requests naming a catalog model are
+ * returned unchanged.
+ */
+export async function resolveAlias(
+  db: D1Database,
+  request: AIRequest,
+  trace: RoutingTrace,
+  options: RouteOptions = {}
+): Promise<AIRequest> {
+  if (await getModelByModelId(db, request.model)) {
+    return request;
+  }
+
+  const alias = await getModelAlias(db, request.model);
+  if (!alias) {
+    return request;
+  }
+
+  trace.alias = alias.alias;
+
+  let model = alias.model_id;
+  const variants = getAliasVariants(alias);
+  if (variants.length > 0) {
+    // The split is over the variants that can serve this key, so a deactivated
+    // or out-of-scope variant's share goes to the others
+    const eligible = await getEligibleVariants(db, alias, variants, options.scopes);
+    if (eligible.length === 0) {
+      throw new ProviderError(`No variant of ${alias.alias} is available for this API key`, 'gateway', 403, 'model_not_allowed');
+    }
+
+    model = pickVariant(alias, eligible, options).model;
+    trace.variant = model;
+  }
+
+  // The target's limits may have changed since the alias was saved, so the
+  // defaults the request picks up are checked again
+  const target = await getModelByModelId(db, model);
+  const problem = target && checkAliasDefaults({
+    temperature: request.temperature === undefined ? alias.temperature : null,
+    max_tokens: request.max_tokens === undefined ? alias.max_tokens : null
+  }, target);
+  if (problem) {
+    throw new ProviderError(`Alias ${alias.alias}: ${problem}`, 'gateway', 400, 'invalid_alias_defaults');
+  }
+
+  return applyAlias(alias, request, model);
+}
+
+/**
+ * Serialize an alias for API responses
+ */
+export function serializeAlias(alias: ModelAlias) {
+  const variants = getAliasVariants(alias);
+
+  return {
+    id: alias.alias,
+    model: alias.model_id,
+    variants: variants.length > 0 ? variants : null,
+    stickyBy: variants.length > 0 ? alias.sticky_by : null,
+    description: alias.description,
+    defaults: {
+      systemPrompt: alias.system_prompt,
+      temperature: alias.temperature,
+      maxTokens: alias.max_tokens
+    }
+  };
+}
+
+/**
+ * Validate an alias definition from a request body. On update, omitted
+ * fields keep the existing alias's values.
+ */
+export function parseAliasInput(
+  body: any,
+  existing: ModelAlias | null
+): { fields: Omit<ModelAlias, 'id' | 'created_at' | 'updated_at'> } | { error: string } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Invalid request body' };
+  }
+
+  const alias = body.alias ?? existing?.alias;
+  if (typeof alias !== 'string' || !ALIAS_NAME_PATTERN.test(alias)) {
+    return { error: 'alias must be 1-100 letters, digits, ".", "_", "-" or "/"' };
+  }
+
+  let variants: ModelVariant[] = body.variants !== undefined
+    ? body.variants ?? []
+    : existing ? getAliasVariants(existing) : [];
+
+  if (body.variants !== undefined && body.variants !== null) {
+    if (!Array.isArray(variants) || variants.length < 2) {
+      return { error: 'variants must be an array of at least two {model, weight} entries' };
+    }
+
+    for (const variant of variants) {
+      if (!variant || typeof variant.model !== 'string' || !variant.model) {
+        return { error: 'Each variant needs a catalog model ID' };
+      }
+      if (typeof variant.weight !== 'number' || !Number.isFinite(variant.weight) || variant.weight <= 0) {
+        return { error: 'Each variant weight must be a positive number' };
+      }
+    }
+
+    if (new Set(variants.map(variant => variant.model)).size !== variants.length) {
+      return { error: 'variants must name distinct models' };
+    }
+
+    variants = variants.map(variant => ({ model: variant.model, weight: variant.weight }));
+  }
+
+  if (variants.length > 0 && body.model !== undefined && body.model !== variants[0].model) {
+    return { error: 'Set variants to null to point a split alias at a single model' };
+  }
+
+  // A split alias keeps its first variant as the plain target
+  const model = variants.length > 0 ? variants[0].model : body.model ?? existing?.model_id;
+  if (typeof model !== 'string' || !model) {
+    return { error: 'model must be a catalog model ID' };
+  }
+
+  const stickyBy = body.stickyBy ?? existing?.sticky_by ?? 'user';
+  if (!STICKY_BY.includes(stickyBy)) {
+    return { error: `stickyBy must be one of: ${STICKY_BY.join(', ')}` };
+  }
+
+  const defaults = body.defaults ?? {};
+  const systemPrompt = defaults.systemPrompt !== undefined ? defaults.systemPrompt : existing?.system_prompt ?? null;
+  const temperature = defaults.temperature !== undefined ? defaults.temperature : existing?.temperature ?? null;
+  const maxTokens = defaults.maxTokens !== undefined ? defaults.maxTokens : existing?.max_tokens ?? null;
+
+  if (systemPrompt !== null && typeof systemPrompt !== 'string') {
+    return { error: 'defaults.systemPrompt must be a string' };
+  }
+
+  if (temperature !== null && (typeof temperature !== 'number' || temperature < 0)) {
+    return { error: 'defaults.temperature must be a non-negative number' };
+  }
+
+  if (maxTokens !== null && (!Number.isInteger(maxTokens) || maxTokens < 1)) {
+    return { error: 'defaults.maxTokens must be a positive integer' };
+  }
+
+  const description = body.description !== undefined ? body.description : existing?.description ?? null;
+  if (description !== null && typeof description !== 'string') {
+    return { error: 'description must be a string' };
+  }
+
+  if (body.isActive !== undefined && typeof body.isActive !== 'boolean') {
+    return { error: 'isActive must be a boolean' };
+  }
+
+  return {
+    fields: {
+      alias,
+      model_id: model,
+      variants: variants.length > 0 ? JSON.stringify(variants) : null,
+      sticky_by: stickyBy,
+      description,
+      system_prompt: systemPrompt || null,
+      temperature,
+      max_tokens: maxTokens,
+      is_active: body.isActive !== undefined ? (body.isActive ? 1 : 0) : existing?.is_active ?? 1
+    }
+  };
+}
@@ -0,0 +1,200 @@
+// Model catalog: lifecycle, serialization and admin input validation
+
+import type { AIModel, AIModelFields } from '../types';
+import { fromSqlTimestamp, toSqlTimestamp } from './database';
+import { getProvider } from '../providers';
+
+/**
+ * Whether a model has passed its deprecation date
+ */
+export function isModelRetired(model: AIModel, now: Date = new Date()): boolean {
+  return !!model.deprecated_at && fromSqlTimestamp(model.deprecated_at) <= now;
+}
+
+/**
+ * Human-readable deprecation notice for a model, if it has a deprecation date
+ */
+export function getDeprecationWarning(model: AIModel, now: Date = new Date()): string | null {
+  if (!model.deprecated_at) {
+    return null;
+  }
+
+  const date = fromSqlTimestamp(model.deprecated_at).toISOString().slice(0, 10);
+  const replacement = model.replacement_model_id ? ` Use ${model.replacement_model_id} instead.` : '';
+
+  return isModelRetired(model, now)
+    ? `${model.model_id} was retired on ${date}.${replacement}`
+    : `${model.model_id} is deprecated and will be retired on ${date}.${replacement}`;
+}
+
+/**
+ * Serialize a catalog model for API responses
+ */
+export function serializeModel(model: AIModel) {
+  return {
+    provider: model.provider,
+    name: model.model_name,
+    id: model.model_id,
+    type: model.model_type || 'chat',
+    description: model.description,
+    maxTokens: model.max_tokens,
+    contextWindow: model.max_tokens,
+    maxOutputTokens: model.max_output_tokens,
+    embeddingDimensions: model.embedding_dimensions,
+    costPer1kTokens: model.cost_per_1k_tokens,
+    inputCostPer1kTokens: model.input_cost_per_1k ?? model.cost_per_1k_tokens,
+    outputCostPer1kTokens: model.output_cost_per_1k ?? model.cost_per_1k_tokens,
+    capabilities: {
+      vision: !!model.supports_vision,
+      tools: !!model.supports_tools,
+      jsonMode: !!model.supports_json_mode,
+      streaming: !!model.supports_streaming
+    },
+    deprecatedAt: model.deprecated_at,
+    replacementModel: model.replacement_model_id,
+    deprecationWarning: getDeprecationWarning(model),
+    routingTier: model.routing_tier
+  };
+}
+
+/**
+ * Serialize a catalog model with admin-only details
+ */
+export function serializeModelForAdmin(model: AIModel) {
+  return {
+    catalogId: model.id,
+    ...serializeModel(model),
+    upstreamModelId: model.upstream_model_id || model.model_id,
+    fallbackModels: model.fallback_models ? JSON.parse(model.fallback_models) : [],
+    isActive: !!model.is_active,
+    createdAt: model.created_at,
+    updatedAt: model.updated_at
+  };
+}
+
+const STRING_FIELDS = {
+  provider: 'provider',
+  name: 'model_name',
+  id: 'model_id',
+  upstreamModelId: 'upstream_model_id',
+  description: 'description',
+  replacementModel: 'replacement_model_id',
+  routingTier: 'routing_tier'
+} as const;
+
+const MODEL_TYPES = ['chat', 'embedding'];
+
+const NUMBER_FIELDS = {
+  contextWindow: 'max_tokens',
+  maxOutputTokens: 'max_output_tokens',
+  embeddingDimensions: 'embedding_dimensions',
+  costPer1kTokens: 'cost_per_1k_tokens',
+  inputCostPer1kTokens: 'input_cost_per_1k',
+  outputCostPer1kTokens: 'output_cost_per_1k'
+} as const;
+
+export const CAPABILITY_FIELDS = {
+  vision: 'supports_vision',
+  tools: 'supports_tools',
+  jsonMode: 'supports_json_mode',
+  streaming: 'supports_streaming'
+} as const;
+
+/**
+ * Validate a catalog model definition from a request body. On create,
+ * provider, name and id are required; on update every field is optional.
+ * Nullable fields can be cleared with null.
+ */
+export function parseModelInput(body: any, partial: boolean): { fields: AIModelFields } | { error: string } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Invalid request body' };
+  }
+
+  const fields: Record<string, string | number | null> = {};
+
+  for (const [key, column] of Object.entries(STRING_FIELDS)) {
+    const value = body[key];
+    if (value === undefined) continue;
+
+    const required = key === 'provider' || key === 'name' || key === 'id';
+    if (value === null && !required) {
+      fields[column] = null;
+    } else if (typeof value === 'string' && value.trim()) {
+      fields[column] = value.trim();
+    } else {
+      return { error: `${key} must be a non-empty string` };
+    }
+  }
+
+  if (!partial) {
+    const missing = ['provider', 'name', 'id'].find(key => fields[STRING_FIELDS[key as keyof typeof STRING_FIELDS]] === undefined);
+    if (missing) {
+      return { error: `Missing required field: ${missing}` };
+    }
+  }
+
+  if (typeof fields.provider === 'string' && !getProvider(fields.provider)) {
+    return { error: `Unknown provider: ${fields.provider}` };
+  }
+
+  if (body.type !== undefined) {
+    if (!MODEL_TYPES.includes(body.type)) {
+      return { error: `type must be one of: ${MODEL_TYPES.join(', ')}` };
+    }
+    fields.model_type = body.type;
+  }
+
+  for (const [key, column] of Object.entries(NUMBER_FIELDS)) {
+    const value = body[key];
+    if (value === undefined) continue;
+
+    if (value !== null && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      return { error: `${key} must be a non-negative number` };
+    }
+    fields[column] = value;
+  }
+
+  if (body.capabilities !== undefined) {
+    if (!body.capabilities || typeof body.capabilities !== 'object') {
+      return { error: 'capabilities must be an object' };
+    }
+
+    for (const [key, column] of Object.entries(CAPABILITY_FIELDS)) {
+      const value = body.capabilities[key];
+      if (value === undefined) continue;
+
+      if (typeof value !== 'boolean') {
+        return { error: `capabilities.${key} must be a boolean` };
+      }
+      fields[column] = value ? 1 : 0;
+    }
+  }
+
+  if (body.fallbackModels !== undefined) {
+    if (!Array.isArray(body.fallbackModels) || body.fallbackModels.some((m: unknown) => typeof m !== 'string')) {
+      return { error: 'fallbackModels must be an array of model IDs' };
+    }
+    fields.fallback_models = body.fallbackModels.length > 0 ? JSON.stringify(body.fallbackModels) : null;
+  }
+
+  if (body.deprecatedAt !== undefined) {
+    if (body.deprecatedAt === null) {
+      fields.deprecated_at = null;
+    } else {
+      const date = new Date(body.deprecatedAt);
+      if (Number.isNaN(date.getTime())) {
+        return { error: 'deprecatedAt must be a valid date' };
+      }
+      fields.deprecated_at = toSqlTimestamp(date);
+    }
+  }
+
+  if (body.isActive !== undefined) {
+    if (typeof body.isActive !== 'boolean') {
+      return { error: 'isActive must be a boolean' };
+    }
+    fields.is_active = body.isActive ? 1 : 0;
+  }
+
+  return { fields: fields as AIModelFields };
+}
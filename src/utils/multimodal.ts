@@ -0,0 +1,141 @@
+// Multimodal message content: text, image and document parts
+
+import type { AIRequest, ChatMessage, ContentPart } from '../types';
+import { ProviderError } from '../providers/base';
+
+export const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+export const DOCUMENT_MIME_TYPES = ['application/pdf'];
+
+// Largest image accepted by every vision provider (Anthropic's per-image limit)
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+// Time allowed to download a remote image that has to be sent inline
+const FETCH_TIMEOUT_MS = 10000;
+
+/**
+ * Decoded `data:<mime>;base64,<data>` URL
+ */
+export type DataUrl = {
+  mimeType: string;
+  data: string;
+};
+
+/**
+ * Parse a base64 data URL (null for anything else)
+ */
+export function parseDataUrl(url: string): DataUrl | null {
+  const match = /^data:([\w.+-]+\/[\w.+-]+);base64,([A-Za-z0-9+/]+={0,2})$/.exec(url);
+  return match ? { mimeType: match[1].toLowerCase(), data: match[2] } : null;
+}
+
+/**
+ * Decoded size of base64 data in bytes
+ */
+export function getBase64Size(data: string): number {
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.floor(data.length * 3 / 4) - padding;
+}
+
+/**
+ * Text of a message's content, ignoring image and document parts
+ */
+export function getMessageText(content: ChatMessage['content']): string {
+  if (Array.isArray(content)) {
+    return content.map(part => (part.type === 'text' ? part.text : '')).join('');
+  }
+
+  return content ?? '';
+}
+
+/**
+ * Whether any message carries image or document parts
+ */
+export function hasMediaContent(request: AIRequest): boolean {
+  return request.messages.some(
+    message => Array.isArray(message.content) && message.content.some(part => part.type !== 'text')
+  );
+}
+
+/**
+ * Check a part's data URL against the allowed MIME types and size
+ */
+export function checkMediaData(dataUrl: DataUrl, kind: 'image' | 'document'): string | null {
+  const [allowed, maxBytes] = kind === 'image'
+    ? [IMAGE_MIME_TYPES, MAX_IMAGE_BYTES]
+    : [DOCUMENT_MIME_TYPES, MAX_DOCUMENT_BYTES];
+
+  if (!allowed.includes(dataUrl.mimeType)) {
+    return `Unsupported ${kind} type '${dataUrl.mimeType}'. Supported types: ${allowed.join(', ')}`;
+  }
+
+  const size = getBase64Size(dataUrl.data);
+  if (size > maxBytes) {
+    return `${kind === 'image' ? 'Image' : 'Document'} is too large: ${size} bytes (at most ${maxBytes})`;
+  }
+
+  return null;
+}
+
+/**
+ * Download a remote image as base64, enforcing the same MIME and size limits
+ * as inline images
+ */
+async function downloadImage(url: string): Promise<DataUrl> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) }).catch(error => {
+    throw new ProviderError(`Failed to download image ${url}: ${error instanceof Error ? error.message : error}`, 'gateway', 400, 'invalid_image');
+  });
+
+  if (!response.ok) {
+    throw new ProviderError(`Failed to download image ${url}: HTTP ${response.status}`, 'gateway', 400, 'invalid_image');
+  }
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+
+  const image = {
+    mimeType: (response.headers.get('Content-Type') || '').split(';')[0].trim().toLowerCase(),
+    data: btoa(binary)
+  };
+
+  const error = checkMediaData(image, 'image');
+  if (error) {
+    throw new ProviderError(`${error} (${url})`, 'gateway', 400, 'invalid_image');
+  }
+
+  return image;
+}
+
+/**
+ * Replace remote image URLs with base64 data URLs, for providers that only
+ * accept inline image data
+ */
+export async function inlineRemoteImages(request: AIRequest): Promise<AIRequest> {
+  if (!hasMediaContent(request)) {
+    return request;
+  }
+
+  const messages = await Promise.all(request.messages.map(async message => {
+    if (!Array.isArray(message.content)) {
+      return message;
+    }
+
+    const content = await Promise.all(message.content.map(async (part): Promise<ContentPart> => {
+      if (part.type !== 'image_url' || parseDataUrl(part.image_url.url)) {
+        return part;
+      }
+
+      const image = await downloadImage(part.image_url.url);
+      return { ...part, image_url: { ...part.image_url, url: `data:${image.mimeType};base64,${image.data}` } };
+    }));
+
+    return { ...message, content };
+  }));
+
+  return { ...request, messages };
+}
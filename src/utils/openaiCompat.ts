@@ -0,0 +1,178 @@
+// OpenAI wire format for the /v1 compatibility routes
+
+import type { AIModel, AIResponse, AIStreamChunk, ModelAlias, OpenAIErrorBody } from '../types';
+import { fromSqlTimestamp } from './database';
+
+/**
+ * Build an OpenAI error body, with the type (and default code) OpenAI uses
+ * for the status
+ */
+export function openAIError(
+  status: number,
+  message: string,
+  code: string | null = null,
+  param: string | null = null
+): OpenAIErrorBody {
+  let type = 'invalid_request_error';
+
+  if (status === 401) {
+    code ??= 'invalid_api_key';
+  } else if (status === 402) {
+    type = 'insufficient_quota';
+    code ??= 'insufficient_quota';
+  } else if (status === 429) {
+    type = 'requests';
+    code ??= 'rate_limit_exceeded';
+  } else if (status >= 500) {
+    type = 'server_error';
+  }
+
+  return { error: { message, type, param, code } };
+}
+
+/**
+ * Fingerprint of the backend that served a response: the provider's own
+ * when it reports one, otherwise one naming the provider
+ */
+export function getSystemFingerprint(response: { system_fingerprint?: string | null }, provider: string | undefined): string {
+  return response.system_fingerprint || `fp_${provider || 'gateway'}`;
+}
+
+/**
+ * Unix timestamp (seconds) of a D1 timestamp
+ */
+function toUnixSeconds(value: string | null | undefined): number {
+  return value ? Math.floor(fromSqlTimestamp(value).getTime() / 1000) : 0;
+}
+
+/**
+ * Convert a routed response to an OpenAI chat.completion object
+ */
+export function toChatCompletion(response: AIResponse, provider: string | undefined) {
+  return {
+    id: response.id,
+    object: 'chat.completion',
+    created: response.created ?? Math.floor(Date.now() / 1000),
+    model: response.model,
+    choices: response.choices.map((choice, index) => ({
+      index,
+      message: {
+        role: 'assistant',
+        content: choice.message.content,
+        ...(choice.message.tool_calls ? { tool_calls: choice.message.tool_calls } : {}),
+        refusal: null
+      },
+      logprobs: null,
+      finish_reason: choice.finish_reason
+    })),
+    usage: {
+      prompt_tokens: response.usage.prompt_tokens,
+      completion_tokens: response.usage.completion_tokens,
+      total_tokens: response.usage.total_tokens
+    },
+    system_fingerprint: getSystemFingerprint(response, provider)
+  };
+}
+
+/**
+ * Convert a routed response to an OpenAI text_completion object
+ */
+export function toTextCompletion(response: AIResponse, provider: string | undefined) {
+  return {
+    id: response.id,
+    object: 'text_completion',
+    created: response.created ?? Math.floor(Date.now() / 1000),
+    model: response.model,
+    choices: response.choices.map((choice, index) => ({
+      text: choice.message.content ?? '',
+      index,
+      logprobs: null,
+      finish_reason: choice.finish_reason
+    })),
+    usage: {
+      prompt_tokens: response.usage.prompt_tokens,
+      completion_tokens: response.usage.completion_tokens,
+      total_tokens: response.usage.total_tokens
+    },
+    system_fingerprint: getSystemFingerprint(response, provider)
+  };
+}
+
+/**
+ * Reshape streamed chunks as OpenAI sends them: a system_fingerprint and
+ * logprobs on every choice, and the trailing usage chunk only when the
+ * caller asked for it with stream_options.include_usage
+ */
+export async function* toChatCompletionChunks(
+  chunks: AsyncGenerator<AIStreamChunk>,
+  provider: string | undefined,
+  includeUsage: boolean
+): AsyncGenerator<any> {
+  for await (const chunk of chunks) {
+    if (chunk.choices.length === 0 && !includeUsage) {
+      continue;
+    }
+
+    yield {
+      id: chunk.id,
+      object: 'chat.completion.chunk',
+      created: chunk.created,
+      model: chunk.model,
+      system_fingerprint: getSystemFingerprint(chunk as { system_fingerprint?: string | null }, provider),
+      choices: chunk.choices.map(choice => ({ ...choice, logprobs: null })),
+      ...(includeUsage ? { usage: chunk.usage ?? null } : {})
+    };
+  }
+}
+
+/**
+ * Convert streamed chat chunks to OpenAI text_completion chunks
+ */
+export async function* toTextCompletionChunks(
+  chunks: AsyncGenerator<AIStreamChunk>,
+  provider: string | undefined,
+  includeUsage: boolean
+): AsyncGenerator<any> {
+  for await (const chunk of chunks) {
+    const choice = chunk.choices[0];
+    if (choice ? !choice.delta.content && !choice.finish_reason : !includeUsage) {
+      continue;
+    }
+
+    yield {
+      id: chunk.id,
+      object: 'text_completion',
+      created: chunk.created,
+      model: chunk.model,
+      system_fingerprint: getSystemFingerprint(chunk as { system_fingerprint?: string | null }, provider),
+      choices: choice
+        ? [{ text: choice.delta.content ?? '', index: 0, logprobs: null, finish_reason: choice.finish_reason }]
+        : [],
+      ...(includeUsage ? { usage: chunk.usage ?? null } : {})
+    };
+  }
+}
+
+/**
+ * OpenAI model object for a catalog model
+ */
+export function toOpenAIModel(model: AIModel) {
+  return {
+    id: model.model_id,
+    object: 'model',
+    created: toUnixSeconds(model.created_at),
+    owned_by: model.provider
+  };
+}
+
+/**
+ * OpenAI model object for a model alias
+ */
+export function toOpenAIAlias(alias: ModelAlias) {
+  return {
+    id: alias.alias,
+    object: 'model',
+    created: toUnixSeconds(alias.created_at),
+    owned_by: 'gateway'
+  };
+}
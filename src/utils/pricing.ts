@@ -0,0 +1,17 @@
+// Token pricing based on the ai_models catalog
+
+import type { AIModel, AIUsage } from '../types';
+
+/**
+ * Calculate the dollar cost of a call from its token usage.
+ * Falls back to the blended cost_per_1k_tokens when input/output
+ * prices are not set for the model.
+ */
+export function calculateCost(model: AIModel, usage: AIUsage): number {
+  const blended = model.cost_per_1k_tokens || 0;
+  const inputPrice = model.input_cost_per_1k ?? blended;
+  const outputPrice = model.output_cost_per_1k ?? blended;
+
+  const cost = (usage.prompt_tokens / 1000) * inputPrice + (usage.completion_tokens / 1000) * outputPrice;
+  return Math.round(cost * 1e6) / 1e6;
+}
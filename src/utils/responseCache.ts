@@ -0,0 +1,231 @@
+// Response cache for chat and completion requests: exact-match (opt-in per
+// request) and semantic (enabled per API key and route)
+
+import type { D1Database } from '@cloudflare/workers-types';
+import type { AIRequest, AIResponse, Bindings, CacheStatus, RoutingTrace } from '../types';
+import { getCachedResponse, storeCachedResponse, storeSemanticCacheEntry, deleteExpiredCacheEntries, toSqlTimestamp } from './database';
+import type { Embedder } from './semanticCache';
+import { findSemanticMatch } from './semanticCache';
+
+type SemanticPolicy = {
+  apiKeyId: number;
+  threshold: number;
+  contextKey: string;
+  prompt: string;
+  embeddingModel: string;
+  embedding: number[];
+  maxCandidates: number;
+};
+
+export type CachePolicy = {
+  key: string;
+  model: string;
+  ttlSeconds: number;
+  lookup: boolean;
+  store: boolean;
+  exact: boolean;
+  semantic: SemanticPolicy | null;
+};
+
+/**
+ * JSON with object keys sorted, so equal requests serialize identically
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * SHA-256 of the normalized model, messages (including image and document
+ * data), tools and sampling parameters.
+ * Gateway-only fields (cache, stream) don't affect the key.
+ */
+export async function getCacheKey(request: AIRequest): Promise<string> {
+  const normalized = canonicalJson({
+    model: request.model,
+    messages: request.messages.map(message => ({
+      ...message,
+      content: typeof message.content === 'string' ? message.content.trim() : message.content
+    })),
+    temperature: request.temperature ?? null,
+    max_tokens: request.max_tokens ?? null,
+    tools: request.tools ?? null,
+    tool_choice: request.tool_choice ?? null,
+    response_format: request.response_format ?? null,
+    routing: request.routing ?? null
+  });
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Decide whether and how to cache a request. Requests opt in to the exact
+ * cache with `cache: true` or `cache: { ttl }`; the semantic cache applies
+ * when the API key enables it for the route (`semantic`) and the last
+ * message is a text prompt from the user. `Cache-Control: no-cache` skips the
+ * lookup (the fresh response is still stored) and `no-store` skips both.
+ * Prompts are embedded by `semantic.embedder`; if that fails the semantic
+ * cache is skipped.
+ */
+export async function getCachePolicy(
+  request: AIRequest,
+  env: Bindings,
+  cacheControl: string | undefined,
+  semantic: { apiKeyId: number; threshold: number; embedder: Embedder } | null = null
+): Promise<CachePolicy | null> {
+  const lastMessage = request.messages[request.messages.length - 1];
+  const prompt = lastMessage?.role === 'user' && typeof lastMessage.content === 'string' ? lastMessage.content : null;
+  const directives = (cacheControl || '').toLowerCase().split(',').map(d => d.trim());
+  const noStore = directives.includes('no-store');
+
+  let embedded: { model: string; embedding: number[] } | null = null;
+  if (semantic && prompt !== null && !noStore) {
+    try {
+      embedded = await semantic.embedder.embed(prompt);
+    } catch (error) {
+      console.error('Semantic cache embedding failed:', error);
+    }
+  }
+
+  if (!request.cache && !embedded) {
+    return null;
+  }
+
+  const defaultTtl = parseInt(env.RESPONSE_CACHE_TTL_SECONDS || '3600');
+  const maxTtl = parseInt(env.RESPONSE_CACHE_MAX_TTL_SECONDS || '86400');
+  const requestedTtl = typeof request.cache === 'object' ? request.cache.ttl : undefined;
+
+  return {
+    key: await getCacheKey(request),
+    model: request.model,
+    ttlSeconds: Math.min(requestedTtl ?? defaultTtl, maxTtl),
+    lookup: !directives.includes('no-cache') && !noStore,
+    store: !noStore,
+    exact: !!request.cache,
+    // Everything before the last user message (and the parameters) must match exactly
+    semantic: semantic && embedded
+      ? {
+          apiKeyId: semantic.apiKeyId,
+          threshold: semantic.threshold,
+          contextKey: await getCacheKey({ ...request, messages: request.messages.slice(0, -1) }),
+          prompt: prompt!,
+          embeddingModel: embedded.model,
+          embedding: embedded.embedding,
+          maxCandidates: parseInt(env.SEMANTIC_CACHE_MAX_CANDIDATES || '200')
+        }
+      : null
+  };
+}
+
+/**
+ * Record a cache hit on the trace: zero cost, and the upstream cost it saved
+ */
+function serveFromCache(
+  trace: RoutingTrace,
+  status: CacheStatus,
+  entry: { provider: string; model: string; response: string; cost: number }
+): AIResponse {
+  const response = JSON.parse(entry.response) as AIResponse;
+  trace.provider = entry.provider;
+  trace.model = entry.model;
+  trace.alias = response.alias;
+  trace.variant = response.variant;
+  trace.selection = response.selection;
+  trace.cache = status;
+  trace.cost = 0;
+  trace.savedCost = entry.cost;
+
+  return response;
+}
+
+/**
+ * Serve a request from the user's cache, trying an exact match before a
+ * semantic one (or recording a miss)
+ */
+export async function readCachedResponse(
+  db: D1Database,
+  userId: number,
+  policy: CachePolicy,
+  trace: RoutingTrace
+): Promise<AIResponse | null> {
+  trace.cache = 'miss';
+
+  if (!policy.lookup) {
+    return null;
+  }
+
+  if (policy.exact) {
+    const entry = await getCachedResponse(db, userId, policy.key);
+    if (entry) {
+      return serveFromCache(trace, 'hit', entry);
+    }
+  }
+
+  if (policy.semantic) {
+    const match = await findSemanticMatch(db, { model: policy.model, ...policy.semantic });
+    if (match) {
+      trace.cacheSimilarity = Math.round(match.similarity * 1e4) / 1e4;
+      return serveFromCache(trace, 'semantic_hit', { ...match.entry, model: match.entry.served_model });
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Store a fresh upstream response for later identical (or similar) requests,
+ * first purging the user's expired entries so the cache tables stay bounded
+ */
+export async function writeCachedResponse(
+  db: D1Database,
+  userId: number,
+  policy: CachePolicy,
+  response: AIResponse,
+  trace: RoutingTrace
+): Promise<void> {
+  if (!policy.store || !trace.provider || !trace.model) {
+    return;
+  }
+
+  await deleteExpiredCacheEntries(db, userId);
+
+  const expiresAt = toSqlTimestamp(new Date(Date.now() + policy.ttlSeconds * 1000));
+
+  if (policy.exact) {
+    await storeCachedResponse(db, userId, policy.key, {
+      provider: trace.provider,
+      model: trace.model,
+      response: JSON.stringify(response),
+      cost: trace.cost || 0,
+      expiresAt
+    });
+  }
+
+  if (policy.semantic) {
+    await storeSemanticCacheEntry(db, {
+      user_id: userId,
+      api_key_id: policy.semantic.apiKeyId,
+      model: policy.model,
+      context_key: policy.semantic.contextKey,
+      prompt: policy.semantic.prompt,
+      embedding_model: policy.semantic.embeddingModel,
+      embedding: JSON.stringify(policy.semantic.embedding),
+      provider: trace.provider,
+      served_model: trace.model,
+      response: JSON.stringify(response),
+      cost: trace.cost || 0,
+      expires_at: expiresAt
+    });
+  }
+}
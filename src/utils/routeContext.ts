@@ -0,0 +1,91 @@
+// Shared helpers for route handlers that call providers
+
+import type { Context } from 'hono';
+import type { Bindings, Variables, AIRequest, AIResponse, RoutingTrace, RouteOptions, SemanticCacheSettings } from '../types';
+import { routeAIRequest } from './aiProviders';
+import { getCachePolicy, readCachedResponse, writeCachedResponse } from './responseCache';
+import { createProviderEmbedder, getSemanticCacheSettings } from './semanticCache';
+
+/**
+ * Record the provider and model that actually served a request
+ */
+export function recordServedBy(c: Context<{ Bindings: Bindings; Variables: Variables }>, trace: RoutingTrace) {
+  c.set('modelProvider', trace.provider);
+  c.set('modelName', trace.model);
+  c.header('X-Provider', trace.provider);
+  c.header('X-Model', trace.model);
+
+  if (trace.alias) {
+    c.header('X-Model-Alias', trace.alias);
+  }
+
+  if (trace.variant) {
+    c.header('X-Model-Variant', trace.variant);
+  }
+
+  if (trace.selection) {
+    c.header('X-Model-Selection', trace.selection.reason);
+  }
+
+  if (trace.deprecationWarning) {
+    c.header('X-Model-Deprecation', trace.deprecationWarning);
+  }
+}
+
+/**
+ * Routing options for the caller: key scopes plus the identity used for
+ * sticky A/B variant assignment
+ */
+export function getRouteOptions(c: Context<{ Bindings: Bindings; Variables: Variables }>): RouteOptions {
+  return {
+    scopes: c.get('keyScopes'),
+    userId: c.get('user')?.id,
+    apiKeyId: c.get('apiKey')?.id
+  };
+}
+
+/**
+ * Route a request, serving it from the user's response cache when it opts in
+ * (or the API key enables the semantic cache for the route) and storing
+ * fresh responses for later requests
+ */
+export async function routeWithCache(
+  c: Context<{ Bindings: Bindings; Variables: Variables }>,
+  request: AIRequest,
+  trace: RoutingTrace,
+  route: keyof SemanticCacheSettings
+): Promise<AIResponse> {
+  const user = c.get('user');
+  const apiKey = c.get('apiKey');
+  const threshold = getSemanticCacheSettings(apiKey)?.[route];
+  const semantic = user && apiKey && threshold !== undefined
+    ? { apiKeyId: apiKey.id, threshold, embedder: createProviderEmbedder(c.env, { userId: user.id, apiKeyId: apiKey.id }) }
+    : null;
+  const policy = user
+    ? await getCachePolicy(request, c.env, c.req.header('Cache-Control'), semantic)
+    : null;
+
+  if (!user || !policy) {
+    return routeAIRequest(request, c.env, trace, getRouteOptions(c));
+  }
+
+  const cached = await readCachedResponse(c.env.DB, user.id, policy, trace);
+  c.header('X-Cache', cached ? 'HIT' : 'MISS');
+  if (trace.cacheSimilarity !== undefined) {
+    c.header('X-Cache-Similarity', String(trace.cacheSimilarity));
+  }
+  if (cached) {
+    return cached;
+  }
+
+  const response = await routeAIRequest(request, c.env, trace, getRouteOptions(c));
+
+  try {
+    await writeCachedResponse(c.env.DB, user.id, policy, response, trace);
+  } catch (error) {
+    // A cache write failure shouldn't fail the request
+    console.error('Failed to cache response:', error);
+  }
+
+  return response;
+}
@@ -0,0 +1,240 @@
+// API key scope parsing and checks
+
+import type { ApiKey, ApiKeyScopes, ApiKeyEndpoint, AIModel } from '../types';
+
+export const SCOPE_ENDPOINTS: ApiKeyEndpoint[] = ['chat', 'completion', 'stream', 'embeddings', 'models'];
+
+// OpenAI- and Anthropic-compatible paths and the endpoint scope they fall under
+const COMPAT_ENDPOINTS: Record<string, ApiKeyEndpoint> = {
+  '/v1/chat/completions': 'chat',
+  '/v1/completions': 'completion',
+  '/v1/embeddings': 'embeddings',
+  '/v1/models': 'models',
+  '/v1/messages': 'chat'
+};
+
+/**
+ * Endpoint scope for a request path: the last path segment of /api/ai
+ * routes, or the scope a compatible /v1 path maps to. Batch jobs run chat
+ * requests, so they need the chat scope.
+ */
+export function getScopeEndpoint(path: string): string {
+  if (path.startsWith('/v1/models/')) {
+    return 'models';
+  }
+
+  if (path === '/api/ai/batches' || path.startsWith('/api/ai/batches/')) {
+    return 'chat';
+  }
+
+  return COMPAT_ENDPOINTS[path] ?? path.split('/').pop() ?? '';
+}
+
+function parseList(value: string | null): string[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  try {
+    const list = JSON.parse(value);
+    return Array.isArray(list) ? list : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the scopes stored on an API key row
+ */
+export function getApiKeyScopes(key: ApiKey): ApiKeyScopes {
+  return {
+    endpoints: parseList(key.allowed_endpoints) as ApiKeyEndpoint[] | undefined,
+    models: parseList(key.allowed_models),
+    providers: parseList(key.allowed_providers),
+    maxTokens: key.max_tokens_per_request ?? undefined,
+    ipAllowList: parseList(key.allowed_cidrs)
+  };
+}
+
+function isScopeEndpoint(value: string): value is ApiKeyEndpoint {
+  return (SCOPE_ENDPOINTS as string[]).includes(value);
+}
+
+/**
+ * Validate scopes from a request body. Empty or missing fields mean unrestricted.
+ */
+export function parseScopeInput(input: any): { scopes: ApiKeyScopes } | { error: string } {
+  if (input == null) {
+    return { scopes: {} };
+  }
+
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'scopes must be an object' };
+  }
+
+  const lists: Partial<Record<'endpoints' | 'models' | 'providers' | 'ipAllowList', string[]>> = {};
+
+  for (const field of ['endpoints', 'models', 'providers', 'ipAllowList'] as const) {
+    const value = input[field];
+    if (value == null) continue;
+
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !item.trim())) {
+      return { error: `scopes.${field} must be an array of strings` };
+    }
+
+    if (value.length > 0) {
+      lists[field] = value.map((item: string) => item.trim());
+    }
+  }
+
+  const unknownEndpoint = lists.endpoints?.find(endpoint => !isScopeEndpoint(endpoint));
+  if (unknownEndpoint) {
+    return { error: `Unknown endpoint scope: ${unknownEndpoint}. Use one of: ${SCOPE_ENDPOINTS.join(', ')}` };
+  }
+
+  const invalidCidr = lists.ipAllowList?.find(cidr => !parseCidr(cidr));
+  if (invalidCidr) {
+    return { error: `Invalid CIDR range: ${invalidCidr}` };
+  }
+
+  const scopes: ApiKeyScopes = {};
+  if (lists.endpoints) scopes.endpoints = lists.endpoints.filter(isScopeEndpoint);
+  if (lists.models) scopes.models = lists.models;
+  if (lists.providers) scopes.providers = lists.providers;
+  if (lists.ipAllowList) scopes.ipAllowList = lists.ipAllowList;
+
+  if (input.maxTokens != null) {
+    if (!Number.isInteger(input.maxTokens) || input.maxTokens <= 0) {
+      return { error: 'scopes.maxTokens must be a positive integer' };
+    }
+    scopes.maxTokens = input.maxTokens;
+  }
+
+  return { scopes };
+}
+
+/**
+ * Check whether a catalog model may be used under a key's scopes
+ */
+export function isModelAllowed(scopes: ApiKeyScopes | undefined, model: Pick<AIModel, 'model_id' | 'provider'>): boolean {
+  if (!scopes) {
+    return true;
+  }
+
+  if (scopes.models && !scopes.models.includes(model.model_id)) {
+    return false;
+  }
+
+  return !scopes.providers || scopes.providers.includes(model.provider);
+}
+
+type ParsedIp = { version: 4 | 6; value: bigint };
+
+function parseIPv4(ip: string): bigint | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || parseInt(part) > 255) {
+      return null;
+    }
+    value = (value << 8n) | BigInt(parseInt(part));
+  }
+
+  return value;
+}
+
+function parseIPv6(ip: string): bigint | null {
+  // Embedded IPv4 tail, e.g. ::ffff:192.0.2.1
+  const lastColon = ip.lastIndexOf(':');
+  if (ip.includes('.', lastColon)) {
+    const v4 = parseIPv4(ip.slice(lastColon + 1));
+    if (v4 === null) {
+      return null;
+    }
+    ip = `${ip.slice(0, lastColon + 1)}${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+
+  const halves = ip.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+
+  if (halves.length === 1 ? missing !== 0 : missing < 1) {
+    return null;
+  }
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  let value = 0n;
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) {
+      return null;
+    }
+    value = (value << 16n) | BigInt(parseInt(group, 16));
+  }
+
+  return value;
+}
+
+/**
+ * Parse an IPv4 or IPv6 address
+ */
+export function parseIp(ip: string): ParsedIp | null {
+  if (ip.includes(':')) {
+    const value = parseIPv6(ip);
+    return value === null ? null : { version: 6, value };
+  }
+
+  const value = parseIPv4(ip);
+  return value === null ? null : { version: 4, value };
+}
+
+/**
+ * Parse a CIDR range; a bare address is treated as a single-host range
+ */
+function parseCidr(cidr: string): (ParsedIp & { prefix: number }) | null {
+  const [address, prefixText, ...rest] = cidr.split('/');
+  const ip = parseIp(address);
+  if (!ip || rest.length > 0) {
+    return null;
+  }
+
+  const bits = ip.version === 4 ? 32 : 128;
+  if (prefixText === undefined) {
+    return { ...ip, prefix: bits };
+  }
+
+  const prefix = Number(prefixText);
+  if (!/^\d+$/.test(prefixText) || prefix > bits) {
+    return null;
+  }
+
+  return { ...ip, prefix };
+}
+
+/**
+ * Check whether an address falls inside any of the given CIDR ranges
+ */
+export function isIpAllowed(ip: string, cidrs: string[]): boolean {
+  const address = parseIp(ip);
+  if (!address) {
+    return false;
+  }
+
+  return cidrs.some(cidr => {
+    const range = parseCidr(cidr);
+    if (!range || range.version !== address.version) {
+      return false;
+    }
+
+    const shift = BigInt((address.version === 4 ? 32 : 128) - range.prefix);
+    return (address.value >> shift) === (range.value >> shift);
+  });
+}
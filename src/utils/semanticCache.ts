@@ -0,0 +1,245 @@
+// Semantic response cache: serve cached answers to near-identical prompts
+
+import type { D1Database } from '@cloudflare/workers-types';
+import type { ApiKey, Bindings, RoutingTrace, SemanticCacheEntry, SemanticCacheSettings } from '../types';
+import { getSemanticCacheCandidates, recordSemanticCacheHit, logRequest, updateUsageStats } from './database';
+import { normalizeVector } from './embeddings';
+import { routeEmbeddingRequest, getErrorStatus } from './aiProviders';
+
+export const SEMANTIC_CACHE_ROUTES = ['chat', 'completion'] as const;
+
+export const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+// Endpoint prompt embeddings are logged under, so they count toward budgets and analytics
+export const SEMANTIC_CACHE_ENDPOINT = '/api/ai/semantic-cache';
+
+// Vector size of the hashed test embedder
+const HASH_EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * Turns a prompt into an L2-normalized vector. `model` names the vector
+ * space: only entries embedded by the same model are compared.
+ */
+export type Embedder = {
+  embed(text: string): Promise<{ model: string; embedding: number[] }>;
+};
+
+/**
+ * Embed prompts with the catalog embedding model SEMANTIC_CACHE_EMBEDDING_MODEL
+ * (default text-embedding-3-small) through the embeddings provider path. Each
+ * call is logged and billed to the key whose request is being looked up.
+ */
+export function createProviderEmbedder(env: Bindings, owner: { userId: number; apiKeyId: number }): Embedder {
+  const model = env.SEMANTIC_CACHE_EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL;
+
+  return {
+    async embed(text) {
+      const startTime = Date.now();
+      const trace: RoutingTrace = { attempts: [] };
+      let statusCode = 200;
+      let errorMessage: string | undefined;
+
+      try {
+        const response = await routeEmbeddingRequest({ model, input: text }, env, trace);
+        // A retired model may have been redirected, which changes the vector space
+        return { model: response.model, embedding: response.data[0].embedding as number[] };
+      } catch (error) {
+        statusCode = getErrorStatus(error);
+        errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw error;
+      } finally {
+        await logEmbedding(env, owner, {
+          model: trace.model ?? model,
+          trace,
+          statusCode,
+          errorMessage,
+          requestSize: text.length,
+          latencyMs: Date.now() - startTime
+        });
+      }
+    }
+  };
+}
+
+/**
+ * Log a prompt embedding and add it to the owner's usage
+ */
+async function logEmbedding(
+  env: Bindings,
+  owner: { userId: number; apiKeyId: number },
+  call: { model: string; trace: RoutingTrace; statusCode: number; errorMessage?: string; requestSize: number; latencyMs: number }
+) {
+  const { trace } = call;
+  const usage = trace.usage;
+  const cost = trace.cost || 0;
+
+  try {
+    await logRequest(env.DB, {
+      userId: owner.userId,
+      apiKeyId: owner.apiKeyId,
+      endpoint: SEMANTIC_CACHE_ENDPOINT,
+      method: 'POST',
+      modelProvider: trace.provider ?? trace.attempts[trace.attempts.length - 1]?.provider,
+      modelName: call.model,
+      statusCode: call.statusCode,
+      requestSize: call.requestSize,
+      responseSize: 0,
+      latencyMs: call.latencyMs,
+      errorMessage: call.errorMessage,
+      attempts: trace.attempts,
+      promptTokens: usage?.prompt_tokens,
+      completionTokens: usage?.completion_tokens,
+      totalTokens: usage?.total_tokens,
+      cost
+    });
+
+    await updateUsageStats(env.DB, owner.userId, {
+      success: call.statusCode < 400,
+      tokens: usage?.total_tokens || 0,
+      cost
+    });
+  } catch (error) {
+    console.error('Failed to log semantic cache embedding:', error);
+  }
+}
+
+/**
+ * FNV-1a hash of a string
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Lexical stand-in for tests: word unigrams and bigrams hashed into a
+ * fixed-size signed vector. It measures shared words, not meaning, so it is
+ * never used to serve requests.
+ */
+export function createHashEmbedder(): Embedder {
+  return {
+    async embed(text) {
+      const vector = new Array<number>(HASH_EMBEDDING_DIMENSIONS).fill(0);
+      const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+      const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+      for (const feature of features) {
+        const hash = fnv1a(feature);
+        vector[hash % HASH_EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+      }
+
+      return { model: 'hash', embedding: normalizeVector(vector) };
+    }
+  };
+}
+
+/**
+ * Cosine similarity of two vectors (0 when either is all zeros)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Semantic cache settings stored on an API key, if enabled
+ */
+export function getSemanticCacheSettings(key: ApiKey | undefined): SemanticCacheSettings | null {
+  if (!key?.semantic_cache) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(key.semantic_cache);
+  } catch {
+    console.error(`Invalid semantic_cache settings for API key ${key.id}`);
+    return null;
+  }
+}
+
+/**
+ * Validate semantic cache settings from a request body:
+ * { routes: { chat?: threshold, completion?: threshold } } or { routes: null }
+ */
+export function parseSemanticCacheInput(body: any): { settings: SemanticCacheSettings | null } | { error: string } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Invalid request body' };
+  }
+
+  if (body.routes === null) {
+    return { settings: null };
+  }
+
+  if (!body.routes || typeof body.routes !== 'object' || Array.isArray(body.routes)) {
+    return { error: 'routes must be an object mapping routes to similarity thresholds, or null' };
+  }
+
+  const settings: SemanticCacheSettings = {};
+  for (const [route, threshold] of Object.entries(body.routes)) {
+    if (!SEMANTIC_CACHE_ROUTES.includes(route as typeof SEMANTIC_CACHE_ROUTES[number])) {
+      return { error: `Unknown route: ${route}. Supported routes: ${SEMANTIC_CACHE_ROUTES.join(', ')}` };
+    }
+
+    if (typeof threshold !== 'number' || threshold <= 0 || threshold > 1) {
+      return { error: `routes.${route} must be a similarity threshold between 0 (exclusive) and 1` };
+    }
+
+    settings[route as keyof SemanticCacheSettings] = threshold;
+  }
+
+  return { settings: Object.keys(settings).length > 0 ? settings : null };
+}
+
+/**
+ * Find the most similar cached prompt at or above the threshold among the API
+ * key's recent entries for the same model and context (embedded by the same
+ * model), counting the hit
+ */
+export async function findSemanticMatch(
+  db: D1Database,
+  lookup: {
+    apiKeyId: number;
+    model: string;
+    contextKey: string;
+    embeddingModel: string;
+    embedding: number[];
+    threshold: number;
+    maxCandidates: number;
+  }
+): Promise<{ entry: SemanticCacheEntry; similarity: number } | null> {
+  const candidates = await getSemanticCacheCandidates(
+    db,
+    lookup.apiKeyId,
+    lookup.model,
+    lookup.contextKey,
+    lookup.embeddingModel,
+    lookup.maxCandidates
+  );
+  let best: { entry: SemanticCacheEntry; similarity: number } | null = null;
+
+  for (const entry of candidates) {
+    const similarity = cosineSimilarity(lookup.embedding, JSON.parse(entry.embedding));
+    if (similarity >= lookup.threshold && (!best || similarity > best.similarity)) {
+      best = { entry, similarity };
+    }
+  }
+
+  if (best) {
+    await recordSemanticCacheHit(db, best.entry.id);
+  }
+
+  return best;
+}
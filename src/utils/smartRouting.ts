@@ -0,0 +1,186 @@
+// Smart routing: the `auto` model picks a catalog model by cost, latency and errors
+
+import type { AIModel, AIRequest, AutoPreference, AutoSelection, Bindings, RouteOptions } from '../types';
+import { getActiveModels, getModelPerformance, toSqlTimestamp } from './database';
+import { getProviderHealth } from './circuitBreaker';
+import { isModelAllowed } from './scopes';
+import { isModelRetired, CAPABILITY_FIELDS } from './modelCatalog';
+import { hasMediaContent } from './multimodal';
+import { getProvider, ProviderError } from '../providers';
+
+export const AUTO_MODEL = 'auto';
+
+export const AUTO_PREFERENCES: AutoPreference[] = ['cheapest', 'fastest', 'balanced'];
+
+// Routing tier of requests that don't name one
+const DEFAULT_TIER = 'standard';
+
+// Below this many recent requests a model's error rate is not trusted
+const MIN_SAMPLES = 5;
+
+// How much each normalized signal counts per preference (lower score wins)
+const WEIGHTS: Record<AutoPreference, { cost: number; latency: number; errors: number }> = {
+  cheapest: { cost: 1, latency: 0.1, errors: 0.5 },
+  fastest: { cost: 0.1, latency: 1, errors: 0.5 },
+  balanced: { cost: 0.5, latency: 0.5, errors: 0.5 }
+};
+
+type Candidate = {
+  model: AIModel;
+  cost: number;
+  latencyMs: number | null;
+  errorRate: number;
+  requests: number;
+  score: number;
+};
+
+/**
+ * Average of input and output price per 1K tokens
+ */
+function getBlendedCost(model: AIModel): number {
+  const blended = model.cost_per_1k_tokens || 0;
+  const input = model.input_cost_per_1k ?? blended;
+  const output = model.output_cost_per_1k ?? blended;
+  return (input + output) / 2;
+}
+
+/**
+ * Whether a model in the requested tier can serve the request within the
+ * caller's constraints, key scopes and provider health
+ */
+function isEligible(
+  model: AIModel,
+  tier: string,
+  request: AIRequest,
+  env: Bindings,
+  options: RouteOptions,
+  stream: boolean
+): boolean {
+  const adapter = getProvider(model.provider);
+  if (!adapter || model.model_type === 'embedding' || isModelRetired(model) || !isModelAllowed(options.scopes, model)) {
+    return false;
+  }
+
+  // Only models the admin marked as interchangeable compete with each other
+  if (model.routing_tier !== tier) {
+    return false;
+  }
+
+  const constraints = request.routing || {};
+  if (constraints.providers && !constraints.providers.includes(model.provider)) {
+    return false;
+  }
+
+  if (constraints.minContextWindow && (model.max_tokens || 0) < constraints.minContextWindow) {
+    return false;
+  }
+
+  const capabilities = [
+    ...(constraints.capabilities || []),
+    ...(stream ? ['streaming' as const] : []),
+    ...(request.tools ? ['tools' as const] : []),
+    ...(hasMediaContent(request) ? ['vision' as const] : [])
+  ];
+  if (capabilities.some(capability => !model[CAPABILITY_FIELDS[capability]])) {
+    return false;
+  }
+
+  if ((request.tools && !adapter.capabilities.tools) || (hasMediaContent(request) && !adapter.capabilities.vision)) {
+    return false;
+  }
+
+  if (stream && !adapter.capabilities.streaming) {
+    return false;
+  }
+
+  const outputLimit = model.max_output_tokens ?? model.max_tokens;
+  const maxTokens = request.max_tokens ?? options.scopes?.maxTokens;
+  if (maxTokens && outputLimit && maxTokens > outputLimit) {
+    return false;
+  }
+
+  if (request.temperature !== undefined && request.temperature > adapter.maxTemperature) {
+    return false;
+  }
+
+  // Skip providers whose circuit is open; half-open ones may take a probe
+  return getProviderHealth(model.provider, env).state !== 'open';
+}
+
+/**
+ * Explain a pick in one line
+ */
+function describe(candidate: Candidate, preference: AutoPreference, tier: string, count: number): string {
+  const traffic = candidate.requests > 0
+    ? `${candidate.latencyMs !== null ? `${Math.round(candidate.latencyMs)}ms avg latency, ` : ''}` +
+      `${(candidate.errorRate * 100).toFixed(1)}% errors over ${candidate.requests} recent requests`
+    : 'no recent traffic';
+
+  return `${preference}: best of ${count} eligible ${tier} tier models at $${candidate.cost.toFixed(4)}/1K tokens, ${traffic}`;
+}
+
+/**
+ * Choose the model for an `auto` request. Candidates are active catalog chat models
+ * in the requested routing tier (default AUTO_ROUTING_DEFAULT_TIER, else
+ * `standard`) that meet the request's constraints; they are scored on blended price and on
+ * latency and error rate from request_logs over AUTO_ROUTING_WINDOW_MINUTES
+ * (default 60). Models without recent traffic are assumed to have the median latency.
+ */
+export async function selectAutoModel(
+  request: AIRequest,
+  env: Bindings,
+  options: RouteOptions,
+  stream: boolean
+): Promise<AutoSelection> {
+  const preference = request.routing?.preference || 'balanced';
+  const tier = request.routing?.tier || env.AUTO_ROUTING_DEFAULT_TIER || DEFAULT_TIER;
+  const models = (await getActiveModels(env.DB)).filter(model => isEligible(model, tier, request, env, options, stream));
+
+  if (models.length === 0) {
+    throw new ProviderError(`No ${tier} tier model satisfies the auto routing constraints`, 'gateway', 400, 'no_eligible_model');
+  }
+
+  const windowMinutes = parseInt(env.AUTO_ROUTING_WINDOW_MINUTES || '60');
+  const since = toSqlTimestamp(new Date(Date.now() - windowMinutes * 60 * 1000));
+  const performance = new Map((await getModelPerformance(env.DB, since)).map(row => [row.model_name, row]));
+
+  const candidates: Candidate[] = models.map(model => {
+    const stats = performance.get(model.model_id);
+    const requests = stats?.requests || 0;
+
+    return {
+      model,
+      cost: getBlendedCost(model),
+      latencyMs: stats?.avg_latency ?? null,
+      errorRate: requests >= MIN_SAMPLES ? stats!.failed / requests : 0,
+      requests,
+      score: 0
+    };
+  });
+
+  const latencies = candidates.map(c => c.latencyMs).filter((l): l is number => l !== null).sort((a, b) => a - b);
+  const medianLatency = latencies.length > 0 ? latencies[Math.floor(latencies.length / 2)] : 0;
+  const maxCost = Math.max(...candidates.map(c => c.cost)) || 1;
+  const maxLatency = Math.max(...candidates.map(c => c.latencyMs ?? medianLatency)) || 1;
+  const weights = WEIGHTS[preference];
+
+  for (const candidate of candidates) {
+    candidate.score =
+      weights.cost * (candidate.cost / maxCost) +
+      weights.latency * ((candidate.latencyMs ?? medianLatency) / maxLatency) +
+      weights.errors * candidate.errorRate;
+  }
+
+  // Cheaper model wins a tie so the outcome is stable
+  candidates.sort((a, b) => a.score - b.score || a.cost - b.cost);
+  const best = candidates[0];
+
+  return {
+    model: best.model.model_id,
+    provider: best.model.provider,
+    preference,
+    tier,
+    reason: describe(best, preference, tier, candidates.length),
+    candidates: candidates.length
+  };
+}
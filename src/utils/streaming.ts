@@ -0,0 +1,144 @@
+// Server-sent event helpers for streaming AI responses
+
+import type { AIStreamChunk, AIUsage } from '../types';
+
+const encoder = new TextEncoder();
+
+/**
+ * Split a byte stream into text lines
+ */
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        yield line;
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer) {
+      yield buffer;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Parse an upstream SSE body into events
+ */
+export async function* parseSSE(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<{ event?: string; data: string }> {
+  let event: string | undefined;
+  let data: string[] = [];
+
+  for await (const line of readLines(body)) {
+    if (line === '') {
+      if (data.length > 0) {
+        yield { event, data: data.join('\n') };
+      }
+      event = undefined;
+      data = [];
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).trimStart());
+    } else if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    }
+  }
+
+  if (data.length > 0) {
+    yield { event, data: data.join('\n') };
+  }
+}
+
+/**
+ * Parse a newline-delimited JSON body (used by Cohere streaming)
+ */
+export async function* parseNDJSON(body: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+  for await (const line of readLines(body)) {
+    if (line.trim()) {
+      yield JSON.parse(line);
+    }
+  }
+}
+
+/**
+ * Build an OpenAI-style chat.completion.chunk
+ */
+export function createChunk(
+  id: string,
+  model: string,
+  created: number,
+  delta: { role?: string; content?: string },
+  finishReason: string | null = null
+): AIStreamChunk {
+  return {
+    id,
+    object: 'chat.completion.chunk',
+    created,
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }]
+  };
+}
+
+/**
+ * Build the trailing usage chunk (empty choices, as OpenAI does with include_usage)
+ */
+export function createUsageChunk(
+  id: string,
+  model: string,
+  created: number,
+  usage: AIUsage
+): AIStreamChunk {
+  return {
+    id,
+    object: 'chat.completion.chunk',
+    created,
+    model,
+    choices: [],
+    usage
+  };
+}
+
+/**
+ * Encode chunks as an SSE byte stream terminated by a [DONE] frame.
+ * Errors raised mid-stream are sent as a final error frame since the
+ * status code has already been committed.
+ */
+export function toSSEStream(chunks: AsyncGenerator<AIStreamChunk>): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+
+        if (done) {
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+          controller.close();
+          return;
+        }
+
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(value)}\n\n`));
+      } catch (error) {
+        console.error('Stream error:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: { message } })}\n\n`));
+        controller.close();
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    }
+  });
+}
@@ -0,0 +1,176 @@
+// Structured output (response_format): native JSON modes where the provider
+// has one, prompt instructions otherwise, and every response validated
+
+import type { AIModel, AIRequest, AIResponse, ResponseFormat } from '../types';
+import type { ProviderAdapter } from '../providers/base';
+import { ProviderError } from '../providers/base';
+import { validateJsonSchema } from './jsonSchema';
+import { getMessageText } from './multimodal';
+
+/**
+ * Normalize a validated response_format: the `schema` shorthand becomes
+ * OpenAI's `json_schema` object, with a default name
+ */
+export function normalizeResponseFormat(format: any): ResponseFormat | undefined {
+  if (!format || format.type === 'text') {
+    return undefined;
+  }
+
+  if (format.type === 'json_object') {
+    return { type: 'json_object' };
+  }
+
+  const definition = format.json_schema || {};
+  return {
+    type: 'json_schema',
+    json_schema: {
+      name: definition.name || 'response',
+      schema: definition.schema ?? format.schema,
+      ...(definition.strict !== undefined ? { strict: definition.strict } : {})
+    }
+  };
+}
+
+/**
+ * Whether the target can enforce the format itself (catalog flag and adapter support)
+ */
+export function hasNativeJsonMode(adapter: ProviderAdapter, model: AIModel): boolean {
+  return adapter.capabilities.jsonMode && !!model.supports_json_mode;
+}
+
+/**
+ * Instruction asking for a bare JSON answer, matching the schema if there is one
+ */
+function getJsonInstructions(format: ResponseFormat): string {
+  const base = 'Respond only with a valid JSON value, without markdown code fences or any other text.';
+  return format.type === 'json_schema'
+    ? `${base} It must conform to this JSON Schema:\n${JSON.stringify(format.json_schema.schema)}`
+    : `${base} The value must be a JSON object.`;
+}
+
+/**
+ * Adapt the request's response_format to a target. Providers without a
+ * native JSON mode get instructions in the system prompt instead; json_object
+ * always does, as OpenAI requires the prompt to mention JSON.
+ */
+export function applyResponseFormat(request: AIRequest, native: boolean): AIRequest {
+  const format = request.response_format;
+  if (!format || format.type === 'text' || (native && format.type === 'json_schema')) {
+    return request;
+  }
+
+  // Merged into the first system message, since some adapters only send one
+  const instructions = getJsonInstructions(format);
+  const [first, ...rest] = request.messages;
+  const messages = first.role === 'system'
+    ? [{ ...first, content: `${getMessageText(first.content)}\n\n${instructions}` }, ...rest]
+    : [{ role: 'system' as const, content: instructions }, ...request.messages];
+
+  return { ...request, messages, response_format: native ? format : undefined };
+}
+
+/**
+ * Pull the JSON text out of model output, tolerating code fences and text
+ * around a single object or array
+ */
+function extractJson(content: string): { text: string; value: unknown } | null {
+  const trimmed = content.trim();
+  const fenced = /^```(?:json)?\s*([\s\S]*?)\s*```$/i.exec(trimmed);
+  const candidates = [fenced ? fenced[1] : trimmed];
+
+  const start = trimmed.search(/[{[]/);
+  const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+  if (start >= 0 && end > start) {
+    candidates.push(trimmed.slice(start, end + 1));
+  }
+
+  for (const text of candidates) {
+    try {
+      return { text, value: JSON.parse(text) };
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check a response against the requested format, returning the JSON text or
+ * what is wrong with it. Responses that call tools are not checked.
+ */
+export function checkStructuredOutput(response: AIResponse, format: ResponseFormat): { content: string } | { errors: string[] } {
+  const message = response.choices[0]?.message;
+  if (message?.tool_calls?.length) {
+    return { content: message.content ?? '' };
+  }
+
+  const json = extractJson(message?.content ?? '');
+  if (!json) {
+    return { errors: ['the response is not valid JSON'] };
+  }
+
+  if (format.type === 'json_object' && !(json.value && typeof json.value === 'object' && !Array.isArray(json.value))) {
+    return { errors: ['the response must be a JSON object'] };
+  }
+
+  const errors = format.type === 'json_schema' ? validateJsonSchema(json.value, format.json_schema.schema) : [];
+  return errors.length > 0 ? { errors } : { content: json.text };
+}
+
+/**
+ * Validate a response against the request's response_format, asking the
+ * model to repair invalid output up to maxRepairs times. Usage of every
+ * attempt is added up. Fails with `invalid_structured_output` when the
+ * output is still invalid.
+ */
+export async function enforceResponseFormat(
+  request: AIRequest,
+  format: ResponseFormat,
+  response: AIResponse,
+  resend: (request: AIRequest) => Promise<AIResponse>,
+  maxRepairs: number,
+  provider: string
+): Promise<AIResponse> {
+  let current = response;
+  const usage = { ...response.usage };
+
+  for (let repair = 0; ; repair++) {
+    const check = checkStructuredOutput(current, format);
+
+    if ('content' in check) {
+      const [choice, ...rest] = current.choices;
+      return {
+        ...current,
+        choices: [{ ...choice, message: { ...choice.message, content: check.content } }, ...rest],
+        usage
+      };
+    }
+
+    if (repair >= maxRepairs) {
+      throw new ProviderError(
+        `Model output does not match response_format${repair > 0 ? ` after ${repair} repair attempt(s)` : ''}: ${check.errors.join('; ')}`,
+        provider,
+        502,
+        'invalid_structured_output'
+      );
+    }
+
+    current = await resend({
+      ...request,
+      messages: [
+        ...request.messages,
+        { role: 'assistant', content: current.choices[0]?.message.content ?? '' },
+        {
+          role: 'user',
+          content: `Your previous response was invalid: ${check.errors.join('; ')}. ` +
+            'Reply with only the corrected JSON.'
+        }
+      ]
+    });
+
+    usage.prompt_tokens += current.usage.prompt_tokens;
+    usage.completion_tokens += current.usage.completion_tokens;
+    usage.total_tokens += current.usage.total_tokens;
+  }
+}
@@ -0,0 +1,586 @@
+// Request validation against the model catalog (OpenAI-style errors)
+
+import type { D1Database } from '@cloudflare/workers-types';
+import type { AIModel, AIRequest, EmbeddingRequest, OpenAIErrorBody } from '../types';
+import { resolveModelTargets } from './modelAliases';
+import { AUTO_MODEL, AUTO_PREFERENCES } from './smartRouting';
+import { CAPABILITY_FIELDS } from './modelCatalog';
+import { getModelByModelId } from './database';
+import { parseDataUrl, checkMediaData, hasMediaContent } from './multimodal';
+import { normalizeResponseFormat } from './structuredOutput';
+import { getProvider } from '../providers';
+
+export const MESSAGE_ROLES = ['system', 'user', 'assistant', 'tool'];
+
+const CONTENT_PART_TYPES = ['text', 'image_url', 'file'];
+
+const RESPONSE_FORMAT_TYPES = ['text', 'json_object', 'json_schema'];
+
+// Function (and response schema) names accepted by every provider
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+// Most inputs accepted in one embeddings request (the OpenAI limit)
+export const MAX_EMBEDDING_INPUTS = 2048;
+
+export type ValidationResult<T> = { value: T } | { error: OpenAIErrorBody };
+
+/**
+ * Build an OpenAI-style invalid_request_error body
+ */
+export function invalidRequest(message: string, param: string | null, code: string | null = null): OpenAIErrorBody {
+  return {
+    error: {
+      message,
+      type: 'invalid_request_error',
+      param,
+      code
+    }
+  };
+}
+
+/**
+ * Check the message list of a chat request
+ */
+function validateMessages(messages: unknown): OpenAIErrorBody | null {
+  if (!Array.isArray(messages)) {
+    return invalidRequest("'messages' must be an array", 'messages');
+  }
+
+  if (messages.length === 0) {
+    return invalidRequest("'messages' must contain at least one message", 'messages');
+  }
+
+  for (let i = 0; i < messages.length; i++) {
+    const message = messages[i];
+
+    if (!message || typeof message !== 'object') {
+      return invalidRequest(`messages[${i}] must be an object`, `messages[${i}]`);
+    }
+
+    if (!MESSAGE_ROLES.includes(message.role)) {
+      return invalidRequest(
+        `Invalid role '${message.role}' in messages[${i}]. Supported roles: ${MESSAGE_ROLES.join(', ')}`,
+        `messages[${i}].role`
+      );
+    }
+
+    const hasToolCalls = message.role === 'assistant' && message.tool_calls !== undefined && message.tool_calls !== null;
+    if (Array.isArray(message.content)) {
+      const error = validateContentParts(message, i);
+      if (error) {
+        return error;
+      }
+    } else if (typeof message.content !== 'string' && !(hasToolCalls && message.content === null)) {
+      return invalidRequest(
+        `messages[${i}].content must be a string or an array of content parts`,
+        `messages[${i}].content`
+      );
+    }
+
+    if (message.tool_calls !== undefined && message.tool_calls !== null) {
+      const error = validateToolCalls(message, i);
+      if (error) {
+        return error;
+      }
+    }
+
+    if (message.role === 'tool' && (typeof message.tool_call_id !== 'string' || !message.tool_call_id)) {
+      return invalidRequest(`messages[${i}].tool_call_id is required for tool messages`, `messages[${i}].tool_call_id`);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check the text, image and document parts of a multimodal message; images
+ * and documents are only accepted from the user
+ */
+function validateContentParts(message: any, index: number): OpenAIErrorBody | null {
+  if (message.content.length === 0) {
+    return invalidRequest(`messages[${index}].content must not be empty`, `messages[${index}].content`);
+  }
+
+  for (let j = 0; j < message.content.length; j++) {
+    const part = message.content[j];
+    const param = `messages[${index}].content[${j}]`;
+
+    if (!part || typeof part !== 'object' || !CONTENT_PART_TYPES.includes(part.type)) {
+      return invalidRequest(`${param}.type must be one of: ${CONTENT_PART_TYPES.join(', ')}`, `${param}.type`);
+    }
+
+    if (part.type === 'text') {
+      if (typeof part.text !== 'string') {
+        return invalidRequest(`${param}.text must be a string`, `${param}.text`);
+      }
+      continue;
+    }
+
+    if (message.role !== 'user') {
+      return invalidRequest(`${param}: ${part.type} parts are only allowed in user messages`, `${param}.type`);
+    }
+
+    if (part.type === 'image_url') {
+      const url = part.image_url?.url;
+      if (typeof url !== 'string') {
+        return invalidRequest(`${param}.image_url.url must be a string`, `${param}.image_url.url`);
+      }
+
+      if (part.image_url.detail !== undefined && !['auto', 'low', 'high'].includes(part.image_url.detail)) {
+        return invalidRequest(`${param}.image_url.detail must be 'auto', 'low' or 'high'`, `${param}.image_url.detail`);
+      }
+
+      const image = parseDataUrl(url);
+      if (!image && !/^https?:\/\//i.test(url)) {
+        return invalidRequest(
+          `${param}.image_url.url must be an http(s) URL or a base64 data URL`,
+          `${param}.image_url.url`
+        );
+      }
+
+      const error = image && checkMediaData(image, 'image');
+      if (error) {
+        return invalidRequest(error, `${param}.image_url.url`);
+      }
+      continue;
+    }
+
+    const document = typeof part.file?.file_data === 'string' ? parseDataUrl(part.file.file_data) : null;
+    if (!document) {
+      return invalidRequest(`${param}.file.file_data must be a base64 data URL`, `${param}.file.file_data`);
+    }
+
+    const error = checkMediaData(document, 'document');
+    if (error) {
+      return invalidRequest(error, `${param}.file.file_data`);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check that every model the request may be served by accepts image and
+ * document input when the messages carry any (`auto` filters its candidates instead)
+ */
+function validateMediaSupport(body: any, models: AIModel[]): OpenAIErrorBody | null {
+  if (!hasMediaContent(body)) {
+    return null;
+  }
+
+  const unsupported = models.find(model => !model.supports_vision || !getProvider(model.provider)?.capabilities.vision);
+  return unsupported
+    ? invalidRequest(`${unsupported.model_id} does not support image or document input`, 'messages')
+    : null;
+}
+
+/**
+ * Check response_format: text, json_object, or json_schema with a schema
+ * given as `json_schema: { name?, schema, strict? }` or the `schema` shorthand
+ */
+function validateResponseFormat(format: any): OpenAIErrorBody | null {
+  if (format === undefined || format === null) {
+    return null;
+  }
+
+  if (typeof format !== 'object' || !RESPONSE_FORMAT_TYPES.includes(format.type)) {
+    return invalidRequest(
+      `'response_format.type' must be one of: ${RESPONSE_FORMAT_TYPES.join(', ')}`,
+      'response_format.type'
+    );
+  }
+
+  if (format.type !== 'json_schema') {
+    return null;
+  }
+
+  const definition = format.json_schema;
+  if (definition !== undefined && (!definition || typeof definition !== 'object' || Array.isArray(definition))) {
+    return invalidRequest("'response_format.json_schema' must be an object", 'response_format.json_schema');
+  }
+
+  const schema = definition?.schema ?? format.schema;
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return invalidRequest(
+      "'response_format.json_schema.schema' must be a JSON Schema object",
+      'response_format.json_schema.schema'
+    );
+  }
+
+  if (definition?.name !== undefined && (typeof definition.name !== 'string' || !TOOL_NAME_PATTERN.test(definition.name))) {
+    return invalidRequest(
+      "'response_format.json_schema.name' must be 1-64 letters, digits, underscores or dashes",
+      'response_format.json_schema.name'
+    );
+  }
+
+  if (definition?.strict !== undefined && typeof definition.strict !== 'boolean') {
+    return invalidRequest("'response_format.json_schema.strict' must be a boolean", 'response_format.json_schema.strict');
+  }
+
+  return null;
+}
+
+/**
+ * Check the tool calls recorded on an assistant message
+ */
+function validateToolCalls(message: any, index: number): OpenAIErrorBody | null {
+  const param = `messages[${index}].tool_calls`;
+
+  if (message.role !== 'assistant') {
+    return invalidRequest(`${param} is only allowed on assistant messages`, param);
+  }
+
+  if (!Array.isArray(message.tool_calls) || message.tool_calls.length === 0) {
+    return invalidRequest(`${param} must be a non-empty array`, param);
+  }
+
+  for (const call of message.tool_calls) {
+    if (!call || typeof call !== 'object' || typeof call.id !== 'string' || !call.id ||
+        call.type !== 'function' || typeof call.function?.name !== 'string' ||
+        typeof call.function?.arguments !== 'string') {
+      return invalidRequest(
+        `${param} entries must be { id, type: 'function', function: { name, arguments } } with string arguments`,
+        param
+      );
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check tool definitions and tool_choice, and that every model the request
+ * may be served by supports tool calling (`auto` filters its candidates instead)
+ */
+function validateTools(body: any, models: AIModel[]): OpenAIErrorBody | null {
+  if (body.tools === undefined || body.tools === null) {
+    return body.tool_choice !== undefined && body.tool_choice !== null
+      ? invalidRequest("'tool_choice' is only allowed when 'tools' are specified", 'tool_choice')
+      : null;
+  }
+
+  if (!Array.isArray(body.tools) || body.tools.length === 0) {
+    return invalidRequest("'tools' must be a non-empty array", 'tools');
+  }
+
+  const names = new Set<string>();
+  for (let i = 0; i < body.tools.length; i++) {
+    const tool = body.tools[i];
+
+    if (!tool || typeof tool !== 'object' || tool.type !== 'function' || !tool.function || typeof tool.function !== 'object') {
+      return invalidRequest(`tools[${i}] must be { type: 'function', function: { name, description?, parameters? } }`, `tools[${i}]`);
+    }
+
+    if (typeof tool.function.name !== 'string' || !TOOL_NAME_PATTERN.test(tool.function.name)) {
+      return invalidRequest(
+        `tools[${i}].function.name must be 1-64 letters, digits, underscores or dashes`,
+        `tools[${i}].function.name`
+      );
+    }
+
+    if (names.has(tool.function.name)) {
+      return invalidRequest(`Duplicate tool name: ${tool.function.name}`, `tools[${i}].function.name`);
+    }
+    names.add(tool.function.name);
+
+    if (tool.function.description !== undefined && typeof tool.function.description !== 'string') {
+      return invalidRequest(`tools[${i}].function.description must be a string`, `tools[${i}].function.description`);
+    }
+
+    const parameters = tool.function.parameters;
+    if (parameters !== undefined && (!parameters || typeof parameters !== 'object' || Array.isArray(parameters))) {
+      return invalidRequest(`tools[${i}].function.parameters must be a JSON Schema object`, `tools[${i}].function.parameters`);
+    }
+  }
+
+  const choice = body.tool_choice;
+  if (choice !== undefined && choice !== null && !['none', 'auto', 'required'].includes(choice)) {
+    if (typeof choice !== 'object' || choice.type !== 'function' || typeof choice.function?.name !== 'string') {
+      return invalidRequest(
+        "'tool_choice' must be 'none', 'auto', 'required' or { type: 'function', function: { name } }",
+        'tool_choice'
+      );
+    }
+
+    if (!names.has(choice.function.name)) {
+      return invalidRequest(`'tool_choice' names an unknown tool: ${choice.function.name}`, 'tool_choice');
+    }
+  }
+
+  const unsupported = models.find(model => !model.supports_tools || !getProvider(model.provider)?.capabilities.tools);
+  if (unsupported) {
+    return invalidRequest(`${unsupported.model_id} does not support tool calling`, 'tools');
+  }
+
+  return null;
+}
+
+/**
+ * Check sampling parameters against the catalog model and its provider
+ */
+function validateParameters(body: any, model: AIModel): OpenAIErrorBody | null {
+  if (body.temperature !== undefined && body.temperature !== null) {
+    const maxTemperature = getProvider(model.provider)?.maxTemperature ?? 2;
+
+    if (typeof body.temperature !== 'number' || body.temperature < 0 || body.temperature > maxTemperature) {
+      return invalidRequest(
+        `'temperature' must be a number between 0 and ${maxTemperature} for ${model.model_id}`,
+        'temperature'
+      );
+    }
+  }
+
+  if (body.max_tokens !== undefined && body.max_tokens !== null) {
+    if (!Number.isInteger(body.max_tokens) || body.max_tokens < 1) {
+      return invalidRequest("'max_tokens' must be a positive integer", 'max_tokens');
+    }
+
+    const limit = model.max_output_tokens ?? model.max_tokens;
+    if (limit && body.max_tokens > limit) {
+      return invalidRequest(
+        `'max_tokens' is too large: ${body.max_tokens}. ${model.model_id} supports at most ${limit} completion tokens.`,
+        'max_tokens'
+      );
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check the preference and constraints of an `auto` request. Parameters are
+ * checked against the candidate models when one is picked, so only their
+ * types are checked here.
+ */
+function validateAutoRouting(body: any): OpenAIErrorBody | null {
+  if (body.temperature !== undefined && body.temperature !== null &&
+      (typeof body.temperature !== 'number' || body.temperature < 0)) {
+    return invalidRequest("'temperature' must be a non-negative number", 'temperature');
+  }
+
+  if (body.max_tokens !== undefined && body.max_tokens !== null &&
+      (!Number.isInteger(body.max_tokens) || body.max_tokens < 1)) {
+    return invalidRequest("'max_tokens' must be a positive integer", 'max_tokens');
+  }
+
+  const routing = body.routing;
+  if (routing === undefined || routing === null) {
+    return null;
+  }
+
+  if (typeof routing !== 'object' || Array.isArray(routing)) {
+    return invalidRequest("'routing' must be an object", 'routing');
+  }
+
+  if (routing.preference !== undefined && !AUTO_PREFERENCES.includes(routing.preference)) {
+    return invalidRequest(
+      `'routing.preference' must be one of: ${AUTO_PREFERENCES.join(', ')}`,
+      'routing.preference'
+    );
+  }
+
+  if (routing.tier !== undefined && (typeof routing.tier !== 'string' || !routing.tier)) {
+    return invalidRequest("'routing.tier' must be a non-empty string", 'routing.tier');
+  }
+
+  if (routing.minContextWindow !== undefined &&
+      (!Number.isInteger(routing.minContextWindow) || routing.minContextWindow < 1)) {
+    return invalidRequest("'routing.minContextWindow' must be a positive integer", 'routing.minContextWindow');
+  }
+
+  if (routing.capabilities !== undefined &&
+      (!Array.isArray(routing.capabilities) || routing.capabilities.some((c: unknown) => !(typeof c === 'string' && c in CAPABILITY_FIELDS)))) {
+    return invalidRequest(
+      `'routing.capabilities' must be an array of: ${Object.keys(CAPABILITY_FIELDS).join(', ')}`,
+      'routing.capabilities'
+    );
+  }
+
+  if (routing.providers !== undefined &&
+      (!Array.isArray(routing.providers) || routing.providers.some((p: unknown) => typeof p !== 'string'))) {
+    return invalidRequest("'routing.providers' must be an array of provider names", 'routing.providers');
+  }
+
+  return null;
+}
+
+/**
+ * Check the response cache opt-in: true, or an object with a TTL in seconds
+ */
+function validateCacheOption(cache: unknown): OpenAIErrorBody | null {
+  if (cache === undefined || cache === null || typeof cache === 'boolean') {
+    return null;
+  }
+
+  if (typeof cache !== 'object' || Array.isArray(cache)) {
+    return invalidRequest("'cache' must be a boolean or an object", 'cache');
+  }
+
+  const ttl = (cache as { ttl?: unknown }).ttl;
+  if (ttl !== undefined && (!Number.isInteger(ttl) || (ttl as number) < 1)) {
+    return invalidRequest("'cache.ttl' must be a positive integer (seconds)", 'cache.ttl');
+  }
+
+  return null;
+}
+
+/**
+ * Look up the catalog models a requested model or alias can be served by;
+ * at least one must exist and be active. `auto` is resolved at routing time.
+ */
+async function resolveModels(db: D1Database, modelId: unknown): Promise<ValidationResult<AIModel[]>> {
+  if (typeof modelId !== 'string' || !modelId) {
+    return { error: invalidRequest("'model' is required", 'model') };
+  }
+
+  if (modelId === AUTO_MODEL) {
+    return { value: [] };
+  }
+
+  const { models } = await resolveModelTargets(db, modelId);
+  if (models.length === 0) {
+    return { error: invalidRequest(`The model '${modelId}' does not exist or is not active`, 'model', 'model_not_found') };
+  }
+
+  if (models.some(model => model.model_type === 'embedding')) {
+    return { error: invalidRequest(`'${modelId}' is an embedding model; use /api/ai/embeddings`, 'model') };
+  }
+
+  return { value: models };
+}
+
+/**
+ * Check sampling parameters against every model the request may be served by
+ */
+function validateParametersForAll(body: any, models: AIModel[]): OpenAIErrorBody | null {
+  for (const model of models) {
+    const error = validateParameters(body, model);
+    if (error) {
+      return error;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate a chat request body before it is routed to a provider
+ */
+export async function validateChatRequest(db: D1Database, body: any): Promise<ValidationResult<AIRequest>> {
+  if (!body || typeof body !== 'object') {
+    return { error: invalidRequest('Request body must be a JSON object', null) };
+  }
+
+  const models = await resolveModels(db, body.model);
+  if ('error' in models) {
+    return models;
+  }
+
+  const error = validateMessages(body.messages) ||
+    validateMediaSupport(body, models.value) ||
+    validateTools(body, models.value) ||
+    validateResponseFormat(body.response_format) ||
+    validateCacheOption(body.cache) ||
+    (body.model === AUTO_MODEL ? validateAutoRouting(body) : validateParametersForAll(body, models.value));
+  if (error) {
+    return { error };
+  }
+
+  return { value: { ...body, response_format: normalizeResponseFormat(body.response_format) } as AIRequest };
+}
+
+/**
+ * Validate a text completion body and convert it to a chat request
+ */
+export async function validateCompletionRequest(db: D1Database, body: any): Promise<ValidationResult<AIRequest>> {
+  if (!body || typeof body !== 'object') {
+    return { error: invalidRequest('Request body must be a JSON object', null) };
+  }
+
+  const models = await resolveModels(db, body.model);
+  if ('error' in models) {
+    return models;
+  }
+
+  if (typeof body.prompt !== 'string' || !body.prompt) {
+    return { error: invalidRequest("'prompt' must be a non-empty string", 'prompt') };
+  }
+
+  const error = validateCacheOption(body.cache) ||
+    (body.model === AUTO_MODEL ? validateAutoRouting(body) : validateParametersForAll(body, models.value));
+  if (error) {
+    return { error };
+  }
+
+  return {
+    value: {
+      model: body.model,
+      messages: [{ role: 'user', content: body.prompt }],
+      temperature: body.temperature,
+      max_tokens: body.max_tokens,
+      routing: body.routing,
+      cache: body.cache
+    }
+  };
+}
+
+/**
+ * Validate an OpenAI-style embeddings request body
+ */
+export async function validateEmbeddingRequest(db: D1Database, body: any): Promise<ValidationResult<EmbeddingRequest>> {
+  if (!body || typeof body !== 'object') {
+    return { error: invalidRequest('Request body must be a JSON object', null) };
+  }
+
+  if (typeof body.model !== 'string' || !body.model) {
+    return { error: invalidRequest("'model' is required", 'model') };
+  }
+
+  const model = await getModelByModelId(db, body.model);
+  if (!model) {
+    return { error: invalidRequest(`The model '${body.model}' does not exist or is not active`, 'model', 'model_not_found') };
+  }
+
+  if (model.model_type !== 'embedding') {
+    return { error: invalidRequest(`'${body.model}' is not an embedding model`, 'model') };
+  }
+
+  const inputs = Array.isArray(body.input) ? body.input : [body.input];
+  if (inputs.length === 0 || inputs.length > MAX_EMBEDDING_INPUTS) {
+    return { error: invalidRequest(`'input' must contain between 1 and ${MAX_EMBEDDING_INPUTS} items`, 'input') };
+  }
+
+  if (inputs.some((input: unknown) => typeof input !== 'string' || !input)) {
+    return { error: invalidRequest("'input' must be a non-empty string or an array of non-empty strings", 'input') };
+  }
+
+  if (body.encoding_format !== undefined && !['float', 'base64'].includes(body.encoding_format)) {
+    return { error: invalidRequest("'encoding_format' must be 'float' or 'base64'", 'encoding_format') };
+  }
+
+  if (body.dimensions !== undefined) {
+    if (!Number.isInteger(body.dimensions) || body.dimensions < 1) {
+      return { error: invalidRequest("'dimensions' must be a positive integer", 'dimensions') };
+    }
+
+    if (model.embedding_dimensions && body.dimensions > model.embedding_dimensions) {
+      return {
+        error: invalidRequest(
+          `'dimensions' is too large: ${model.model_id} returns at most ${model.embedding_dimensions} dimensions`,
+          'dimensions'
+        )
+      };
+    }
+  }
+
+  return {
+    value: {
+      model: body.model,
+      input: body.input,
+      encoding_format: body.encoding_format,
+      dimensions: body.dimensions,
+      user: typeof body.user === 'string' ? body.user : undefined
+    }
+  };
+}
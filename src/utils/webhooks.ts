@@ -0,0 +1,59 @@
+// Outbound webhook delivery
+
+const encoder = new TextEncoder();
+
+/**
+ * POST an event to a webhook URL. When a secret is configured the body is
+ * signed with HMAC-SHA256 in the X-Webhook-Signature header.
+ * Delivery failures are logged and never thrown.
+ */
+export async function sendWebhook(
+  url: string,
+  event: string,
+  data: Record<string, unknown>,
+  secret?: string
+): Promise<boolean> {
+  const body = JSON.stringify({
+    event,
+    timestamp: new Date().toISOString(),
+    data
+  });
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-Webhook-Event': event
+  };
+
+  if (secret) {
+    headers['X-Webhook-Signature'] = await signPayload(body, secret);
+  }
+
+  try {
+    const response = await fetch(url, { method: 'POST', headers, body });
+    if (!response.ok) {
+      console.error(`Webhook ${event} to ${url} failed with status ${response.status}`);
+    }
+    return response.ok;
+  } catch (error) {
+    console.error(`Webhook ${event} to ${url} failed:`, error);
+    return false;
+  }
+}
+
+/**
+ * Hex-encoded HMAC-SHA256 of the payload
+ */
+async function signPayload(payload: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+  return Array.from(new Uint8Array(signature))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,11 @@
+import { JWT_SECRET } from '../../src/middleware/auth';
+import { generateJWT } from '../../src/utils/auth';
+
+/**
+ * Headers for a JSON request from a logged-in user
+ */
+export async function sessionHeaders(userId: number, role = 'user'): Promise<Record<string, string>> {
+  const token = await generateJWT({ userId, email: `user${userId}@example.com`, role }, JWT_SECRET);
+
+  return { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+}
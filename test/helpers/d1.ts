@@ -0,0 +1,145 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { Miniflare } from 'miniflare';
+import type { ApiKey, ApiKeyScopes } from '../../src/types';
+import { generateApiKey, prepareApiKeyForStorage } from '../../src/utils/auth';
+import { createApiKey } from '../../src/utils/database';
+
+/**
+ * A D1 database for tests: Miniflare's local D1 with the migrations applied
+ */
+export type TestDatabase = {
+  db: D1Database;
+  dispose(): Promise<void>;
+};
+
+type Statement = {
+  sql: string;
+  params: unknown[];
+};
+
+/**
+ * Apply the migrations in order, one statement at a time
+ */
+async function migrate(db: D1Database) {
+  for (const file of readdirSync('migrations').sort()) {
+    const sql = readFileSync(`migrations/${file}`, 'utf8')
+      .split('\n')
+      .filter(row => !row.trim().startsWith('--'))
+      .join('\n');
+
+    for (const statement of sql.split(/;\s*(?:\n|$)/)) {
+      if (statement.trim()) {
+        await db.prepare(statement).run();
+      }
+    }
+  }
+}
+
+/**
+ * Worker running the queries sent by the test process against its D1 binding
+ */
+const QUERY_WORKER = `
+export default {
+  async fetch(request, env) {
+    const { method, column, statements } = await request.json();
+    const prepared = statements.map(({ sql, params }) => env.DB.prepare(sql).bind(...params));
+    try {
+      const result = method === 'batch'
+        ? await env.DB.batch(prepared)
+        : method === 'first' && column !== undefined
+          ? await prepared[0].first(column)
+          : await prepared[0][method]();
+      return Response.json({ result: result ?? null });
+    } catch (error) {
+      return Response.json({ error: error.message });
+    }
+  }
+};
+`;
+
+/**
+ * A D1Database sending each query to QUERY_WORKER. Miniflare's own binding
+ * proxy prepares statements with a blocking call that intermittently picks up
+ * the reply meant for another call, so the binding is only used inside workerd.
+ */
+function createD1Client(mf: Miniflare): D1Database {
+  const send = async (method: string, statements: Statement[], column?: string) => {
+    const response = await mf.dispatchFetch('http://d1.test/', {
+      method: 'POST',
+      body: JSON.stringify({ method, column, statements })
+    });
+    const { result, error } = await response.json() as { result: unknown; error?: string };
+    if (error !== undefined) {
+      throw new Error(error);
+    }
+    return result;
+  };
+
+  const statement = (current: Statement): D1PreparedStatement => ({
+    current,
+    bind: (...params: unknown[]) => statement({ sql: current.sql, params }),
+    first: (column?: string) => send('first', [current], column),
+    run: () => send('run', [current]),
+    all: () => send('all', [current]),
+    raw: () => send('raw', [current])
+  }) as unknown as D1PreparedStatement;
+
+  return {
+    prepare: (sql: string) => statement({ sql, params: [] }),
+    batch: (statements: D1PreparedStatement[]) =>
+      send('batch', statements.map(s => (s as unknown as { current: Statement }).current))
+  } as unknown as D1Database;
+}
+
+/**
+ * Start a fresh in-memory D1 database with the schema migrated
+ */
+export async function createTestDatabase(): Promise<TestDatabase> {
+  const mf = new Miniflare({ modules: true, script: QUERY_WORKER, d1Databases: ['DB'] });
+  const db = createD1Client(mf);
+  await migrate(db);
+
+  return { db, dispose: () => mf.dispose() };
+}
+
+/**
+ * Insert a user, returning its id
+ */
+export async function insertUser(db: D1Database, username = 'test'): Promise<number> {
+  const row = await db.prepare(`
+    INSERT INTO users (email, username, password_hash, api_key) VALUES (?, ?, 'x', ?) RETURNING id
+  `).bind(`${username}@example.com`, username, `apk_${username}`).first<{ id: number }>();
+
+  return row!.id;
+}
+
+/**
+ * Insert a catalog model, returning its id
+ */
+export async function insertModel(
+  db: D1Database,
+  fields: { provider: string; model_id: string } & Record<string, unknown>
+): Promise<number> {
+  const values = { model_name: fields.model_id, max_tokens: 128000, is_active: 1, ...fields };
+  const columns = Object.keys(values);
+  const row = await db.prepare(`
+    INSERT INTO ai_models (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')}) RETURNING id
+  `).bind(...Object.values(values)).first<{ id: number }>();
+
+  return row!.id;
+}
+
+/**
+ * Create a named API key for a user, returning the row and the full key
+ */
+export async function insertApiKey(
+  db: D1Database,
+  userId: number,
+  scopes: ApiKeyScopes = {},
+  expiresAt: string | null = null
+): Promise<{ key: ApiKey; apiKey: string }> {
+  const apiKey = generateApiKey();
+  const key = await createApiKey(db, userId, 'Test key', await prepareApiKeyForStorage(apiKey), expiresAt, scopes);
+
+  return { key, apiKey };
+}
@@ -0,0 +1,134 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../../src/index';
+import type { Bindings } from '../../src/types';
+import { resetBudget, toSqlTimestamp, upsertBudget } from '../../src/utils/database';
+import { getBudgetPeriod } from '../../src/utils/budgets';
+import type { TestDatabase } from '../helpers/d1';
+import { createTestDatabase, insertModel, insertUser } from '../helpers/d1';
+
+const WEBHOOK_URL = 'https://hooks.example.com/budget';
+
+describe('getBudgetPeriod', () => {
+  it('runs daily budgets over the UTC day and monthly budgets over the UTC month', () => {
+    const now = new Date('2026-02-14T18:30:00Z');
+
+    expect(getBudgetPeriod('daily', now)).toEqual({
+      start: new Date('2026-02-14T00:00:00Z'),
+      end: new Date('2026-02-15T00:00:00Z')
+    });
+    expect(getBudgetPeriod('monthly', now)).toEqual({
+      start: new Date('2026-02-01T00:00:00Z'),
+      end: new Date('2026-03-01T00:00:00Z')
+    });
+  });
+});
+
+describe('budgetGuard', () => {
+  let database: TestDatabase;
+  let env: Bindings;
+  let userId: number;
+  let apiKey: string;
+  let webhooks: string[];
+
+  function chat() {
+    return app.request('/api/ai/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-API-Key': apiKey },
+      body: JSON.stringify({ model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Hello' }] })
+    }, env);
+  }
+
+  /**
+   * Record earlier spend for the user
+   */
+  async function spend(cost: number) {
+    await database.db.prepare(`
+      INSERT INTO request_logs (user_id, endpoint, method, status_code, request_size, response_size, latency_ms, cost, created_at)
+      VALUES (?, '/api/ai/chat', 'POST', 200, 0, 0, 0, ?, ?)
+    `).bind(userId, cost, toSqlTimestamp(new Date(Date.now() - 1000))).run();
+  }
+
+  function budget(limits: { softLimit?: number; hardLimit?: number }) {
+    return upsertBudget(database.db, {
+      userId,
+      apiKeyId: null,
+      period: 'monthly',
+      limitType: 'cost',
+      softLimit: limits.softLimit ?? null,
+      hardLimit: limits.hardLimit ?? null,
+      webhookUrl: WEBHOOK_URL
+    });
+  }
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    await insertModel(database.db, { provider: 'openai', model_id: 'gpt-4o-mini', cost_per_1k_tokens: 0.0006 });
+    env = { DB: database.db, OPENAI_API_KEY: 'sk-test' } as unknown as Bindings;
+  }, 60000);
+
+  beforeEach(async () => {
+    const username = `user${Date.now()}${Math.random().toString(36).slice(2)}`;
+    userId = await insertUser(database.db, username);
+    apiKey = `apk_${username}`;
+    webhooks = [];
+
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit) => {
+      if (url === WEBHOOK_URL) {
+        webhooks.push(JSON.parse(init.body as string).event);
+        return new Response(null, { status: 204 });
+      }
+      return Response.json({
+        id: 'chatcmpl-1',
+        model: 'gpt-4o-mini',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Hi' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 }
+      });
+    }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await database?.dispose();
+  });
+
+  it('rejects requests once the hard limit is reached', async () => {
+    await budget({ hardLimit: 5 });
+    await spend(5);
+
+    const response = await chat();
+
+    expect(response.status).toBe(402);
+    expect(await response.json()).toMatchObject({
+      error: 'Budget exceeded',
+      budget: { spent: 5, remaining: 0, hardLimitReached: true }
+    });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('warns past the soft limit and sends the webhook once per period', async () => {
+    await budget({ softLimit: 1, hardLimit: 5 });
+    await spend(2);
+
+    const first = await chat();
+    const second = await chat();
+
+    expect(first.status).toBe(200);
+    expect(first.headers.get('X-Budget-Warning')).toBe('monthly cost budget: $2.00 of $1.00 soft limit used');
+    expect(second.headers.get('X-Budget-Warning')).not.toBeNull();
+    expect(webhooks).toEqual(['budget.soft_limit_reached']);
+  });
+
+  it('stops counting earlier spend after a reset', async () => {
+    const { id } = await budget({ hardLimit: 5 });
+    await spend(5);
+
+    await resetBudget(database.db, id);
+
+    expect((await chat()).status).toBe(200);
+  });
+});
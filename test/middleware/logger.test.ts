@@ -0,0 +1,109 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../../src/index';
+import type { Bindings } from '../../src/types';
+import type { TestDatabase } from '../helpers/d1';
+import { createTestDatabase, insertModel, insertUser } from '../helpers/d1';
+
+const encoder = new TextEncoder();
+
+function sseFrame(data: unknown) {
+  return encoder.encode(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+function delta(content: string) {
+  return {
+    id: 'chatcmpl-test',
+    object: 'chat.completion.chunk',
+    created: 1767225600,
+    model: 'gpt-4o-mini',
+    choices: [{ index: 0, delta: { content }, finish_reason: null }]
+  };
+}
+
+describe('streamed request logs', () => {
+  let database: TestDatabase;
+  let env: Bindings;
+  let username: string;
+  let userId: number;
+
+  function stream() {
+    return app.request('/api/ai/stream', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-API-Key': `apk_${username}` },
+      body: JSON.stringify({ model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Tell me a long story' }] })
+    }, env);
+  }
+
+  async function readLog() {
+    return database.db.prepare('SELECT * FROM request_logs WHERE user_id = ?').bind(userId).first<Record<string, any>>();
+  }
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    await insertModel(database.db, { provider: 'openai', model_id: 'gpt-4o-mini', cost_per_1k_tokens: 0.0006 });
+    env = { DB: database.db, OPENAI_API_KEY: 'sk-test' } as unknown as Bindings;
+  }, 60000);
+
+  beforeEach(async () => {
+    username = `user${Date.now()}${Math.random().toString(36).slice(2)}`;
+    userId = await insertUser(database.db, username);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await database?.dispose();
+  });
+
+  it('logs a completed stream with its reported usage', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new ReadableStream({
+      start(controller) {
+        controller.enqueue(sseFrame(delta('Once upon a time')));
+        controller.enqueue(sseFrame({ ...delta(''), choices: [], usage: { prompt_tokens: 10, completion_tokens: 4, total_tokens: 14 } }));
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      }
+    }), { headers: { 'Content-Type': 'text/event-stream' } })));
+
+    const response = await stream();
+    const body = await response.text();
+
+    expect(await readLog()).toMatchObject({
+      endpoint: '/api/ai/stream',
+      status_code: 200,
+      response_size: encoder.encode(body).byteLength,
+      total_tokens: 14,
+      error_message: null
+    });
+  });
+
+  it('logs and bills a stream the client cancels', async () => {
+    // An upstream that keeps generating until it is stopped
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new ReadableStream({
+      pull(controller) {
+        controller.enqueue(sseFrame(delta('word ')));
+      }
+    }), { headers: { 'Content-Type': 'text/event-stream' } })));
+
+    const response = await stream();
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.read();
+    await reader.cancel();
+
+    const log = await readLog();
+    expect(log).toMatchObject({
+      status_code: 200,
+      error_message: 'Client closed the stream before it finished'
+    });
+    expect(log!.response_size).toBeGreaterThan(0);
+    // Without a usage chunk, tokens are estimated from the text streamed so far
+    expect(log!.prompt_tokens).toBe(Math.ceil('Tell me a long story'.length / 4));
+    expect(log!.completion_tokens).toBeGreaterThan(0);
+    expect(log!.cost).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,100 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../../src/index';
+import type { Bindings } from '../../src/types';
+import type { TestDatabase } from '../helpers/d1';
+import { createTestDatabase, insertApiKey, insertModel, insertUser } from '../helpers/d1';
+
+describe('rate limits on the compatible /v1 routes', () => {
+  let database: TestDatabase;
+  let env: Bindings;
+  let userId: number;
+  let apiKey: string;
+
+  /**
+   * Log `count` requests to a path for the user, as requestLogger would
+   */
+  async function logRequests(endpoint: string, count: number) {
+    await database.db.prepare(`
+      WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < ?)
+      INSERT INTO request_logs (user_id, endpoint, method, status_code, request_size, response_size, latency_ms)
+      SELECT ?, ?, 'POST', 200, 0, 0, 0 FROM n
+    `).bind(count, userId, endpoint).run();
+  }
+
+  function post(path: string, body: unknown, headers: Record<string, string> = {}) {
+    return app.request(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}`, ...headers },
+      body: JSON.stringify(body)
+    }, env);
+  }
+
+  const chat = { model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Hi' }] };
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    await insertModel(database.db, { provider: 'openai', model_id: 'gpt-4o-mini', cost_per_1k_tokens: 0.0006 });
+    env = { DB: database.db, OPENAI_API_KEY: 'sk-test' } as unknown as Bindings;
+  }, 60000);
+
+  beforeEach(async () => {
+    userId = await insertUser(database.db, `user${Date.now()}${Math.random().toString(36).slice(2)}`);
+    ({ apiKey } = await insertApiKey(database.db, userId));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await database?.dispose();
+  });
+
+  it('counts /v1/chat/completions requests toward the chat quota', async () => {
+    await logRequests('/v1/chat/completions', 100);
+
+    const response = await post('/v1/chat/completions', chat);
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('0');
+  });
+
+  it('counts /v1/messages requests toward the chat quota', async () => {
+    await logRequests('/v1/messages', 100);
+
+    const response = await post('/v1/messages', { ...chat, max_tokens: 100 }, { 'anthropic-version': '2023-06-01' });
+
+    expect(response.status).toBe(429);
+  });
+
+  it('shares one quota between /api/ai/chat and its /v1 mirrors', async () => {
+    await logRequests('/api/ai/chat', 40);
+    await logRequests('/v1/chat/completions', 40);
+    await logRequests('/v1/messages', 20);
+
+    expect((await post('/v1/chat/completions', chat)).status).toBe(429);
+    expect((await post('/api/ai/chat', chat)).status).toBe(429);
+  });
+
+  it('lets requests through while quota remains', async () => {
+    await logRequests('/v1/chat/completions', 98);
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({
+      id: 'chatcmpl-test',
+      object: 'chat.completion',
+      created: 1767225600,
+      model: 'gpt-4o-mini',
+      choices: [{ index: 0, message: { role: 'assistant', content: 'Hello' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 }
+    })));
+
+    const first = await post('/v1/chat/completions', chat);
+    expect(first.status).toBe(200);
+    expect(first.headers.get('X-RateLimit-Remaining')).toBe('2');
+
+    // The request just served was logged under /v1 and now counts too
+    expect((await post('/v1/chat/completions', chat)).headers.get('X-RateLimit-Remaining')).toBe('1');
+    expect((await post('/v1/chat/completions', chat)).status).toBe(429);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import type { AIRequest, ChatMessage, ToolDefinition } from '../../src/types';
+import { anthropicAdapter } from '../../src/providers/anthropic';
+import { cohereAdapter } from '../../src/providers/cohere';
+import { geminiAdapter } from '../../src/providers/gemini';
+
+const config = { apiKey: 'test-key', baseUrl: 'https://provider.test' };
+
+const weatherTool: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'get_weather',
+    description: 'Current weather for a city',
+    parameters: {
+      type: 'object',
+      properties: { city: { type: 'string', description: 'City name' }, days: { type: 'integer' } },
+      required: ['city']
+    }
+  }
+};
+
+// A completed tool round trip: the model called get_weather and got a result back
+const toolConversation: ChatMessage[] = [
+  { role: 'system', content: 'Be brief.' },
+  { role: 'user', content: 'Weather in Paris?' },
+  {
+    role: 'assistant',
+    content: null,
+    tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }]
+  },
+  { role: 'tool', tool_call_id: 'call_1', content: '{"temperature":18}' }
+];
+
+function buildBody(adapter: typeof anthropicAdapter, request: Partial<AIRequest>) {
+  return adapter.buildRequest({ model: 'test-model', messages: toolConversation, ...request }, config, false).body as any;
+}
+
+describe('Anthropic tool calling', () => {
+  it('sends tools, tool_choice, tool_use and tool_result blocks', () => {
+    const body = buildBody(anthropicAdapter, { tools: [weatherTool], tool_choice: 'required' });
+
+    expect(body.tools).toEqual([{
+      name: 'get_weather',
+      description: 'Current weather for a city',
+      input_schema: weatherTool.function.parameters
+    }]);
+    expect(body.tool_choice).toEqual({ type: 'any' });
+    expect(body.messages.slice(1)).toEqual([
+      { role: 'assistant', content: [{ type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Paris' } }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call_1', content: '{"temperature":18}' }] }
+    ]);
+  });
+
+  it('returns tool_use blocks as tool_calls', () => {
+    const response = anthropicAdapter.parseResponse({
+      id: 'msg_1',
+      model: 'claude-3-5-sonnet',
+      content: [{ type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } }],
+      stop_reason: 'tool_use',
+      usage: { input_tokens: 10, output_tokens: 5 }
+    }, {} as AIRequest);
+
+    expect(response.choices[0]).toEqual({
+      message: {
+        role: 'assistant',
+        content: null,
+        tool_calls: [{ id: 'toolu_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }]
+      },
+      finish_reason: 'tool_calls'
+    });
+  });
+});
+
+describe('Gemini tool calling', () => {
+  it('sends function declarations and matches results to calls by name', () => {
+    const body = buildBody(geminiAdapter, {
+      tools: [weatherTool],
+      tool_choice: { type: 'function', function: { name: 'get_weather' } }
+    });
+
+    expect(body.tools[0].functionDeclarations[0]).toMatchObject({ name: 'get_weather' });
+    expect(body.toolConfig).toEqual({ functionCallingConfig: { mode: 'ANY', allowedFunctionNames: ['get_weather'] } });
+    expect(body.contents.slice(-2)).toEqual([
+      { role: 'model', parts: [{ functionCall: { name: 'get_weather', args: { city: 'Paris' } } }] },
+      { role: 'user', parts: [{ functionResponse: { name: 'get_weather', response: { content: '{"temperature":18}' } } }] }
+    ]);
+  });
+
+  it('reports function calls with a tool_calls finish reason', () => {
+    const response = geminiAdapter.parseResponse({
+      candidates: [{ content: { parts: [{ functionCall: { name: 'get_weather', args: { city: 'Paris' } } }] }, finishReason: 'STOP' }]
+    }, { model: 'gemini-1.5-flash' } as AIRequest);
+
+    expect(response.choices[0].finish_reason).toBe('tool_calls');
+    expect(response.choices[0].message.tool_calls).toEqual([{
+      id: expect.stringMatching(/^call_[0-9a-f]{24}$/),
+      type: 'function',
+      function: { name: 'get_weather', arguments: '{"city":"Paris"}' }
+    }]);
+  });
+});
+
+describe('Cohere tool calling', () => {
+  it('flattens parameters and sends trailing results as tool_results', () => {
+    const body = buildBody(cohereAdapter, { tools: [weatherTool] });
+
+    expect(body.tools).toEqual([{
+      name: 'get_weather',
+      description: 'Current weather for a city',
+      parameter_definitions: {
+        city: { description: 'City name', type: 'str', required: true },
+        days: { type: 'int', required: false }
+      }
+    }]);
+    expect(body.message).toBe('');
+    expect(body.tool_results).toEqual([{
+      call: { name: 'get_weather', parameters: { city: 'Paris' } },
+      outputs: [{ temperature: 18 }]
+    }]);
+    expect(body.chat_history.at(-1)).toEqual({
+      role: 'CHATBOT',
+      message: '',
+      tool_calls: [{ name: 'get_weather', parameters: { city: 'Paris' } }]
+    });
+  });
+
+  it("drops tools for tool_choice 'none'", () => {
+    expect(buildBody(cohereAdapter, { tools: [weatherTool], tool_choice: 'none' }).tools).toBeUndefined();
+  });
+});
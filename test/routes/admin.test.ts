@@ -0,0 +1,168 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../../src/index';
+import type { Bindings } from '../../src/types';
+import type { TestDatabase } from '../helpers/d1';
+import { createTestDatabase, insertApiKey, insertModel, insertUser } from '../helpers/d1';
+import { sessionHeaders } from '../helpers/auth';
+
+let database: TestDatabase;
+let env: Bindings;
+let adminId: number;
+let adminHeaders: Record<string, string>;
+
+function request(path: string, init: RequestInit = {}) {
+  return app.request(`/api/admin${path}`, { ...init, headers: { ...adminHeaders, ...init.headers } }, env);
+}
+
+beforeAll(async () => {
+  database = await createTestDatabase();
+  env = { DB: database.db } as unknown as Bindings;
+  adminId = await insertUser(database.db, 'admin');
+  await database.db.prepare("UPDATE users SET role = 'admin' WHERE id = ?").bind(adminId).run();
+  adminHeaders = await sessionHeaders(adminId, 'admin');
+}, 60000);
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterAll(async () => {
+  await database?.dispose();
+});
+
+describe('/api/admin/users', () => {
+  let username: string;
+  let userId: number;
+
+  function useAccountKey() {
+    return app.request('/api/ai/models', { headers: { 'X-API-Key': `apk_${username}` } }, env);
+  }
+
+  async function readAudit(action: string) {
+    const response = await request(`/audit?action=${action}&targetId=${userId}`);
+    return (await response.json() as { logs: Record<string, unknown>[] }).logs;
+  }
+
+  beforeEach(async () => {
+    username = `user${Date.now()}${Math.random().toString(36).slice(2, 6)}`;
+    userId = await insertUser(database.db, username);
+  });
+
+  it('is only open to admins', async () => {
+    const response = await app.request('/api/admin/users', { headers: await sessionHeaders(userId) }, env);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('searches and filters users', async () => {
+    const response = await request(`/users?search=${username}&role=user`);
+    const body = await response.json() as any;
+
+    expect(body.users).toEqual([expect.objectContaining({ id: userId, username, role: 'user', isActive: true })]);
+    expect(body.pagination).toEqual({ page: 1, limit: 20, total: 1, totalPages: 1 });
+    expect(JSON.stringify(body)).not.toContain('password_hash');
+  });
+
+  it('changes roles, but not their own', async () => {
+    const promoted = await request(`/users/${userId}/role`, { method: 'PUT', body: JSON.stringify({ role: 'admin' }) });
+    const own = await request(`/users/${adminId}/role`, { method: 'PUT', body: JSON.stringify({ role: 'user' }) });
+
+    expect(promoted.status).toBe(200);
+    expect((await promoted.json() as any).user.role).toBe('admin');
+    expect(own.status).toBe(400);
+    expect(await readAudit('user.role_changed')).toEqual([
+      expect.objectContaining({ actorUserId: adminId, details: { from: 'user', to: 'admin' } })
+    ]);
+  });
+
+  it("locks a deactivated user's API key out", async () => {
+    expect((await useAccountKey()).status).toBe(200);
+
+    const response = await request(`/users/${userId}/status`, { method: 'PUT', body: JSON.stringify({ isActive: false }) });
+
+    expect(response.status).toBe(200);
+    expect((await useAccountKey()).status).toBe(401);
+    expect(await readAudit('user.deactivated')).toHaveLength(1);
+  });
+
+  it('signs the user out on a password reset and requires a new password', async () => {
+    const userHeaders = await sessionHeaders(userId);
+
+    const response = await request(`/users/${userId}/reset-password`, { method: 'POST' });
+
+    expect(response.status).toBe(200);
+    expect((await response.json() as any).temporaryPassword).toHaveLength(16);
+    expect((await app.request('/api/keys', { headers: userHeaders }, env)).status).toBe(401);
+
+    const row = await database.db.prepare('SELECT password_reset_required FROM users WHERE id = ?').bind(userId).first();
+    expect(row).toEqual({ password_reset_required: 1 });
+  });
+
+  it("revokes all of a user's keys", async () => {
+    const { apiKey } = await insertApiKey(database.db, userId);
+
+    const response = await request(`/users/${userId}/revoke-access`, { method: 'POST' });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ revokedKeys: 1 });
+    expect((await useAccountKey()).status).toBe(401);
+    expect((await app.request('/api/ai/models', { headers: { 'X-API-Key': apiKey } }, env)).status).toBe(401);
+    expect(await readAudit('user.access_revoked')).toHaveLength(1);
+  });
+
+  it('returns 404 for unknown users', async () => {
+    expect((await request('/users/999999')).status).toBe(404);
+  });
+});
+
+describe('/api/admin/models', () => {
+  const gpt4o = { provider: 'openai', name: 'GPT-4o', id: 'gpt-4o', costPer1kTokens: 0.0125 };
+
+  async function listPublicModels() {
+    const response = await app.request('/api/ai/models', { headers: { 'X-API-Key': 'apk_admin' } }, env);
+    return (await response.json() as { models: Record<string, unknown>[] }).models;
+  }
+
+  beforeAll(async () => {
+    await insertModel(database.db, { provider: 'openai', model_id: 'gpt-4' });
+  });
+
+  it('adds models to the catalog', async () => {
+    const created = await request('/models', { method: 'POST', body: JSON.stringify(gpt4o) });
+    const duplicate = await request('/models', { method: 'POST', body: JSON.stringify(gpt4o) });
+    const invalid = await request('/models', { method: 'POST', body: JSON.stringify({ ...gpt4o, id: 'x', provider: 'acme' }) });
+
+    expect(created.status).toBe(201);
+    expect((await created.json() as any).model).toMatchObject({ id: 'gpt-4o', upstreamModelId: 'gpt-4o', isActive: true });
+    expect(duplicate.status).toBe(409);
+    expect(await invalid.json()).toEqual({ error: 'Unknown provider: acme' });
+    expect(await listPublicModels()).toContainEqual(expect.objectContaining({ id: 'gpt-4o', costPer1kTokens: 0.0125 }));
+  });
+
+  it('deprecates a model in favour of an active replacement', async () => {
+    const { id } = (await database.db.prepare("SELECT id FROM ai_models WHERE model_id = 'gpt-4'").first<{ id: number }>())!;
+
+    const missing = await request(`/models/${id}/deprecate`, { method: 'POST', body: JSON.stringify({ replacementModel: 'gpt-5' }) });
+    const deprecated = await request(`/models/${id}/deprecate`, {
+      method: 'POST',
+      body: JSON.stringify({ deprecatedAt: '2099-01-01T00:00:00Z', replacementModel: 'gpt-4o' })
+    });
+
+    expect(missing.status).toBe(400);
+    expect(deprecated.status).toBe(200);
+    expect(await listPublicModels()).toContainEqual(expect.objectContaining({
+      id: 'gpt-4',
+      deprecationWarning: 'gpt-4 is deprecated and will be retired on 2099-01-01. Use gpt-4o instead.'
+    }));
+  });
+
+  it('deactivates a model without deleting it', async () => {
+    const { id } = (await database.db.prepare("SELECT id FROM ai_models WHERE model_id = 'gpt-4o'").first<{ id: number }>())!;
+
+    expect((await request(`/models/${id}`, { method: 'DELETE' })).status).toBe(200);
+
+    expect((await listPublicModels()).map(model => model.id)).not.toContain('gpt-4o');
+    const all = await (await request('/models')).json() as { models: Record<string, unknown>[] };
+    expect(all.models).toContainEqual(expect.objectContaining({ id: 'gpt-4o', isActive: false }));
+  });
+});
@@ -0,0 +1,118 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../../src/index';
+import type { Bindings } from '../../src/types';
+import { fromSqlTimestamp } from '../../src/utils/database';
+import type { TestDatabase } from '../helpers/d1';
+import { createTestDatabase, insertUser } from '../helpers/d1';
+import { sessionHeaders } from '../helpers/auth';
+
+describe('/api/keys', () => {
+  let database: TestDatabase;
+  let env: Bindings;
+  let headers: Record<string, string>;
+
+  function request(path: string, init: RequestInit = {}) {
+    return app.request(`/api/keys${path}`, { ...init, headers: { ...headers, ...init.headers } }, env);
+  }
+
+  async function createKey(name = 'Deploy bot') {
+    const response = await request('', { method: 'POST', body: JSON.stringify({ name }) });
+    return response.json() as Promise<{ key: { id: number; maskedKey: string }; apiKey: string }>;
+  }
+
+  function listModels(apiKey: string) {
+    return app.request('/api/ai/models', { headers: { 'X-API-Key': apiKey } }, env);
+  }
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    env = { DB: database.db } as unknown as Bindings;
+  }, 60000);
+
+  beforeEach(async () => {
+    headers = await sessionHeaders(await insertUser(database.db, `user${Date.now()}${Math.random().toString(36).slice(2)}`));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    await database?.dispose();
+  });
+
+  it('returns a new key once and only lists it masked', async () => {
+    const { key, apiKey } = await createKey();
+
+    const list = await (await request('')).json() as { keys: { id: number; maskedKey: string }[] };
+
+    expect(list.keys).toEqual([expect.objectContaining({ id: key.id, name: 'Deploy bot', isActive: true })]);
+    expect(list.keys[0].maskedKey).not.toContain(apiKey.slice(12));
+    expect((await listModels(apiKey)).status).toBe(200);
+  });
+
+  it('requires a logged-in user', async () => {
+    const response = await app.request('/api/keys', {}, env);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('rotates a key, keeping the old one for the grace period', async () => {
+    const { key, apiKey } = await createKey();
+
+    const response = await request(`/${key.id}/rotate`, { method: 'POST', body: JSON.stringify({ gracePeriodHours: 1 }) });
+    const body = await response.json() as any;
+
+    expect(response.status).toBe(201);
+    expect(body.key).toMatchObject({ name: 'Deploy bot', isActive: true });
+    expect(fromSqlTimestamp(body.previousKey.expiresAt).getTime() - Date.now()).toBeGreaterThan(59 * 60 * 1000);
+    expect((await listModels(body.apiKey)).status).toBe(200);
+    expect((await listModels(apiKey)).status).toBe(200);
+  });
+
+  it('revokes the old key at once with a zero grace period', async () => {
+    const { key, apiKey } = await createKey();
+
+    const response = await request(`/${key.id}/rotate`, { method: 'POST', body: JSON.stringify({ gracePeriodHours: 0 }) });
+
+    expect(response.status).toBe(201);
+    expect((await listModels(apiKey)).status).toBe(401);
+  });
+
+  it('rejects a malformed rotate body', async () => {
+    const { key } = await createKey();
+
+    const response = await request(`/${key.id}/rotate`, { method: 'POST', body: '{"gracePeriodHours":' });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Request body must be a JSON object' });
+  });
+
+  it("doesn't rotate an expired key", async () => {
+    const { key } = await createKey();
+    await database.db.prepare("UPDATE api_keys SET expires_at = datetime('now', '-1 hour') WHERE id = ?").bind(key.id).run();
+
+    const response = await request(`/${key.id}/rotate`, { method: 'POST' });
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({ error: 'API key has expired and cannot be rotated' });
+  });
+
+  it("revokes a key and hides other users' keys", async () => {
+    const { key, apiKey } = await createKey();
+    const otherUser = await sessionHeaders(await insertUser(database.db, `other${Date.now()}`));
+
+    expect((await request(`/${key.id}`, { method: 'DELETE', headers: otherUser })).status).toBe(404);
+    expect((await request(`/${key.id}`, { method: 'DELETE' })).status).toBe(200);
+    expect((await listModels(apiKey)).status).toBe(401);
+  });
+
+  it('records key changes in the audit log', async () => {
+    const { key } = await createKey();
+    await request(`/${key.id}/rotate`, { method: 'POST' });
+    await request(`/${key.id}`, { method: 'DELETE' });
+
+    const actions = await database.db.prepare(`
+      SELECT action FROM audit_logs WHERE target_type = 'api_key' AND target_id = ? ORDER BY id
+    `).bind(key.id).all<{ action: string }>();
+
+    expect(actions.results.map(row => row.action)).toEqual(['api_key.created', 'api_key.rotated', 'api_key.revoked']);
+  });
+});
@@ -0,0 +1,143 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../../src/index';
+import type { Bindings } from '../../src/types';
+import type { TestDatabase } from '../helpers/d1';
+import { createTestDatabase, insertApiKey, insertModel, insertUser } from '../helpers/d1';
+
+const encoder = new TextEncoder();
+
+function completion(content: string) {
+  return Response.json({
+    id: 'chatcmpl-1',
+    model: 'gpt-4o-mini',
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 }
+  });
+}
+
+function streamedCompletion(...contents: string[]) {
+  const frames = [
+    ...contents.map(content => ({ id: 'chatcmpl-1', model: 'gpt-4o-mini', created: 1, choices: [{ index: 0, delta: { content }, finish_reason: null }] })),
+    { id: 'chatcmpl-1', model: 'gpt-4o-mini', created: 1, choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] },
+    { id: 'chatcmpl-1', model: 'gpt-4o-mini', created: 1, choices: [], usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 } }
+  ];
+  const body = frames.map(frame => `data: ${JSON.stringify(frame)}\n\n`).join('') + 'data: [DONE]\n\n';
+
+  return new Response(encoder.encode(body), { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+async function readEvents(response: Response) {
+  const text = await response.text();
+  return text.split('\n\n')
+    .filter(event => event.startsWith('data: ') && event !== 'data: [DONE]')
+    .map(event => JSON.parse(event.slice(6)));
+}
+
+describe('/v1 OpenAI-compatible routes', () => {
+  let database: TestDatabase;
+  let env: Bindings;
+  let apiKey: string;
+
+  function request(path: string, body?: Record<string, unknown>, key = apiKey) {
+    return app.request(`/v1${path}`, {
+      method: body ? 'POST' : 'GET',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${key}` },
+      body: body && JSON.stringify(body)
+    }, env);
+  }
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    await insertModel(database.db, { provider: 'openai', model_id: 'gpt-4o-mini' });
+    const userId = await insertUser(database.db, 'openai-sdk');
+    ({ apiKey } = await insertApiKey(database.db, userId));
+    env = { DB: database.db, OPENAI_API_KEY: 'sk-test' } as unknown as Bindings;
+  }, 60000);
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await database?.dispose();
+  });
+
+  it('rejects a bad key with an OpenAI error body', async () => {
+    const response = await request('/models', undefined, 'sk-wrong');
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({
+      error: { message: expect.any(String), type: 'invalid_request_error', param: null, code: 'invalid_api_key' }
+    });
+  });
+
+  it('answers chat completions in the OpenAI format', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => completion('Hello!')));
+
+    const response = await request('/chat/completions', { model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Hi' }] });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      id: 'chatcmpl-1',
+      object: 'chat.completion',
+      created: expect.any(Number),
+      model: 'gpt-4o-mini',
+      choices: [{ index: 0, message: { role: 'assistant', content: 'Hello!', refusal: null }, logprobs: null, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+      system_fingerprint: 'fp_openai'
+    });
+  });
+
+  it('serves legacy completions as text_completion objects', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => completion('Hello!')));
+
+    const response = await request('/completions', { model: 'gpt-4o-mini', prompt: 'Say hello' });
+
+    expect(await response.json()).toMatchObject({
+      object: 'text_completion',
+      choices: [{ text: 'Hello!', index: 0, logprobs: null, finish_reason: 'stop' }]
+    });
+  });
+
+  it('streams chunks, with usage only when asked for', async () => {
+    const stream = async (body: Record<string, unknown>) => {
+      vi.stubGlobal('fetch', vi.fn(async () => streamedCompletion('Hel', 'lo')));
+      return readEvents(await request('/chat/completions', {
+        model: 'gpt-4o-mini',
+        messages: [{ role: 'user', content: 'Hi' }],
+        stream: true,
+        ...body
+      }));
+    };
+
+    const plain = await stream({});
+    const withUsage = await stream({ stream_options: { include_usage: true } });
+
+    expect(plain.map(chunk => chunk.choices[0]?.delta.content).join('')).toBe('Hello');
+    expect(plain.every(chunk => chunk.object === 'chat.completion.chunk' && !('usage' in chunk))).toBe(true);
+    expect(withUsage.at(-1)).toMatchObject({ choices: [], usage: { total_tokens: 5 } });
+  });
+
+  it("rejects options the gateway can't honour", async () => {
+    const response = await request('/chat/completions', { model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Hi' }], n: 2 });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: { type: 'invalid_request_error', param: 'n' } });
+  });
+
+  it('lists and retrieves models', async () => {
+    const list = await (await request('/models')).json() as any;
+    const model = await request('/models/gpt-4o-mini');
+    const missing = await request('/models/gpt-5');
+
+    expect(list).toEqual({ object: 'list', data: [expect.objectContaining({ id: 'gpt-4o-mini', object: 'model', owned_by: 'openai' })] });
+    expect(await model.json()).toMatchObject({ id: 'gpt-4o-mini', object: 'model' });
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toMatchObject({ error: { code: 'model_not_found', param: 'model' } });
+  });
+});
@@ -0,0 +1,248 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { AIRequest, Bindings, RoutingTrace } from '../../src/types';
+import { ProviderError } from '../../src/providers';
+import { routeAIRequest } from '../../src/utils/aiProviders';
+import { recordFailure } from '../../src/utils/circuitBreaker';
+import type { TestDatabase } from '../helpers/d1';
+import { createTestDatabase, insertModel } from '../helpers/d1';
+
+function chat(model: string): AIRequest {
+  return {
+    model,
+    messages: [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'Hello' }],
+    max_tokens: 50
+  };
+}
+
+/**
+ * Stub fetch with one upstream reply per call, recording the requests made
+ */
+function stubUpstream(...replies: (() => Response)[]) {
+  const calls: { url: string; body: any }[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit) => {
+    calls.push({ url, body: JSON.parse(init.body as string) });
+    const reply = replies[Math.min(calls.length, replies.length) - 1];
+    return reply();
+  }));
+  return calls;
+}
+
+function errorReply(status: number, code = 'server_error') {
+  return () => Response.json({ error: { message: `Upstream ${status}`, code } }, { status });
+}
+
+function anthropicReply(text = 'Hi there') {
+  return () => Response.json({
+    id: 'msg_1',
+    model: 'claude-3-haiku',
+    content: [{ type: 'text', text }],
+    stop_reason: 'end_turn',
+    usage: { input_tokens: 8, output_tokens: 3 }
+  });
+}
+
+function openaiReply(content = 'Hi there') {
+  return () => Response.json({
+    id: 'chatcmpl-1',
+    model: 'gpt-4o-mini',
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 8, completion_tokens: 3, total_tokens: 11 }
+  });
+}
+
+describe('routeAIRequest', () => {
+  let database: TestDatabase;
+  let env: Bindings;
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    await insertModel(database.db, { provider: 'openai', model_id: 'gpt-4o-mini' });
+    await insertModel(database.db, { provider: 'anthropic', model_id: 'claude-3-haiku' });
+    await insertModel(database.db, { provider: 'google', model_id: 'gemini-1.5-flash' });
+    await insertModel(database.db, { provider: 'cohere', model_id: 'command-r' });
+    await insertModel(database.db, { provider: 'acme', model_id: 'acme-1' });
+    env = {
+      DB: database.db,
+      OPENAI_API_KEY: 'sk-openai',
+      ANTHROPIC_API_KEY: 'sk-anthropic',
+      GOOGLE_API_KEY: 'google-key',
+      COHERE_API_KEY: 'cohere-key'
+    } as unknown as Bindings;
+  }, 60000);
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  afterAll(async () => {
+    await database?.dispose();
+  });
+
+  it("sends the request to the adapter of the model's catalog provider", async () => {
+    const calls = stubUpstream(anthropicReply());
+
+    const response = await routeAIRequest(chat('claude-3-haiku'), env);
+
+    expect(calls[0].url).toBe('https://api.anthropic.com/v1/messages');
+    expect(calls[0].body).toMatchObject({
+      model: 'claude-3-haiku',
+      system: 'Be brief.',
+      messages: [{ role: 'user', content: 'Hello' }],
+      max_tokens: 50
+    });
+    expect(response).toMatchObject({
+      id: 'msg_1',
+      choices: [{ message: { role: 'assistant', content: 'Hi there' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 8, completion_tokens: 3, total_tokens: 11 }
+    });
+  });
+
+  it('translates Gemini and Cohere responses to the OpenAI shape', async () => {
+    const calls = stubUpstream(
+      () => Response.json({
+        candidates: [{ content: { parts: [{ text: 'From Gemini' }] }, finishReason: 'MAX_TOKENS' }],
+        usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 2, totalTokenCount: 7 }
+      }),
+      () => Response.json({
+        generation_id: 'gen-1',
+        text: 'From Cohere',
+        finish_reason: 'COMPLETE',
+        meta: { tokens: { input_tokens: 5, output_tokens: 2 } }
+      })
+    );
+
+    const gemini = await routeAIRequest(chat('gemini-1.5-flash'), env);
+    const cohere = await routeAIRequest(chat('command-r'), env);
+
+    expect(calls.map(call => call.url)).toEqual([
+      'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=google-key',
+      'https://api.cohere.ai/v1/chat'
+    ]);
+    expect(gemini.choices[0]).toMatchObject({ message: { content: 'From Gemini' }, finish_reason: 'length' });
+    expect(cohere.choices[0]).toMatchObject({ message: { content: 'From Cohere' }, finish_reason: 'stop' });
+    expect(cohere.usage.total_tokens).toBe(7);
+  });
+
+  it('passes OpenAI responses through', async () => {
+    const calls = stubUpstream(openaiReply());
+
+    const response = await routeAIRequest(chat('gpt-4o-mini'), env);
+
+    expect(calls[0].url).toBe('https://api.openai.com/v1/chat/completions');
+    expect(response.choices[0].message.content).toBe('Hi there');
+  });
+
+  it('rejects models missing from the catalog', async () => {
+    const error = await routeAIRequest(chat('gpt-5-turbo'), env).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error).toMatchObject({ status: 400, code: 'model_not_found' });
+  });
+
+  it('fails for a catalog provider without an adapter', async () => {
+    const error = await routeAIRequest(chat('acme-1'), env).catch(e => e);
+
+    expect(error).toMatchObject({ status: 500, code: 'provider_not_registered' });
+  });
+});
+
+describe('fallback chains', () => {
+  let database: TestDatabase;
+  let env: Bindings;
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    await insertModel(database.db, {
+      provider: 'openai',
+      model_id: 'gpt-4o-mini',
+      fallback_models: JSON.stringify(['claude-3-haiku'])
+    });
+    await insertModel(database.db, { provider: 'anthropic', model_id: 'claude-3-haiku' });
+    env = {
+      DB: database.db,
+      OPENAI_API_KEY: 'sk-openai',
+      ANTHROPIC_API_KEY: 'sk-anthropic',
+      PROVIDER_MAX_RETRIES: '2',
+      RETRY_BASE_DELAY_MS: '1',
+      // Only the circuit test below should trip a breaker
+      CIRCUIT_MIN_REQUESTS: '1000'
+    } as unknown as Bindings;
+  }, 60000);
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  afterAll(async () => {
+    await database?.dispose();
+  });
+
+  it('retries a transient failure on the same provider', async () => {
+    const calls = stubUpstream(errorReply(503), openaiReply());
+    const trace: RoutingTrace = { attempts: [] };
+
+    const response = await routeAIRequest(chat('gpt-4o-mini'), env, trace);
+
+    expect(response.choices[0].message.content).toBe('Hi there');
+    expect(calls.map(call => call.url)).toEqual([
+      'https://api.openai.com/v1/chat/completions',
+      'https://api.openai.com/v1/chat/completions'
+    ]);
+    expect(trace.attempts.map(attempt => attempt.status)).toEqual([503, 200]);
+  });
+
+  it('falls back to the next model once retries run out', async () => {
+    const calls = stubUpstream(errorReply(503), errorReply(503), errorReply(503), anthropicReply('From Claude'));
+    const trace: RoutingTrace = { attempts: [] };
+
+    const response = await routeAIRequest(chat('gpt-4o-mini'), env, trace);
+
+    expect(response.choices[0].message.content).toBe('From Claude');
+    expect(calls).toHaveLength(4);
+    expect(trace).toMatchObject({ provider: 'anthropic', model: 'claude-3-haiku' });
+    expect(trace.attempts.map(attempt => [attempt.provider, attempt.status])).toEqual([
+      ['openai', 503], ['openai', 503], ['openai', 503], ['anthropic', 200]
+    ]);
+  });
+
+  it("falls back without retrying when the provider doesn't know the model", async () => {
+    const calls = stubUpstream(errorReply(404, 'model_not_found'), anthropicReply('From Claude'));
+
+    const response = await routeAIRequest(chat('gpt-4o-mini'), env);
+
+    expect(response.choices[0].message.content).toBe('From Claude');
+    expect(calls).toHaveLength(2);
+  });
+
+  it('fails an invalid request immediately', async () => {
+    const calls = stubUpstream(errorReply(400, 'invalid_request_error'));
+
+    const error = await routeAIRequest(chat('gpt-4o-mini'), env).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error).toMatchObject({ provider: 'openai', status: 400 });
+    expect(calls).toHaveLength(1);
+  });
+
+  it('throws the last error when the whole chain fails', async () => {
+    stubUpstream(errorReply(503), errorReply(503), errorReply(503), errorReply(500), errorReply(500), errorReply(500));
+
+    const error = await routeAIRequest(chat('gpt-4o-mini'), env).catch(e => e);
+
+    expect(error).toMatchObject({ provider: 'anthropic', status: 500 });
+  });
+
+  it('skips a provider whose circuit is open', async () => {
+    for (let i = 0; i < 5; i++) {
+      recordFailure('openai', 100, env);
+    }
+    const calls = stubUpstream(anthropicReply('From Claude'));
+    const trace: RoutingTrace = { attempts: [] };
+
+    const response = await routeAIRequest(chat('gpt-4o-mini'), env, trace);
+
+    expect(response.choices[0].message.content).toBe('From Claude');
+    expect(calls.map(call => call.url)).toEqual(['https://api.anthropic.com/v1/messages']);
+    expect(trace.attempts[0]).toMatchObject({ provider: 'openai', status: 503, error: 'openai is temporarily unavailable (circuit open)' });
+  });
+});
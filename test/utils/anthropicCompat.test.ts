@@ -0,0 +1,256 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { AIResponse, AIStreamChunk } from '../../src/types';
+import { createChunk, createUsageChunk, parseSSE } from '../../src/utils/streaming';
+import {
+  anthropicError,
+  fromAnthropicRequest,
+  toAnthropicMessage,
+  toAnthropicEvents,
+  toAnthropicSSEStream
+} from '../../src/utils/anthropicCompat';
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+async function* fromArray<T>(items: T[]): AsyncGenerator<T> {
+  yield* items;
+}
+
+describe('anthropicError', () => {
+  it('uses the error type Anthropic reports for the status', () => {
+    expect(anthropicError(429, 'Slow down')).toEqual({
+      type: 'error',
+      error: { type: 'rate_limit_error', message: 'Slow down' }
+    });
+    expect(anthropicError(502, 'Upstream failed').error.type).toBe('api_error');
+    expect(anthropicError(422, 'Bad').error.type).toBe('invalid_request_error');
+  });
+});
+
+describe('fromAnthropicRequest', () => {
+  it('moves the system prompt into a system message', () => {
+    const result = fromAnthropicRequest({
+      model: 'claude-3-haiku',
+      max_tokens: 100,
+      system: [{ type: 'text', text: 'Be brief.' }, { type: 'text', text: 'Be kind.' }],
+      messages: [{ role: 'user', content: 'Hi' }],
+      temperature: 0
+    });
+
+    expect(result).toEqual({
+      value: {
+        model: 'claude-3-haiku',
+        messages: [
+          { role: 'system', content: 'Be brief.\nBe kind.' },
+          { role: 'user', content: 'Hi' }
+        ],
+        max_tokens: 100,
+        temperature: 0,
+        stream: false,
+        routing: undefined,
+        cache: undefined
+      }
+    });
+  });
+
+  it('translates tool use, tool results and tool definitions', () => {
+    const result = fromAnthropicRequest({
+      model: 'gpt-4o',
+      max_tokens: 100,
+      tools: [{ name: 'weather', description: 'Get the weather', input_schema: { type: 'object' } }],
+      tool_choice: { type: 'any' },
+      messages: [
+        { role: 'user', content: 'Weather in Paris?' },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'thinking', thinking: '...' },
+            { type: 'text', text: 'Checking.' },
+            { type: 'tool_use', id: 'toolu_1', name: 'weather', input: { city: 'Paris' } }
+          ]
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Thanks' },
+            { type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: 'Sunny' }] }
+          ]
+        }
+      ]
+    });
+
+    expect(result).toMatchObject({
+      value: {
+        messages: [
+          { role: 'user', content: 'Weather in Paris?' },
+          {
+            role: 'assistant',
+            content: 'Checking.',
+            tool_calls: [{ id: 'toolu_1', type: 'function', function: { name: 'weather', arguments: '{"city":"Paris"}' } }]
+          },
+          { role: 'tool', tool_call_id: 'toolu_1', content: 'Sunny' },
+          { role: 'user', content: 'Thanks' }
+        ],
+        tools: [{ type: 'function', function: { name: 'weather', description: 'Get the weather', parameters: { type: 'object' } } }],
+        tool_choice: 'required'
+      }
+    });
+  });
+
+  it('marks failed tool results and converts images and documents', () => {
+    const result = fromAnthropicRequest({
+      model: 'gpt-4o',
+      max_tokens: 100,
+      messages: [{
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'toolu_1', content: 'timeout', is_error: true },
+          { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } },
+          { type: 'document', title: 'a.pdf', source: { type: 'base64', media_type: 'application/pdf', data: 'BBBB' } }
+        ]
+      }]
+    });
+
+    expect(result).toMatchObject({
+      value: {
+        messages: [
+          { role: 'tool', tool_call_id: 'toolu_1', content: 'Error: timeout' },
+          {
+            role: 'user',
+            content: [
+              { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+              { type: 'file', file: { file_data: 'data:application/pdf;base64,BBBB', filename: 'a.pdf' } }
+            ]
+          }
+        ]
+      }
+    });
+  });
+
+  it.each([
+    [null, 'Request body must be a JSON object'],
+    [{ messages: [{ role: 'user', content: 'Hi' }] }, "'max_tokens' is required"],
+    [{ max_tokens: 1, stop_sequences: ['\n'], messages: [] }, "'stop_sequences' is not supported"],
+    [{ max_tokens: 1, messages: [] }, "'messages' must be a non-empty array"],
+    [{ max_tokens: 1, messages: [{ role: 'system', content: 'Hi' }] }, "messages[0].role must be 'user' or 'assistant'"],
+    [
+      { max_tokens: 1, messages: [{ role: 'user', content: [{ type: 'audio' }] }] },
+      "messages[0].content[0].type 'audio' is not supported in user messages"
+    ],
+    [
+      { max_tokens: 1, messages: [{ role: 'user', content: 'Hi' }], tools: [{ type: 'web_search_20250305', name: 'web' }] },
+      'tools[0]: only custom tools ({ name, description?, input_schema }) are supported'
+    ],
+    [
+      { max_tokens: 1, messages: [{ role: 'user', content: 'Hi' }], tool_choice: { type: 'sometimes' } },
+      "'tool_choice.type' must be one of: auto, any, tool, none"
+    ]
+  ])('rejects %j', (body, error) => {
+    expect(fromAnthropicRequest(body)).toEqual({ error });
+  });
+});
+
+describe('toAnthropicMessage', () => {
+  it('converts text, tool calls, stop reason and usage', () => {
+    const response: AIResponse = {
+      id: 'msg_1',
+      model: 'gpt-4o',
+      choices: [{
+        message: {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'weather', arguments: '{"city":"Paris"}' } }]
+        },
+        finish_reason: 'tool_calls'
+      }],
+      usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 }
+    };
+
+    expect(toAnthropicMessage(response)).toEqual({
+      id: 'msg_1',
+      type: 'message',
+      role: 'assistant',
+      model: 'gpt-4o',
+      content: [{ type: 'tool_use', id: 'call_1', name: 'weather', input: { city: 'Paris' } }],
+      stop_reason: 'tool_use',
+      stop_sequence: null,
+      usage: { input_tokens: 12, output_tokens: 3 }
+    });
+  });
+
+  it('always includes a text block when there are no tool calls', () => {
+    const response: AIResponse = {
+      id: 'msg_2',
+      model: 'gpt-4o',
+      choices: [{ message: { role: 'assistant', content: '' }, finish_reason: 'length' }],
+      usage: { prompt_tokens: 1, completion_tokens: 0, total_tokens: 1 }
+    };
+
+    expect(toAnthropicMessage(response)).toMatchObject({ content: [{ type: 'text', text: '' }], stop_reason: 'max_tokens' });
+  });
+});
+
+describe('toAnthropicEvents', () => {
+  it('emits the Messages event sequence with trailing usage', async () => {
+    const chunks: AIStreamChunk[] = [
+      createChunk('chunk_1', 'gpt-4o', 1, { role: 'assistant', content: '' }),
+      createChunk('chunk_1', 'gpt-4o', 1, { content: 'Hel' }),
+      createChunk('chunk_1', 'gpt-4o', 1, { content: 'lo' }, 'stop'),
+      createUsageChunk('chunk_1', 'gpt-4o', 1, { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 })
+    ];
+
+    const events = await collect(toAnthropicEvents(fromArray(chunks), 'gpt-4o'));
+
+    expect(events.map(event => event.event)).toEqual([
+      'message_start',
+      'content_block_start',
+      'content_block_delta',
+      'content_block_delta',
+      'content_block_stop',
+      'message_delta',
+      'message_stop'
+    ]);
+    expect(events[2].data).toEqual({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hel' } });
+    expect(events[5].data).toEqual({
+      type: 'message_delta',
+      delta: { stop_reason: 'end_turn', stop_sequence: null },
+      usage: { input_tokens: 5, output_tokens: 2 }
+    });
+  });
+
+  it('still starts and stops a message for an empty stream', async () => {
+    const events = await collect(toAnthropicEvents(fromArray<AIStreamChunk>([]), 'gpt-4o'));
+
+    expect(events.map(event => event.event)).toEqual(['message_start', 'message_delta', 'message_stop']);
+    expect(events[0].data).toMatchObject({ message: { model: 'gpt-4o' } });
+  });
+});
+
+describe('toAnthropicSSEStream', () => {
+  it('writes named events without a [DONE] terminator', async () => {
+    const stream = toAnthropicSSEStream(fromArray([{ event: 'message_stop', data: { type: 'message_stop' } }]));
+
+    expect(await new Response(stream).text()).toBe('event: message_stop\ndata: {"type":"message_stop"}\n\n');
+  });
+
+  it('ends with an error event when the source fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    async function* failing() {
+      yield { event: 'ping', data: { type: 'ping' } };
+      throw new Error('upstream closed');
+    }
+
+    const events = await collect(parseSSE(toAnthropicSSEStream(failing())));
+
+    expect(events).toEqual([
+      { event: 'ping', data: '{"type":"ping"}' },
+      { event: 'error', data: JSON.stringify(anthropicError(500, 'upstream closed')) }
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  generateApiKey,
+  generateJWT,
+  getApiKeyPrefix,
+  hashPassword,
+  prepareApiKeyForStorage,
+  verifyApiKey,
+  verifyJWT,
+  verifyPassword
+} from '../../src/utils/auth';
+import { createApiKey, getApiKeyDetails, getUserByApiKey, migrateLegacyApiKeys } from '../../src/utils/database';
+import type { TestDatabase } from '../helpers/d1';
+import { createTestDatabase, insertUser } from '../helpers/d1';
+
+describe('passwords', () => {
+  it('verifies only the password that was hashed', async () => {
+    const hash = await hashPassword('correct horse');
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await verifyPassword('correct horse', hash)).toBe(true);
+    expect(await verifyPassword('correct horse!', hash)).toBe(false);
+  });
+});
+
+describe('session tokens', () => {
+  it('round-trips the payload with issue and expiry times', async () => {
+    const token = await generateJWT({ userId: 7, role: 'admin' }, 'secret', 60);
+    const payload = await verifyJWT(token, 'secret');
+
+    expect(payload).toMatchObject({ userId: 7, role: 'admin' });
+    expect(payload.exp - payload.iat).toBe(60);
+  });
+
+  it('rejects a token signed with another secret, tampered with or expired', async () => {
+    const token = await generateJWT({ userId: 7, role: 'user' }, 'secret');
+    const [header, , signature] = token.split('.');
+    const forged = `${header}.${btoa(JSON.stringify({ userId: 7, role: 'admin' }))}.${signature}`;
+
+    await expect(verifyJWT(token, 'other secret')).rejects.toThrow('Invalid signature');
+    await expect(verifyJWT(forged, 'secret')).rejects.toThrow('Invalid signature');
+    await expect(verifyJWT(await generateJWT({ userId: 7 }, 'secret', -1), 'secret')).rejects.toThrow('Token expired');
+    await expect(verifyJWT('not-a-token', 'secret')).rejects.toThrow('Invalid token format');
+  });
+});
+
+describe('API key hashing', () => {
+  it('generates keys with a 12 character lookup prefix', () => {
+    const apiKey = generateApiKey();
+
+    expect(apiKey).toMatch(/^apk_[0-9a-f]{8}_[0-9a-f]{64}$/);
+    expect(getApiKeyPrefix(apiKey)).toBe(apiKey.slice(0, 12));
+  });
+
+  it('stores a salted hash that only the original key verifies', async () => {
+    const apiKey = generateApiKey();
+    const stored = await prepareApiKeyForStorage(apiKey);
+    const again = await prepareApiKeyForStorage(apiKey);
+
+    expect(stored.hash).not.toContain(apiKey);
+    expect(again.hash).not.toBe(stored.hash);
+    expect(await verifyApiKey(apiKey, stored.salt, stored.hash)).toBe(true);
+    expect(await verifyApiKey(`${apiKey}x`, stored.salt, stored.hash)).toBe(false);
+  });
+});
+
+describe('API key lookup', () => {
+  let database: TestDatabase;
+  let userId: number;
+
+  async function readKeyRow(id: number) {
+    return database.db.prepare('SELECT api_key, key_prefix, key_hash FROM api_keys WHERE id = ?').bind(id).first<Record<string, string | null>>();
+  }
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    userId = await insertUser(database.db, 'keys');
+  }, 60000);
+
+  afterAll(async () => {
+    await database?.dispose();
+  });
+
+  it('finds a hashed key by its prefix and rejects a wrong secret', async () => {
+    const apiKey = generateApiKey();
+    const created = await createApiKey(database.db, userId, 'Hashed', await prepareApiKeyForStorage(apiKey), null);
+
+    expect((await getApiKeyDetails(database.db, apiKey))?.id).toBe(created.id);
+    expect(await getApiKeyDetails(database.db, `${apiKey.slice(0, -1)}0`)).toBeNull();
+    expect(JSON.stringify(await readKeyRow(created.id))).not.toContain(apiKey);
+  });
+
+  it('hashes a legacy plaintext key the first time it is used', async () => {
+    const apiKey = generateApiKey();
+    const { id } = (await database.db.prepare(`
+      INSERT INTO api_keys (user_id, key_name, api_key) VALUES (?, 'Legacy', ?) RETURNING id
+    `).bind(userId, apiKey).first<{ id: number }>())!;
+
+    expect((await getApiKeyDetails(database.db, apiKey))?.id).toBe(id);
+
+    const row = await readKeyRow(id);
+    expect(row).toMatchObject({ key_prefix: getApiKeyPrefix(apiKey) });
+    expect(row!.api_key).not.toBe(apiKey);
+    expect((await getApiKeyDetails(database.db, apiKey))?.id).toBe(id);
+  });
+
+  it('migrates the remaining plaintext keys, which keep working', async () => {
+    const username = 'legacy';
+    const legacyUserId = await insertUser(database.db, username);
+
+    const migrated = await migrateLegacyApiKeys(database.db);
+
+    expect(migrated.users).toBeGreaterThanOrEqual(1);
+    expect(await migrateLegacyApiKeys(database.db)).toEqual({ users: 0, apiKeys: 0 });
+    expect((await getUserByApiKey(database.db, `apk_${username}`))?.id).toBe(legacyUserId);
+  });
+});
@@ -0,0 +1,173 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { Bindings } from '../../src/types';
+import { parseBatchFile, runBatchJobs, drainBatchJobs, MAX_BATCH_REQUESTS } from '../../src/utils/batches';
+import {
+  createBatch,
+  addBatchItems,
+  queueBatch,
+  getBatchById,
+  claimBatchItems,
+  cancelBatch,
+  releaseStaleBatchItems,
+  toSqlTimestamp
+} from '../../src/utils/database';
+import type { TestDatabase } from '../helpers/d1';
+import { createTestDatabase, insertModel, insertUser } from '../helpers/d1';
+
+function line(customId: string, body: unknown = { model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Hi' }] }) {
+  return JSON.stringify({ custom_id: customId, body });
+}
+
+describe('parseBatchFile', () => {
+  it('parses lines and skips blank ones', () => {
+    const result = parseBatchFile(`${line('a')}\r\n\n${line('b')}\n`);
+
+    expect(result).toEqual({
+      lines: [
+        { customId: 'a', request: JSON.stringify({ model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Hi' }] }) },
+        { customId: 'b', request: JSON.stringify({ model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Hi' }] }) }
+      ]
+    });
+  });
+
+  it('accepts the OpenAI batch method and urls', () => {
+    const entry = JSON.parse(line('a'));
+    const result = parseBatchFile(JSON.stringify({ ...entry, method: 'POST', url: '/v1/chat/completions' }));
+
+    expect('lines' in result && result.lines).toHaveLength(1);
+  });
+
+  it('rejects invalid JSON with its line number', () => {
+    expect(parseBatchFile(`${line('a')}\n{not json`)).toEqual({ error: 'Line 2: invalid JSON' });
+  });
+
+  it('rejects non-object lines', () => {
+    expect(parseBatchFile('[1, 2]')).toEqual({ error: 'Line 1: must be a JSON object' });
+  });
+
+  it('rejects missing and duplicate custom_ids', () => {
+    expect(parseBatchFile(JSON.stringify({ body: { model: 'gpt-4o' } }))).toEqual({
+      error: "Line 1: 'custom_id' must be a non-empty string"
+    });
+    expect(parseBatchFile(`${line('a')}\n${line('a')}`)).toEqual({ error: "Line 2: duplicate custom_id 'a'" });
+  });
+
+  it('rejects other methods and urls', () => {
+    const entry = JSON.parse(line('a'));
+
+    expect(parseBatchFile(JSON.stringify({ ...entry, method: 'GET' }))).toEqual({ error: "Line 1: 'method' must be POST" });
+    expect(parseBatchFile(JSON.stringify({ ...entry, url: '/v1/embeddings' }))).toEqual({
+      error: "Line 1: 'url' must be one of: /v1/chat/completions, /api/ai/chat"
+    });
+  });
+
+  it('rejects bodies without a model', () => {
+    expect(parseBatchFile(line('a', { messages: [] }))).toEqual({
+      error: "Line 1: 'body' must be a chat request object with a 'model'"
+    });
+  });
+
+  it('rejects empty files and files over the request limit', () => {
+    expect(parseBatchFile('\n \n')).toEqual({ error: 'The batch file contains no requests' });
+
+    const rows = Array.from({ length: MAX_BATCH_REQUESTS + 1 }, (_, i) => line(`q-${i}`));
+    expect(parseBatchFile(rows.join('\n'))).toEqual({
+      error: `A batch can contain at most ${MAX_BATCH_REQUESTS} requests`
+    });
+  });
+});
+
+function completion(model: string) {
+  return {
+    id: 'chatcmpl-test',
+    object: 'chat.completion',
+    created: 1767225600,
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content: 'Hello' }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 }
+  };
+}
+
+describe('batch jobs', () => {
+  let database: TestDatabase;
+  let env: Bindings;
+  let userId: number;
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    await insertModel(database.db, { provider: 'openai', model_id: 'gpt-4o-mini', cost_per_1k_tokens: 0.0006 });
+    userId = await insertUser(database.db, 'batch');
+
+    env = { DB: database.db, OPENAI_API_KEY: 'sk-test' } as unknown as Bindings;
+  }, 60000);
+
+  afterAll(async () => {
+    await database?.dispose();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  async function queue(size: number) {
+    const lines = Array.from({ length: size }, (_, i) => ({
+      customId: `q-${i}`,
+      request: JSON.stringify({ model: 'gpt-4o-mini', messages: [{ role: 'user', content: `Line ${i}` }] })
+    }));
+    const batch = await createBatch(env.DB, userId, null);
+    await addBatchItems(env.DB, batch.id, lines);
+    return queueBatch(env.DB, batch.id, size);
+  }
+
+  it('drains a batch larger than one run to completed', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) =>
+      Response.json(completion(JSON.parse(init.body as string).model))
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const batch = await queue(150);
+
+    expect(await runBatchJobs(env)).toEqual({ processed: 100, completed: 0 });
+    expect((await getBatchById(env.DB, batch.id, userId))?.status).toBe('in_progress');
+
+    expect(await drainBatchJobs(env, 60000)).toEqual({ runs: 2, processed: 50, completed: 1 });
+
+    const finished = await getBatchById(env.DB, batch.id, userId);
+    expect(finished).toMatchObject({ status: 'completed', completed_requests: 150, failed_requests: 0 });
+    expect(fetchMock).toHaveBeenCalledTimes(150);
+  }, 60000);
+
+  it('stops claiming once the time budget has passed', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json(completion('gpt-4o-mini'))));
+
+    const batch = await queue(150);
+
+    expect(await drainBatchJobs(env, 0)).toEqual({ runs: 1, processed: 100, completed: 0 });
+    expect((await getBatchById(env.DB, batch.id, userId))?.completed_requests).toBe(100);
+  }, 60000);
+
+  it('drops stale lines of a cancelled batch instead of retrying them', async () => {
+    const batch = await queue(3);
+    await claimBatchItems(env.DB, batch.id, 2);
+    await cancelBatch(env.DB, batch.id);
+
+    const later = toSqlTimestamp(new Date(Date.now() + 60000));
+    expect(await releaseStaleBatchItems(env.DB, later)).toBe(0);
+
+    const items = await env.DB.prepare('SELECT status FROM batch_items WHERE batch_id = ? ORDER BY line')
+      .bind(batch.id).all<{ status: string }>();
+    expect(items.results.map(item => item.status)).toEqual(['cancelled', 'cancelled', 'cancelled']);
+  });
+
+  it('returns stale lines of an active batch to pending', async () => {
+    const batch = await queue(2);
+    await claimBatchItems(env.DB, batch.id, 2);
+
+    expect(await releaseStaleBatchItems(env.DB, toSqlTimestamp(new Date(Date.now() + 60000)))).toBe(2);
+    expect(await claimBatchItems(env.DB, batch.id, 2)).toHaveLength(2);
+    await cancelBatch(env.DB, batch.id);
+  });
+});
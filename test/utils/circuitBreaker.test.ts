@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Bindings } from '../../src/types';
+import { allowRequest, getProviderHealth, recordFailure, recordSuccess } from '../../src/utils/circuitBreaker';
+
+const env = {
+  CIRCUIT_FAILURE_THRESHOLD: '3',
+  CIRCUIT_ERROR_RATE_THRESHOLD: '0.5',
+  CIRCUIT_MIN_REQUESTS: '10',
+  CIRCUIT_COOLDOWN_MS: '30000'
+} as unknown as Bindings;
+
+let provider: string;
+let providerCount = 0;
+
+function fail(times: number) {
+  for (let i = 0; i < times; i++) {
+    recordFailure(provider, 100, env);
+  }
+}
+
+describe('circuit breaker', () => {
+  beforeEach(() => {
+    // Breakers live in module state, so each test gets a provider of its own
+    provider = `provider-${++providerCount}`;
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens after consecutive failures and rejects calls', () => {
+    fail(2);
+    expect(allowRequest(provider, env)).toBe(true);
+
+    fail(1);
+
+    expect(allowRequest(provider, env)).toBe(false);
+    expect(getProviderHealth(provider, env)).toMatchObject({ state: 'open', consecutiveFailures: 3 });
+  });
+
+  it('opens when the error rate passes its threshold', () => {
+    for (let i = 0; i < 5; i++) {
+      recordSuccess(provider, 100, env);
+      fail(1);
+    }
+
+    expect(getProviderHealth(provider, env)).toMatchObject({ state: 'open', errorRate: 0.5, requests: 10 });
+  });
+
+  it('lets one probe through after the cooldown and closes when it succeeds', () => {
+    fail(3);
+    vi.advanceTimersByTime(30000);
+
+    expect(getProviderHealth(provider, env).state).toBe('half-open');
+    expect(allowRequest(provider, env)).toBe(true);
+    expect(allowRequest(provider, env)).toBe(false);
+
+    recordSuccess(provider, 100, env);
+
+    expect(allowRequest(provider, env)).toBe(true);
+    expect(getProviderHealth(provider, env)).toMatchObject({ state: 'closed', errorRate: 0, consecutiveFailures: 0 });
+  });
+
+  it('reopens when the probe fails', () => {
+    fail(3);
+    vi.advanceTimersByTime(30000);
+    allowRequest(provider, env);
+
+    fail(1);
+
+    expect(allowRequest(provider, env)).toBe(false);
+    expect(getProviderHealth(provider, env)).toMatchObject({
+      state: 'open',
+      retryAt: new Date(Date.now() + 30000).toISOString()
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../../src/index';
+import type { Bindings, EmbeddingRequest, RoutingTrace } from '../../src/types';
+import { routeEmbeddingRequest } from '../../src/utils/aiProviders';
+import { encodeEmbedding, normalizeVector } from '../../src/utils/embeddings';
+import type { TestDatabase } from '../helpers/d1';
+import { createTestDatabase, insertModel, insertUser } from '../helpers/d1';
+
+describe('embedding vectors', () => {
+  it('normalizes vectors to unit length', () => {
+    expect(normalizeVector([3, 4])).toEqual([0.6, 0.8]);
+    expect(normalizeVector([0, 0])).toEqual([0, 0]);
+  });
+
+  it('encodes base64 as little-endian float32 like OpenAI', () => {
+    const encoded = encodeEmbedding([0.5, -1], 'base64') as string;
+    const bytes = Uint8Array.from(atob(encoded), char => char.charCodeAt(0));
+
+    expect(Array.from(new Float32Array(bytes.buffer))).toEqual([0.5, -1]);
+    expect(encodeEmbedding([0.5, -1])).toEqual([0.5, -1]);
+  });
+});
+
+describe('routeEmbeddingRequest', () => {
+  let database: TestDatabase;
+  let env: Bindings;
+  let upstream: { url: string; body: any }[];
+
+  function stubUpstream(reply: unknown) {
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit) => {
+      upstream.push({ url, body: JSON.parse(init.body as string) });
+      return Response.json(reply);
+    }));
+  }
+
+  function embed(request: EmbeddingRequest, trace?: RoutingTrace) {
+    return routeEmbeddingRequest(request, env, trace);
+  }
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    const embedding = { model_type: 'embedding', cost_per_1k_tokens: 0.0001 };
+    await insertModel(database.db, { provider: 'openai', model_id: 'text-embedding-3-small', embedding_dimensions: 1536, ...embedding });
+    await insertModel(database.db, { provider: 'cohere', model_id: 'embed-english-v3.0', embedding_dimensions: 1024, ...embedding });
+    await insertModel(database.db, { provider: 'google', model_id: 'text-embedding-004', embedding_dimensions: 768, ...embedding });
+    await insertModel(database.db, { provider: 'anthropic', model_id: 'claude-embed', ...embedding });
+    env = {
+      DB: database.db,
+      OPENAI_API_KEY: 'sk-test',
+      COHERE_API_KEY: 'co-test',
+      GOOGLE_API_KEY: 'google-key',
+      ANTHROPIC_API_KEY: 'sk-ant-test'
+    } as unknown as Bindings;
+  }, 60000);
+
+  beforeEach(() => {
+    upstream = [];
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  afterAll(async () => {
+    await database?.dispose();
+  });
+
+  it('returns OpenAI embeddings in input order, normalized, with usage and cost', async () => {
+    stubUpstream({
+      data: [{ index: 1, embedding: [0, 2] }, { index: 0, embedding: [3, 4] }],
+      usage: { prompt_tokens: 10, total_tokens: 10 }
+    });
+    const trace: RoutingTrace = { attempts: [] };
+
+    const response = await embed({ model: 'text-embedding-3-small', input: ['first', 'second'], dimensions: 2 }, trace);
+
+    expect(upstream[0].url).toBe('https://api.openai.com/v1/embeddings');
+    expect(upstream[0].body).toMatchObject({ model: 'text-embedding-3-small', input: ['first', 'second'], dimensions: 2 });
+    expect(response).toEqual({
+      object: 'list',
+      data: [
+        { object: 'embedding', index: 0, embedding: [0.6, 0.8] },
+        { object: 'embedding', index: 1, embedding: [0, 1] }
+      ],
+      model: 'text-embedding-3-small',
+      provider: 'openai',
+      usage: { prompt_tokens: 10, total_tokens: 10 }
+    });
+    expect(trace.cost).toBeCloseTo(0.000001, 10);
+  });
+
+  it('translates to Cohere, which has no dimensions parameter', async () => {
+    stubUpstream({ embeddings: { float: [[1, 0]] }, meta: { billed_units: { input_tokens: 3 } } });
+
+    const response = await embed({ model: 'embed-english-v3.0', input: 'hello' });
+    const withDimensions = await embed({ model: 'embed-english-v3.0', input: 'hello', dimensions: 256 }).catch(e => e);
+
+    expect(upstream).toEqual([{
+      url: 'https://api.cohere.ai/v1/embed',
+      body: { model: 'embed-english-v3.0', texts: ['hello'], input_type: 'search_document', embedding_types: ['float'] }
+    }]);
+    expect(response.data[0].embedding).toEqual([1, 0]);
+    expect(response.usage.prompt_tokens).toBe(3);
+    expect(withDimensions).toMatchObject({ status: 400, code: 'unsupported_parameter' });
+  });
+
+  it('batches Gemini inputs and estimates their tokens', async () => {
+    stubUpstream({ embeddings: [{ values: [0, 1] }, { values: [1, 0] }] });
+
+    const response = await embed({ model: 'text-embedding-004', input: ['a'.repeat(8), 'b'], dimensions: 2 });
+
+    expect(upstream[0].url).toContain('/models/text-embedding-004:batchEmbedContents');
+    expect(upstream[0].body.requests[0]).toEqual({
+      model: 'models/text-embedding-004',
+      content: { parts: [{ text: 'aaaaaaaa' }] },
+      outputDimensionality: 2
+    });
+    expect(response.data.map(item => item.embedding)).toEqual([[0, 1], [1, 0]]);
+    expect(response.usage.prompt_tokens).toBe(3);
+  });
+
+  it("rejects providers that don't offer embeddings", async () => {
+    const error = await embed({ model: 'claude-embed', input: 'hello' }).catch(e => e);
+
+    expect(error).toMatchObject({ status: 400, code: 'embeddings_unsupported' });
+  });
+});
+
+describe('/api/ai/embeddings', () => {
+  let database: TestDatabase;
+  let env: Bindings;
+
+  function post(path: string, body: Record<string, unknown>) {
+    return app.request(`/api/ai${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-API-Key': 'apk_embedder' },
+      body: JSON.stringify(body)
+    }, env);
+  }
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    await insertUser(database.db, 'embedder');
+    await insertModel(database.db, { provider: 'openai', model_id: 'gpt-4o-mini' });
+    await insertModel(database.db, {
+      provider: 'openai',
+      model_id: 'text-embedding-3-small',
+      model_type: 'embedding',
+      embedding_dimensions: 1536
+    });
+    env = { DB: database.db, OPENAI_API_KEY: 'sk-test' } as unknown as Bindings;
+  }, 60000);
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await database?.dispose();
+  });
+
+  it('serves embeddings in base64 on request', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ data: [{ index: 0, embedding: [1, 0] }], usage: { prompt_tokens: 1 } })));
+
+    const response = await post('/embeddings', { model: 'text-embedding-3-small', input: 'hello', encoding_format: 'base64' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Provider')).toBe('openai');
+    expect((await response.json() as any).data[0].embedding).toBe(encodeEmbedding([1, 0], 'base64'));
+  });
+
+  it('keeps chat and embedding models apart', async () => {
+    const chatModel = await post('/embeddings', { model: 'gpt-4o-mini', input: 'hello' });
+    const embeddingModel = await post('/chat', { model: 'text-embedding-3-small', messages: [{ role: 'user', content: 'Hi' }] });
+
+    expect(chatModel.status).toBe(400);
+    expect(await chatModel.json()).toMatchObject({ error: { message: "'gpt-4o-mini' is not an embedding model" } });
+    expect(embeddingModel.status).toBe(400);
+    expect(await embeddingModel.json()).toMatchObject({ error: { param: 'model' } });
+  });
+
+  it('validates inputs and dimensions', async () => {
+    const empty = await post('/embeddings', { model: 'text-embedding-3-small', input: [] });
+    const blank = await post('/embeddings', { model: 'text-embedding-3-small', input: ['ok', ''] });
+    const tooLarge = await post('/embeddings', { model: 'text-embedding-3-small', input: 'hello', dimensions: 4096 });
+
+    expect(await empty.json()).toMatchObject({ error: { param: 'input' } });
+    expect(await blank.json()).toMatchObject({ error: { param: 'input' } });
+    expect(await tooLarge.json()).toMatchObject({
+      error: { message: "'dimensions' is too large: text-embedding-3-small returns at most 1536 dimensions" }
+    });
+  });
+});
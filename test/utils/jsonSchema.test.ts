@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { validateJsonSchema } from '../../src/utils/jsonSchema';
+
+describe('validateJsonSchema', () => {
+  const person = {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      age: { type: 'integer', minimum: 0 },
+      tags: { type: 'array', items: { type: 'string' }, uniqueItems: true }
+    },
+    required: ['name', 'age'],
+    additionalProperties: false
+  };
+
+  it('accepts a matching value', () => {
+    expect(validateJsonSchema({ name: 'Ada', age: 36, tags: ['math'] }, person)).toEqual([]);
+  });
+
+  it('reports every violation with its path', () => {
+    expect(validateJsonSchema({ name: '', age: 1.5, tags: ['a', 'a', 1], extra: true }, person)).toEqual([
+      '$.name: must be at least 1 characters',
+      '$.age: expected integer, got number',
+      '$.tags: items must be unique',
+      '$.tags[2]: expected string, got integer',
+      "$: unexpected property 'extra'"
+    ]);
+  });
+
+  it('reports missing required properties', () => {
+    expect(validateJsonSchema({ name: 'Ada' }, person)).toEqual(["$: missing required property 'age'"]);
+  });
+
+  it('stops checking a value whose type does not match', () => {
+    expect(validateJsonSchema('Ada', person)).toEqual(['$: expected object, got string']);
+  });
+
+  it('accepts any of several types, including null', () => {
+    const schema = { type: ['string', 'null'] };
+
+    expect(validateJsonSchema(null, schema)).toEqual([]);
+    expect(validateJsonSchema(1, schema)).toEqual(['$: expected string or null, got integer']);
+  });
+
+  it('checks enum and const by structural equality', () => {
+    expect(validateJsonSchema({ a: [1] }, { enum: [{ a: [1] }, 'b'] })).toEqual([]);
+    expect(validateJsonSchema('c', { enum: ['a', 'b'] })).toEqual(['$: must be one of ["a","b"]']);
+    expect(validateJsonSchema(2, { const: 1 })).toEqual(['$: must equal 1']);
+  });
+
+  it('checks string, number and array bounds', () => {
+    expect(validateJsonSchema('abc', { maxLength: 2, pattern: '^a+$' })).toEqual([
+      '$: must be at most 2 characters',
+      '$: must match pattern ^a+$'
+    ]);
+    expect(validateJsonSchema(10, { exclusiveMaximum: 10, multipleOf: 3 })).toEqual([
+      '$: must be < 10',
+      '$: must be a multiple of 3'
+    ]);
+    expect(validateJsonSchema(0.3, { multipleOf: 0.1 })).toEqual([]);
+    expect(validateJsonSchema([], { minItems: 1 })).toEqual(['$: must have at least 1 items']);
+  });
+
+  it('counts characters, not UTF-16 units, for string length', () => {
+    expect(validateJsonSchema('😀', { maxLength: 1 })).toEqual([]);
+  });
+
+  it('ignores a pattern that is not a valid regular expression', () => {
+    expect(validateJsonSchema('a', { pattern: '(' })).toEqual([]);
+  });
+
+  it('validates tuples with prefixItems followed by items', () => {
+    const schema = { prefixItems: [{ type: 'string' }], items: { type: 'number' } };
+
+    expect(validateJsonSchema(['a', 1, 2], schema)).toEqual([]);
+    expect(validateJsonSchema([1, 'b'], schema)).toEqual([
+      '$[0]: expected string, got integer',
+      '$[1]: expected number, got string'
+    ]);
+  });
+
+  it('validates additional properties against a schema', () => {
+    expect(validateJsonSchema({ a: 1, b: 'x' }, { additionalProperties: { type: 'number' } })).toEqual([
+      '$.b: expected number, got string'
+    ]);
+  });
+
+  it('combines schemas with allOf, anyOf, oneOf and not', () => {
+    expect(validateJsonSchema(5, { allOf: [{ minimum: 1 }, { maximum: 3 }] })).toEqual(['$: must be <= 3']);
+    expect(validateJsonSchema(true, { anyOf: [{ type: 'string' }, { type: 'number' }] })).toEqual([
+      '$: must match at least one of the allowed schemas (anyOf)'
+    ]);
+    expect(validateJsonSchema(1, { oneOf: [{ type: 'integer' }, { type: 'number' }] })).toEqual([
+      '$: must match exactly one of the allowed schemas (oneOf matched 2)'
+    ]);
+    expect(validateJsonSchema('x', { not: { type: 'string' } })).toEqual([
+      '$: must not match the excluded schema (not)'
+    ]);
+  });
+
+  it('resolves local $refs against the root schema', () => {
+    const schema = {
+      $defs: { 'a/b': { type: 'string' } },
+      properties: { home: { $ref: '#/$defs/a~1b' }, work: { $ref: '#/$defs/missing' } }
+    };
+
+    expect(validateJsonSchema({ home: 1, work: 'x' }, schema)).toEqual([
+      '$.home: expected string, got integer',
+      '$.work: cannot resolve $ref #/$defs/missing'
+    ]);
+  });
+
+  it('treats boolean schemas as allow-all and allow-nothing', () => {
+    expect(validateJsonSchema({ a: 1 }, { properties: { a: true, b: false } })).toEqual([]);
+    expect(validateJsonSchema({ b: 1 }, { properties: { b: false } })).toEqual(['$.b: no value is allowed here']);
+  });
+
+  it('returns at most 10 errors', () => {
+    const value = Array.from({ length: 20 }, () => 'x');
+
+    expect(validateJsonSchema(value, { items: { type: 'number' } })).toHaveLength(10);
+  });
+});
@@ -0,0 +1,115 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../../src/index';
+import type { Bindings } from '../../src/types';
+import { toSqlTimestamp } from '../../src/utils/database';
+import { runKeyExpiryJob } from '../../src/utils/keyExpiry';
+import type { TestDatabase } from '../helpers/d1';
+import { createTestDatabase, insertApiKey, insertUser } from '../helpers/d1';
+import { sessionHeaders } from '../helpers/auth';
+
+const HOUR_MS = 60 * 60 * 1000;
+const WEBHOOK_URL = 'https://hooks.example.com/keys';
+
+function hoursFromNow(hours: number) {
+  return toSqlTimestamp(new Date(Date.now() + hours * HOUR_MS));
+}
+
+describe('key expiry', () => {
+  let database: TestDatabase;
+  let env: Bindings;
+  let userId: number;
+
+  async function readKey(id: number) {
+    return database.db.prepare('SELECT is_active, expiry_warned_at FROM api_keys WHERE id = ?').bind(id).first<Record<string, unknown>>();
+  }
+
+  async function readAudit(id: number) {
+    const result = await database.db.prepare(`
+      SELECT action FROM audit_logs WHERE target_type = 'api_key' AND target_id = ? ORDER BY id
+    `).bind(id).all<{ action: string }>();
+    return result.results.map(row => row.action);
+  }
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    env = { DB: database.db } as unknown as Bindings;
+  }, 60000);
+
+  beforeEach(async () => {
+    userId = await insertUser(database.db, `user${Date.now()}${Math.random().toString(36).slice(2)}`);
+    // Keys from earlier tests shouldn't be picked up by the job
+    await database.db.prepare('UPDATE api_keys SET is_active = 0').run();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await database?.dispose();
+  });
+
+  it('rejects an expired key even before the job deactivates it', async () => {
+    const { apiKey } = await insertApiKey(database.db, userId, {}, hoursFromNow(-1));
+
+    const response = await app.request('/api/ai/models', { headers: { 'X-API-Key': apiKey } }, env);
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ error: 'Unauthorized - API key expired' });
+  });
+
+  it('deactivates expired keys and audits them', async () => {
+    const expired = await insertApiKey(database.db, userId, {}, hoursFromNow(-1));
+    const current = await insertApiKey(database.db, userId, {}, hoursFromNow(24 * 30));
+
+    expect(await runKeyExpiryJob(env)).toEqual({ expired: 1, warned: 0 });
+
+    expect(await readKey(expired.key.id)).toMatchObject({ is_active: 0 });
+    expect(await readKey(current.key.id)).toMatchObject({ is_active: 1 });
+    expect(await readAudit(expired.key.id)).toEqual(['api_key.expired']);
+  });
+
+  it('warns once about keys expiring within the warning window', async () => {
+    const events: Record<string, any>[] = [];
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+      events.push(JSON.parse(init.body as string));
+      return new Response(null, { status: 204 });
+    }));
+    const soon = await insertApiKey(database.db, userId, {}, hoursFromNow(48));
+    await insertApiKey(database.db, userId, {}, hoursFromNow(24 * 30));
+    const withWebhook = { ...env, KEY_EXPIRY_WEBHOOK_URL: WEBHOOK_URL };
+
+    expect(await runKeyExpiryJob(withWebhook)).toEqual({ expired: 0, warned: 1 });
+    expect(await runKeyExpiryJob(withWebhook)).toEqual({ expired: 0, warned: 0 });
+
+    expect(events).toEqual([expect.objectContaining({
+      event: 'api_key.expiring',
+      data: expect.objectContaining({ keyId: soon.key.id, daysRemaining: 2 })
+    })]);
+    expect(await readAudit(soon.key.id)).toEqual(['api_key.expiry_warning']);
+  });
+
+  it('leaves keys unwarned while no webhook is configured', async () => {
+    const soon = await insertApiKey(database.db, userId, {}, hoursFromNow(48));
+
+    expect(await runKeyExpiryJob(env)).toEqual({ expired: 0, warned: 0 });
+    expect(await readKey(soon.key.id)).toMatchObject({ expiry_warned_at: null });
+  });
+
+  it('caps new keys at API_KEY_MAX_LIFETIME_DAYS', async () => {
+    const headers = await sessionHeaders(userId);
+    const limited = { ...env, API_KEY_MAX_LIFETIME_DAYS: '30' };
+    const create = (body: object) =>
+      app.request('/api/keys', { method: 'POST', headers, body: JSON.stringify({ name: 'CI', ...body }) }, limited);
+
+    const tooLong = await create({ expiresInDays: 90 });
+    const defaulted = await create({});
+
+    expect(tooLong.status).toBe(400);
+    expect(await tooLong.json()).toEqual({ error: 'API keys may not be valid for more than 30 days' });
+    expect(defaulted.status).toBe(201);
+    expect((await defaulted.json() as any).key.expiresAt).not.toBeNull();
+  });
+});
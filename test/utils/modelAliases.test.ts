@@ -0,0 +1,207 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { AIModel, AIRequest, ChatMessage, ModelAlias, RouteOptions, RoutingTrace } from '../../src/types';
+import { ProviderError } from '../../src/providers';
+import { checkAliasDefaults, parseAliasInput, pickVariant, resolveAlias } from '../../src/utils/modelAliases';
+import { saveModelAlias } from '../../src/utils/database';
+import type { TestDatabase } from '../helpers/d1';
+import { createTestDatabase, insertModel } from '../helpers/d1';
+
+function request(fields: Partial<AIRequest> = {}): AIRequest {
+  return { model: 'team/summarizer', messages: [{ role: 'user', content: 'Summarize this' }], ...fields };
+}
+
+/**
+ * Save an alias from an admin API body
+ */
+async function createAlias(db: D1Database, body: Record<string, unknown>): Promise<ModelAlias> {
+  const input = parseAliasInput(body, null);
+  if ('error' in input) {
+    throw new Error(input.error);
+  }
+  return saveModelAlias(db, null, input.fields);
+}
+
+describe('parseAliasInput', () => {
+  it('rejects malformed defaults', () => {
+    expect(parseAliasInput({ alias: 'a', model: 'gpt-4o', defaults: { temperature: -1 } }, null)).toEqual({
+      error: 'defaults.temperature must be a non-negative number'
+    });
+    expect(parseAliasInput({ alias: 'a', model: 'gpt-4o', defaults: { maxTokens: 1.5 } }, null)).toEqual({
+      error: 'defaults.maxTokens must be a positive integer'
+    });
+  });
+});
+
+describe('checkAliasDefaults', () => {
+  const model = { model_id: 'claude-3-haiku', provider: 'anthropic', max_tokens: 200000, max_output_tokens: 4096 } as AIModel;
+
+  it("accepts defaults within the model's limits", () => {
+    expect(checkAliasDefaults({ temperature: 1, max_tokens: 4096 }, model)).toBeNull();
+    expect(checkAliasDefaults({ temperature: null, max_tokens: null }, model)).toBeNull();
+  });
+
+  it("rejects a temperature above the provider's range", () => {
+    expect(checkAliasDefaults({ temperature: 1.5, max_tokens: null }, model)).toBe(
+      'defaults.temperature must be at most 1 for claude-3-haiku'
+    );
+  });
+
+  it("rejects max_tokens above the model's completion limit", () => {
+    expect(checkAliasDefaults({ temperature: null, max_tokens: 8192 }, model)).toBe(
+      'defaults.maxTokens is too large: claude-3-haiku supports at most 4096 completion tokens'
+    );
+  });
+});
+
+describe('resolveAlias', () => {
+  let database: TestDatabase;
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    await insertModel(database.db, { provider: 'openai', model_id: 'gpt-4o-mini', max_output_tokens: 16384 });
+    await createAlias(database.db, {
+      alias: 'team/summarizer',
+      model: 'gpt-4o-mini',
+      defaults: { systemPrompt: 'Use three bullet points.', temperature: 0.2, maxTokens: 8000 }
+    });
+  }, 60000);
+
+  afterAll(async () => {
+    await database?.dispose();
+  });
+
+  it('points the request at the target and fills in the defaults', async () => {
+    const trace: RoutingTrace = { attempts: [] };
+
+    const resolved = await resolveAlias(database.db, request(), trace);
+
+    expect(resolved).toEqual({
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'system', content: 'Use three bullet points.' }, { role: 'user', content: 'Summarize this' }],
+      temperature: 0.2,
+      max_tokens: 8000
+    });
+    expect(trace.alias).toBe('team/summarizer');
+  });
+
+  it("keeps the caller's parameters and system message", async () => {
+    const messages: ChatMessage[] = [{ role: 'system', content: 'Be terse.' }, { role: 'user', content: 'Summarize this' }];
+
+    const resolved = await resolveAlias(database.db, request({ messages, temperature: 0.9, max_tokens: 100 }), { attempts: [] });
+
+    expect(resolved).toMatchObject({ messages, temperature: 0.9, max_tokens: 100 });
+  });
+
+  it('leaves catalog model names alone', async () => {
+    const trace: RoutingTrace = { attempts: [] };
+
+    expect(await resolveAlias(database.db, request({ model: 'gpt-4o-mini' }), trace)).toEqual(request({ model: 'gpt-4o-mini' }));
+    expect(trace.alias).toBeUndefined();
+  });
+
+  it('rejects defaults that no longer fit the target model', async () => {
+    await database.db.prepare('UPDATE ai_models SET max_output_tokens = 4096 WHERE model_id = ?').bind('gpt-4o-mini').run();
+
+    try {
+      const error = await resolveAlias(database.db, request(), { attempts: [] }).catch(e => e);
+      expect(error).toBeInstanceOf(ProviderError);
+      expect(error).toMatchObject({
+        status: 400,
+        message: 'Alias team/summarizer: defaults.maxTokens is too large: gpt-4o-mini supports at most 4096 completion tokens'
+      });
+
+      // A caller setting max_tokens itself doesn't pick up the default
+      expect(await resolveAlias(database.db, request({ max_tokens: 1000 }), { attempts: [] })).toMatchObject({ max_tokens: 1000 });
+    } finally {
+      await database.db.prepare('UPDATE ai_models SET max_output_tokens = 16384 WHERE model_id = ?').bind('gpt-4o-mini').run();
+    }
+  });
+});
+
+describe('A/B variants', () => {
+  let database: TestDatabase;
+  let split: ModelAlias;
+
+  /**
+   * Variant assigned to each of `count` users
+   */
+  async function assign(count: number, options: RouteOptions = {}) {
+    const variants: string[] = [];
+    for (let userId = 1; userId <= count; userId++) {
+      const trace: RoutingTrace = { attempts: [] };
+      await resolveAlias(database.db, request({ model: 'smart-ab' }), trace, { userId, ...options });
+      variants.push(trace.variant!);
+    }
+    return variants;
+  }
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    await insertModel(database.db, { provider: 'anthropic', model_id: 'claude-3-sonnet' });
+    await insertModel(database.db, { provider: 'openai', model_id: 'gpt-4o' });
+    await insertModel(database.db, { provider: 'openai', model_id: 'gpt-4o-mini' });
+    split = await createAlias(database.db, {
+      alias: 'smart-ab',
+      variants: [{ model: 'claude-3-sonnet', weight: 50 }, { model: 'gpt-4o', weight: 30 }, { model: 'gpt-4o-mini', weight: 20 }]
+    });
+  }, 60000);
+
+  afterAll(async () => {
+    await database?.dispose();
+  });
+
+  it('keeps a user on the same variant', () => {
+    const variants = JSON.parse(split.variants!);
+    const first = pickVariant(split, variants, { userId: 42 });
+
+    for (let i = 0; i < 20; i++) {
+      expect(pickVariant(split, variants, { userId: 42 })).toEqual(first);
+    }
+  });
+
+  it('sticks to the API key when the alias says so', () => {
+    const variants = JSON.parse(split.variants!);
+    const byKey = { ...split, sticky_by: 'api_key' as const };
+    const first = pickVariant(byKey, variants, { userId: 1, apiKeyId: 7 });
+
+    for (let userId = 2; userId <= 20; userId++) {
+      expect(pickVariant(byKey, variants, { userId, apiKeyId: 7 })).toEqual(first);
+    }
+  });
+
+  it('splits users by weight', () => {
+    const variants = Array.from({ length: 1000 }, (_, i) => pickVariant(split, JSON.parse(split.variants!), { userId: i + 1 }).model);
+    const share = (model: string) => variants.filter(variant => variant === model).length / variants.length;
+
+    expect(share('claude-3-sonnet')).toBeCloseTo(0.5, 1);
+    expect(share('gpt-4o')).toBeCloseTo(0.3, 1);
+    expect(share('gpt-4o-mini')).toBeCloseTo(0.2, 1);
+  });
+
+  it('never assigns an inactive variant', async () => {
+    await database.db.prepare('UPDATE ai_models SET is_active = 0 WHERE model_id = ?').bind('gpt-4o').run();
+
+    try {
+      const variants = await assign(20);
+      expect(new Set(variants)).toEqual(new Set(['claude-3-sonnet', 'gpt-4o-mini']));
+    } finally {
+      await database.db.prepare('UPDATE ai_models SET is_active = 1 WHERE model_id = ?').bind('gpt-4o').run();
+    }
+  });
+
+  it("only assigns variants on the key's allowed providers", async () => {
+    const variants = await assign(20, { scopes: { models: ['smart-ab'], providers: ['openai'] } });
+
+    expect(new Set(variants)).toEqual(new Set(['gpt-4o', 'gpt-4o-mini']));
+  });
+
+  it('fails when no variant is available to the key', async () => {
+    const error = await resolveAlias(database.db, request({ model: 'smart-ab' }), { attempts: [] }, {
+      userId: 1,
+      scopes: { providers: ['cohere'] }
+    }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error).toMatchObject({ status: 403, code: 'model_not_allowed' });
+  });
+});
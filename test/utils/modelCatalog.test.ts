@@ -0,0 +1,123 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { AIModel, Bindings, RoutingTrace } from '../../src/types';
+import { ProviderError } from '../../src/providers';
+import { routeAIRequest } from '../../src/utils/aiProviders';
+import { getDeprecationWarning, isModelRetired, parseModelInput } from '../../src/utils/modelCatalog';
+import type { TestDatabase } from '../helpers/d1';
+import { createTestDatabase, insertModel } from '../helpers/d1';
+
+const now = new Date('2026-06-01T12:00:00Z');
+
+function model(fields: Partial<AIModel>): AIModel {
+  return { model_id: 'gpt-4', deprecated_at: null, replacement_model_id: null, ...fields } as AIModel;
+}
+
+describe('parseModelInput', () => {
+  it('maps API fields to catalog columns', () => {
+    expect(parseModelInput({
+      provider: 'openai',
+      name: 'GPT-4o mini',
+      id: 'gpt-4o-mini',
+      contextWindow: 128000,
+      capabilities: { vision: true, streaming: false },
+      fallbackModels: ['claude-3-haiku'],
+      deprecatedAt: '2026-12-31T00:00:00Z'
+    }, false)).toEqual({
+      fields: {
+        provider: 'openai',
+        model_name: 'GPT-4o mini',
+        model_id: 'gpt-4o-mini',
+        max_tokens: 128000,
+        supports_vision: 1,
+        supports_streaming: 0,
+        fallback_models: '["claude-3-haiku"]',
+        deprecated_at: '2026-12-31 00:00:00'
+      }
+    });
+  });
+
+  it('requires provider, name and id only when creating', () => {
+    expect(parseModelInput({ provider: 'openai', name: 'GPT-4o' }, false)).toEqual({ error: 'Missing required field: id' });
+    expect(parseModelInput({ description: null }, true)).toEqual({ fields: { description: null } });
+  });
+
+  it('rejects unknown providers and malformed values', () => {
+    expect(parseModelInput({ provider: 'acme' }, true)).toEqual({ error: 'Unknown provider: acme' });
+    expect(parseModelInput({ costPer1kTokens: -1 }, true)).toEqual({ error: 'costPer1kTokens must be a non-negative number' });
+    expect(parseModelInput({ capabilities: { tools: 'yes' } }, true)).toEqual({ error: 'capabilities.tools must be a boolean' });
+    expect(parseModelInput({ deprecatedAt: 'soon' }, true)).toEqual({ error: 'deprecatedAt must be a valid date' });
+  });
+});
+
+describe('deprecation', () => {
+  it('warns before the deprecation date and reports retirement after it', () => {
+    const deprecated = model({ deprecated_at: '2026-07-01 00:00:00', replacement_model_id: 'gpt-4o' });
+    const retired = model({ deprecated_at: '2026-05-01 00:00:00' });
+
+    expect(isModelRetired(deprecated, now)).toBe(false);
+    expect(getDeprecationWarning(deprecated, now)).toBe('gpt-4 is deprecated and will be retired on 2026-07-01. Use gpt-4o instead.');
+    expect(isModelRetired(retired, now)).toBe(true);
+    expect(getDeprecationWarning(retired, now)).toBe('gpt-4 was retired on 2026-05-01.');
+    expect(getDeprecationWarning(model({}), now)).toBeNull();
+  });
+});
+
+describe('routing retired models', () => {
+  let database: TestDatabase;
+  let env: Bindings;
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    await insertModel(database.db, { provider: 'openai', model_id: 'gpt-4o' });
+    await insertModel(database.db, {
+      provider: 'openai',
+      model_id: 'gpt-4',
+      deprecated_at: '2020-01-01 00:00:00',
+      replacement_model_id: 'gpt-4o'
+    });
+    await insertModel(database.db, { provider: 'openai', model_id: 'gpt-3.5-turbo', deprecated_at: '2020-01-01 00:00:00' });
+    env = { DB: database.db, OPENAI_API_KEY: 'sk-test' } as unknown as Bindings;
+  }, 60000);
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  afterAll(async () => {
+    await database?.dispose();
+  });
+
+  it('redirects a retired model to its replacement', async () => {
+    const upstreamModels: string[] = [];
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+      upstreamModels.push(JSON.parse(init.body as string).model);
+      return Response.json({
+        id: 'chatcmpl-1',
+        model: 'gpt-4o',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Hi' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 }
+      });
+    }));
+    const trace: RoutingTrace = { attempts: [] };
+
+    await routeAIRequest({ model: 'gpt-4', messages: [{ role: 'user', content: 'Hi' }] }, env, trace);
+
+    expect(upstreamModels).toEqual(['gpt-4o']);
+    expect(trace).toMatchObject({
+      redirectedFrom: 'gpt-4',
+      model: 'gpt-4o',
+      deprecationWarning: 'gpt-4 has been retired and was redirected to gpt-4o'
+    });
+  });
+
+  it('rejects a retired model without a replacement, or under the reject policy', async () => {
+    const request = (model: string) => ({ model, messages: [{ role: 'user' as const, content: 'Hi' }] });
+
+    const withoutReplacement = await routeAIRequest(request('gpt-3.5-turbo'), env).catch(e => e);
+    const rejected = await routeAIRequest(request('gpt-4'), { ...env, RETIRED_MODEL_POLICY: 'reject' }).catch(e => e);
+
+    expect(withoutReplacement).toBeInstanceOf(ProviderError);
+    expect(withoutReplacement).toMatchObject({ status: 410, code: 'model_retired' });
+    expect(rejected).toMatchObject({ status: 410, message: 'gpt-4 was retired on 2020-01-01. Use gpt-4o instead.' });
+  });
+});
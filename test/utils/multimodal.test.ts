@@ -0,0 +1,120 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { AIRequest, ChatMessage } from '../../src/types';
+import { anthropicAdapter } from '../../src/providers/anthropic';
+import { geminiAdapter } from '../../src/providers/gemini';
+import { checkMediaData, getBase64Size, getMessageText, inlineRemoteImages, parseDataUrl } from '../../src/utils/multimodal';
+import { validateChatRequest } from '../../src/utils/validation';
+import type { TestDatabase } from '../helpers/d1';
+import { createTestDatabase, insertModel } from '../helpers/d1';
+
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+const PDF = 'data:application/pdf;base64,JVBERi0xLjQ=';
+
+const imageMessage: ChatMessage = {
+  role: 'user',
+  content: [
+    { type: 'text', text: 'What is in these?' },
+    { type: 'image_url', image_url: { url: PNG } },
+    { type: 'image_url', image_url: { url: 'https://images.test/cat.jpg' } },
+    { type: 'file', file: { filename: 'report.pdf', file_data: PDF } }
+  ]
+};
+
+describe('media data', () => {
+  it('parses base64 data URLs and measures their decoded size', () => {
+    expect(parseDataUrl(PNG)).toEqual({ mimeType: 'image/png', data: 'iVBORw0KGgo=' });
+    expect(parseDataUrl('https://images.test/cat.jpg')).toBeNull();
+    expect(getBase64Size('iVBORw0KGgo=')).toBe(8);
+  });
+
+  it('checks MIME types and size limits', () => {
+    expect(checkMediaData({ mimeType: 'image/png', data: 'AAAA' }, 'image')).toBeNull();
+    expect(checkMediaData({ mimeType: 'image/tiff', data: 'AAAA' }, 'image')).toMatch(/^Unsupported image type 'image\/tiff'/);
+    expect(checkMediaData({ mimeType: 'application/pdf', data: 'A'.repeat(14 * 1024 * 1024) }, 'document'))
+      .toMatch(/^Document is too large/);
+  });
+
+  it('reads only the text parts of a message', () => {
+    expect(getMessageText(imageMessage.content)).toBe('What is in these?');
+    expect(getMessageText(null)).toBe('');
+  });
+});
+
+describe('provider translation', () => {
+  const request = { model: 'test-model', messages: [imageMessage] } as AIRequest;
+  const config = { apiKey: 'test-key', baseUrl: 'https://provider.test' };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends Anthropic image and document blocks', () => {
+    const body = anthropicAdapter.buildRequest(request, config, false).body as any;
+
+    expect(body.messages[0].content).toEqual([
+      { type: 'text', text: 'What is in these?' },
+      { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } },
+      { type: 'image', source: { type: 'url', url: 'https://images.test/cat.jpg' } },
+      { type: 'document', source: { type: 'base64', media_type: 'application/pdf', data: 'JVBERi0xLjQ=' }, title: 'report.pdf' }
+    ]);
+  });
+
+  it('downloads remote images for Gemini, which only takes inline data', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array([1, 2, 3]), { headers: { 'Content-Type': 'image/jpeg' } })));
+
+    const inlined = await inlineRemoteImages(request);
+    const body = geminiAdapter.buildRequest(inlined, config, false).body as any;
+
+    expect(body.contents[0].parts).toEqual([
+      { text: 'What is in these?' },
+      { inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } },
+      { inlineData: { mimeType: 'image/jpeg', data: 'AQID' } },
+      { inlineData: { mimeType: 'application/pdf', data: 'JVBERi0xLjQ=' } }
+    ]);
+  });
+
+  it('rejects a remote image that fails to download', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('Not found', { status: 404 })));
+
+    const error = await inlineRemoteImages(request).catch(e => e);
+
+    expect(error).toMatchObject({ status: 400, code: 'invalid_image' });
+  });
+});
+
+describe('multimodal validation', () => {
+  let database: TestDatabase;
+
+  function validate(model: string, messages: unknown[]) {
+    return validateChatRequest(database.db, { model, messages });
+  }
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    await insertModel(database.db, { provider: 'openai', model_id: 'gpt-4o', supports_vision: 1 });
+    await insertModel(database.db, { provider: 'openai', model_id: 'gpt-3.5-turbo' });
+  }, 60000);
+
+  afterAll(async () => {
+    await database?.dispose();
+  });
+
+  it('accepts images and documents for vision models only', async () => {
+    expect(await validate('gpt-4o', [imageMessage])).toHaveProperty('value');
+    expect(await validate('gpt-3.5-turbo', [imageMessage])).toMatchObject({
+      error: { error: { message: 'gpt-3.5-turbo does not support image or document input', param: 'messages' } }
+    });
+  });
+
+  it('points at the offending content part', async () => {
+    const fromAssistant = await validate('gpt-4o', [{ role: 'assistant', content: [{ type: 'image_url', image_url: { url: PNG } }] }]);
+    const badUrl = await validate('gpt-4o', [{ role: 'user', content: [{ type: 'image_url', image_url: { url: 'ftp://x' } }] }]);
+    const badType = await validate('gpt-4o', [{ role: 'user', content: [{ type: 'image_url', image_url: { url: 'data:image/tiff;base64,AAAA' } }] }]);
+    const notPdf = await validate('gpt-4o', [{ role: 'user', content: [{ type: 'file', file: { file_data: PNG } }] }]);
+
+    expect(fromAssistant).toMatchObject({ error: { error: { param: 'messages[0].content[0].type' } } });
+    expect(badUrl).toMatchObject({ error: { error: { param: 'messages[0].content[0].image_url.url' } } });
+    expect(badType).toMatchObject({ error: { error: { param: 'messages[0].content[0].image_url.url' } } });
+    expect(notPdf).toMatchObject({ error: { error: { param: 'messages[0].content[0].file.file_data' } } });
+  });
+});
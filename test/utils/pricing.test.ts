@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import type { AIModel } from '../../src/types';
+import { calculateCost } from '../../src/utils/pricing';
+
+function model(prices: Partial<Pick<AIModel, 'cost_per_1k_tokens' | 'input_cost_per_1k' | 'output_cost_per_1k'>>): AIModel {
+  // calculateCost only reads the prices
+  return {
+    id: 1,
+    provider: 'openai',
+    model_name: 'GPT-4o',
+    model_id: 'gpt-4o',
+    cost_per_1k_tokens: null,
+    input_cost_per_1k: null,
+    output_cost_per_1k: null,
+    ...prices
+  } as AIModel;
+}
+
+const usage = { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 };
+
+describe('calculateCost', () => {
+  it('prices prompt and completion tokens separately', () => {
+    expect(calculateCost(model({ input_cost_per_1k: 0.0025, output_cost_per_1k: 0.01 }), usage)).toBe(0.0075);
+  });
+
+  it('falls back to the blended price for unset input or output prices', () => {
+    expect(calculateCost(model({ cost_per_1k_tokens: 0.002 }), usage)).toBe(0.003);
+    expect(calculateCost(model({ cost_per_1k_tokens: 0.002, output_cost_per_1k: 0 }), usage)).toBe(0.002);
+  });
+
+  it('is free when the model has no prices', () => {
+    expect(calculateCost(model({}), usage)).toBe(0);
+  });
+
+  it('rounds to millionths of a dollar', () => {
+    const cost = calculateCost(model({ input_cost_per_1k: 0.00015 }), { prompt_tokens: 7, completion_tokens: 0, total_tokens: 7 });
+    expect(cost).toBe(0.000001);
+  });
+});
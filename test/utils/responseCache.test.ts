@@ -0,0 +1,143 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../../src/index';
+import type { AIRequest, Bindings } from '../../src/types';
+import { getCacheKey } from '../../src/utils/responseCache';
+import type { TestDatabase } from '../helpers/d1';
+import { createTestDatabase, insertModel, insertUser } from '../helpers/d1';
+import { sessionHeaders } from '../helpers/auth';
+
+function completion(content: string) {
+  return Response.json({
+    id: 'chatcmpl-1',
+    model: 'gpt-4o-mini',
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 1000, completion_tokens: 1000, total_tokens: 2000 }
+  });
+}
+
+describe('getCacheKey', () => {
+  const request: AIRequest = { model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Hi' }], temperature: 0 };
+
+  it('ignores surrounding whitespace and gateway-only fields', async () => {
+    const key = await getCacheKey(request);
+
+    expect(await getCacheKey({ ...request, messages: [{ role: 'user', content: ' Hi\n' }] })).toBe(key);
+    expect(await getCacheKey({ ...request, cache: { ttl: 60 }, stream: true })).toBe(key);
+  });
+
+  it('changes with the model, prompt or sampling parameters', async () => {
+    const key = await getCacheKey(request);
+
+    expect(await getCacheKey({ ...request, model: 'gpt-4o' })).not.toBe(key);
+    expect(await getCacheKey({ ...request, messages: [{ role: 'user', content: 'Hello' }] })).not.toBe(key);
+    expect(await getCacheKey({ ...request, temperature: 1 })).not.toBe(key);
+  });
+});
+
+describe('exact response cache', () => {
+  let database: TestDatabase;
+  let env: Bindings;
+  let username: string;
+  let userId: number;
+  let upstreamCalls: number;
+
+  function chat(body: Record<string, unknown>, headers: Record<string, string> = {}, user = username) {
+    return app.request('/api/ai/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-API-Key': `apk_${user}`, ...headers },
+      body: JSON.stringify({ model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'What is 2 + 2?' }], ...body })
+    }, env);
+  }
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    await insertModel(database.db, { provider: 'openai', model_id: 'gpt-4o-mini', cost_per_1k_tokens: 0.001 });
+    env = { DB: database.db, OPENAI_API_KEY: 'sk-test' } as unknown as Bindings;
+  }, 60000);
+
+  beforeEach(async () => {
+    username = `user${Date.now()}${Math.random().toString(36).slice(2, 6)}`;
+    userId = await insertUser(database.db, username);
+    upstreamCalls = 0;
+    vi.stubGlobal('fetch', vi.fn(async () => completion(`Answer ${++upstreamCalls}`)));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await database?.dispose();
+  });
+
+  it("doesn't cache requests that don't opt in", async () => {
+    const first = await chat({});
+    await chat({});
+
+    expect(first.headers.get('X-Cache')).toBeNull();
+    expect(upstreamCalls).toBe(2);
+  });
+
+  it('serves a repeated request from the cache', async () => {
+    const miss = await chat({ cache: true });
+    const hit = await chat({ cache: true });
+
+    expect(miss.headers.get('X-Cache')).toBe('MISS');
+    expect(hit.headers.get('X-Cache')).toBe('HIT');
+    expect(await hit.json()).toEqual(await miss.json());
+    expect(upstreamCalls).toBe(1);
+  });
+
+  it("keeps each user's cache separate", async () => {
+    const other = `other${Date.now()}`;
+    await insertUser(database.db, other);
+
+    await chat({ cache: true });
+    const response = await chat({ cache: true }, {}, other);
+
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    expect(upstreamCalls).toBe(2);
+  });
+
+  it('skips the lookup on no-cache and the cache entirely on no-store', async () => {
+    await chat({ cache: true }, { 'Cache-Control': 'no-store' });
+    const afterNoStore = await chat({ cache: true });
+    const noCache = await chat({ cache: true }, { 'Cache-Control': 'no-cache' });
+    const hit = await chat({ cache: true });
+
+    expect(afterNoStore.headers.get('X-Cache')).toBe('MISS');
+    expect(noCache.headers.get('X-Cache')).toBe('MISS');
+    expect(hit.headers.get('X-Cache')).toBe('HIT');
+    expect((await hit.json() as any).choices[0].message.content).toBe('Answer 3');
+    expect(upstreamCalls).toBe(3);
+  });
+
+  it('expires entries after their TTL', async () => {
+    await chat({ cache: { ttl: 60 } });
+    await database.db.prepare("UPDATE response_cache SET expires_at = datetime('now', '-1 second')").run();
+
+    const response = await chat({ cache: { ttl: 60 } });
+
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    expect(upstreamCalls).toBe(2);
+  });
+
+  it('rejects a malformed cache option', async () => {
+    const response = await chat({ cache: { ttl: 0 } });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: { param: 'cache.ttl' } });
+  });
+
+  it('reports the hit rate and the cost hits saved', async () => {
+    await chat({ cache: true });
+    await chat({ cache: true });
+    await chat({ cache: true });
+
+    const response = await app.request('/api/analytics/cache', { headers: await sessionHeaders(userId) }, env);
+
+    expect((await response.json() as any).cache).toMatchObject({ misses: 1, hitRate: '66.67%', savedCost: 0.004 });
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import type { ApiKey } from '../../src/types';
+import {
+  getScopeEndpoint,
+  getApiKeyScopes,
+  parseScopeInput,
+  isModelAllowed,
+  parseIp,
+  isIpAllowed
+} from '../../src/utils/scopes';
+
+function apiKey(columns: Partial<ApiKey>): ApiKey {
+  // getApiKeyScopes only reads the scope columns
+  return {
+    allowed_endpoints: null,
+    allowed_models: null,
+    allowed_providers: null,
+    max_tokens_per_request: null,
+    allowed_cidrs: null,
+    ...columns
+  } as ApiKey;
+}
+
+describe('getScopeEndpoint', () => {
+  it('uses the last segment of /api/ai paths', () => {
+    expect(getScopeEndpoint('/api/ai/chat')).toBe('chat');
+    expect(getScopeEndpoint('/api/ai/stream')).toBe('stream');
+  });
+
+  it('maps compatible /v1 paths to their scope', () => {
+    expect(getScopeEndpoint('/v1/chat/completions')).toBe('chat');
+    expect(getScopeEndpoint('/v1/completions')).toBe('completion');
+    expect(getScopeEndpoint('/v1/embeddings')).toBe('embeddings');
+    expect(getScopeEndpoint('/v1/messages')).toBe('chat');
+    expect(getScopeEndpoint('/v1/models/gpt-4o')).toBe('models');
+  });
+
+  it('puts batch jobs under the chat scope', () => {
+    expect(getScopeEndpoint('/api/ai/batches')).toBe('chat');
+    expect(getScopeEndpoint('/api/ai/batches/12/results')).toBe('chat');
+  });
+});
+
+describe('getApiKeyScopes', () => {
+  it('reads the stored JSON lists and token cap', () => {
+    const scopes = getApiKeyScopes(apiKey({
+      allowed_endpoints: '["chat"]',
+      allowed_models: '["gpt-4o"]',
+      max_tokens_per_request: 500,
+      allowed_cidrs: '["10.0.0.0/8"]'
+    }));
+
+    expect(scopes).toEqual({
+      endpoints: ['chat'],
+      models: ['gpt-4o'],
+      providers: undefined,
+      maxTokens: 500,
+      ipAllowList: ['10.0.0.0/8']
+    });
+  });
+
+  it('treats malformed columns as unrestricted', () => {
+    expect(getApiKeyScopes(apiKey({ allowed_models: 'not json', allowed_providers: '{"a":1}' }))).toEqual({
+      endpoints: undefined,
+      models: undefined,
+      providers: undefined,
+      maxTokens: undefined,
+      ipAllowList: undefined
+    });
+  });
+});
+
+describe('parseScopeInput', () => {
+  it('is unrestricted without input', () => {
+    expect(parseScopeInput(undefined)).toEqual({ scopes: {} });
+  });
+
+  it('trims entries and drops empty lists', () => {
+    expect(parseScopeInput({ endpoints: [' chat '], models: [], maxTokens: 100 })).toEqual({
+      scopes: { endpoints: ['chat'], maxTokens: 100 }
+    });
+  });
+
+  it.each([
+    [[], 'scopes must be an object'],
+    [{ models: 'gpt-4o' }, 'scopes.models must be an array of strings'],
+    [{ providers: ['openai', ' '] }, 'scopes.providers must be an array of strings'],
+    [{ endpoints: ['admin'] }, 'Unknown endpoint scope: admin. Use one of: chat, completion, stream, embeddings, models'],
+    [{ ipAllowList: ['10.0.0.0/33'] }, 'Invalid CIDR range: 10.0.0.0/33'],
+    [{ maxTokens: 1.5 }, 'scopes.maxTokens must be a positive integer'],
+    [{ maxTokens: 0 }, 'scopes.maxTokens must be a positive integer']
+  ])('rejects %j', (input, error) => {
+    expect(parseScopeInput(input)).toEqual({ error });
+  });
+});
+
+describe('isModelAllowed', () => {
+  const model = { model_id: 'gpt-4o', provider: 'openai' };
+
+  it('allows everything without scopes', () => {
+    expect(isModelAllowed(undefined, model)).toBe(true);
+    expect(isModelAllowed({}, model)).toBe(true);
+  });
+
+  it('requires both the model and provider lists to match', () => {
+    expect(isModelAllowed({ models: ['gpt-4o'] }, model)).toBe(true);
+    expect(isModelAllowed({ models: ['claude-3-haiku'] }, model)).toBe(false);
+    expect(isModelAllowed({ providers: ['anthropic'] }, model)).toBe(false);
+    expect(isModelAllowed({ models: ['gpt-4o'], providers: ['anthropic'] }, model)).toBe(false);
+  });
+});
+
+describe('parseIp', () => {
+  it('parses IPv4 and IPv6 addresses', () => {
+    expect(parseIp('192.168.1.1')).toEqual({ version: 4, value: 0xc0a80101n });
+    expect(parseIp('::1')).toEqual({ version: 6, value: 1n });
+    expect(parseIp('2001:db8::')).toEqual({ version: 6, value: 0x20010db8n << 96n });
+  });
+
+  it('parses IPv6 addresses with an embedded IPv4 tail', () => {
+    expect(parseIp('::ffff:192.0.2.1')).toEqual({ version: 6, value: (0xffffn << 32n) | 0xc0000201n });
+  });
+
+  it.each(['256.0.0.1', '1.2.3', '1.2.3.4.5', 'a.b.c.d', '1::2::3', '1:2:3:4:5:6:7', '1:2:3:4:5:6:7:8:9', '12345::', ''])(
+    'rejects %j',
+    ip => {
+      expect(parseIp(ip)).toBeNull();
+    }
+  );
+});
+
+describe('isIpAllowed', () => {
+  it('matches addresses inside IPv4 ranges', () => {
+    expect(isIpAllowed('10.1.2.3', ['10.0.0.0/8'])).toBe(true);
+    expect(isIpAllowed('11.0.0.1', ['10.0.0.0/8'])).toBe(false);
+    expect(isIpAllowed('203.0.113.7', ['192.168.0.0/16', '203.0.113.0/24'])).toBe(true);
+  });
+
+  it('treats a bare address as a single host and /0 as everything', () => {
+    expect(isIpAllowed('192.0.2.1', ['192.0.2.1'])).toBe(true);
+    expect(isIpAllowed('192.0.2.2', ['192.0.2.1'])).toBe(false);
+    expect(isIpAllowed('198.51.100.1', ['0.0.0.0/0'])).toBe(true);
+  });
+
+  it('matches IPv6 ranges and never mixes address families', () => {
+    expect(isIpAllowed('2001:db8::1', ['2001:db8::/32'])).toBe(true);
+    expect(isIpAllowed('2001:db9::1', ['2001:db8::/32'])).toBe(false);
+    expect(isIpAllowed('10.0.0.1', ['::/0'])).toBe(false);
+  });
+
+  it('rejects unparseable addresses and ignores invalid ranges', () => {
+    expect(isIpAllowed('unknown', ['0.0.0.0/0'])).toBe(false);
+    expect(isIpAllowed('10.0.0.1', ['10.0.0.0/40'])).toBe(false);
+  });
+});
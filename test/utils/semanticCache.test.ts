@@ -0,0 +1,217 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AIRequest, AIResponse, Bindings, RoutingTrace } from '../../src/types';
+import { getCachePolicy, readCachedResponse, writeCachedResponse } from '../../src/utils/responseCache';
+import {
+  createHashEmbedder,
+  createProviderEmbedder,
+  cosineSimilarity,
+  getSemanticCacheSettings,
+  SEMANTIC_CACHE_ENDPOINT
+} from '../../src/utils/semanticCache';
+import type { TestDatabase } from '../helpers/d1';
+import { createTestDatabase, insertApiKey, insertModel, insertUser } from '../helpers/d1';
+
+const embedder = createHashEmbedder();
+
+function chat(prompt: string, model = 'gpt-4o-mini'): AIRequest {
+  return { model, messages: [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: prompt }] };
+}
+
+function answer(content: string): AIResponse {
+  return {
+    id: 'chatcmpl-test',
+    model: 'gpt-4o-mini',
+    provider: 'openai',
+    choices: [{ message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+    created: 1767225600
+  };
+}
+
+describe('createHashEmbedder', () => {
+  it('scores rephrasings above unrelated prompts', async () => {
+    const [a, b, c] = await Promise.all([
+      embedder.embed('What is the capital of France?'),
+      embedder.embed('what is the capital of france please'),
+      embedder.embed('Write a haiku about autumn leaves')
+    ]);
+
+    expect(cosineSimilarity(a.embedding, b.embedding)).toBeGreaterThan(0.8);
+    expect(cosineSimilarity(a.embedding, c.embedding)).toBeLessThan(0.3);
+  });
+});
+
+describe('semantic cache', () => {
+  let database: TestDatabase;
+  let env: Bindings;
+  let userId: number;
+  let apiKeyId: number;
+
+  /**
+   * Answer a request from the cache if possible, otherwise store `fresh` as
+   * the upstream response
+   */
+  async function serve(request: AIRequest, threshold: number, fresh: AIResponse, keyId = apiKeyId) {
+    const policy = await getCachePolicy(request, env, undefined, { apiKeyId: keyId, threshold, embedder });
+    const trace: RoutingTrace = { attempts: [] };
+
+    const cached = await readCachedResponse(env.DB, userId, policy!, trace);
+    if (!cached) {
+      Object.assign(trace, { provider: 'openai', model: 'gpt-4o-mini', cost: 0.01 });
+      await writeCachedResponse(env.DB, userId, policy!, fresh, trace);
+    }
+
+    return { response: cached ?? fresh, trace };
+  }
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    env = { DB: database.db } as unknown as Bindings;
+  }, 60000);
+
+  beforeEach(async () => {
+    userId = await insertUser(database.db, `user${Date.now()}${Math.random().toString(36).slice(2)}`);
+    apiKeyId = (await insertApiKey(database.db, userId)).key.id;
+  });
+
+  afterAll(async () => {
+    await database?.dispose();
+  });
+
+  it('serves a similar prompt above the threshold', async () => {
+    await serve(chat('What is the capital of France?'), 0.8, answer('Paris.'));
+
+    const { response, trace } = await serve(chat('what is the capital of france please'), 0.8, answer('unused'));
+
+    expect(response.choices[0].message.content).toBe('Paris.');
+    expect(trace).toMatchObject({ cache: 'semantic_hit', cost: 0, savedCost: 0.01 });
+    expect(trace.cacheSimilarity).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it('misses a prompt below the threshold', async () => {
+    await serve(chat('What is the capital of France?'), 0.99, answer('Paris.'));
+
+    const { response, trace } = await serve(chat('what is the capital of france please'), 0.99, answer('Paris, France.'));
+
+    expect(response.choices[0].message.content).toBe('Paris, France.');
+    expect(trace.cache).toBe('miss');
+  });
+
+  it("doesn't share entries between API keys", async () => {
+    const otherKeyId = (await insertApiKey(database.db, userId)).key.id;
+    await serve(chat('What is the capital of France?'), 0.8, answer('Paris.'));
+
+    const { trace } = await serve(chat('What is the capital of France?'), 0.8, answer('Paris.'), otherKeyId);
+
+    expect(trace.cache).toBe('miss');
+  });
+
+  it("doesn't share entries between models or conversations", async () => {
+    await serve(chat('What is the capital of France?'), 0.8, answer('Paris.'));
+
+    const otherModel = await serve(chat('What is the capital of France?', 'gpt-4o'), 0.8, answer('Paris.'));
+    const otherContext = await serve(
+      { ...chat('What is the capital of France?'), messages: [{ role: 'user', content: 'What is the capital of France?' }] },
+      0.8,
+      answer('Paris.')
+    );
+
+    expect(otherModel.trace.cache).toBe('miss');
+    expect(otherContext.trace.cache).toBe('miss');
+  });
+
+  it('is off for keys without semantic cache settings', async () => {
+    const { key } = await insertApiKey(database.db, userId);
+    const embed = vi.spyOn(embedder, 'embed');
+
+    expect(getSemanticCacheSettings(key)).toBeNull();
+    expect(await getCachePolicy(chat('What is the capital of France?'), env, undefined, null)).toBeNull();
+    expect(embed).not.toHaveBeenCalled();
+  });
+
+  it('skips embedding when the client sends Cache-Control: no-store', async () => {
+    const embed = vi.spyOn(embedder, 'embed');
+
+    const policy = await getCachePolicy(chat('Hi'), env, 'no-store', { apiKeyId, threshold: 0.9, embedder });
+
+    expect(policy).toBeNull();
+    expect(embed).not.toHaveBeenCalled();
+  });
+});
+
+describe('createProviderEmbedder', () => {
+  let database: TestDatabase;
+  let env: Bindings;
+  let userId: number;
+  let apiKeyId: number;
+
+  async function readLogs() {
+    const result = await database.db.prepare('SELECT * FROM request_logs WHERE user_id = ?').bind(userId).all<Record<string, any>>();
+    return result.results;
+  }
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    await insertModel(database.db, {
+      provider: 'openai',
+      model_id: 'text-embedding-3-small',
+      model_type: 'embedding',
+      embedding_dimensions: 3,
+      cost_per_1k_tokens: 0.02
+    });
+    env = { DB: database.db, OPENAI_API_KEY: 'sk-test' } as unknown as Bindings;
+  }, 60000);
+
+  beforeEach(async () => {
+    userId = await insertUser(database.db, `user${Date.now()}${Math.random().toString(36).slice(2)}`);
+    apiKeyId = (await insertApiKey(database.db, userId)).key.id;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await database?.dispose();
+  });
+
+  it('logs and bills each embedding to the key', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({
+      object: 'list',
+      data: [{ object: 'embedding', index: 0, embedding: [3, 0, 4] }],
+      model: 'text-embedding-3-small',
+      usage: { prompt_tokens: 500, total_tokens: 500 }
+    })));
+
+    const result = await createProviderEmbedder(env, { userId, apiKeyId }).embed('What is the capital of France?');
+
+    expect(result).toEqual({ model: 'text-embedding-3-small', embedding: [0.6, 0, 0.8] });
+    expect(await readLogs()).toEqual([expect.objectContaining({
+      api_key_id: apiKeyId,
+      endpoint: SEMANTIC_CACHE_ENDPOINT,
+      model_provider: 'openai',
+      model_name: 'text-embedding-3-small',
+      status_code: 200,
+      total_tokens: 500,
+      cost: 0.01
+    })]);
+
+    const stats = await database.db.prepare('SELECT total_requests, total_cost FROM usage_stats WHERE user_id = ?')
+      .bind(userId).first();
+    expect(stats).toEqual({ total_requests: 1, total_cost: 0.01 });
+  });
+
+  it('logs a failed embedding call', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ error: { message: 'Invalid API key' } }, { status: 401 })));
+
+    await expect(createProviderEmbedder(env, { userId, apiKeyId }).embed('Hi')).rejects.toThrow();
+
+    expect(await readLogs()).toEqual([expect.objectContaining({
+      endpoint: SEMANTIC_CACHE_ENDPOINT,
+      status_code: 502,
+      cost: 0
+    })]);
+  });
+});
@@ -0,0 +1,112 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { AIRequest, AutoRoutingOptions, Bindings } from '../../src/types';
+import { ProviderError } from '../../src/providers';
+import { selectAutoModel } from '../../src/utils/smartRouting';
+import type { TestDatabase } from '../helpers/d1';
+import { createTestDatabase, insertModel } from '../helpers/d1';
+
+function auto(routing: AutoRoutingOptions = {}, fields: Partial<AIRequest> = {}): AIRequest {
+  return { model: 'auto', routing, messages: [{ role: 'user', content: 'Hello' }], ...fields };
+}
+
+describe('selectAutoModel', () => {
+  let database: TestDatabase;
+  let env: Bindings;
+
+  /**
+   * Log `count` recent requests served by a model
+   */
+  async function logRequests(model: string, count: number, fields: { status?: number; latency?: number; cache?: string } = {}) {
+    await database.db.prepare(`
+      WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < ?)
+      INSERT INTO request_logs (endpoint, method, model_name, status_code, request_size, response_size, latency_ms, cache_status)
+      SELECT '/api/ai/chat', 'POST', ?, ?, 0, 0, ?, ? FROM n
+    `).bind(count, model, fields.status ?? 200, fields.latency ?? 500, fields.cache ?? null).run();
+  }
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    env = { DB: database.db } as unknown as Bindings;
+
+    await insertModel(database.db, { provider: 'openai', model_id: 'gpt-4o-mini', routing_tier: 'standard', cost_per_1k_tokens: 0.0006 });
+    await insertModel(database.db, { provider: 'anthropic', model_id: 'claude-3-haiku', routing_tier: 'standard', cost_per_1k_tokens: 0.00075 });
+    await insertModel(database.db, { provider: 'openai', model_id: 'gpt-4o', routing_tier: 'frontier', cost_per_1k_tokens: 0.0125 });
+    await insertModel(database.db, { provider: 'anthropic', model_id: 'claude-3-opus', routing_tier: 'frontier', cost_per_1k_tokens: 0.045 });
+    // Untiered: cheapest of all, but not interchangeable with anything
+    await insertModel(database.db, { provider: 'groq', model_id: 'llama-3-8b', cost_per_1k_tokens: 0.0001 });
+  }, 60000);
+
+  beforeEach(async () => {
+    await database.db.prepare('DELETE FROM request_logs').run();
+  });
+
+  afterAll(async () => {
+    await database?.dispose();
+  });
+
+  it('picks from the default tier and never an untiered model', async () => {
+    const selection = await selectAutoModel(auto({ preference: 'cheapest' }), env, {}, false);
+
+    expect(selection).toMatchObject({ model: 'gpt-4o-mini', tier: 'standard', candidates: 2 });
+    expect(selection.reason).toBe('cheapest: best of 2 eligible standard tier models at $0.0006/1K tokens, no recent traffic');
+  });
+
+  it('picks from the requested tier', async () => {
+    const selection = await selectAutoModel(auto({ tier: 'frontier', preference: 'cheapest' }), env, {}, false);
+
+    expect(selection).toMatchObject({ model: 'gpt-4o', tier: 'frontier', candidates: 2 });
+  });
+
+  it('uses AUTO_ROUTING_DEFAULT_TIER when the request names no tier', async () => {
+    const selection = await selectAutoModel(auto(), { ...env, AUTO_ROUTING_DEFAULT_TIER: 'frontier' }, {}, false);
+
+    expect(selection.tier).toBe('frontier');
+  });
+
+  it('fails when no model in the tier qualifies', async () => {
+    const error = await selectAutoModel(auto({ tier: 'frontier', providers: ['groq'] }), env, {}, false).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error).toMatchObject({ status: 400, code: 'no_eligible_model' });
+  });
+
+  it('prefers the faster model when asked to', async () => {
+    await logRequests('gpt-4o-mini', 20, { latency: 2000 });
+    await logRequests('claude-3-haiku', 20, { latency: 400 });
+
+    expect((await selectAutoModel(auto({ preference: 'fastest' }), env, {}, false)).model).toBe('claude-3-haiku');
+    expect((await selectAutoModel(auto({ preference: 'cheapest' }), env, {}, false)).model).toBe('gpt-4o-mini');
+  });
+
+  it('steers away from a model failing upstream', async () => {
+    await logRequests('gpt-4o-mini', 10, { latency: 400 });
+    await logRequests('gpt-4o-mini', 10, { status: 502 });
+    await logRequests('claude-3-haiku', 20, { latency: 400 });
+
+    const selection = await selectAutoModel(auto({ preference: 'cheapest' }), env, {}, false);
+
+    expect(selection.model).toBe('claude-3-haiku');
+  });
+
+  it("doesn't count client errors against a model", async () => {
+    await logRequests('gpt-4o-mini', 10, { latency: 400 });
+    await logRequests('gpt-4o-mini', 50, { status: 400, latency: 5 });
+    await logRequests('claude-3-haiku', 10, { latency: 400 });
+
+    const selection = await selectAutoModel(auto({ preference: 'cheapest' }), env, {}, false);
+
+    expect(selection.model).toBe('gpt-4o-mini');
+    expect(selection.reason).toContain('0.0% errors over 10 recent requests');
+  });
+
+  it("doesn't count cache hits toward a model's latency", async () => {
+    await logRequests('gpt-4o-mini', 10, { latency: 2000, cache: 'miss' });
+    await logRequests('gpt-4o-mini', 50, { latency: 5, cache: 'hit' });
+    await logRequests('gpt-4o-mini', 50, { latency: 5, cache: 'semantic_hit' });
+    await logRequests('claude-3-haiku', 10, { latency: 400 });
+
+    const selection = await selectAutoModel(auto({ preference: 'fastest' }), env, {}, false);
+
+    expect(selection.model).toBe('claude-3-haiku');
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { AIStreamChunk } from '../../src/types';
+import { parseSSE, parseNDJSON, createChunk, createUsageChunk, toSSEStream } from '../../src/utils/streaming';
+
+const encoder = new TextEncoder();
+
+/**
+ * A byte stream delivering the given pieces as separate chunks
+ */
+function byteStream(...pieces: (string | Uint8Array)[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (const piece of pieces) {
+        controller.enqueue(typeof piece === 'string' ? encoder.encode(piece) : piece);
+      }
+      controller.close();
+    }
+  });
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+async function* fromArray<T>(items: T[]): AsyncGenerator<T> {
+  yield* items;
+}
+
+describe('parseSSE', () => {
+  it('parses events split across chunks', async () => {
+    const events = await collect(parseSSE(byteStream(
+      'event: message_start\ndata: {"a":',
+      '1}\n\ndata: second\r\n\r\n'
+    )));
+
+    expect(events).toEqual([
+      { event: 'message_start', data: '{"a":1}' },
+      { event: undefined, data: 'second' }
+    ]);
+  });
+
+  it('joins multi-line data and flushes a final event without a blank line', async () => {
+    const events = await collect(parseSSE(byteStream('data: one\ndata: two')));
+
+    expect(events).toEqual([{ event: undefined, data: 'one\ntwo' }]);
+  });
+
+  it('decodes multi-byte characters split between chunks', async () => {
+    const bytes = encoder.encode('data: héllo\n\n');
+    const split = bytes.indexOf(0xc3) + 1;
+
+    const events = await collect(parseSSE(byteStream(bytes.slice(0, split), bytes.slice(split))));
+
+    expect(events).toEqual([{ event: undefined, data: 'héllo' }]);
+  });
+});
+
+describe('parseNDJSON', () => {
+  it('parses one JSON value per line, skipping blank lines', async () => {
+    const values = await collect(parseNDJSON(byteStream('{"a":1}\n\n{"b"', ':2}\n')));
+
+    expect(values).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+});
+
+describe('toSSEStream', () => {
+  it('encodes chunks as data frames terminated by [DONE]', async () => {
+    const chunks: AIStreamChunk[] = [
+      createChunk('id', 'gpt-4o', 1, { role: 'assistant', content: 'Hi' }),
+      createUsageChunk('id', 'gpt-4o', 1, { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 })
+    ];
+
+    const text = await new Response(toSSEStream(fromArray(chunks))).text();
+
+    expect(text).toBe(
+      `data: ${JSON.stringify(chunks[0])}\n\n` +
+      `data: ${JSON.stringify(chunks[1])}\n\n` +
+      'data: [DONE]\n\n'
+    );
+  });
+
+  it('ends with an error frame when the source fails mid-stream', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    async function* failing(): AsyncGenerator<AIStreamChunk> {
+      yield createChunk('id', 'gpt-4o', 1, { content: 'partial' });
+      throw new Error('upstream closed');
+    }
+
+    const text = await new Response(toSSEStream(failing())).text();
+    const frames = text.trim().split('\n\n');
+
+    expect(frames).toHaveLength(2);
+    expect(frames[1]).toBe(`data: ${JSON.stringify({ error: { message: 'upstream closed' } })}`);
+  });
+});
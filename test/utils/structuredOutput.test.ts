@@ -0,0 +1,150 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import app from '../../src/index';
+import type { AIRequest, AIResponse, Bindings, ResponseFormat } from '../../src/types';
+import { ProviderError } from '../../src/providers';
+import { checkStructuredOutput, enforceResponseFormat } from '../../src/utils/structuredOutput';
+import type { TestDatabase } from '../helpers/d1';
+import { createTestDatabase, insertModel, insertUser } from '../helpers/d1';
+
+function response(content: string | null, tokens = 10): AIResponse {
+  return {
+    id: 'resp',
+    model: 'gpt-4o',
+    choices: [{ message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: tokens, completion_tokens: tokens, total_tokens: tokens * 2 }
+  };
+}
+
+const schemaFormat: ResponseFormat = {
+  type: 'json_schema',
+  json_schema: {
+    name: 'answer',
+    schema: { type: 'object', properties: { answer: { type: 'number' } }, required: ['answer'] }
+  }
+};
+
+const request: AIRequest = {
+  model: 'gpt-4o',
+  messages: [{ role: 'user', content: 'What is 6 * 7?' }],
+  response_format: schemaFormat
+};
+
+describe('checkStructuredOutput', () => {
+  it('extracts JSON from code fences and surrounding text', () => {
+    expect(checkStructuredOutput(response('```json\n{"answer": 42}\n```'), schemaFormat)).toEqual({ content: '{"answer": 42}' });
+    expect(checkStructuredOutput(response('Sure! {"answer": 42} Hope that helps.'), schemaFormat)).toEqual({
+      content: '{"answer": 42}'
+    });
+  });
+
+  it('reports invalid JSON and schema violations', () => {
+    expect(checkStructuredOutput(response('forty-two'), schemaFormat)).toEqual({ errors: ['the response is not valid JSON'] });
+    expect(checkStructuredOutput(response('{"answer": "42"}'), schemaFormat)).toEqual({
+      errors: ['$.answer: expected number, got string']
+    });
+  });
+
+  it('requires an object for json_object', () => {
+    expect(checkStructuredOutput(response('[1, 2]'), { type: 'json_object' })).toEqual({
+      errors: ['the response must be a JSON object']
+    });
+  });
+
+  it('does not check responses that call tools', () => {
+    const toolCall = response(null);
+    toolCall.choices[0].message.tool_calls = [{ id: 'call_1', type: 'function', function: { name: 'f', arguments: '{}' } }];
+
+    expect(checkStructuredOutput(toolCall, schemaFormat)).toEqual({ content: '' });
+  });
+});
+
+describe('enforceResponseFormat', () => {
+  it('returns valid output as bare JSON without resending', async () => {
+    const resend = vi.fn();
+
+    const result = await enforceResponseFormat(request, schemaFormat, response('```{"answer": 42}```'), resend, 1, 'openai');
+
+    expect(result.choices[0].message.content).toBe('{"answer": 42}');
+    expect(resend).not.toHaveBeenCalled();
+  });
+
+  it('asks the model to repair invalid output and adds up usage', async () => {
+    const resend = vi.fn(async () => response('{"answer": 42}', 5));
+
+    const result = await enforceResponseFormat(request, schemaFormat, response('{"answer": "42"}'), resend, 1, 'openai');
+
+    expect(result.choices[0].message.content).toBe('{"answer": 42}');
+    expect(result.usage).toEqual({ prompt_tokens: 15, completion_tokens: 15, total_tokens: 30 });
+    expect(resend).toHaveBeenCalledWith({
+      ...request,
+      messages: [
+        ...request.messages,
+        { role: 'assistant', content: '{"answer": "42"}' },
+        {
+          role: 'user',
+          content: 'Your previous response was invalid: $.answer: expected number, got string. Reply with only the corrected JSON.'
+        }
+      ]
+    });
+  });
+
+  it('fails with invalid_structured_output once repairs run out', async () => {
+    const resend = vi.fn(async () => response('still not JSON'));
+
+    const error = await enforceResponseFormat(request, schemaFormat, response('nope'), resend, 2, 'openai')
+      .catch(error => error);
+
+    expect(resend).toHaveBeenCalledTimes(2);
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.code).toBe('invalid_structured_output');
+    expect(error.message).toBe(
+      'Model output does not match response_format after 2 repair attempt(s): the response is not valid JSON'
+    );
+  });
+});
+
+describe('structured output billing', () => {
+  let database: TestDatabase;
+  let env: Bindings;
+  let userId: number;
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    await insertModel(database.db, { provider: 'openai', model_id: 'gpt-4o', cost_per_1k_tokens: 0.01 });
+    userId = await insertUser(database.db, 'structured');
+    env = { DB: database.db, OPENAI_API_KEY: 'sk-test', STRUCTURED_OUTPUT_MAX_REPAIRS: '1' } as unknown as Bindings;
+  }, 60000);
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await database?.dispose();
+  });
+
+  it('bills every attempt when the output never matches', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({
+      id: 'chatcmpl-1',
+      model: 'gpt-4o',
+      choices: [{ index: 0, message: { role: 'assistant', content: 'forty-two' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 }
+    })));
+
+    const response = await app.request('/api/ai/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-API-Key': 'apk_structured' },
+      body: JSON.stringify({ ...request, response_format: schemaFormat })
+    }, env);
+
+    expect(response.status).toBe(502);
+    const log = await database.db.prepare(`
+      SELECT total_tokens, cost FROM request_logs WHERE user_id = ?
+    `).bind(userId).first<{ total_tokens: number; cost: number }>();
+    expect(log!.total_tokens).toBe(300);
+    expect(log!.cost).toBeCloseTo(0.003, 10);
+  });
+});
@@ -0,0 +1,150 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import app from '../../src/index';
+import type { Bindings } from '../../src/types';
+import { validateChatRequest, validateCompletionRequest } from '../../src/utils/validation';
+import type { TestDatabase } from '../helpers/d1';
+import { createTestDatabase, insertModel, insertUser } from '../helpers/d1';
+
+let database: TestDatabase;
+
+const messages = [{ role: 'user', content: 'Hi' }];
+
+beforeAll(async () => {
+  database = await createTestDatabase();
+  await insertModel(database.db, { provider: 'openai', model_id: 'gpt-4o', max_output_tokens: 16384 });
+  await insertModel(database.db, { provider: 'anthropic', model_id: 'claude-3-haiku', max_tokens: 4096 });
+  await insertModel(database.db, { provider: 'openai', model_id: 'gpt-3.5-turbo', is_active: 0 });
+}, 60000);
+
+afterAll(async () => {
+  await database?.dispose();
+});
+
+describe('request validation', () => {
+  it('accepts a well-formed chat request', async () => {
+    const result = await validateChatRequest(database.db, { model: 'gpt-4o', messages, temperature: 0, max_tokens: 100 });
+
+    expect(result).toEqual({ value: expect.objectContaining({ model: 'gpt-4o', messages, temperature: 0, max_tokens: 100 }) });
+  });
+
+  it('rejects unknown and inactive models with model_not_found', async () => {
+    for (const model of ['gpt-5', 'gpt-3.5-turbo']) {
+      expect(await validateChatRequest(database.db, { model, messages })).toEqual({
+        error: {
+          error: {
+            message: `The model '${model}' does not exist or is not active`,
+            type: 'invalid_request_error',
+            param: 'model',
+            code: 'model_not_found'
+          }
+        }
+      });
+    }
+  });
+
+  it('points at the offending message', async () => {
+    const empty = await validateChatRequest(database.db, { model: 'gpt-4o', messages: [] });
+    const badRole = await validateChatRequest(database.db, { model: 'gpt-4o', messages: [...messages, { role: 'bot', content: 'Hi' }] });
+    const badContent = await validateChatRequest(database.db, { model: 'gpt-4o', messages: [{ role: 'user', content: 42 }] });
+
+    expect(empty).toMatchObject({ error: { error: { param: 'messages' } } });
+    expect(badRole).toMatchObject({ error: { error: { param: 'messages[1].role' } } });
+    expect(badContent).toMatchObject({ error: { error: { param: 'messages[0].content' } } });
+  });
+
+  it("checks temperature against the provider's range", async () => {
+    const openai = await validateChatRequest(database.db, { model: 'gpt-4o', messages, temperature: 1.5 });
+    const anthropic = await validateChatRequest(database.db, { model: 'claude-3-haiku', messages, temperature: 1.5 });
+
+    expect(openai).toHaveProperty('value');
+    expect(anthropic).toMatchObject({
+      error: { error: { message: "'temperature' must be a number between 0 and 1 for claude-3-haiku", param: 'temperature' } }
+    });
+  });
+
+  it("caps max_tokens at the model's output limit, falling back to its context window", async () => {
+    const output = await validateChatRequest(database.db, { model: 'gpt-4o', messages, max_tokens: 20000 });
+    const context = await validateChatRequest(database.db, { model: 'claude-3-haiku', messages, max_tokens: 5000 });
+    const fraction = await validateChatRequest(database.db, { model: 'gpt-4o', messages, max_tokens: 1.5 });
+
+    expect(output).toMatchObject({
+      error: { error: { message: "'max_tokens' is too large: 20000. gpt-4o supports at most 16384 completion tokens." } }
+    });
+    expect(context).toMatchObject({ error: { error: { param: 'max_tokens' } } });
+    expect(fraction).toMatchObject({ error: { error: { message: "'max_tokens' must be a positive integer" } } });
+  });
+
+  it('turns a completion prompt into a chat request', async () => {
+    const result = await validateCompletionRequest(database.db, { model: 'gpt-4o', prompt: 'Say hi', max_tokens: 10 });
+    const missing = await validateCompletionRequest(database.db, { model: 'gpt-4o', prompt: '' });
+
+    expect(result).toEqual({
+      value: expect.objectContaining({ model: 'gpt-4o', messages: [{ role: 'user', content: 'Say hi' }], max_tokens: 10 })
+    });
+    expect(missing).toMatchObject({ error: { error: { param: 'prompt' } } });
+  });
+
+  it('answers invalid requests with a 400 before calling a provider', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await insertUser(database.db, 'validation');
+    const env = { DB: database.db } as unknown as Bindings;
+
+    const response = await app.request('/api/ai/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-API-Key': 'apk_validation' },
+      body: JSON.stringify({ model: 'gpt-5', messages })
+    }, env);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: { type: 'invalid_request_error', code: 'model_not_found' } });
+  });
+});
+
+describe('tool validation', () => {
+  const tool = { type: 'function', function: { name: 'get_weather', parameters: { type: 'object' } } };
+
+  function validate(body: Record<string, unknown>) {
+    return validateChatRequest(database.db, { model: 'gpt-4o-tools', messages, ...body });
+  }
+
+  beforeAll(async () => {
+    await insertModel(database.db, { provider: 'openai', model_id: 'gpt-4o-tools', supports_tools: 1 });
+  });
+
+  it('accepts tools, a named tool_choice and a tool round trip', async () => {
+    const result = await validate({
+      tools: [tool],
+      tool_choice: { type: 'function', function: { name: 'get_weather' } },
+      messages: [
+        ...messages,
+        { role: 'assistant', content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{}' } }] },
+        { role: 'tool', tool_call_id: 'call_1', content: 'Sunny' }
+      ]
+    });
+
+    expect(result).toHaveProperty('value');
+  });
+
+  it('rejects malformed tools and tool_choice', async () => {
+    expect(await validate({ tools: [{ ...tool, function: { name: 'get weather' } }] }))
+      .toMatchObject({ error: { error: { param: 'tools[0].function.name' } } });
+    expect(await validate({ tools: [tool, tool] }))
+      .toMatchObject({ error: { error: { message: 'Duplicate tool name: get_weather' } } });
+    expect(await validate({ tools: [tool], tool_choice: { type: 'function', function: { name: 'search' } } }))
+      .toMatchObject({ error: { error: { message: "'tool_choice' names an unknown tool: search" } } });
+    expect(await validate({ tool_choice: 'auto' }))
+      .toMatchObject({ error: { error: { message: "'tool_choice' is only allowed when 'tools' are specified" } } });
+  });
+
+  it('requires tool_call_id on tool messages', async () => {
+    const result = await validate({ messages: [...messages, { role: 'tool', content: 'Sunny' }] });
+
+    expect(result).toMatchObject({ error: { error: { param: 'messages[1].tool_call_id' } } });
+  });
+
+  it("rejects tools for models that don't support them", async () => {
+    const result = await validateChatRequest(database.db, { model: 'gpt-4o', messages, tools: [tool] });
+
+    expect(result).toMatchObject({ error: { error: { message: 'gpt-4o does not support tool calling', param: 'tools' } } });
+  });
+});